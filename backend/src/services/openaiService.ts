@@ -122,6 +122,43 @@ export const generateArticle = async (
   }
 };
 
+const SEARCH_INTENTS = ['informational', 'commercial', 'transactional', 'navigational'] as const;
+type SearchIntent = typeof SEARCH_INTENTS[number];
+
+// Modifiers that signal intent when the model leaves a keyword unlabelled
+const INTENT_MODIFIERS: Array<[SearchIntent, RegExp]> = [
+  ['transactional', /\b(buy|purchase|order|price|pricing|cost|cheap|discount|coupon|deal|for sale|free trial|near me)\b/i],
+  ['commercial', /\b(best|top|vs|versus|review|reviews|compare|comparison|alternatives?)\b/i],
+  ['navigational', /\b(login|log in|sign in|official|website)\b/i],
+];
+
+const keywordIntent = (keyword: { keyword?: string; intent?: string }): SearchIntent => {
+  const label = String(keyword.intent || '').toLowerCase();
+  const labelled = SEARCH_INTENTS.find(intent => label.startsWith(intent.slice(0, 4)));
+  if (labelled) {
+    return labelled;
+  }
+  const text = String(keyword.keyword || '');
+  return INTENT_MODIFIERS.find(([, pattern]) => pattern.test(text))?.[0] || 'informational';
+};
+
+/**
+ * Percentage of keywords per search intent, from the keywords' own labels
+ */
+const intentDistribution = (keywords: Array<{ keyword?: string; intent?: string }>) => {
+  const counts = { informational: 0, transactional: 0, navigational: 0, commercial: 0 };
+  keywords.forEach(keyword => {
+    counts[keywordIntent(keyword)] += 1;
+  });
+  const total = keywords.length || 1;
+  return {
+    informational: Math.round((counts.informational / total) * 100),
+    transactional: Math.round((counts.transactional / total) * 100),
+    navigational: Math.round((counts.navigational / total) * 100),
+    commercial: Math.round((counts.commercial / total) * 100),
+  };
+};
+
 /**
  * Research keywords related to a main keyword
  */
@@ -141,7 +178,7 @@ export const researchKeywords = async (
 
     // Create prompt for keyword research
     const prompt = `Generate a list of ${limit} SEO keyword ideas related to "${query}" for the country ${country} and language ${language}. 
-    For each keyword, provide an estimated monthly search volume, keyword difficulty score (0-100), cost per click (CPC) in USD, and whether it's primarily informational, transactional, or navigational.
+    For each keyword, provide an estimated monthly search volume, keyword difficulty score (0-100), cost per click (CPC) in USD, and its search intent (informational, commercial, transactional or navigational).
     Format your response as JSON only.`;
 
     // Call OpenAI API
@@ -167,13 +204,11 @@ export const researchKeywords = async (
     // Normalize and format the response
     return {
       mainKeyword: query,
-      relatedKeywords: keywordData.keywords || [],
-      searchIntent: keywordData.searchIntent || {
-        informational: 60,
-        transactional: 20,
-        navigational: 10,
-        commercial: 10,
-      },
+      relatedKeywords: (keywordData.keywords || []).map((keyword: { keyword?: string; intent?: string }) => ({
+        ...keyword,
+        intent: keywordIntent(keyword),
+      })),
+      searchIntent: intentDistribution(keywordData.keywords || []),
       competitorKeywords: keywordData.competitorKeywords || [],
     };
   } catch (error) {
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "GenerationUsage" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "topic" TEXT NOT NULL,
+    "wordCount" INTEGER NOT NULL DEFAULT 0,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "GenerationUsage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "GenerationUsage_userId_createdAt_idx" ON "GenerationUsage"("userId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "GenerationUsage" ADD CONSTRAINT "GenerationUsage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "VoiceProfile" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "topKeywords" JSONB NOT NULL,
+    "averageWordCount" INTEGER NOT NULL DEFAULT 0,
+    "sampleHeadings" JSONB NOT NULL,
+    "analyzedUrls" JSONB NOT NULL,
+    "metrics" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "VoiceProfile_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "VoiceProfile_userId_name_key" ON "VoiceProfile"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "VoiceProfile" ADD CONSTRAINT "VoiceProfile_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
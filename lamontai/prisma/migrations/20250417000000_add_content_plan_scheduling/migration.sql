@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN     "targetAudiences" JSONB;
+
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN     "intent" TEXT,
+ADD COLUMN     "scheduledFor" TIMESTAMP(3),
+ADD COLUMN     "targetKeyword" TEXT;
+
+-- CreateIndex
+CREATE INDEX "Article_userId_scheduledFor_idx" ON "Article"("userId", "scheduledFor");
@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN     "readabilityScore" INTEGER,
+ADD COLUMN     "seoScore" INTEGER,
+ADD COLUMN     "wordCount" INTEGER NOT NULL DEFAULT 0;
@@ -0,0 +1,48 @@
+-- CreateTable
+CREATE TABLE "KeywordList" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "KeywordList_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Keyword" (
+    "id" TEXT NOT NULL,
+    "listId" TEXT NOT NULL,
+    "keyword" TEXT NOT NULL,
+    "volume" INTEGER,
+    "difficulty" INTEGER,
+    "cpc" DOUBLE PRECISION,
+    "intent" TEXT,
+    "source" TEXT NOT NULL,
+    "clicks" INTEGER,
+    "impressions" INTEGER,
+    "position" DOUBLE PRECISION,
+    "country" TEXT,
+    "language" TEXT,
+    "fetchedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Keyword_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "KeywordList_userId_name_key" ON "KeywordList"("userId", "name");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Keyword_listId_keyword_key" ON "Keyword"("listId", "keyword");
+
+-- CreateIndex
+CREATE INDEX "Keyword_listId_volume_idx" ON "Keyword"("listId", "volume");
+
+-- AddForeignKey
+ALTER TABLE "KeywordList" ADD CONSTRAINT "KeywordList_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Keyword" ADD CONSTRAINT "Keyword_listId_fkey" FOREIGN KEY ("listId") REFERENCES "KeywordList"("id") ON DELETE CASCADE ON UPDATE CASCADE;
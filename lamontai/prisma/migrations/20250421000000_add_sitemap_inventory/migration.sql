@@ -0,0 +1,77 @@
+-- CreateTable
+CREATE TABLE "Sitemap" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "parentUrl" TEXT,
+    "isIndex" BOOLEAN NOT NULL DEFAULT false,
+    "etag" TEXT,
+    "lastModified" TEXT,
+    "urlCount" INTEGER NOT NULL DEFAULT 0,
+    "status" TEXT NOT NULL DEFAULT 'ok',
+    "error" TEXT,
+    "lastFetchedAt" TIMESTAMP(3),
+    "lastChangedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Sitemap_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SitePage" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "sitemapId" TEXT,
+    "url" TEXT NOT NULL,
+    "lastmod" TIMESTAMP(3),
+    "changefreq" TEXT,
+    "priority" DOUBLE PRECISION,
+    "firstSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lastSeenAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "removedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SitePage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SitePageChange" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "pageId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "details" JSONB,
+    "detectedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SitePageChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Sitemap_userId_url_key" ON "Sitemap"("userId", "url");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SitePage_userId_url_key" ON "SitePage"("userId", "url");
+
+-- CreateIndex
+CREATE INDEX "SitePage_userId_removedAt_idx" ON "SitePage"("userId", "removedAt");
+
+-- CreateIndex
+CREATE INDEX "SitePageChange_userId_detectedAt_idx" ON "SitePageChange"("userId", "detectedAt");
+
+-- AddForeignKey
+ALTER TABLE "Sitemap" ADD CONSTRAINT "Sitemap_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SitePage" ADD CONSTRAINT "SitePage_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SitePage" ADD CONSTRAINT "SitePage_sitemapId_fkey" FOREIGN KEY ("sitemapId") REFERENCES "Sitemap"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SitePageChange" ADD CONSTRAINT "SitePageChange_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SitePageChange" ADD CONSTRAINT "SitePageChange_pageId_fkey" FOREIGN KEY ("pageId") REFERENCES "SitePage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
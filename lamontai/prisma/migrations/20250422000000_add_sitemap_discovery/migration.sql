@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Sitemap" ADD COLUMN     "format" TEXT NOT NULL DEFAULT 'xml',
+ADD COLUMN     "depth" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "SitePage" ADD COLUMN     "extensions" JSONB;
@@ -0,0 +1,30 @@
+-- CreateTable
+CREATE TABLE "SitePageContent" (
+    "id" TEXT NOT NULL,
+    "pageId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "title" TEXT NOT NULL DEFAULT '',
+    "description" TEXT NOT NULL DEFAULT '',
+    "headings" JSONB NOT NULL,
+    "terms" JSONB NOT NULL,
+    "length" INTEGER NOT NULL DEFAULT 0,
+    "embedding" JSONB,
+    "embeddingModel" TEXT,
+    "status" TEXT NOT NULL DEFAULT 'ok',
+    "error" TEXT,
+    "indexedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SitePageContent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SitePageContent_pageId_key" ON "SitePageContent"("pageId");
+
+-- CreateIndex
+CREATE INDEX "SitePageContent_userId_idx" ON "SitePageContent"("userId");
+
+-- AddForeignKey
+ALTER TABLE "SitePageContent" ADD CONSTRAINT "SitePageContent_pageId_fkey" FOREIGN KEY ("pageId") REFERENCES "SitePage"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SitePageContent" ADD CONSTRAINT "SitePageContent_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
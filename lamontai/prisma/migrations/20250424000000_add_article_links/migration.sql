@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "ArticleLink" (
+    "id" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "anchorText" TEXT NOT NULL,
+    "paragraphIndex" INTEGER NOT NULL,
+    "score" DOUBLE PRECISION NOT NULL,
+    "reasons" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "decidedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ArticleLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ArticleLink_articleId_status_idx" ON "ArticleLink"("articleId", "status");
+
+-- AddForeignKey
+ALTER TABLE "ArticleLink" ADD CONSTRAINT "ArticleLink_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,72 @@
+-- CreateTable
+CREATE TABLE "SiteCrawl" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "homepage" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "pagesCrawled" INTEGER NOT NULL DEFAULT 0,
+    "pagesFailed" INTEGER NOT NULL DEFAULT 0,
+    "pagesBlocked" INTEGER NOT NULL DEFAULT 0,
+    "linkCount" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "SiteCrawl_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SiteCrawlPage" (
+    "id" TEXT NOT NULL,
+    "crawlId" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+    "httpStatus" INTEGER,
+    "title" TEXT,
+    "inSitemap" BOOLEAN NOT NULL DEFAULT false,
+    "inbound" INTEGER NOT NULL DEFAULT 0,
+    "outbound" INTEGER NOT NULL DEFAULT 0,
+    "depth" INTEGER,
+    "pageRank" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "authority" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "orphan" BOOLEAN NOT NULL DEFAULT false,
+
+    CONSTRAINT "SiteCrawlPage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SiteLink" (
+    "id" TEXT NOT NULL,
+    "crawlId" TEXT NOT NULL,
+    "sourceUrl" TEXT NOT NULL,
+    "targetUrl" TEXT NOT NULL,
+    "anchorText" TEXT NOT NULL DEFAULT '',
+    "nofollow" BOOLEAN NOT NULL DEFAULT false,
+    "count" INTEGER NOT NULL DEFAULT 1,
+
+    CONSTRAINT "SiteLink_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SiteCrawl_userId_startedAt_idx" ON "SiteCrawl"("userId", "startedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SiteCrawlPage_crawlId_url_key" ON "SiteCrawlPage"("crawlId", "url");
+
+-- CreateIndex
+CREATE INDEX "SiteCrawlPage_crawlId_authority_idx" ON "SiteCrawlPage"("crawlId", "authority");
+
+-- CreateIndex
+CREATE INDEX "SiteLink_crawlId_sourceUrl_idx" ON "SiteLink"("crawlId", "sourceUrl");
+
+-- CreateIndex
+CREATE INDEX "SiteLink_crawlId_targetUrl_idx" ON "SiteLink"("crawlId", "targetUrl");
+
+-- AddForeignKey
+ALTER TABLE "SiteCrawl" ADD CONSTRAINT "SiteCrawl_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SiteCrawlPage" ADD CONSTRAINT "SiteCrawlPage_crawlId_fkey" FOREIGN KEY ("crawlId") REFERENCES "SiteCrawl"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SiteLink" ADD CONSTRAINT "SiteLink_crawlId_fkey" FOREIGN KEY ("crawlId") REFERENCES "SiteCrawl"("id") ON DELETE CASCADE ON UPDATE CASCADE;
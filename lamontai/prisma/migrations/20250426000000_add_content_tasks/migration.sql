@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ContentTask" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'open',
+    "url" TEXT,
+    "title" TEXT NOT NULL,
+    "keyword" TEXT,
+    "brief" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ContentTask_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ContentTask_userId_status_idx" ON "ContentTask"("userId", "status");
+
+-- CreateIndex
+CREATE INDEX "ContentTask_userId_type_url_idx" ON "ContentTask"("userId", "type", "url");
+
+-- AddForeignKey
+ALTER TABLE "ContentTask" ADD CONSTRAINT "ContentTask_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
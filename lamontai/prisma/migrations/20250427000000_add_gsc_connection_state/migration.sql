@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN     "googleSearchConsoleBrokenAt" TIMESTAMP(3),
+ADD COLUMN     "googleSearchConsoleError" TEXT;
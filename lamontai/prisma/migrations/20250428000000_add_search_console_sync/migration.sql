@@ -0,0 +1,55 @@
+-- AlterTable
+ALTER TABLE "Settings" ADD COLUMN     "googleSearchConsoleProperty" TEXT;
+
+-- CreateTable
+CREATE TABLE "SearchConsoleRow" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "property" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "query" TEXT NOT NULL,
+    "page" TEXT NOT NULL,
+    "country" TEXT NOT NULL,
+    "device" TEXT NOT NULL,
+    "clicks" INTEGER NOT NULL,
+    "impressions" INTEGER NOT NULL,
+    "position" DOUBLE PRECISION NOT NULL,
+
+    CONSTRAINT "SearchConsoleRow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SearchConsoleSync" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "property" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "syncedFrom" DATE,
+    "syncedThrough" DATE,
+    "rowCount" INTEGER NOT NULL DEFAULT 0,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "SearchConsoleSync_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SearchConsoleRow_userId_property_date_idx" ON "SearchConsoleRow"("userId", "property", "date");
+
+-- CreateIndex
+CREATE INDEX "SearchConsoleRow_userId_page_date_idx" ON "SearchConsoleRow"("userId", "page", "date");
+
+-- CreateIndex
+CREATE INDEX "SearchConsoleRow_userId_query_date_idx" ON "SearchConsoleRow"("userId", "query", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SearchConsoleSync_userId_key" ON "SearchConsoleSync"("userId");
+
+-- AddForeignKey
+ALTER TABLE "SearchConsoleRow" ADD CONSTRAINT "SearchConsoleRow_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SearchConsoleSync" ADD CONSTRAINT "SearchConsoleSync_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateTable
+CREATE TABLE "SnippetChange" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "articleId" TEXT,
+    "url" TEXT,
+    "keyword" TEXT,
+    "title" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "previousTitle" TEXT,
+    "previousDescription" TEXT,
+    "score" INTEGER NOT NULL,
+    "baseline" JSONB,
+    "appliedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "SnippetChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "SnippetChange_userId_appliedAt_idx" ON "SnippetChange"("userId", "appliedAt");
+
+-- CreateIndex
+CREATE INDEX "SnippetChange_userId_url_idx" ON "SnippetChange"("userId", "url");
+
+-- CreateIndex
+CREATE INDEX "SnippetChange_articleId_idx" ON "SnippetChange"("articleId");
+
+-- AddForeignKey
+ALTER TABLE "SnippetChange" ADD CONSTRAINT "SnippetChange_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SnippetChange" ADD CONSTRAINT "SnippetChange_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article"("id") ON DELETE SET NULL ON UPDATE CASCADE;
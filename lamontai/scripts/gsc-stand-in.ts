@@ -0,0 +1,266 @@
+/**
+ * Local stand-in for the Google APIs the Search Console features call: the
+ * OAuth token and revoke endpoints, the property list and Search Analytics
+ * queries. Data is generated from a hash of each day, page, query, country
+ * and device, so every run returns the same numbers.
+ *
+ * Point the app at it with GOOGLE_API_URL and GOOGLE_OAUTH_URL set to
+ * http://localhost:<port>. With --connect, a user gets stand-in tokens so
+ * they can choose a property and sync without signing in to Google.
+ *
+ * Usage:
+ *   npm run gsc:stand-in [-- --port 8787] [-- --connect <userId>]
+ *
+ * The refresh token "stand-in-revoked" is refused with invalid_grant, and
+ * access tokens not issued by the stand-in get a 401, to exercise the
+ * broken-connection and renewal paths.
+ */
+
+import http from 'http';
+
+interface Row {
+  keys: string[];
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+}
+
+type Dimension = 'date' | 'query' | 'page' | 'country' | 'device';
+
+interface Query {
+  startDate: string;
+  endDate: string;
+  dimensions?: Dimension[];
+  dimensionFilterGroups?: Array<{ filters?: Array<Record<string, string>> }>;
+  rowLimit?: number;
+  startRow?: number;
+}
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+};
+
+const PORT = parseInt(option('port') || process.env.GSC_STAND_IN_PORT || '8787', 10);
+const SITE = process.env.GSC_STAND_IN_SITE || 'example.com';
+const ORIGIN = `https://www.${SITE}`;
+// The stand-in site has had search traffic for this many days
+const HISTORY_DAYS = 400;
+const DATA_DELAY_DAYS = 2;
+const PAGE_SIZE = 25000;
+
+const PROPERTIES = [
+  { siteUrl: `${ORIGIN}/`, permissionLevel: 'siteOwner' },
+  { siteUrl: `sc-domain:${SITE}`, permissionLevel: 'siteFullUser' },
+  { siteUrl: `https://shop.${SITE}/`, permissionLevel: 'siteUnverifiedUser' },
+  { siteUrl: 'https://another-site.test/', permissionLevel: 'siteRestrictedUser' },
+];
+
+const PAGES: Record<string, string[]> = {
+  '/': [SITE.split('.')[0], `${SITE.split('.')[0]} reviews`],
+  '/blog/seo-basics': ['seo basics', 'what is seo', 'seo for beginners'],
+  '/blog/keyword-research': ['keyword research', 'how to do keyword research', 'keyword research tools'],
+  '/blog/internal-linking': ['internal linking', 'internal links seo', 'internal linking strategy'],
+  '/blog/content-calendar': ['content calendar template', 'content calendar'],
+  '/pricing': [`${SITE.split('.')[0]} pricing`, 'seo tool pricing'],
+};
+const COUNTRIES = ['usa', 'gbr', 'deu'];
+const DEVICES = ['DESKTOP', 'MOBILE', 'TABLET'];
+
+let issued = 0;
+
+// FNV-1a, scaled to [0, 1)
+function hash(value: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0) / 0x100000000;
+}
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+function dayOffset(days: number): Date {
+  const date = new Date();
+  date.setUTCHours(0, 0, 0, 0);
+  date.setUTCDate(date.getUTCDate() - days);
+  return date;
+}
+
+/**
+ * Every row with impressions for one day, at full detail
+ */
+function rowsForDay(date: string): Row[] {
+  const rows: Row[] = [];
+  for (const [path, queries] of Object.entries(PAGES)) {
+    queries.forEach((query, rank) => {
+      for (const country of COUNTRIES) {
+        for (const device of DEVICES) {
+          const seed = `${date}|${path}|${query}|${country}|${device}`;
+          const impressions = Math.floor(hash(seed) * 60 / (rank + 1));
+          if (impressions === 0) continue;
+          // Each query keeps roughly the same position from day to day
+          const position = Math.round((1 + hash(`${path}|${query}`) * 25 + hash(`p|${seed}`) * 3) * 10) / 10;
+          const clicks = Math.floor(impressions * 0.3 / position);
+          rows.push({ keys: [date, query, `${ORIGIN}${path}`, country, device], clicks, impressions, ctr: 0, position });
+        }
+      }
+    });
+  }
+  return rows;
+}
+
+const ALL_DIMENSIONS: Dimension[] = ['date', 'query', 'page', 'country', 'device'];
+
+function matches(row: Row, filter: Record<string, string>): boolean {
+  const value = row.keys[ALL_DIMENSIONS.indexOf(filter.dimension as Dimension)] ?? '';
+  const expression = filter.expression ?? '';
+  switch (filter.operator || 'equals') {
+    case 'contains':
+      return value.includes(expression);
+    case 'notContains':
+      return !value.includes(expression);
+    case 'notEquals':
+      return value !== expression;
+    default:
+      return value === expression;
+  }
+}
+
+/**
+ * Answer a Search Analytics query the way Google does: rows grouped by the
+ * requested dimensions, most clicks first, a page at a time
+ */
+function searchAnalytics(property: string, body: Query): Row[] {
+  const first = dayOffset(HISTORY_DAYS);
+  const last = dayOffset(DATA_DELAY_DAYS);
+  const start = new Date(`${body.startDate}T00:00:00Z`);
+  const end = new Date(`${body.endDate}T00:00:00Z`);
+  const dimensions = body.dimensions || [];
+  const filters = (body.dimensionFilterGroups || []).flatMap(group => group.filters || []);
+
+  const groups = new Map<string, Row>();
+  for (let day = start > first ? start : first; day <= end && day <= last; day = new Date(day.getTime() + 86400000)) {
+    for (const row of rowsForDay(isoDate(day))) {
+      if (!property.startsWith('sc-domain:') && !row.keys[2].startsWith(property)) continue;
+      if (!filters.every(filter => matches(row, filter))) continue;
+
+      const keys = dimensions.map(dimension => row.keys[ALL_DIMENSIONS.indexOf(dimension)]);
+      const key = keys.join('\u0000');
+      const group = groups.get(key) || { keys, clicks: 0, impressions: 0, ctr: 0, position: 0 };
+      group.clicks += row.clicks;
+      // Position is averaged over impressions
+      group.position += row.position * row.impressions;
+      group.impressions += row.impressions;
+      groups.set(key, group);
+    }
+  }
+
+  const rows = Array.from(groups.values()).map(row => ({
+    ...row,
+    ctr: row.impressions ? row.clicks / row.impressions : 0,
+    position: row.impressions ? Math.round((row.position / row.impressions) * 100) / 100 : 0,
+  }));
+  rows.sort((a, b) => b.clicks - a.clicks || b.impressions - a.impressions || a.keys.join().localeCompare(b.keys.join()));
+
+  const startRow = body.startRow || 0;
+  return rows.slice(startRow, startRow + Math.min(body.rowLimit || 1000, PAGE_SIZE));
+}
+
+function send(response: http.ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+async function readBody(request: http.IncomingMessage): Promise<string> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+function token(params: URLSearchParams) {
+  if (params.get('grant_type') === 'refresh_token' && params.get('refresh_token') === 'stand-in-revoked') {
+    return { status: 400, body: { error: 'invalid_grant', error_description: 'Token has been expired or revoked.' } };
+  }
+  const body: Record<string, unknown> = { access_token: `stand-in-access-${++issued}`, expires_in: 3600, token_type: 'Bearer' };
+  if (params.get('grant_type') === 'authorization_code') {
+    body.refresh_token = 'stand-in-refresh';
+  }
+  return { status: 200, body };
+}
+
+const server = http.createServer(async (request, response) => {
+  try {
+    const url = new URL(request.url || '/', `http://localhost:${PORT}`);
+    const raw = await readBody(request);
+    console.log(`${request.method} ${url.pathname}`);
+
+    if (request.method === 'POST' && url.pathname === '/token') {
+      const { status, body } = token(new URLSearchParams(raw));
+      return send(response, status, body);
+    }
+    if (request.method === 'POST' && url.pathname === '/revoke') {
+      return send(response, 200, {});
+    }
+
+    if (!(request.headers.authorization || '').startsWith('Bearer stand-in-access-')) {
+      return send(response, 401, { error: { code: 401, message: 'Request had invalid authentication credentials.' } });
+    }
+
+    if (request.method === 'GET' && url.pathname === '/webmasters/v3/sites') {
+      return send(response, 200, { siteEntry: PROPERTIES });
+    }
+
+    const query = url.pathname.match(/^\/webmasters\/v3\/sites\/([^/]+)\/searchAnalytics\/query$/);
+    if (request.method === 'POST' && query) {
+      const property = decodeURIComponent(query[1]);
+      const entry = PROPERTIES.find(candidate => candidate.siteUrl === property);
+      if (!entry || entry.permissionLevel === 'siteUnverifiedUser') {
+        return send(response, 403, { error: { code: 403, message: `User does not have sufficient permission for site '${property}'.` } });
+      }
+      return send(response, 200, { rows: searchAnalytics(property, JSON.parse(raw) as Query), responseAggregationType: 'byPage' });
+    }
+
+    send(response, 404, { error: { code: 404, message: 'Not found' } });
+  } catch (error) {
+    console.error('Stand-in error:', error);
+    send(response, 500, { error: { code: 500, message: 'Stand-in error' } });
+  }
+});
+
+/**
+ * Give a user stand-in tokens that have already expired, so the first call
+ * renews them through the stand-in
+ */
+async function connect(userId: string) {
+  const { saveSearchConsoleTokens } = await import('../src/lib/search-console/tokens');
+  const { db } = await import('../src/lib/db');
+  await saveSearchConsoleTokens(userId, {
+    accessToken: 'stand-in-expired',
+    refreshToken: 'stand-in-refresh',
+    expiresAt: new Date(0).toISOString(),
+  });
+  await db.settings.update({ where: { userId }, data: { websiteUrl: ORIGIN } });
+  await db.$disconnect();
+  console.log(`User ${userId} is connected to the stand-in with website ${ORIGIN}`);
+}
+
+async function main() {
+  const userId = option('connect');
+  if (userId) {
+    await connect(userId);
+  }
+  server.listen(PORT, () => {
+    console.log(`Google API stand-in for ${SITE} listening on http://localhost:${PORT}`);
+  });
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
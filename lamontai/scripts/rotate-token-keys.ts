@@ -0,0 +1,33 @@
+/**
+ * Rewrap stored OAuth tokens with the current encryption key
+ *
+ * Run after putting a new key first in TOKEN_ENCRYPTION_KEYS. Once every
+ * token is rewrapped, the old key can be removed from the list.
+ *
+ * Usage:
+ *   npm run tokens:rotate
+ */
+
+import { db } from '../src/lib/db';
+import { currentKeyId } from '../src/lib/token-encryption';
+import { rewrapSearchConsoleTokens } from '../src/lib/search-console/tokens';
+
+async function main() {
+  console.log(`Rewrapping tokens with key "${currentKeyId()}"`);
+  const { rewrapped, failed } = await rewrapSearchConsoleTokens();
+  console.log(`Google Search Console tokens rewrapped: ${rewrapped}, failed: ${failed}`);
+
+  if (failed > 0) {
+    console.error('Keep the old keys in TOKEN_ENCRYPTION_KEYS until the failed tokens are fixed or reconnected');
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await db.$disconnect();
+  });
@@ -1,96 +1,47 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/lib/auth-config';
-import '@/lib/auth-types'; // Import the type declarations
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { analyzeContentSchema } from '@/lib/validation';
+import { analyzeSeo, fetchPageHtml } from '@/lib/seo-analyzer';
+import { analyzeContent } from '@/lib/ai-service';
 
+// POST /api/analyze - On-page SEO analysis of HTML content or a URL
 export async function POST(request: NextRequest) {
-  // Check authentication
-  const session = await getServerSession(authOptions);
-  
-  if (!session || !session.user) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
     return NextResponse.json({
       success: false,
       message: "Authentication required"
     }, { status: 401 });
   }
-  
+
   try {
-    const { url, content, keywords } = await request.json();
-    
-    if ((!url && !content) || !keywords) {
+    const result = analyzeContentSchema.safeParse(await request.json());
+
+    if (!result.success) {
       return NextResponse.json({
         success: false,
-        message: "You must provide either a URL or content to analyze, along with target keywords"
+        message: "Validation failed",
+        errors: result.error.errors
       }, { status: 400 });
     }
-    
-    // Simulate processing time
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // Mock response data - in a real implementation, this would be generated by analyzing the content
-    const analysis = {
-      seoScore: 87,
-      readabilityScore: 92,
-      keywordDensity: {
-        primary: 2.3, // percentage
-        secondary: keywords.length > 1 ? 1.7 : 0
-      },
-      contentLength: {
-        words: 1450,
-        characters: 8700,
-        paragraphs: 12
-      },
-      suggestions: [
-        "Add more internal links to improve site structure",
-        "Consider adding a table of contents for longer articles",
-        "Add more examples to illustrate key points",
-        "The meta description could be more compelling",
-      ],
-      headingStructure: {
-        h1: 1,
-        h2: 5,
-        h3: 8,
-        h4: 3
-      },
-      keywordUsage: {
-        title: true,
-        metaDescription: true,
-        firstParagraph: true,
-        headings: true,
-        imageAlt: false
-      },
-      competitors: [
-        {
-          url: "https://example.com/similar-article",
-          title: "Similar Topic Article",
-          strengths: ["More comprehensive content", "Better use of schema markup"],
-          weaknesses: ["Older publication date", "Fewer examples"]
-        },
-        {
-          url: "https://competitor.com/related-content",
-          title: "Related Content Guide",
-          strengths: ["Higher domain authority", "More backlinks"],
-          weaknesses: ["Less specific to the search intent", "Poorer readability score"]
-        }
-      ],
-      technicalIssues: [
-        "Page could load faster with image optimization",
-        "Consider implementing AMP for mobile users"
-      ]
-    };
-    
+
+    const { url, content, title, metaDescription, keywords, language, aiSuggestions } = result.data;
+
+    // Analyze the given content, or the live page when only a URL is given
+    const html = content ?? await fetchPageHtml(url as string);
+    const input = { html, keywords, title, metaDescription, url, language };
+    const analysis = aiSuggestions ? await analyzeContent(input) : analyzeSeo(input);
+
     return NextResponse.json({
       success: true,
       message: "Analysis completed successfully",
       data: analysis
     }, { status: 200 });
-    
+
   } catch (error) {
     console.error('Error analyzing content:', error);
-    return NextResponse.json({
-      success: false,
-      message: "Failed to analyze content",
-      error: error instanceof Error ? error.message : "Unknown error"
-    }, { status: 500 });
+    return handleApiError(error, request);
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,49 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { exportQuerySchema } from '@/lib/validation';
+import { getOwnedArticle } from '@/lib/article-service';
+import { exportArticle } from '@/lib/export';
+
+// GET /api/articles/[id]/export?format=markdown|html|docx|pdf - Download an article
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const result = exportQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: 'Validation failed', errors: result.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const article = await getOwnedArticle(userId, params.id);
+    const file = await exportArticle(article, result.data.format);
+
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error(`Error exporting article ${params.id}:`, error);
+    return handleApiError(error, request);
+  }
+}
@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { articleLinkReviewSchema } from '@/lib/validation';
+import { getOwnedArticle } from '@/lib/article-service';
+import { reviewArticleLink } from '@/lib/internal-links/article-links';
+
+// PATCH /api/articles/[id]/links/[linkId] - Accept or reject an inserted internal link
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; linkId: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = articleLinkReviewSchema.safeParse(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: result.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const article = await getOwnedArticle(userId, params.id);
+    const reviewed = await reviewArticleLink(article, params.linkId, result.data.status, userId);
+
+    return NextResponse.json(
+      { success: true, message: `Link ${result.data.status}`, data: reviewed },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Error reviewing link ${params.linkId}:`, error);
+    return handleApiError(error, request);
+  }
+}
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { articleLinksCreateSchema } from '@/lib/validation';
+import { getOwnedArticle } from '@/lib/article-service';
+import { addArticleLinks, listArticleLinks } from '@/lib/internal-links/article-links';
+
+// GET /api/articles/[id]/links - List the internal links inserted into an article and their review status
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const article = await getOwnedArticle(userId, params.id);
+    const links = await listArticleLinks(article);
+
+    return NextResponse.json(
+      { success: true, data: { links, count: links.length } },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Error fetching links for article ${params.id}:`, error);
+    return handleApiError(error, request);
+  }
+}
+
+// POST /api/articles/[id]/links - Insert internal links to the user's pages into an article
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = articleLinksCreateSchema.safeParse(await request.json().catch(() => ({})));
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: result.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const article = await getOwnedArticle(userId, params.id);
+    const inserted = await addArticleLinks(article, userId, result.data);
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: inserted.links.length > 0
+          ? `Inserted ${inserted.links.length} internal links`
+          : 'No internal links fit the article',
+        data: inserted,
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Error inserting links into article ${params.id}:`, error);
+    return handleApiError(error, request);
+  }
+}
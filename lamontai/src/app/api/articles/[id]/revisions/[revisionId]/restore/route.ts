@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { getOwnedArticle, restoreRevision } from '@/lib/article-service';
+
+// POST /api/articles/[id]/revisions/[revisionId]/restore - Restore a revision as the new head
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string; revisionId: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const article = await getOwnedArticle(userId, params.id);
+    const restored = await restoreRevision(article, params.revisionId, userId);
+
+    return NextResponse.json(
+      { success: true, message: 'Revision restored successfully', data: restored },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Error restoring revision ${params.revisionId}:`, error);
+    return handleApiError(error, request);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { getOwnedArticle } from '@/lib/article-service';
+import { getRevision } from '@/lib/revisions';
+
+// GET /api/articles/[id]/revisions/[revisionId] - Get a revision with its content
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; revisionId: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const article = await getOwnedArticle(userId, params.id);
+    const revision = await getRevision(article.id, params.revisionId);
+
+    return NextResponse.json(
+      { success: true, data: revision },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Error fetching revision ${params.revisionId}:`, error);
+    return handleApiError(error, request);
+  }
+}
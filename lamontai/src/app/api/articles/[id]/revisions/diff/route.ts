@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { revisionDiffSchema, validateRequest, formatZodErrors } from '@/lib/validation';
+import { getOwnedArticle } from '@/lib/article-service';
+import { diffRevisions } from '@/lib/revisions';
+
+// GET /api/articles/[id]/revisions/diff?from=&to= - Diff two revisions; `to` defaults to the latest
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const { searchParams } = new URL(request.url);
+  const validationResult = validateRequest(revisionDiffSchema, {
+    from: searchParams.get('from') || undefined,
+    to: searchParams.get('to') || undefined,
+  });
+
+  if (!validationResult.success) {
+    return NextResponse.json(
+      { success: false, message: 'Invalid request data', errors: formatZodErrors(validationResult.error) },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const article = await getOwnedArticle(userId, params.id);
+    const diff = await diffRevisions(article.id, validationResult.data.from, validationResult.data.to);
+
+    return NextResponse.json(
+      { success: true, data: diff },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Error diffing revisions for article ${params.id}:`, error);
+    return handleApiError(error, request);
+  }
+}
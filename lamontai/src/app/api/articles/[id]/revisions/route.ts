@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { getOwnedArticle } from '@/lib/article-service';
+import { listRevisions } from '@/lib/revisions';
+
+// GET /api/articles/[id]/revisions - List an article's revisions, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const article = await getOwnedArticle(userId, params.id);
+    const revisions = await listRevisions(article.id);
+
+    return NextResponse.json(
+      { success: true, data: revisions },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Error listing revisions for article ${params.id}:`, error);
+    return handleApiError(error, request);
+  }
+}
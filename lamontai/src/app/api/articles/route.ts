@@ -1,8 +1,13 @@
 // export const runtime = 'nodejs'; // Remove runtime config
 
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
 import { db } from '@/lib/db';
 import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { createArticle, getOwnedArticle, writePlannedArticle } from '@/lib/article-service';
+import { ApiError, handleApiError } from '@/lib/error-handler';
+import { insertedLinksSchema } from '@/lib/validation';
+import { recordArticleLinks } from '@/lib/internal-links/article-links';
 
 // GET /api/articles - Get all articles for user
 export async function GET(request: NextRequest) {
@@ -20,16 +25,34 @@ export async function GET(request: NextRequest) {
     const url = new URL(request.url);
     const contentPlanId = url.searchParams.get('contentPlanId');
     const status = url.searchParams.get('status');
+    const scheduledFrom = url.searchParams.get('scheduledFrom');
+    const scheduledTo = url.searchParams.get('scheduledTo');
     
     // Build where clause
-    const where: any = { userId };
+    const where: Prisma.ArticleWhereInput = { userId };
     if (contentPlanId) where.contentPlanId = contentPlanId;
     if (status) where.status = status;
     
+    // Scheduled date window, e.g. one calendar month
+    if (scheduledFrom || scheduledTo) {
+      const from = scheduledFrom ? new Date(scheduledFrom) : null;
+      const to = scheduledTo ? new Date(scheduledTo) : null;
+      if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+        return NextResponse.json(
+          { success: false, message: 'Invalid scheduled date range' },
+          { status: 400 }
+        );
+      }
+      where.scheduledFor = {
+        ...(from ? { gte: from } : {}),
+        ...(to ? { lt: to } : {})
+      };
+    }
+    
     // Find all articles for user with optional filters
     const articles = await db.article.findMany({
       where,
-      orderBy: { updatedAt: 'desc' }
+      orderBy: scheduledFrom || scheduledTo ? { scheduledFor: 'asc' } : { updatedAt: 'desc' }
     });
     
     return NextResponse.json(
@@ -45,7 +68,7 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// POST /api/articles - Create a new article
+// POST /api/articles - Create a new article, or write a planned one given its articleId
 export async function POST(request: NextRequest) {
   try {
     const userId = await getUserIdFromRequest(request);
@@ -58,21 +81,47 @@ export async function POST(request: NextRequest) {
     }
     
     const body = await request.json();
+
+    // Internal links inserted by generation, kept for review
+    const internalLinks = insertedLinksSchema.safeParse(body.internalLinks ?? []);
+    if (!internalLinks.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: internalLinks.error.errors },
+        { status: 400 }
+      );
+    }
     
-    // Create a new article with minimal fields to avoid type issues
-    const article = await db.article.create({
-      data: {
+    // An article planned in a content plan is written in place
+    if (typeof body.articleId === 'string') {
+      const planned = await getOwnedArticle(userId, body.articleId);
+      const article = await writePlannedArticle(planned, {
         title: body.title,
-        content: body.content || '',
-        userId: userId
-      }
+        content: body.content,
+        metaDescription: typeof body.snippet === 'string' ? body.snippet : undefined
+      }, userId);
+      await recordArticleLinks(article, internalLinks.data);
+
+      return NextResponse.json(
+        { success: true, data: article },
+        { status: 200 }
+      );
+    }
+    
+    // Create a new article with minimal fields to avoid type issues
+    const article = await createArticle(userId, {
+      title: body.title,
+      content: body.content
     });
+    await recordArticleLinks(article, internalLinks.data);
     
     return NextResponse.json(
       { success: true, data: article },
       { status: 201 }
     );
   } catch (error) {
+    if (error instanceof ApiError) {
+      return handleApiError(error, request);
+    }
     console.error('Error creating article:', error);
     return NextResponse.json(
       { success: false, message: 'Error creating article' },
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { getUserIdFromRequest } from '@/lib/server-auth-utils';
 import { db } from '@/lib/db';
+import { GOOGLE_OAUTH_URL, loadSearchConsoleTokens, saveSearchConsoleTokens } from '@/lib/search-console';
 
 export async function GET(request: NextRequest) {
   try {
@@ -72,7 +73,7 @@ export async function GET(request: NextRequest) {
     const clientSecret = process.env.GOOGLE_CLIENT_SECRET!;
     const redirectUri = `${process.env.NEXT_PUBLIC_APP_URL}/api/auth/callback/google-search-console`;
     
-    const tokenResponse = await fetch('https://oauth2.googleapis.com/token', {
+    const tokenResponse = await fetch(`${GOOGLE_OAUTH_URL}/token`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/x-www-form-urlencoded',
@@ -183,37 +184,14 @@ export async function GET(request: NextRequest) {
       );
     }
     
-    // Store tokens and update hasGoogleSearchConsole flag
-    const googleTokenData = {
-      accessToken: access_token,
-      refreshToken: refresh_token,
-      expiresAt: new Date(Date.now() + expires_in * 1000),
-    };
-    
-    // Securely store token data
+    // Store the tokens encrypted; this also clears a broken connection
     try {
-      // If user has settings, update them
-      if (user.settings) {
-        await db.settings.update({
-          where: { userId },
-          data: {
-            hasGoogleSearchConsole: true,
-            // Store tokens in a secure way, preferably encrypted
-            // This is just an example, in production you'd want to encrypt these tokens
-            googleSearchConsoleTokens: JSON.stringify(googleTokenData),
-          } as any,
-        });
-      } else {
-        // Create settings if they don't exist
-        await db.settings.create({
-          data: {
-            userId,
-            hasGoogleSearchConsole: true,
-            // Store tokens in a secure way, preferably encrypted
-            googleSearchConsoleTokens: JSON.stringify(googleTokenData),
-          } as any,
-        });
-      }
+      await saveSearchConsoleTokens(userId, {
+        accessToken: access_token,
+        // Google may leave out the refresh token when access was granted before
+        refreshToken: refresh_token || (await loadSearchConsoleTokens(userId))?.refreshToken,
+        expiresAt: new Date(Date.now() + expires_in * 1000).toISOString(),
+      });
       
       // Return success HTML with JavaScript to close the window and notify the opener
       return new Response(
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { detachArticle } from '@/lib/content-plans';
+
+// DELETE /api/content-plans/[id]/articles/[articleId] - Detach an article from a content plan
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; articleId: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const contentPlan = await detachArticle(userId, params.id, params.articleId);
+
+    return NextResponse.json(
+      { success: true, data: contentPlan },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error detaching article from content plan:', error);
+    return handleApiError(error, request);
+  }
+}
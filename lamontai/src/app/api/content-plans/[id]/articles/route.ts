@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { contentPlanArticlesSchema } from '@/lib/validation';
+import { handleApiError } from '@/lib/error-handler';
+import { attachArticles } from '@/lib/content-plans';
+
+// POST /api/content-plans/[id]/articles - Attach articles to a content plan
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = contentPlanArticlesSchema.safeParse(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: result.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const contentPlan = await attachArticles(userId, params.id, result.data.articleIds);
+
+    return NextResponse.json(
+      { success: true, data: contentPlan },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error attaching articles to content plan:', error);
+    return handleApiError(error, request);
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { exportQuerySchema } from '@/lib/validation';
+import { exportContentPlan } from '@/lib/export';
+
+// GET /api/content-plans/[id]/export?format=markdown|html|docx|pdf - Download a plan's articles as a ZIP
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  const result = exportQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: 'Validation failed', errors: result.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const file = await exportContentPlan(userId, params.id, result.data.format);
+
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting content plan:', error);
+    return handleApiError(error, request);
+  }
+}
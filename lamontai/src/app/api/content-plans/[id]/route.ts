@@ -0,0 +1,119 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { contentPlanUpdateSchema } from '@/lib/validation';
+import { handleApiError } from '@/lib/error-handler';
+import { deleteContentPlan, getContentPlan, updateContentPlan } from '@/lib/content-plans';
+
+// GET /api/content-plans/[id] - Get a content plan with its articles and progress
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const contentPlan = await getContentPlan(userId, params.id);
+
+    if (!contentPlan) {
+      return NextResponse.json(
+        { success: false, message: 'Content plan not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: contentPlan },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching content plan:', error);
+    return NextResponse.json(
+      { success: false, message: 'Error fetching content plan' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/content-plans/[id] - Update a content plan or move it to another status
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = contentPlanUpdateSchema.safeParse(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: result.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const contentPlan = await updateContentPlan(userId, params.id, result.data);
+
+    return NextResponse.json(
+      { success: true, data: contentPlan },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error updating content plan:', error);
+    return handleApiError(error, request);
+  }
+}
+
+// DELETE /api/content-plans/[id] - Delete a content plan, keeping its articles
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const deleted = await deleteContentPlan(userId, params.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, message: 'Content plan not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Content plan deleted' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting content plan:', error);
+    return NextResponse.json(
+      { success: false, message: 'Error deleting content plan' },
+      { status: 500 }
+    );
+  }
+}
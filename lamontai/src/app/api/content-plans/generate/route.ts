@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { contentPlanGenerateSchema } from '@/lib/validation';
+import { handleApiError } from '@/lib/error-handler';
+import { generateContentPlan } from '@/lib/content-plan-generator';
+
+// POST /api/content-plans/generate - Generate a month-long plan from the onboarding settings
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Unauthorized' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // The body is optional; an empty request uses the defaults
+    const body = await request.json().catch(() => ({}));
+    const result = contentPlanGenerateSchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: result.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const contentPlan = await generateContentPlan(userId, result.data);
+
+    return NextResponse.json(
+      { success: true, data: contentPlan },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error generating content plan:', error);
+    return handleApiError(error, request);
+  }
+}
@@ -1,33 +1,42 @@
 // export const runtime = 'nodejs'; // Remove runtime config
 
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
 import { getUserIdFromRequest } from '@/lib/server-auth-utils';
-import { z } from 'zod';
-import { PrismaClient } from '@prisma/client';
+import { contentPlanCreateSchema, contentPlanListSchema } from '@/lib/validation';
+import { createContentPlan, listContentPlans } from '@/lib/content-plans';
 
-// Schema for validating content plan creation/update
-const contentPlanSchema = z.object({
-  title: z.string().min(3).max(100),
-  description: z.string().optional(),
-  status: z.enum(['draft', 'in-progress', 'completed']).optional(),
-});
-
-// GET /api/content-plans - Get all content plans for user
+// GET /api/content-plans - Get a page of content plans for user
 export async function GET(request: NextRequest) {
   const userId = await getUserIdFromRequest(request);
-  
+
   if (!userId) {
     return NextResponse.json(
       { success: false, message: 'Unauthorized' },
       { status: 401 }
     );
   }
-  
+
   try {
-    // Return empty array as we're refactoring the database access
+    // Validate pagination and filter query parameters
+    const result = contentPlanListSchema.safeParse(
+      Object.fromEntries(request.nextUrl.searchParams.entries())
+    );
+
+    if (!result.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          message: 'Validation failed',
+          errors: result.error.errors
+        },
+        { status: 400 }
+      );
+    }
+
+    const { plans, count, pagination } = await listContentPlans(userId, result.data);
+
     return NextResponse.json(
-      { success: true, data: [] },
+      { success: true, data: plans, count, pagination },
       { status: 200 }
     );
   } catch (error) {
@@ -42,42 +51,33 @@ export async function GET(request: NextRequest) {
 // POST /api/content-plans - Create a new content plan
 export async function POST(request: NextRequest) {
   const userId = await getUserIdFromRequest(request);
-  
+
   if (!userId) {
     return NextResponse.json(
       { success: false, message: 'Unauthorized' },
       { status: 401 }
     );
   }
-  
+
   try {
     const body = await request.json();
-    
+
     // Validate the request data
-    const result = contentPlanSchema.safeParse(body);
-    
+    const result = contentPlanCreateSchema.safeParse(body);
+
     if (!result.success) {
       return NextResponse.json(
-        { 
+        {
           success: false,
-          message: 'Validation failed', 
-          errors: result.error.errors 
-        }, 
+          message: 'Validation failed',
+          errors: result.error.errors
+        },
         { status: 400 }
       );
     }
-    
-    // Create a placeholder response during refactoring
-    const contentPlan = {
-      id: 'temp-id',
-      title: result.data.title,
-      description: result.data.description || '',
-      status: result.data.status || 'draft',
-      userId,
-      createdAt: new Date(),
-      updatedAt: new Date()
-    };
-    
+
+    const contentPlan = await createContentPlan(userId, result.data);
+
     return NextResponse.json(
       { success: true, data: contentPlan },
       { status: 201 }
@@ -89,4 +89,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
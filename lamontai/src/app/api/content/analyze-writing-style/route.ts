@@ -1,137 +1,144 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
 import { getUserIdFromRequest } from '@/lib/server-auth-utils';
 import { db } from '@/lib/db';
-import { getCachedSitemapData, analyzeUrlContent } from '@/lib/sitemap-utils';
+import { analyzeWritingStyle, saveVoiceProfile } from '@/lib/voice-profiles';
+
+// Schema for saving the analysis as a voice profile
+const saveProfileSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  maxArticles: z.number().int().min(1).max(10).optional(),
+});
+
+/**
+ * Look up the sitemap URL from the user's settings
+ */
+async function getUserSitemapUrl(userId: string): Promise<string | null> {
+  const settings = await db.settings.findUnique({ where: { userId } });
+  return settings?.sitemapUrl || null;
+}
 
 export async function GET(request: NextRequest) {
   try {
     // Verify user authentication
     const userId = await getUserIdFromRequest(request);
-    
+
     if (!userId) {
       return NextResponse.json(
-        { 
+        {
           success: false,
-          message: 'Authentication required' 
-        }, 
+          message: 'Authentication required'
+        },
         { status: 401 }
       );
     }
-    
+
     // Get the search params
     const maxArticles = parseInt(request.nextUrl.searchParams.get('maxArticles') || '5', 10);
-    
+
     try {
-      // Fetch user's sitemap URL from settings
-      const user = await db.user.findUnique({
-        where: { id: userId },
-        include: { settings: true }
-      });
-      
-      if (!user) {
-        return NextResponse.json(
-          { 
-            success: false,
-            message: 'User not found' 
-          }, 
-          { status: 404 }
-        );
-      }
-      
       // Check if user has a sitemap URL
-      if (!user.settings || !(user.settings as any).sitemapUrl) {
+      const sitemapUrl = await getUserSitemapUrl(userId);
+      if (!sitemapUrl) {
         return NextResponse.json(
-          { 
+          {
             success: false,
-            message: 'No sitemap URL found for this user' 
-          }, 
+            message: 'No sitemap URL found for this user'
+          },
           { status: 404 }
         );
       }
-      
-      // Get cached sitemap data or fetch if not in cache
-      const sitemapData = await getCachedSitemapData((user.settings as any).sitemapUrl);
-      
-      // Analyze a few most recent articles to understand writing style
-      // Limit the number of articles to analyze to avoid overloading
-      const urlsToAnalyze = sitemapData.urls
-        .sort((a, b) => {
-          // Sort by lastmod date if available (most recent first)
-          if (a.lastmod && b.lastmod) {
-            return new Date(b.lastmod).getTime() - new Date(a.lastmod).getTime();
-          }
-          return 0;
-        })
-        .slice(0, Math.min(maxArticles, 10));
-      
-      console.log(`Analyzing ${urlsToAnalyze.length} articles for writing style`);
-      
-      // Analyze each URL in parallel
-      const analysisPromises = urlsToAnalyze.map(url => analyzeUrlContent(url.loc));
-      const analysisResults = await Promise.all(analysisPromises);
-      
-      // Extract common keywords, average sentence length, etc.
-      const allKeywords = analysisResults.flatMap(result => result.keywords);
-      const keywordFrequency: Record<string, number> = {};
-      
-      allKeywords.forEach(keyword => {
-        keywordFrequency[keyword] = (keywordFrequency[keyword] || 0) + 1;
-      });
-      
-      // Get top keywords
-      const topKeywords = Object.entries(keywordFrequency)
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 20)
-        .map(([keyword]) => keyword);
-      
-      // Calculate average word count
-      const totalWordCount = analysisResults.reduce((sum, result) => {
-        return sum + (result.wordCount || 0);
-      }, 0);
-      const averageWordCount = totalWordCount / analysisResults.length;
-      
-      // Extract headings
-      const allHeadings = analysisResults.flatMap(result => result.headings);
-      
-      // Analyze the writing style (simplified)
-      const writingStyle = {
-        topKeywords,
-        averageWordCount,
-        headingCount: allHeadings.length,
-        analyzedArticles: analysisResults.length,
-        sampleHeadings: allHeadings.slice(0, 10)
-      };
-      
+
+      const { writingStyle, analysisDetails } = await analyzeWritingStyle(sitemapUrl, maxArticles);
+
       return NextResponse.json(
-        { 
+        {
           success: true,
           data: {
             writingStyle,
-            analysisDetails: analysisResults
+            analysisDetails
           }
-        }, 
+        },
         { status: 200 }
       );
     } catch (error) {
       console.error('Error analyzing writing style:', error);
       return NextResponse.json(
-        { 
+        {
           success: false,
           message: 'Failed to analyze writing style',
           error: error instanceof Error ? error.message : 'Unknown error'
-        }, 
+        },
         { status: 500 }
       );
     }
   } catch (error) {
     console.error('Error processing request:', error);
     return NextResponse.json(
-      { 
+      {
         success: false,
         message: 'An error occurred',
         error: error instanceof Error ? error.message : 'Unknown error'
-      }, 
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/content/analyze-writing-style - Analyze the site and save the result as a named voice profile
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const validationResult = saveProfileSchema.safeParse(await request.json().catch(() => ({})));
+
+    if (!validationResult.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: validationResult.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const sitemapUrl = await getUserSitemapUrl(userId);
+    if (!sitemapUrl) {
+      return NextResponse.json(
+        { success: false, message: 'No sitemap URL found for this user' },
+        { status: 404 }
+      );
+    }
+
+    const { name, maxArticles } = validationResult.data;
+    const { writingStyle } = await analyzeWritingStyle(sitemapUrl, maxArticles);
+
+    if (writingStyle.analyzedArticles === 0) {
+      return NextResponse.json(
+        { success: false, message: 'No pages could be analyzed from the sitemap' },
+        { status: 422 }
+      );
+    }
+
+    const profile = await saveVoiceProfile(userId, name, writingStyle);
+
+    return NextResponse.json(
+      { success: true, message: 'Voice profile saved', data: profile },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error saving voice profile:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Failed to save voice profile',
+        error: error instanceof Error ? error.message : 'Unknown error'
+      },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
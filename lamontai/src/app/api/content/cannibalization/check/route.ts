@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { cannibalizationCheckSchema } from '@/lib/validation';
+import { checkTopicCannibalization } from '@/lib/cannibalization';
+
+// POST /api/content/cannibalization/check - Pages and articles a new topic would compete with
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = cannibalizationCheckSchema.safeParse(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: result.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { topic, keywords, ...options } = result.data;
+    const warning = await checkTopicCannibalization(userId, topic, keywords, options);
+
+    return NextResponse.json(
+      { success: true, data: { warning } },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error checking topic for cannibalization:', error);
+    return handleApiError(error, request);
+  }
+}
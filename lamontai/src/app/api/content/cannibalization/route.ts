@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { cannibalizationQuerySchema } from '@/lib/validation';
+import { getCannibalizationReport } from '@/lib/cannibalization';
+
+// GET /api/content/cannibalization - Groups of pages and articles competing for the same keyword
+export async function GET(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const result = cannibalizationQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: 'Validation failed', errors: result.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await getCannibalizationReport(userId, result.data);
+
+    return NextResponse.json(
+      { success: true, data: report },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error detecting keyword cannibalization:', error);
+    return handleApiError(error, request);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { refreshBriefSchema } from '@/lib/validation';
+import { createRefreshBrief } from '@/lib/content-decay';
+
+// POST /api/content/decay/brief - Build a refresh brief for a page and open a refresh task
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = refreshBriefSchema.safeParse(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: result.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const task = await createRefreshBrief(userId, result.data.url, { windowDays: result.data.windowDays });
+
+    return NextResponse.json(
+      { success: true, message: 'Refresh task created', data: task },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating refresh brief:', error);
+    return handleApiError(error, request);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { opportunityActionSchema } from '@/lib/validation';
+import { createOptimizeTask } from '@/lib/opportunities';
+
+// POST /api/content/opportunities/optimize - Open a task to optimize a page for a striking-distance query
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = opportunityActionSchema.safeParse(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: result.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const task = await createOptimizeTask(userId, result.data);
+
+    return NextResponse.json(
+      { success: true, message: 'Optimize task created', data: task },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating optimize task:', error);
+    return handleApiError(error, request);
+  }
+}
@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { opportunityPlanSchema } from '@/lib/validation';
+import { planOpportunityArticle } from '@/lib/opportunities';
+
+// POST /api/content/opportunities/plan - Plan a new article for a striking-distance query
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = opportunityPlanSchema.safeParse(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: result.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const contentPlan = await planOpportunityArticle(userId, result.data);
+
+    return NextResponse.json(
+      { success: true, message: 'Article added to the content plan', data: contentPlan },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error planning article for opportunity:', error);
+    return handleApiError(error, request);
+  }
+}
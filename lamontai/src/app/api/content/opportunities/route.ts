@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { opportunityQuerySchema } from '@/lib/validation';
+import { getStrikingDistanceOpportunities } from '@/lib/opportunities';
+
+// GET /api/content/opportunities - Queries ranking in striking distance, most estimated uplift first
+export async function GET(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const result = opportunityQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: 'Validation failed', errors: result.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const report = await getStrikingDistanceOpportunities(userId, result.data);
+
+    return NextResponse.json(
+      { success: true, data: report },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error finding striking-distance opportunities:', error);
+    return handleApiError(error, request);
+  }
+}
@@ -0,0 +1,73 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { snippetChangeSchema, snippetHistoryQuerySchema } from '@/lib/validation';
+import { getSnippetHistory, recordSnippetChange } from '@/lib/snippets';
+
+// GET /api/content/snippets/changes - Title and meta description changes, newest first, with their CTR impact
+export async function GET(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const result = snippetHistoryQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: 'Validation failed', errors: result.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const changes = await getSnippetHistory(userId, result.data);
+
+    return NextResponse.json(
+      { success: true, data: changes },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching snippet changes:', error);
+    return handleApiError(error, request);
+  }
+}
+
+// POST /api/content/snippets/changes - Apply a new title and meta description and start measuring its CTR impact
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = snippetChangeSchema.safeParse(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: result.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const change = await recordSnippetChange(userId, result.data);
+
+    return NextResponse.json(
+      { success: true, message: 'Snippet change recorded', data: change },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error recording snippet change:', error);
+    return handleApiError(error, request);
+  }
+}
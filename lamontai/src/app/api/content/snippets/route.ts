@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { snippetVariantsSchema } from '@/lib/validation';
+import { generateSnippetVariants } from '@/lib/snippets';
+
+// POST /api/content/snippets - Generate scored title and meta description variants for an article, page or topic
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = snippetVariantsSchema.safeParse(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: result.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const variants = await generateSnippetVariants(userId, result.data, request.signal);
+
+    return NextResponse.json(
+      { success: true, data: variants },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error generating snippet variants:', error);
+    return handleApiError(error, request);
+  }
+}
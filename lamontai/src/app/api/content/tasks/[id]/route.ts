@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { contentTaskUpdateSchema } from '@/lib/validation';
+import { updateContentTaskStatus } from '@/lib/content-tasks';
+
+// PATCH /api/content/tasks/[id] - Mark a content task as done, dismissed or open
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = contentTaskUpdateSchema.safeParse(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: result.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const task = await updateContentTaskStatus(userId, params.id, result.data.status);
+
+    if (!task) {
+      return NextResponse.json(
+        { success: false, message: 'Content task not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: task },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error updating content task:', error);
+    return handleApiError(error, request);
+  }
+}
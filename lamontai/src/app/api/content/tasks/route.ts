@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { contentTaskQuerySchema } from '@/lib/validation';
+import { listContentTasks } from '@/lib/content-tasks';
+
+// GET /api/content/tasks - List the user's content tasks
+export async function GET(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const result = contentTaskQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: 'Validation failed', errors: result.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const tasks = await listContentTasks(userId, result.data);
+
+    return NextResponse.json(
+      { success: true, data: tasks },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error listing content tasks:', error);
+    return handleApiError(error, request);
+  }
+}
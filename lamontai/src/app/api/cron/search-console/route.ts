@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Errors, handleApiError } from '@/lib/error-handler';
+import { startAllSearchConsoleSyncs } from '@/lib/search-console/sync';
+
+// POST /api/cron/search-console - Start syncing every user's Search Analytics rows (scheduled job)
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      throw Errors.unauthorized('A valid cron secret is required');
+    }
+
+    const result = await startAllSearchConsoleSyncs();
+
+    return NextResponse.json(
+      { success: true, data: result },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error running scheduled Search Console sync:', error);
+    return handleApiError(error, request);
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Errors, handleApiError } from '@/lib/error-handler';
+import { refreshAllSitemapInventories } from '@/lib/sitemap-utils/inventory';
+import { indexAllSitePages } from '@/lib/internal-links';
+
+// POST /api/cron/sitemaps - Refresh every user's sitemap inventory and index new pages (scheduled job)
+export async function POST(request: NextRequest) {
+  try {
+    const secret = process.env.CRON_SECRET;
+    if (!secret || request.headers.get('authorization') !== `Bearer ${secret}`) {
+      throw Errors.unauthorized('A valid cron secret is required');
+    }
+
+    const result = await refreshAllSitemapInventories();
+    const indexing = await indexAllSitePages();
+
+    return NextResponse.json(
+      { success: true, data: { ...result, indexing } },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error running scheduled sitemap refresh:', error);
+    return handleApiError(error, request);
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { outlineUpdateSchema, validateRequest, formatZodErrors } from '@/lib/validation';
+import { handleApiError } from '@/lib/error-handler';
+import { getOutlineDraft, updateOutlineDraft } from '@/lib/generation/outline-store';
+
+// GET /api/generate/outline/[id] - Fetch an outline draft
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const draft = await getOutlineDraft(userId, params.id);
+
+    if (!draft) {
+      return NextResponse.json(
+        { success: false, message: 'Outline not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, data: draft }, { status: 200 });
+  } catch (error) {
+    return handleApiError(error, request);
+  }
+}
+
+// PUT /api/generate/outline/[id] - Edit, reorder or approve an outline draft
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const validationResult = validateRequest(outlineUpdateSchema, await request.json());
+
+    if (!validationResult.success) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid request data',
+        errors: formatZodErrors(validationResult.error)
+      }, { status: 400 });
+    }
+
+    const draft = await updateOutlineDraft(userId, params.id, validationResult.data);
+
+    if (!draft) {
+      return NextResponse.json(
+        { success: false, message: 'Outline not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Outline updated', data: draft },
+      { status: 200 }
+    );
+  } catch (error) {
+    return handleApiError(error, request);
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { outlineCreateSchema, validateRequest, formatZodErrors } from '@/lib/validation';
+import { handleApiError } from '@/lib/error-handler';
+import { createOutlineDraft } from '@/lib/generation/outline-store';
+import { resolveVoiceOptions } from '@/lib/voice-profiles';
+import { resolveArticleFormat } from '@/lib/keywords';
+
+// POST /api/generate/outline - Generate an editable outline draft
+export async function POST(request: NextRequest) {
+  try {
+    const userId = await getUserIdFromRequest(request);
+
+    if (!userId) {
+      return NextResponse.json(
+        { success: false, message: 'Authentication required' },
+        { status: 401 }
+      );
+    }
+
+    const validationResult = validateRequest(outlineCreateSchema, await request.json());
+
+    if (!validationResult.success) {
+      return NextResponse.json({
+        success: false,
+        message: 'Invalid request data',
+        errors: formatZodErrors(validationResult.error)
+      }, { status: 400 });
+    }
+
+    const { topic, keywords, options } = validationResult.data;
+    const resolved = await resolveArticleFormat(userId, topic, keywords, await resolveVoiceOptions(userId, options));
+    const draft = await createOutlineDraft(userId, topic, keywords, resolved);
+
+    return NextResponse.json(
+      { success: true, message: 'Outline generated', data: draft },
+      { status: 201 }
+    );
+  } catch (error) {
+    return handleApiError(error, request);
+  }
+}
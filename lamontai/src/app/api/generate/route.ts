@@ -1,21 +1,155 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { withApiMiddleware } from '@/lib/api-middleware';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/lib/auth-config';
-import '@/lib/auth-types'; // Import the type declarations
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
 import { generateContentSchema, validateRequest, formatZodErrors } from '@/lib/validation';
-import { PLAN_LIMITS, USER_PLANS } from '@/lib/api-config';
 import { handleApiError } from '@/lib/error-handler';
+import { generateArticle, GenerateArticleOptions } from '@/lib/ai-service';
+import { runArticlePipeline } from '@/lib/generation/pipeline';
+import { encodeSseEvent, OutlineSection } from '@/lib/generation/events';
+import {
+  claimOutlineDraft,
+  completeOutlineDraft,
+  getOutlineDraft,
+  releaseOutlineDraft,
+} from '@/lib/generation/outline-store';
+import { resolveVoiceOptions } from '@/lib/voice-profiles';
+import { resolveArticleFormat } from '@/lib/keywords';
+import { getMonthlyArticleCount, getPlanLimits, recordArticleGeneration } from '@/lib/usage';
+import { InsertedLink, insertInternalLinks } from '@/lib/internal-links';
+import { CannibalizationWarning, checkTopicCannibalization } from '@/lib/cannibalization';
 
-// Mock response for local development
-const mockGeneratedContent = {
-  title: "How to Improve Your SEO Strategy in 2023",
-  content: "Lorem ipsum dolor sit amet, consectetur adipiscing elit...",
-  keywords: ["SEO", "content marketing", "digital strategy"],
-  readabilityScore: 87.5,
-  wordCount: 1250,
-  estimatedRank: "Top 10 potential"
-};
+/**
+ * Link the user's own pages from a finished article when asked to. A
+ * failure leaves the article as written rather than failing generation.
+ */
+async function linkArticle(
+  userId: string,
+  topic: string,
+  keywords: string[],
+  content: string,
+  options?: GenerateArticleOptions
+): Promise<{ content: string; links: InsertedLink[] }> {
+  if (!options?.internalLinks) {
+    return { content, links: [] };
+  }
+
+  try {
+    return await insertInternalLinks(userId, content, { topic, keywords, maxLinks: options.internalLinks });
+  } catch (error) {
+    console.error(`Error inserting internal links for user ${userId}:`, error);
+    return { content, links: [] };
+  }
+}
+
+/**
+ * Warn when the topic competes with the user's existing pages or articles.
+ * A failed check never blocks generation.
+ */
+async function checkCannibalization(
+  userId: string,
+  topic: string,
+  keywords: string[]
+): Promise<CannibalizationWarning | null> {
+  try {
+    return await checkTopicCannibalization(userId, topic, keywords);
+  } catch (error) {
+    console.error(`Error checking cannibalization for user ${userId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Stream generation progress as Server-Sent Events.
+ * The credit is only charged once the article completes, so a client that
+ * disconnects (or aborts) mid-stream cancels the upstream request for free.
+ * A claimed outline draft is removed once the article completes and released
+ * otherwise, so a failed or cancelled stream can be retried.
+ */
+function createGenerationStream(
+  req: NextRequest,
+  userId: string,
+  topic: string,
+  keywords: string[],
+  options?: GenerateArticleOptions,
+  outline?: OutlineSection[],
+  cannibalization?: CannibalizationWarning | null,
+  outlineId?: string
+): NextResponse {
+  const abortController = new AbortController();
+  const abort = () => abortController.abort();
+  req.signal?.addEventListener('abort', abort);
+
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let wordCount = 0;
+      let completed = false;
+
+      try {
+        if (cannibalization) {
+          controller.enqueue(encoder.encode(encodeSseEvent({ type: 'cannibalization', warning: cannibalization })));
+        }
+
+        const events = runArticlePipeline({ topic, keywords, options, outline }, abortController.signal);
+        for await (const event of events) {
+          if (event.type === 'stats') {
+            wordCount = event.stats.wordCount;
+          }
+          if (event.type === 'done') {
+            const linked = await linkArticle(userId, topic, keywords, event.content, options);
+            await recordArticleGeneration(userId, { topic, wordCount });
+            completed = true;
+            if (outlineId) {
+              await completeOutlineDraft(outlineId);
+            }
+            controller.enqueue(encoder.encode(encodeSseEvent({
+              type: 'done',
+              content: linked.content,
+              internalLinks: linked.links
+            })));
+            continue;
+          }
+          controller.enqueue(encoder.encode(encodeSseEvent(event)));
+        }
+      } catch (error) {
+        if (abortController.signal.aborted) {
+          console.log(`Article generation for user ${userId} cancelled by client`);
+        } else {
+          console.error('Error streaming article generation:', error);
+          controller.enqueue(encoder.encode(encodeSseEvent({
+            type: 'error',
+            message: error instanceof Error ? error.message : 'Failed to generate article'
+          })));
+        }
+      } finally {
+        req.signal?.removeEventListener('abort', abort);
+        if (outlineId && !completed) {
+          await releaseOutlineDraft(outlineId);
+        }
+        try {
+          controller.close();
+        } catch {
+          // Already closed by a cancelled client
+        }
+      }
+    },
+    cancel() {
+      abortController.abort();
+    }
+  });
+
+  return new NextResponse(body, {
+    status: 200,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      // Disable proxy buffering (nginx) so events reach the client immediately
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
 
 /**
  * API route handler for generating content
@@ -29,10 +163,10 @@ async function handler(req: NextRequest) {
   }
 
   try {
-    // Check authentication
-    const session = await getServerSession(authOptions);
+    // Check authentication (token cookie, as used by the dashboard)
+    const userId = await getUserIdFromRequest(req);
     
-    if (!session || !session.user) {
+    if (!userId) {
       return NextResponse.json({
         success: false,
         message: "Authentication required"
@@ -51,42 +185,87 @@ async function handler(req: NextRequest) {
       }, { status: 400 });
     }
 
-    const { topic, keywords, options } = validationResult.data;
+    const [planLimits, articlesGenerated] = await Promise.all([
+      getPlanLimits(userId),
+      getMonthlyArticleCount(userId),
+    ]);
 
-    // Get the user's plan from session or database
-    let userPlan = 'free';
-    let articlesGenerated = 0;
-    
-    if (session && session.user) {
-      // Add type assertion here
-      const userId = (session.user as any).id;
-      // Lookup user plan from database
-      // In production, you'd fetch this from your database
-      userPlan = USER_PLANS[userId as keyof typeof USER_PLANS] || 'free';
-      
-      // Mock usage tracking - in real app, get from database
-      articlesGenerated = 3;
-    }
-    
     // Check if user has reached their article generation limit
-    const planLimits = PLAN_LIMITS[userPlan as keyof typeof PLAN_LIMITS];
     if (articlesGenerated >= planLimits.articlesPerMonth) {
       return NextResponse.json({
         success: false,
         message: "You have reached your monthly article generation limit. Please upgrade your plan to continue."
       }, { status: 403 });
     }
-    
-    // Return a mock response
-    return NextResponse.json({
-      success: true,
-      message: "Article generated successfully",
-      data: {
-        ...mockGeneratedContent,
-        title: `How to ${topic} - A Comprehensive Guide`,
-        keywords: keywords || ["SEO", "content", "digital marketing"]
+
+    const { stream, outlineId } = validationResult.data;
+    let { topic, keywords, options } = validationResult.data;
+    let outline: OutlineSection[] | undefined;
+
+    // Write from a previously generated outline once the user has approved it
+    if (outlineId) {
+      const draft = await getOutlineDraft(userId, outlineId);
+
+      if (!draft) {
+        return NextResponse.json({
+          success: false,
+          message: "Outline not found"
+        }, { status: 404 });
+      }
+
+      if (!draft.approved) {
+        return NextResponse.json({
+          success: false,
+          message: "Outline must be approved before writing"
+        }, { status: 409 });
       }
-    }, { status: 200 });
+
+      // Claiming the draft stops it being written twice at once
+      if (!(await claimOutlineDraft(userId, outlineId))) {
+        return NextResponse.json({
+          success: false,
+          message: "Outline is already being written"
+        }, { status: 409 });
+      }
+
+      ({ topic, keywords, options } = draft);
+      outline = draft.sections;
+    }
+
+    // From here a claimed draft is released if writing does not finish
+    try {
+      // Write in the referenced brand voice, if any
+      options = await resolveVoiceOptions(userId, options);
+
+      // Shape the article for the search intent of its keywords
+      options = await resolveArticleFormat(userId, topic, keywords, options);
+
+      // Generation goes ahead either way; the warning lets the user reconsider
+      const cannibalization = await checkCannibalization(userId, topic, keywords);
+
+      if (stream) {
+        return createGenerationStream(req, userId, topic, keywords, options, outline, cannibalization, outlineId);
+      }
+
+      // Generate the article with the configured LLM provider
+      const article = await generateArticle(topic, keywords, options, outline);
+      const linked = await linkArticle(userId, topic, keywords, article.content, options);
+      await recordArticleGeneration(userId, { topic, wordCount: article.wordCount });
+      if (outlineId) {
+        await completeOutlineDraft(outlineId);
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: "Article generated successfully",
+        data: { ...article, content: linked.content, internalLinks: linked.links, cannibalization }
+      }, { status: 200 });
+    } catch (error) {
+      if (outlineId) {
+        await releaseOutlineDraft(outlineId);
+      }
+      throw error;
+    }
 
   } catch (error) {
     return handleApiError(error, req);
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { clusterPlanSchema } from '@/lib/validation';
+import { createPlanFromClusters } from '@/lib/keywords';
+
+// POST /api/keywords/clusters/plan - Turn keyword clusters into planned articles in a new or existing content plan
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = clusterPlanSchema.safeParse(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: result.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { clusters, ...options } = result.data;
+    const contentPlan = await createPlanFromClusters(userId, clusters, options);
+
+    return NextResponse.json(
+      { success: true, message: 'Content plan created from keyword clusters', data: contentPlan },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating content plan from keyword clusters:', error);
+    return handleApiError(error, request);
+  }
+}
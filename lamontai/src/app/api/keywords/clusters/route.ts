@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { keywordClusterSchema } from '@/lib/validation';
+import { clusterKeywords, getOwnedKeywordList, KeywordIdea, loadListIdeas } from '@/lib/keywords';
+
+// POST /api/keywords/clusters - Group a keyword list or pasted keywords into topic clusters
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = keywordClusterSchema.safeParse(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: result.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { listId, keywords, threshold, embeddings, embeddingModel } = result.data;
+    const ideas: KeywordIdea[] = listId
+      ? await loadListIdeas(await getOwnedKeywordList(userId, listId))
+      : (keywords || []).map(keyword => (typeof keyword === 'string' ? { keyword } : keyword));
+
+    const clustering = await clusterKeywords(ideas, { threshold, embeddings, embeddingModel });
+
+    return NextResponse.json(
+      { success: true, data: clustering },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error clustering keywords:', error);
+    return handleApiError(error, request);
+  }
+}
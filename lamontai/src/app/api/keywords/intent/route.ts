@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { keywordIntentSchema } from '@/lib/validation';
+import { classifyIntents, intentDistribution, loadCompetitorBrands } from '@/lib/keywords';
+import { chooseArticleFormat } from '@/lib/generation/formats';
+
+// POST /api/keywords/intent - Classify the search intent of keywords and suggest an article format
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = keywordIntentSchema.safeParse(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: result.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const { keywords, adjudicate, minConfidence } = result.data;
+    const classifications = await classifyIntents(keywords, {
+      brands: await loadCompetitorBrands(userId),
+      adjudicate,
+      minConfidence,
+      signal: request.signal,
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: {
+          keywords: classifications.map(classification => ({
+            ...classification,
+            format: chooseArticleFormat(classification),
+          })),
+          distribution: intentDistribution(classifications.map(classification => classification.intent)),
+        },
+      },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error classifying keyword intent:', error);
+    return handleApiError(error, request);
+  }
+}
@@ -0,0 +1,48 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { keywordExportSchema } from '@/lib/validation';
+import { exportKeywordList, getOwnedKeywordList } from '@/lib/keywords';
+
+// GET /api/keywords/lists/[id]/export?format=csv|json - Download a list's keywords, filtered and sorted like the list view
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const result = keywordExportSchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: 'Validation failed', errors: result.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const list = await getOwnedKeywordList(userId, params.id);
+    const file = await exportKeywordList(list, result.data);
+
+    return new NextResponse(file.body, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error(`Error exporting keyword list ${params.id}:`, error);
+    return handleApiError(error, request);
+  }
+}
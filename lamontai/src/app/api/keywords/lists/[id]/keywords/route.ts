@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { keywordDeleteSchema } from '@/lib/validation';
+import { deleteKeywords, getOwnedKeywordList } from '@/lib/keywords';
+
+// DELETE /api/keywords/lists/[id]/keywords - Remove keywords from a list by id
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = keywordDeleteSchema.safeParse(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: result.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const list = await getOwnedKeywordList(userId, params.id);
+    const removed = await deleteKeywords(list, result.data.ids);
+
+    return NextResponse.json(
+      { success: true, message: `Removed ${removed} keyword${removed === 1 ? '' : 's'}`, data: { removed } },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Error removing keywords from list ${params.id}:`, error);
+    return handleApiError(error, request);
+  }
+}
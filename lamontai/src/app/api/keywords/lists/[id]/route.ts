@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { keywordListQuerySchema, keywordListUpdateSchema } from '@/lib/validation';
+import { deleteKeywordList, getOwnedKeywordList, queryKeywords, updateKeywordList } from '@/lib/keywords';
+
+// GET /api/keywords/lists/[id] - A page of the list's keywords, filtered and sorted
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const result = keywordListQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: 'Validation failed', errors: result.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const list = await getOwnedKeywordList(userId, params.id);
+    const page = await queryKeywords(list, result.data);
+
+    return NextResponse.json(
+      { success: true, data: page },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Error fetching keyword list ${params.id}:`, error);
+    return handleApiError(error, request);
+  }
+}
+
+// PATCH /api/keywords/lists/[id] - Rename or describe a keyword list
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = keywordListUpdateSchema.safeParse(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: result.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const list = await getOwnedKeywordList(userId, params.id);
+    const updated = await updateKeywordList(list, result.data);
+
+    return NextResponse.json(
+      { success: true, data: updated },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Error updating keyword list ${params.id}:`, error);
+    return handleApiError(error, request);
+  }
+}
+
+// DELETE /api/keywords/lists/[id] - Delete a keyword list and its keywords
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const list = await getOwnedKeywordList(userId, params.id);
+    await deleteKeywordList(list);
+
+    return NextResponse.json(
+      { success: true, message: 'Keyword list deleted' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error(`Error deleting keyword list ${params.id}:`, error);
+    return handleApiError(error, request);
+  }
+}
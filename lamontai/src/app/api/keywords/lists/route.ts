@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { keywordListCreateSchema } from '@/lib/validation';
+import { createKeywordList, listKeywordLists } from '@/lib/keywords';
+
+// GET /api/keywords/lists - List the user's saved keyword lists with keyword counts
+export async function GET(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const lists = await listKeywordLists(userId);
+
+    return NextResponse.json(
+      { success: true, data: lists },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching keyword lists:', error);
+    return NextResponse.json(
+      { success: false, message: 'Error fetching keyword lists' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/keywords/lists - Create a keyword list
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const result = keywordListCreateSchema.safeParse(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: result.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const list = await createKeywordList(userId, result.data);
+
+    return NextResponse.json(
+      { success: true, message: 'Keyword list created', data: list },
+      { status: 201 }
+    );
+  } catch (error) {
+    console.error('Error creating keyword list:', error);
+    return handleApiError(error, request);
+  }
+}
@@ -1,106 +1,87 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { keywordResearchSchema } from '@/lib/validation';
+import { getOwnedKeywordList, researchKeywordIdeas, saveKeywordIdeas } from '@/lib/keywords';
 
-// Mock data for demo purposes
-const mockKeywordData = {
-  mainKeyword: "content marketing",
-  relatedKeywords: [
-    { keyword: "content marketing strategy", volume: 6600, difficulty: 78, cpc: 12.50 },
-    { keyword: "content marketing examples", volume: 3600, difficulty: 65, cpc: 8.75 },
-    { keyword: "content marketing benefits", volume: 2400, difficulty: 52, cpc: 7.20 },
-    { keyword: "b2b content marketing", volume: 1900, difficulty: 69, cpc: 15.30 },
-    { keyword: "content marketing statistics", volume: 1700, difficulty: 58, cpc: 9.40 },
-    { keyword: "content marketing tools", volume: 1500, difficulty: 72, cpc: 11.80 },
-    { keyword: "what is content marketing", volume: 1400, difficulty: 45, cpc: 6.90 },
-    { keyword: "content marketing agency", volume: 1300, difficulty: 80, cpc: 18.60 },
-    { keyword: "content marketing tips", volume: 1100, difficulty: 61, cpc: 8.10 },
-    { keyword: "content marketing plan", volume: 950, difficulty: 59, cpc: 10.20 },
-  ],
-  searchIntent: {
-    informational: 65,
-    transactional: 15,
-    navigational: 10,
-    commercial: 10
-  },
-  competitorKeywords: [
-    { competitor: "hubspot.com", keywords: ["content marketing guide", "content marketing hub", "content marketing template"] },
-    { competitor: "neilpatel.com", keywords: ["content marketing strategy", "content marketing tools", "content marketing success"] },
-    { competitor: "contentmarketinginstitute.com", keywords: ["content marketing trends", "content marketing research", "content marketing examples"] },
-  ]
-};
-
+// POST /api/keywords - Research keywords from a source (llm, gsc or csv), optionally saving them to a list
 export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
   try {
-    const { query, options } = await request.json();
-    
-    if (!query) {
-      return NextResponse.json({
-        success: false,
-        message: "Keyword query is required"
-      }, { status: 400 });
+    const result = keywordResearchSchema.safeParse(await request.json());
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: result.error.errors },
+        { status: 400 }
+      );
     }
-    
-    // Simulate API processing time
-    await new Promise(resolve => setTimeout(resolve, 1200));
-    
-    // In a real implementation, we would call a keyword research API
-    // For demo, we're returning mock data with the query included
-    const responseData = {
-      ...mockKeywordData,
-      mainKeyword: query,
-      query,
-      options: options || {}
-    };
-    
-    return NextResponse.json({
-      success: true,
-      message: "Keyword research completed",
-      data: responseData
-    }, { status: 200 });
-    
+
+    const { query, source, csv, listId, options } = result.data;
+    // Check the list before spending a research call on it
+    const list = listId ? await getOwnedKeywordList(userId, listId) : null;
+
+    const keywords = await researchKeywordIdeas(source, { userId, query, csv, ...options });
+    const saved = list
+      ? await saveKeywordIdeas(list, keywords, { source, country: options?.country, language: options?.language })
+      : undefined;
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Keyword research completed',
+        data: { query, source, keywords, listId: list?.id, saved },
+      },
+      { status: 200 }
+    );
   } catch (error) {
     console.error('Error researching keywords:', error);
-    return NextResponse.json({
-      success: false,
-      message: "Failed to complete keyword research",
-      error: error instanceof Error ? error.message : "Unknown error"
-    }, { status: 500 });
+    return handleApiError(error, request);
   }
 }
 
+// GET /api/keywords?query= - Research keywords with the LLM estimator without saving them
 export async function GET(request: NextRequest) {
-  // Get the search parameters from the request URL
-  const searchParams = request.nextUrl.searchParams;
-  const query = searchParams.get('query');
-  
-  if (!query) {
-    return NextResponse.json({
-      success: false,
-      message: "Keyword query is required"
-    }, { status: 400 });
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const result = keywordResearchSchema.safeParse({ query: request.nextUrl.searchParams.get('query') || undefined });
+
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: 'Validation failed', errors: result.error.errors },
+      { status: 400 }
+    );
   }
-  
+
   try {
-    // Simulate API processing time
-    await new Promise(resolve => setTimeout(resolve, 800));
-    
-    // Return mock data with the provided query
-    const responseData = {
-      ...mockKeywordData,
-      mainKeyword: query
-    };
-    
-    return NextResponse.json({
-      success: true,
-      message: "Keyword research completed",
-      data: responseData
-    }, { status: 200 });
-    
+    const { query, source } = result.data;
+    const keywords = await researchKeywordIdeas(source, { userId, query });
+
+    return NextResponse.json(
+      {
+        success: true,
+        message: 'Keyword research completed',
+        data: { query, source, keywords },
+      },
+      { status: 200 }
+    );
   } catch (error) {
     console.error('Error researching keywords:', error);
-    return NextResponse.json({
-      success: false,
-      message: "Failed to complete keyword research",
-      error: error instanceof Error ? error.message : "Unknown error"
-    }, { status: 500 });
+    return handleApiError(error, request);
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { searchConsolePropertySchema } from '@/lib/validation';
+import {
+  getSearchConsoleProperties,
+  selectSearchConsoleProperty,
+  startSearchConsoleSync,
+} from '@/lib/search-console/sync';
+
+// GET /api/user/google-search-console/properties - Properties of the connected account and the chosen one
+export async function GET(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const properties = await getSearchConsoleProperties(userId);
+
+    return NextResponse.json(
+      { success: true, data: properties },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error listing Search Console properties:', error);
+    return handleApiError(error, request);
+  }
+}
+
+// PUT /api/user/google-search-console/properties - Choose the property to sync and start syncing it
+export async function PUT(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+    const result = searchConsolePropertySchema.safeParse(body);
+
+    if (!result.success) {
+      return NextResponse.json(
+        { success: false, message: 'Validation failed', errors: result.error.errors },
+        { status: 400 }
+      );
+    }
+
+    const property = await selectSearchConsoleProperty(userId, result.data.property);
+    // The backfill runs in the background; poll GET /api/user/google-search-console/sync
+    const sync = await startSearchConsoleSync(userId);
+
+    return NextResponse.json(
+      { success: true, message: 'Search Console property saved', data: { property, sync } },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error choosing Search Console property:', error);
+    return handleApiError(error, request);
+  }
+}
@@ -2,12 +2,38 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { db } from '@/lib/db';
 import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { disconnectSearchConsole, getSearchConsoleConnection } from '@/lib/search-console';
 
 // Validation schema for the Google Search Console connection
 const gscConnectionSchema = z.object({
   connected: z.boolean().default(false)
 });
 
+// GET /api/user/google-search-console - Whether the connection is working, broken or absent
+export async function GET(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const connection = await getSearchConsoleConnection(userId);
+
+    return NextResponse.json(
+      { success: true, data: connection },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching Google Search Console connection:', error);
+    return handleApiError(error, request);
+  }
+}
+
 export async function POST(request: NextRequest) {
   try {
     // Verify user authentication
@@ -86,6 +112,9 @@ export async function POST(request: NextRequest) {
             hasGoogleSearchConsole: connected
           } as any
         });
+      } else if (!connected) {
+        // Revoke the stored tokens with Google and forget them
+        await disconnectSearchConsole(user.id);
       } else {
         // Update existing settings
         await db.settings.update({
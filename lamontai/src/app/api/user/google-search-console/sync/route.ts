@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { getSearchConsoleSyncStatus, startSearchConsoleSync } from '@/lib/search-console/sync';
+
+// GET /api/user/google-search-console/sync - How far the Search Analytics sync has got
+export async function GET(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const status = await getSearchConsoleSyncStatus(userId);
+
+    return NextResponse.json(
+      { success: true, data: status },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching Search Console sync status:', error);
+    return handleApiError(error, request);
+  }
+}
+
+// POST /api/user/google-search-console/sync - Sync Search Analytics rows for the chosen property now
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // The sync runs in the background; poll GET for its status
+    const sync = await startSearchConsoleSync(userId);
+
+    return NextResponse.json(
+      { success: true, message: 'Search Console sync started', data: sync },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error starting Search Console sync:', error);
+    return handleApiError(error, request);
+  }
+}
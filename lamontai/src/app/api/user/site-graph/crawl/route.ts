@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { startSiteCrawl } from '@/lib/site-graph';
+
+// POST /api/user/site-graph/crawl - Start crawling the user's site for its internal links
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // The crawl runs in the background; poll GET /api/user/site-graph for its status
+    const crawl = await startSiteCrawl(userId);
+
+    return NextResponse.json(
+      { success: true, message: 'Site crawl started', data: crawl },
+      { status: 202 }
+    );
+  } catch (error) {
+    console.error('Error starting site crawl:', error);
+    return handleApiError(error, request);
+  }
+}
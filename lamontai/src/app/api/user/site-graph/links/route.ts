@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { siteGraphLinksQuerySchema } from '@/lib/validation';
+import { getSiteGraphPageLinks } from '@/lib/site-graph';
+
+// GET /api/user/site-graph/links - Internal links into and out of one crawled page
+export async function GET(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const result = siteGraphLinksQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: 'Validation failed', errors: result.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const links = await getSiteGraphPageLinks(userId, result.data.url);
+
+    return NextResponse.json(
+      { success: true, data: links },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching site graph links:', error);
+    return handleApiError(error, request);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { siteGraphPageQuerySchema } from '@/lib/validation';
+import { querySiteGraphPages } from '@/lib/site-graph';
+
+// GET /api/user/site-graph/pages - A page of the crawled pages with their link metrics
+export async function GET(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const result = siteGraphPageQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: 'Validation failed', errors: result.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const pages = await querySiteGraphPages(userId, result.data);
+
+    return NextResponse.json(
+      { success: true, data: pages },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching site graph pages:', error);
+    return handleApiError(error, request);
+  }
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { getSiteGraphReport } from '@/lib/site-graph';
+
+// GET /api/user/site-graph - Internal link report from the latest crawl of the user's site
+export async function GET(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const report = await getSiteGraphReport(userId);
+
+    return NextResponse.json(
+      { success: true, data: report },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching site graph report:', error);
+    return handleApiError(error, request);
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { sitePageQuerySchema } from '@/lib/validation';
+import { querySitePages } from '@/lib/sitemap-utils/inventory';
+
+// GET /api/user/sitemap/pages - A page of the URLs found in the user's sitemaps
+export async function GET(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  const result = sitePageQuerySchema.safeParse(
+    Object.fromEntries(request.nextUrl.searchParams.entries())
+  );
+
+  if (!result.success) {
+    return NextResponse.json(
+      { success: false, message: 'Validation failed', errors: result.error.errors },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const pages = await querySitePages(userId, result.data);
+
+    return NextResponse.json(
+      { success: true, data: pages },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching sitemap pages:', error);
+    return handleApiError(error, request);
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { refreshSitemapInventory } from '@/lib/sitemap-utils/inventory';
+import { indexSitePages } from '@/lib/internal-links';
+
+// POST /api/user/sitemap/refresh - Refetch the user's sitemaps and record what changed
+export async function POST(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    // Uses the sitemap URL in settings, or discovers sitemaps from the website URL
+    const refresh = await refreshSitemapInventory(userId);
+
+    // Fetch new and changed pages for link recommendations without holding the response
+    indexSitePages(userId).catch(error => console.error(`Error indexing pages for user ${userId}:`, error));
+
+    return NextResponse.json(
+      { success: true, message: 'Sitemap refreshed', data: refresh },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error refreshing sitemap:', error);
+    return handleApiError(error, request);
+  }
+}
@@ -2,13 +2,39 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { db } from '@/lib/db';
 import { getUserIdFromRequest } from '@/lib/server-auth-utils';
-import { initializeUserSitemap } from '@/lib/sitemap-utils';
+import { handleApiError } from '@/lib/error-handler';
+import { getSitemapInventory, initializeUserSitemap } from '@/lib/sitemap-utils/inventory';
 
 // Validation schema for the sitemap URL (optional)
 const sitemapSchema = z.object({
   sitemapUrl: z.string().url({ message: "Invalid URL format" }).optional().or(z.literal(''))
 });
 
+// GET /api/user/sitemap - The user's sitemaps and how many URLs they list
+export async function GET(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const inventory = await getSitemapInventory(userId);
+
+    return NextResponse.json(
+      { success: true, data: inventory },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching sitemap inventory:', error);
+    return handleApiError(error, request);
+  }
+}
+
+// POST /api/user/sitemap - Save the sitemap URL and build its inventory in the background
 export async function POST(request: NextRequest) {
   try {
     // Verify user authentication
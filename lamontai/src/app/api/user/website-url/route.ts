@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
 import { db } from '@/lib/db';
 import { verifyToken, getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { initializeUserSitemap } from '@/lib/sitemap-utils/inventory';
 
 // Validation schema for the website URL
 const websiteUrlSchema = z.object({
@@ -100,6 +101,19 @@ export async function POST(request: NextRequest) {
       }
 
       console.log(`Successfully saved website URL: ${(updatedSettings as any).websiteUrl}`);
+
+      // Without a sitemap URL, find the site's sitemaps and build the inventory in the background
+      if (!user.settings?.sitemapUrl) {
+        initializeUserSitemap(userId)
+          .then(success => {
+            if (success) {
+              console.log(`Discovered sitemaps for user ${userId}`);
+            }
+          })
+          .catch(error => {
+            console.error(`Error during sitemap discovery for user ${userId}:`, error);
+          });
+      }
       
       return NextResponse.json(
         { 
@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { deleteVoiceProfile, getVoiceProfile } from '@/lib/voice-profiles';
+
+// GET /api/voice-profiles/[id] - Get a voice profile with its style metrics
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const profile = await getVoiceProfile(userId, params.id);
+
+    if (!profile) {
+      return NextResponse.json(
+        { success: false, message: 'Voice profile not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, data: profile },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching voice profile:', error);
+    return NextResponse.json(
+      { success: false, message: 'Error fetching voice profile' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/voice-profiles/[id] - Delete a voice profile
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const deleted = await deleteVoiceProfile(userId, params.id);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { success: false, message: 'Voice profile not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(
+      { success: true, message: 'Voice profile deleted' },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error deleting voice profile:', error);
+    return NextResponse.json(
+      { success: false, message: 'Error deleting voice profile' },
+      { status: 500 }
+    );
+  }
+}
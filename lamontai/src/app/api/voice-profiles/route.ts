@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getUserIdFromRequest } from '@/lib/server-auth-utils';
+import { listVoiceProfiles } from '@/lib/voice-profiles';
+
+// GET /api/voice-profiles - List the user's brand voice profiles
+export async function GET(request: NextRequest) {
+  const userId = await getUserIdFromRequest(request);
+
+  if (!userId) {
+    return NextResponse.json(
+      { success: false, message: 'Authentication required' },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const profiles = await listVoiceProfiles(userId);
+
+    return NextResponse.json(
+      { success: true, data: profiles },
+      { status: 200 }
+    );
+  } catch (error) {
+    console.error('Error fetching voice profiles:', error);
+    return NextResponse.json(
+      { success: false, message: 'Error fetching voice profiles' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,10 @@
 'use client';
 
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { getArticleById } from '@/lib/articles';
 import { ArrowLeft } from 'lucide-react';
+import InternalLinkReview from '@/components/dashboard/InternalLinkReview';
 
 interface ArticlePageProps {
   params: {
@@ -11,15 +12,93 @@ interface ArticlePageProps {
   };
 }
 
+interface SavedArticle {
+  id: string;
+  title: string;
+  content: string | null;
+  status: string;
+  wordCount: number;
+  seoScore: number | null;
+  updatedAt: string;
+}
+
 export default function ArticlePage({ params }: ArticlePageProps) {
+  const [saved, setSaved] = useState<SavedArticle | null>(null);
+  const [loading, setLoading] = useState(true);
   const article = getArticleById(params.id);
 
+  // Articles saved by the user come from the API; the sample articles are built in
+  useEffect(() => {
+    fetch(`/api/articles/${params.id}`, { credentials: 'include' })
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => setSaved(data?.data || null))
+      .catch(() => setSaved(null))
+      .finally(() => setLoading(false));
+  }, [params.id]);
+
+  if (loading && !article) {
+    return (
+      <div className="py-8">
+        <div className="mx-auto max-w-3xl">
+          <p className="text-sm text-gray-500">Loading article...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (saved) {
+    return (
+      <div className="py-8">
+        <div className="mx-auto max-w-3xl space-y-8">
+          <Link
+            href="/dashboard"
+            className="flex items-center text-sm text-gray-500 hover:text-gray-700"
+          >
+            <ArrowLeft size={16} className="mr-1" />
+            Back to Dashboard
+          </Link>
+
+          <div className="space-y-6 rounded-lg border bg-white p-6 shadow-sm">
+            <div className="border-b pb-4">
+              <div className="mb-2 text-sm text-gray-500">
+                {new Date(saved.updatedAt).toLocaleDateString()} • {saved.status}
+              </div>
+              <h1 className="text-3xl font-bold">{saved.title}</h1>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4 border-b pb-4">
+              <div className="space-y-1">
+                <div className="text-xs text-gray-500">WORDS</div>
+                <div className="text-xl font-bold">{saved.wordCount.toLocaleString()}</div>
+              </div>
+              <div className="space-y-1">
+                <div className="text-xs text-gray-500">SEO SCORE</div>
+                <div className="text-xl font-bold">{saved.seoScore ?? '—'}</div>
+              </div>
+            </div>
+
+            {/* Links waiting for review are highlighted */}
+            <div
+              className="prose max-w-none [&_a[data-link-id]]:bg-yellow-100"
+              dangerouslySetInnerHTML={{ __html: saved.content || '' }}
+            />
+          </div>
+
+          <InternalLinkReview
+            articleId={saved.id}
+            onContentChange={(content) => setSaved(previous => (previous ? { ...previous, content } : previous))}
+          />
+        </div>
+      </div>
+    );
+  }
+
   if (!article) {
     return (
       <div className="py-8">
         <div className="mx-auto max-w-3xl space-y-8">
-          <Link 
-            href="/dashboard" 
+          <Link
+            href="/dashboard"
             className="flex items-center text-sm text-gray-500 hover:text-gray-700"
           >
             <ArrowLeft size={16} className="mr-1" />
@@ -27,7 +106,7 @@ export default function ArticlePage({ params }: ArticlePageProps) {
           </Link>
           <div className="space-y-4 rounded-lg border bg-white p-6 shadow-sm">
             <h1 className="text-2xl font-bold">Article Not Found</h1>
-            <p>The article you're looking for doesn't exist or has been removed.</p>
+            <p>The article you&apos;re looking for doesn&apos;t exist or has been removed.</p>
           </div>
         </div>
       </div>
@@ -37,20 +116,20 @@ export default function ArticlePage({ params }: ArticlePageProps) {
   return (
     <div className="py-8">
       <div className="mx-auto max-w-3xl space-y-8">
-        <Link 
-          href="/dashboard" 
+        <Link
+          href="/dashboard"
           className="flex items-center text-sm text-gray-500 hover:text-gray-700"
         >
           <ArrowLeft size={16} className="mr-1" />
           Back to Dashboard
         </Link>
-        
+
         <div className="space-y-6 rounded-lg border bg-white p-6 shadow-sm">
           <div className="border-b pb-4">
             <div className="mb-2 text-sm text-gray-500">{article.date} • {article.category}</div>
             <h1 className="text-3xl font-bold">{article.title}</h1>
           </div>
-          
+
           <div className="grid grid-cols-3 gap-4 border-b pb-4">
             <div className="space-y-1">
               <div className="text-xs text-gray-500">SEO IMPACT</div>
@@ -65,10 +144,10 @@ export default function ArticlePage({ params }: ArticlePageProps) {
               <div className="text-xl font-bold">{article.searchVolume.toLocaleString()}</div>
             </div>
           </div>
-          
+
           <div className="prose max-w-none" dangerouslySetInnerHTML={{ __html: article.content }} />
         </div>
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,386 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { ArrowLeft } from 'lucide-react';
+import {
+  GenerationEvent,
+  GenerationStats,
+  OutlineSection,
+  readSseEvents
+} from '@/lib/generation/events';
+import type { InsertedLink } from '@/lib/internal-links/insertion';
+import type { CannibalizationWarning } from '@/lib/cannibalization';
+
+type GenerationStatus = 'idle' | 'generating' | 'done' | 'cancelled' | 'error';
+
+interface VoiceProfileOption {
+  id: string;
+  name: string;
+}
+
+export default function NewArticlePage() {
+  const router = useRouter();
+  const [topic, setTopic] = useState('');
+  const [keywords, setKeywords] = useState('');
+  // The planned article this writes, when opened from a content plan
+  const [plannedArticleId, setPlannedArticleId] = useState('');
+  const [length, setLength] = useState<'short' | 'medium' | 'long'>('medium');
+  const [voiceProfileId, setVoiceProfileId] = useState('');
+  const [voiceProfiles, setVoiceProfiles] = useState<VoiceProfileOption[]>([]);
+  const [internalLinkCount, setInternalLinkCount] = useState(3);
+  const [status, setStatus] = useState<GenerationStatus>('idle');
+  const [error, setError] = useState('');
+
+  const [outline, setOutline] = useState<OutlineSection[]>([]);
+  const [currentSection, setCurrentSection] = useState(-1);
+  const [content, setContent] = useState('');
+  const [title, setTitle] = useState('');
+  const [metaDescription, setMetaDescription] = useState('');
+  const [stats, setStats] = useState<GenerationStats | null>(null);
+  const [internalLinks, setInternalLinks] = useState<InsertedLink[]>([]);
+  const [cannibalization, setCannibalization] = useState<CannibalizationWarning | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Prefill from a planned article, e.g. /dashboard/article/new?articleId=...&topic=...&keywords=...
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    setPlannedArticleId(params.get('articleId') || '');
+    setTopic(params.get('topic') || '');
+    setKeywords(params.get('keywords') || '');
+  }, []);
+
+  // Load saved brand voices so the article can be written in one of them
+  useEffect(() => {
+    fetch('/api/voice-profiles', { credentials: 'include' })
+      .then(response => (response.ok ? response.json() : null))
+      .then(data => setVoiceProfiles(data?.data || []))
+      .catch(() => setVoiceProfiles([]));
+  }, []);
+
+  const handleEvent = (event: GenerationEvent) => {
+    switch (event.type) {
+      case 'cannibalization':
+        setCannibalization(event.warning);
+        break;
+      case 'outline':
+        setOutline(event.sections);
+        break;
+      case 'section':
+        setCurrentSection(event.index);
+        break;
+      case 'token':
+        setContent(previous => previous + event.text);
+        break;
+      case 'title':
+        setTitle(event.title);
+        break;
+      case 'meta-description':
+        setMetaDescription(event.metaDescription);
+        break;
+      case 'stats':
+        setStats(event.stats);
+        break;
+      case 'done':
+        // Replace the raw streamed sections with the cleaned-up article
+        setContent(event.content);
+        setInternalLinks(event.internalLinks || []);
+        setStatus('done');
+        break;
+      case 'error':
+        setError(event.message);
+        setStatus('error');
+        break;
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const keywordList = keywords.split(',').map(keyword => keyword.trim()).filter(Boolean);
+    if (!topic.trim() || keywordList.length === 0) {
+      setError('Please enter a topic and at least one keyword');
+      return;
+    }
+
+    // Reset previous output
+    setError('');
+    setOutline([]);
+    setCurrentSection(-1);
+    setContent('');
+    setTitle('');
+    setMetaDescription('');
+    setStats(null);
+    setInternalLinks([]);
+    setCannibalization(null);
+    setStatus('generating');
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      const response = await fetch('/api/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        signal: controller.signal,
+        body: JSON.stringify({
+          topic,
+          keywords: keywordList,
+          options: {
+            length,
+            voiceProfileId: voiceProfileId || undefined,
+            internalLinks: internalLinkCount || undefined
+          },
+          stream: true
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.message || data.error?.message || 'Failed to generate article');
+      }
+
+      await readSseEvents(response, handleEvent);
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setStatus('cancelled');
+        return;
+      }
+      setError(err instanceof Error ? err.message : 'An error occurred. Please try again.');
+      setStatus('error');
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
+  // Save the article as a draft, into the planned article when there is one;
+  // inserted links can then be reviewed on its page
+  const handleSave = async () => {
+    setSaving(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/articles', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({
+          title: title || topic,
+          content,
+          snippet: metaDescription || undefined,
+          internalLinks,
+          articleId: plannedArticleId || undefined
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error?.message || 'Failed to save article');
+      }
+
+      router.push(`/dashboard/article/${data.data.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save article');
+      setSaving(false);
+    }
+  };
+
+  const isGenerating = status === 'generating';
+
+  return (
+    <div className="py-8">
+      <div className="mx-auto max-w-4xl space-y-8">
+        <Link
+          href="/dashboard"
+          className="flex items-center text-sm text-gray-500 hover:text-gray-700"
+        >
+          <ArrowLeft size={16} className="mr-1" />
+          Back to Dashboard
+        </Link>
+
+        <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border bg-white p-6 shadow-sm">
+          <h1 className="text-2xl font-bold">Create New Article</h1>
+
+          {error && (
+            <div className="bg-red-50 border-l-4 border-red-500 p-4">
+              <p className="text-red-700 text-sm">{error}</p>
+            </div>
+          )}
+          {cannibalization && (
+            <div className="bg-orange-50 border-l-4 border-orange-500 p-4 text-sm text-orange-800">
+              <p className="font-medium mb-1">{cannibalization.message}</p>
+              <ul className="list-disc list-inside space-y-1">
+                {cannibalization.conflicts.map(conflict => (
+                  <li key={`${conflict.kind}:${conflict.id}`}>
+                    {conflict.url ? (
+                      <a href={conflict.url} target="_blank" rel="noopener noreferrer" className="underline">
+                        {conflict.title || conflict.url}
+                      </a>
+                    ) : (
+                      <Link href={`/dashboard/article/${conflict.id}`} className="underline">{conflict.title}</Link>
+                    )}
+                    {' '}({Math.round(conflict.score * 100)}% overlap · {conflict.reasons.join(' · ')})
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <input
+            type="text"
+            value={topic}
+            onChange={(e) => setTopic(e.target.value)}
+            placeholder="Topic, e.g. email marketing for startups"
+            disabled={isGenerating}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+          />
+          <input
+            type="text"
+            value={keywords}
+            onChange={(e) => setKeywords(e.target.value)}
+            placeholder="Keywords, separated by commas"
+            disabled={isGenerating}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+          />
+          <select
+            value={length}
+            onChange={(e) => setLength(e.target.value as 'short' | 'medium' | 'long')}
+            disabled={isGenerating}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+          >
+            <option value="short">Short (800-1000 words)</option>
+            <option value="medium">Medium (1500-2000 words)</option>
+            <option value="long">Long (2500-3000 words)</option>
+          </select>
+          {voiceProfiles.length > 0 && (
+            <select
+              value={voiceProfileId}
+              onChange={(e) => setVoiceProfileId(e.target.value)}
+              disabled={isGenerating}
+              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+            >
+              <option value="">Default voice</option>
+              {voiceProfiles.map(profile => (
+                <option key={profile.id} value={profile.id}>{profile.name}</option>
+              ))}
+            </select>
+          )}
+          <select
+            value={internalLinkCount}
+            onChange={(e) => setInternalLinkCount(Number(e.target.value))}
+            disabled={isGenerating}
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+          >
+            <option value={0}>No internal links</option>
+            <option value={3}>Up to 3 internal links to my site</option>
+            <option value={5}>Up to 5 internal links to my site</option>
+            <option value={10}>Up to 10 internal links to my site</option>
+          </select>
+
+          <div className="flex space-x-4">
+            <button
+              type="submit"
+              disabled={isGenerating}
+              className={`rounded-md px-4 py-2 text-sm font-medium text-white ${
+                isGenerating ? 'bg-gray-400 cursor-not-allowed' : 'bg-orange-600 hover:bg-orange-700'
+              }`}
+            >
+              {isGenerating ? 'Generating...' : 'Generate Article'}
+            </button>
+            {isGenerating && (
+              <button
+                type="button"
+                onClick={handleCancel}
+                className="rounded-md border border-gray-300 bg-white px-4 py-2 text-sm font-medium text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            )}
+          </div>
+          {status === 'cancelled' && (
+            <p className="text-sm text-gray-500">Generation cancelled. No credit was used.</p>
+          )}
+        </form>
+
+        {outline.length > 0 && (
+          <div className="grid grid-cols-1 gap-6 md:grid-cols-3">
+            <div className="rounded-lg border bg-white p-6 shadow-sm">
+              <h2 className="mb-4 text-lg font-bold">Outline</h2>
+              <ol className="space-y-2 text-sm">
+                {outline.map((section, index) => (
+                  <li
+                    key={index}
+                    className={`${section.level === 3 ? 'ml-4' : ''} ${
+                      index === currentSection && isGenerating
+                        ? 'font-medium text-orange-600'
+                        : index < currentSection || status === 'done'
+                        ? 'text-gray-900'
+                        : 'text-gray-400'
+                    }`}
+                  >
+                    {section.heading}
+                  </li>
+                ))}
+              </ol>
+            </div>
+
+            <div className="space-y-6 rounded-lg border bg-white p-6 shadow-sm md:col-span-2">
+              <div className="border-b pb-4">
+                <h2 className="text-3xl font-bold">{title || topic}</h2>
+                {metaDescription && (
+                  <p className="mt-2 text-sm text-gray-500">{metaDescription}</p>
+                )}
+                {status === 'done' && (
+                  <div className="mt-4 flex items-center justify-between">
+                    <p className="text-sm text-gray-500">
+                      {internalLinks.length > 0
+                        ? `${internalLinks.length} internal links added. Save the article to review them.`
+                        : 'No internal links were added.'}
+                    </p>
+                    <button
+                      type="button"
+                      onClick={handleSave}
+                      disabled={saving}
+                      className={`rounded-md px-4 py-2 text-sm font-medium text-white ${
+                        saving ? 'bg-gray-400 cursor-not-allowed' : 'bg-orange-600 hover:bg-orange-700'
+                      }`}
+                    >
+                      {saving ? 'Saving...' : 'Save Draft'}
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {stats && (
+                <div className="grid grid-cols-3 gap-4 border-b pb-4">
+                  <div className="space-y-1">
+                    <div className="text-xs text-gray-500">WORDS</div>
+                    <div className="text-xl font-bold">{stats.wordCount.toLocaleString()}</div>
+                  </div>
+                  <div className="space-y-1">
+                    <div className="text-xs text-gray-500">READABILITY</div>
+                    <div className="text-xl font-bold">{stats.readabilityScore}</div>
+                  </div>
+                  <div className="space-y-1">
+                    <div className="text-xs text-gray-500">ESTIMATED RANK</div>
+                    <div className="text-xl font-bold">{stats.estimatedRank}</div>
+                  </div>
+                </div>
+              )}
+
+              <div className="prose max-w-none" dangerouslySetInnerHTML={{ __html: content }} />
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
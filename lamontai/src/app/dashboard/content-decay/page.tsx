@@ -0,0 +1,321 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+
+interface MetricChange {
+  baseline: number;
+  current: number;
+  change: number;
+  pValue: number;
+  significant: boolean;
+}
+
+interface DecayingPage {
+  url: string;
+  title: string | null;
+  clicks: MetricChange;
+  impressions: MetricChange;
+  position: MetricChange;
+  ctr: { baseline: number; current: number };
+  cause: 'ranking' | 'visibility' | 'ctr';
+  lostClicks: number;
+  recoverableClicks: number;
+  trend: number[];
+  lastModified: string | null;
+  daysSinceUpdate: number | null;
+  recentlyUpdated: boolean;
+}
+
+interface Report {
+  pages: DecayingPage[];
+  testedPages: number;
+  siteTrend: number;
+  windows: { baselineStart: string; baselineEnd: string; currentStart: string; currentEnd: string; windowDays: number };
+  property: string;
+  generatedAt: string;
+}
+
+interface QueryChange {
+  query: string;
+  clicks: { baseline: number; current: number };
+  position: { baseline: number | null; current: number | null };
+  covered: boolean;
+}
+
+interface RefreshTask {
+  id: string;
+  url: string;
+  title: string;
+  keyword: string | null;
+  status: 'open' | 'done' | 'dismissed';
+  brief: {
+    title: string;
+    lostQueries: QueryChange[];
+    suggestions: string[];
+  };
+  updatedAt: string;
+}
+
+const CAUSE_LABELS: Record<DecayingPage['cause'], { label: string; style: string }> = {
+  ranking: { label: 'Lost rankings', style: 'bg-red-100 text-red-800' },
+  visibility: { label: 'Fewer impressions', style: 'bg-yellow-100 text-yellow-800' },
+  ctr: { label: 'Lower click-through', style: 'bg-blue-100 text-blue-800' },
+};
+
+const pathOf = (url: string) => {
+  const { pathname, search } = new URL(url);
+  return `${pathname}${search}`;
+};
+
+const percent = (value: number) => `${value > 0 ? '+' : ''}${Math.round(value * 100)}%`;
+
+export default function ContentDecayPage() {
+  const [report, setReport] = useState<Report | null>(null);
+  const [tasks, setTasks] = useState<RefreshTask[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [briefing, setBriefing] = useState<string | null>(null);
+  const [error, setError] = useState('');
+
+  const loadReport = useCallback(async (refresh = false) => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch(`/api/content/decay?refresh=${refresh}`, { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error?.message || 'Failed to check for content decay');
+      }
+      setReport(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check for content decay');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadTasks = useCallback(async () => {
+    const response = await fetch('/api/content/tasks?type=refresh&status=open', { credentials: 'include' });
+    const data = await response.json();
+    if (response.ok) {
+      setTasks(data.data);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+    loadTasks();
+  }, [loadReport, loadTasks]);
+
+  const handleBrief = async (page: DecayingPage) => {
+    setBriefing(page.url);
+    setError('');
+    try {
+      const response = await fetch('/api/content/decay/brief', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({ url: page.url, windowDays: report?.windows.windowDays }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error?.message || 'Failed to create the refresh brief');
+      }
+      await loadTasks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create the refresh brief');
+    } finally {
+      setBriefing(null);
+    }
+  };
+
+  const updateTask = async (task: RefreshTask, status: RefreshTask['status']) => {
+    const response = await fetch(`/api/content/tasks/${task.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ status }),
+    });
+    if (response.ok) {
+      setTasks(previous => previous.filter(item => item.id !== task.id));
+    }
+  };
+
+  const taskUrls = new Set(tasks.map(task => task.url));
+  const recoverable = report?.pages.reduce((total, page) => total + page.recoverableClicks, 0) ?? 0;
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Content Decay</h1>
+          <p className="text-sm text-gray-500">
+            {report
+              ? `${report.property} · last ${report.windows.windowDays} days (${report.windows.currentStart} to ${report.windows.currentEnd}) against the ${report.windows.windowDays * 2} days before`
+              : 'Pages whose Search Console traffic is falling.'}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={() => loadReport(true)}
+          disabled={loading}
+          className={`px-6 py-2 rounded-full text-white font-medium ${
+            loading ? 'bg-gray-400 cursor-not-allowed' : 'bg-orange-500 hover:bg-orange-600'
+          }`}
+        >
+          {loading ? 'Checking...' : 'Check again'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4">
+          <p className="text-red-700 text-sm">
+            {error}
+            {/Search Console/.test(error) && (
+              <>
+                {' '}
+                <Link href="/dashboard/google-search-console" className="font-medium underline">Manage the connection</Link>
+              </>
+            )}
+          </p>
+        </div>
+      )}
+
+      {report && (
+        <>
+          <div className="grid grid-cols-2 gap-6 md:grid-cols-4">
+            <SummaryCard title="Decaying pages" value={report.pages.length} detail={`Of ${report.testedPages} pages with enough clicks to test`} />
+            <SummaryCard title="Recoverable clicks" value={recoverable} detail="A month, beyond the site-wide trend" />
+            <SummaryCard title="Site impressions" value={percent(report.siteTrend - 1)} detail="Current window against the baseline" />
+            <SummaryCard title="Refresh tasks" value={tasks.length} detail="Open" />
+          </div>
+
+          <div className="rounded-lg border bg-white p-6 shadow-sm">
+            <div className="overflow-x-auto border rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-4 py-2">Page</th>
+                    <th className="px-4 py-2">Clicks</th>
+                    <th className="px-4 py-2">Position</th>
+                    <th className="px-4 py-2">Why</th>
+                    <th className="px-4 py-2">Recoverable / month</th>
+                    <th className="px-4 py-2">Last updated</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.pages.map(page => (
+                    <tr key={page.url} className="border-t align-top">
+                      <td className="px-4 py-2 break-all">
+                        <a href={page.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                          {page.title || pathOf(page.url)}
+                        </a>
+                        <div className="text-xs text-gray-500">{pathOf(page.url)}</div>
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        <div>{page.clicks.baseline} → {page.clicks.current} <span className="text-red-600">{percent(page.clicks.change)}</span></div>
+                        <Sparkline values={page.trend} />
+                      </td>
+                      <td className="px-4 py-2 whitespace-nowrap">{page.position.baseline} → {page.position.current}</td>
+                      <td className="px-4 py-2">
+                        <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${CAUSE_LABELS[page.cause].style}`}>
+                          {CAUSE_LABELS[page.cause].label}
+                        </span>
+                      </td>
+                      <td className="px-4 py-2">{page.recoverableClicks}</td>
+                      <td className="px-4 py-2 whitespace-nowrap">
+                        {page.lastModified ? new Date(page.lastModified).toLocaleDateString() : '—'}
+                        {page.recentlyUpdated && <div className="text-xs text-orange-700">Updated recently</div>}
+                      </td>
+                      <td className="px-4 py-2">
+                        <button
+                          type="button"
+                          onClick={() => handleBrief(page)}
+                          disabled={briefing !== null}
+                          className="whitespace-nowrap rounded-md border border-gray-300 bg-white px-3 py-1 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                        >
+                          {briefing === page.url ? 'Building...' : taskUrls.has(page.url) ? 'Update brief' : 'Refresh brief'}
+                        </button>
+                      </td>
+                    </tr>
+                  ))}
+                  {report.pages.length === 0 && (
+                    <tr>
+                      <td colSpan={7} className="px-4 py-6 text-center text-gray-500">No pages are losing traffic significantly</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      {tasks.length > 0 && (
+        <div className="rounded-lg border bg-white p-6 shadow-sm">
+          <h2 className="mb-4 text-lg font-bold">Refresh tasks</h2>
+          <ul className="divide-y">
+            {tasks.map(task => (
+              <li key={task.id} className="py-4 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <a href={task.url} target="_blank" rel="noopener noreferrer" className="font-medium hover:underline">{task.title}</a>
+                  <div className="flex gap-2 text-sm">
+                    <Link
+                      href={`/dashboard/article/new?${new URLSearchParams({
+                        topic: task.brief.title,
+                        keywords: [task.keyword, ...task.brief.lostQueries.map(query => query.query)].filter(Boolean).slice(0, 5).join(', '),
+                      })}`}
+                      className="rounded-md bg-orange-500 px-3 py-1 text-white hover:bg-orange-600"
+                    >
+                      Write update
+                    </Link>
+                    <button type="button" onClick={() => updateTask(task, 'done')} className="rounded-md border border-gray-300 px-3 py-1 text-gray-700 hover:bg-gray-50">Done</button>
+                    <button type="button" onClick={() => updateTask(task, 'dismissed')} className="rounded-md border border-gray-300 px-3 py-1 text-gray-700 hover:bg-gray-50">Dismiss</button>
+                  </div>
+                </div>
+                {task.brief.suggestions.length > 0 && (
+                  <ul className="list-disc pl-5 text-sm text-gray-700">
+                    {task.brief.suggestions.map(suggestion => <li key={suggestion}>{suggestion}</li>)}
+                  </ul>
+                )}
+                {task.brief.lostQueries.length > 0 && (
+                  <p className="text-xs text-gray-500">
+                    Queries losing clicks:{' '}
+                    {task.brief.lostQueries
+                      .map(query => `${query.query} (${query.clicks.baseline} → ${query.clicks.current}, position ${query.position.baseline ?? '—'} → ${query.position.current ?? '—'})`)
+                      .join(' · ')}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SummaryCard({ title, value, detail }: { title: string; value: number | string; detail: string }) {
+  return (
+    <div className="rounded-lg border bg-white p-6 shadow-sm">
+      <div className="text-sm text-gray-500">{title}</div>
+      <div className="mt-2 text-3xl font-bold">{value}</div>
+      <div className="mt-1 text-xs text-gray-500">{detail}</div>
+    </div>
+  );
+}
+
+// Rolling click totals as a small line
+function Sparkline({ values }: { values: number[] }) {
+  if (values.length < 2) return null;
+  const max = Math.max(...values, 1);
+  const points = values
+    .map((value, index) => `${(index / (values.length - 1)) * 80},${20 - (value / max) * 18}`)
+    .join(' ');
+  return (
+    <svg width="80" height="22" className="mt-1 text-red-500" aria-hidden="true">
+      <polyline points={points} fill="none" stroke="currentColor" strokeWidth="1.5" />
+    </svg>
+  );
+}
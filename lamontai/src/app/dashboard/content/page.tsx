@@ -1,17 +1,97 @@
 'use client';
 
-import React from 'react';
-import { getAllArticles } from '@/lib/articles';
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import CannibalizationReport from '@/components/dashboard/CannibalizationReport';
+
+interface ScheduledArticle {
+  id: string;
+  title: string;
+  status: string;
+  targetKeyword: string | null;
+  intent: string | null;
+  scheduledFor: string;
+}
+
+// Calendar badge colours per article status
+const STATUS_STYLES: Record<string, string> = {
+  planned: 'bg-purple-100 text-purple-800',
+  draft: 'bg-blue-100 text-blue-800',
+  published: 'bg-orange-100 text-orange-800',
+  archived: 'bg-gray-100 text-gray-600',
+};
 
 export default function ContentPlanPage() {
-  const articles = getAllArticles();
-  
+  const today = new Date();
+  const [viewMonth, setViewMonth] = useState({ year: today.getFullYear(), month: today.getMonth() });
+  const [articles, setArticles] = useState<ScheduledArticle[]>([]);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState('');
+
+  const { year: currentYear, month: currentMonth } = viewMonth;
+
+  const loadArticles = useCallback(async () => {
+    const from = new Date(currentYear, currentMonth, 1);
+    const to = new Date(currentYear, currentMonth + 1, 1);
+
+    try {
+      const response = await fetch(
+        `/api/articles?scheduledFrom=${from.toISOString()}&scheduledTo=${to.toISOString()}`,
+        { credentials: 'include' }
+      );
+      const data = await response.json();
+      setArticles(response.ok ? data.data || [] : []);
+    } catch (err) {
+      console.error('Error loading scheduled articles:', err);
+      setArticles([]);
+    }
+  }, [currentYear, currentMonth]);
+
+  useEffect(() => {
+    loadArticles();
+  }, [loadArticles]);
+
+  const handleGeneratePlan = async () => {
+    setIsGenerating(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/content-plans/generate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify({}),
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error?.message || 'Failed to generate content plan');
+      }
+
+      // Jump to the month the plan starts in
+      const firstDate = data.data?.articles?.[0]?.scheduledFor;
+      const start = firstDate ? new Date(firstDate) : new Date();
+      if (start.getFullYear() === currentYear && start.getMonth() === currentMonth) {
+        await loadArticles();
+      } else {
+        setViewMonth({ year: start.getFullYear(), month: start.getMonth() });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate content plan');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const changeMonth = (offset: number) => {
+    const date = new Date(currentYear, currentMonth + offset, 1);
+    setViewMonth({ year: date.getFullYear(), month: date.getMonth() });
+  };
+
   // Get current month calendar days (simplified)
-  const currentMonth = new Date().getMonth();
-  const currentYear = new Date().getFullYear();
   const daysInMonth = new Date(currentYear, currentMonth + 1, 0).getDate();
   const firstDayOfMonth = new Date(currentYear, currentMonth, 1).getDay();
-  
+
   // Create calendar days array with padding for first day
   const calendarDays = [];
   for (let i = 0; i < firstDayOfMonth; i++) {
@@ -20,7 +100,16 @@ export default function ContentPlanPage() {
   for (let i = 1; i <= daysInMonth; i++) {
     calendarDays.push(i);
   }
-  
+
+  const articlesOnDay = (day: number) =>
+    articles.filter(article => new Date(article.scheduledFor).getDate() === day);
+
+  const isToday = (day: number) =>
+    day === today.getDate() && currentMonth === today.getMonth() && currentYear === today.getFullYear();
+
+  const startOfToday = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+  const upcoming = articles.filter(article => new Date(article.scheduledFor) >= startOfToday);
+
   // Get month name
   const monthName = new Date(currentYear, currentMonth).toLocaleString('default', { month: 'long' });
 
@@ -28,29 +117,47 @@ export default function ContentPlanPage() {
     <div className="space-y-8">
       <div className="flex items-center justify-between">
         <h1 className="text-2xl font-bold">Content Plan</h1>
-        <button className="rounded-md bg-orange-600 px-4 py-2 text-sm font-medium text-white hover:bg-orange-700">
-          Create Content
+        <button
+          onClick={handleGeneratePlan}
+          disabled={isGenerating}
+          className={`rounded-md px-4 py-2 text-sm font-medium text-white ${
+            isGenerating ? 'bg-gray-400 cursor-not-allowed' : 'bg-orange-600 hover:bg-orange-700'
+          }`}
+        >
+          {isGenerating ? 'Generating Plan...' : 'Generate Plan'}
         </button>
       </div>
 
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
       {/* Calendar */}
       <div className="rounded-lg border bg-white p-6 shadow-sm">
         <div className="mb-4 flex items-center justify-between">
           <h2 className="text-lg font-bold">{monthName} {currentYear}</h2>
           <div className="flex space-x-2">
-            <button className="rounded-md border border-gray-300 bg-white p-2 text-gray-500 hover:bg-gray-50">
+            <button
+              onClick={() => changeMonth(-1)}
+              className="rounded-md border border-gray-300 bg-white p-2 text-gray-500 hover:bg-gray-50"
+            >
               <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
                 <path fillRule="evenodd" d="M12.707 5.293a1 1 0 010 1.414L9.414 10l3.293 3.293a1 1 0 01-1.414 1.414l-4-4a1 1 0 010-1.414l4-4a1 1 0 011.414 0z" clipRule="evenodd" />
               </svg>
             </button>
-            <button className="rounded-md border border-gray-300 bg-white p-2 text-gray-500 hover:bg-gray-50">
+            <button
+              onClick={() => changeMonth(1)}
+              className="rounded-md border border-gray-300 bg-white p-2 text-gray-500 hover:bg-gray-50"
+            >
               <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
                 <path fillRule="evenodd" d="M7.293 14.707a1 1 0 010-1.414L10.586 10 7.293 6.707a1 1 0 011.414-1.414l4 4a1 1 0 010 1.414l-4 4a1 1 0 01-1.414 0z" clipRule="evenodd" />
               </svg>
             </button>
           </div>
         </div>
-        
+
         <div className="mb-6 grid grid-cols-7 gap-2 border-b pb-4 text-center text-sm font-medium text-gray-500">
           <div>Sun</div>
           <div>Mon</div>
@@ -60,15 +167,15 @@ export default function ContentPlanPage() {
           <div>Fri</div>
           <div>Sat</div>
         </div>
-        
+
         <div className="grid grid-cols-7 gap-2">
           {calendarDays.map((day, index) => (
             <div
               key={index}
-              className={`h-24 rounded-md border p-2 ${
+              className={`h-24 overflow-hidden rounded-md border p-2 ${
                 day === null
                   ? 'bg-gray-50'
-                  : day === new Date().getDate() && currentMonth === new Date().getMonth()
+                  : isToday(day)
                   ? 'border-orange-300 bg-orange-50'
                   : 'hover:border-gray-300'
               }`}
@@ -76,21 +183,15 @@ export default function ContentPlanPage() {
               {day !== null && (
                 <>
                   <div className="text-right text-sm font-medium">{day}</div>
-                  {day === 5 && currentMonth === 3 && (
-                    <div className="mt-2 rounded bg-orange-100 p-1 text-xs text-orange-800">
-                      Article ready
-                    </div>
-                  )}
-                  {day === 12 && (
-                    <div className="mt-2 rounded bg-blue-100 p-1 text-xs text-blue-800">
-                      Draft due
+                  {articlesOnDay(day).map(article => (
+                    <div
+                      key={article.id}
+                      title={article.title}
+                      className={`mt-2 truncate rounded p-1 text-xs ${STATUS_STYLES[article.status] || STATUS_STYLES.draft}`}
+                    >
+                      {article.title}
                     </div>
-                  )}
-                  {day === 20 && (
-                    <div className="mt-2 rounded bg-purple-100 p-1 text-xs text-purple-800">
-                      Keyword research
-                    </div>
-                  )}
+                  ))}
                 </>
               )}
             </div>
@@ -101,25 +202,37 @@ export default function ContentPlanPage() {
       {/* Upcoming Content */}
       <div className="rounded-lg border bg-white p-6 shadow-sm">
         <h2 className="mb-4 text-lg font-bold">Upcoming Content</h2>
-        <div className="space-y-4">
-          {articles.map((article) => (
-            <div key={article.id} className="flex items-center justify-between rounded-lg border p-4 hover:bg-gray-50">
-              <div>
-                <h3 className="font-medium">{article.title}</h3>
-                <div className="mt-1 text-sm text-gray-500">{article.date}</div>
-              </div>
-              <div className="flex space-x-2">
-                <button className="rounded-md border border-gray-300 bg-white px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50">
-                  Edit
-                </button>
-                <button className="rounded-md border border-gray-300 bg-white px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50">
-                  View
-                </button>
+        {upcoming.length === 0 ? (
+          <p className="text-sm text-gray-500">
+            Nothing scheduled for {monthName}. Generate a plan to fill your calendar.
+          </p>
+        ) : (
+          <div className="space-y-4">
+            {upcoming.map((article) => (
+              <div key={article.id} className="flex items-center justify-between rounded-lg border p-4 hover:bg-gray-50">
+                <div>
+                  <h3 className="font-medium">{article.title}</h3>
+                  <div className="mt-1 text-sm text-gray-500">
+                    {new Date(article.scheduledFor).toLocaleDateString()}
+                    {article.targetKeyword && ` · ${article.targetKeyword}`}
+                    {article.intent && ` · ${article.intent}`}
+                  </div>
+                </div>
+                {article.status === 'planned' && (
+                  <Link
+                    href={`/dashboard/article/new?articleId=${encodeURIComponent(article.id)}&topic=${encodeURIComponent(article.title)}&keywords=${encodeURIComponent(article.targetKeyword || '')}`}
+                    className="rounded-md border border-gray-300 bg-white px-3 py-1 text-xs font-medium text-gray-700 hover:bg-gray-50"
+                  >
+                    Write
+                  </Link>
+                )}
               </div>
-            </div>
-          ))}
-        </div>
+            ))}
+          </div>
+        )}
       </div>
+
+      <CannibalizationReport />
     </div>
   );
-} 
\ No newline at end of file
+}
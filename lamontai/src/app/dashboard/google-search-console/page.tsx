@@ -5,12 +5,16 @@ import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import { getUserData } from '@/lib/auth-utils';
 import { connectGoogleSearchConsole } from '@/lib/articles';
+import SearchConsoleSync from '@/components/dashboard/SearchConsoleSync';
+import type { SearchConsoleConnection } from '@/lib/search-console/tokens';
 
 export default function GoogleSearchConsolePage() {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState('');
   const [user, setUser] = useState<any>(null);
   const [isConnected, setIsConnected] = useState(false);
+  const [justConnected, setJustConnected] = useState(false);
+  const [brokenConnection, setBrokenConnection] = useState<SearchConsoleConnection | null>(null);
   const router = useRouter();
 
   useEffect(() => {
@@ -20,8 +24,13 @@ export default function GoogleSearchConsolePage() {
         if (userData) {
           setUser(userData);
           
-          // Check if user already has GSC connected
-          if (userData.settings && userData.settings.hasGoogleSearchConsole) {
+          // Check if user already has GSC connected, and whether the connection still works
+          const response = await fetch('/api/user/google-search-console', { credentials: 'include' });
+          const data = response.ok ? await response.json() : null;
+          const connection: SearchConsoleConnection | undefined = data?.data;
+          if (connection?.status === 'broken') {
+            setBrokenConnection(connection);
+          } else if (connection?.status === 'connected' || (!connection && userData.settings?.hasGoogleSearchConsole)) {
             setIsConnected(true);
           }
         } else {
@@ -62,6 +71,8 @@ export default function GoogleSearchConsolePage() {
         }
 
         setIsConnected(true);
+        setJustConnected(true);
+        setBrokenConnection(null);
         
         // Redirect to dashboard after a short delay
         setTimeout(() => {
@@ -141,22 +152,38 @@ export default function GoogleSearchConsolePage() {
               <p className="text-red-700 text-sm">{error}</p>
             </div>
           )}
+
+          {brokenConnection && (
+            <div className="mb-4 bg-red-50 border-l-4 border-red-500 p-4">
+              <p className="text-red-700 text-sm font-medium">Your Google Search Console connection stopped working</p>
+              <p className="text-red-700 text-sm">
+                {brokenConnection.error || 'Google no longer accepts the stored access'}
+                {brokenConnection.brokenAt && ` (since ${new Date(brokenConnection.brokenAt).toLocaleDateString()})`}.
+                {' '}Reconnect to keep using your Search Console data.
+              </p>
+            </div>
+          )}
           
           {isConnected ? (
-            <div className="mb-8 bg-green-50 border-l-4 border-green-500 p-4 rounded-r">
-              <div className="flex">
-                <div className="flex-shrink-0">
-                  <svg className="h-5 w-5 text-green-600" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
-                    <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
-                  </svg>
-                </div>
-                <div className="ml-3">
-                  <p className="text-sm text-green-700">
-                    Successfully connected to Google Search Console. Redirecting to dashboard...
-                  </p>
+            <>
+              <div className="mb-8 bg-green-50 border-l-4 border-green-500 p-4 rounded-r">
+                <div className="flex">
+                  <div className="flex-shrink-0">
+                    <svg className="h-5 w-5 text-green-600" xmlns="http://www.w3.org/2000/svg" viewBox="0 0 20 20" fill="currentColor">
+                      <path fillRule="evenodd" d="M10 18a8 8 0 100-16 8 8 0 000 16zm3.707-9.293a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                    </svg>
+                  </div>
+                  <div className="ml-3">
+                    <p className="text-sm text-green-700">
+                      {justConnected
+                        ? 'Successfully connected to Google Search Console. Redirecting to dashboard...'
+                        : 'Connected to Google Search Console.'}
+                    </p>
+                  </div>
                 </div>
               </div>
-            </div>
+              {!justConnected && <SearchConsoleSync />}
+            </>
           ) : (
             <div className="flex space-x-4 mb-8">
               <button
@@ -181,7 +208,7 @@ export default function GoogleSearchConsolePage() {
                     <svg className="mr-2 h-5 w-5" viewBox="0 0 24 24" fill="currentColor">
                       <path d="M21.35,11.1H12.18V13.83H18.69C18.36,17.64 15.19,19.27 12.19,19.27C8.36,19.27 5,16.25 5,12C5,7.9 8.2,4.73 12.2,4.73C15.29,4.73 17.1,6.7 17.1,6.7L19,4.72C19,4.72 16.56,2 12.1,2C6.42,2 2.03,6.8 2.03,12C2.03,17.05 6.16,22 12.25,22C17.6,22 21.5,18.33 21.5,12.91C21.5,11.76 21.35,11.1 21.35,11.1V11.1Z" />
                     </svg>
-                    Connect with Google
+                    {brokenConnection ? 'Reconnect with Google' : 'Connect with Google'}
                   </>
                 )}
               </button>
@@ -0,0 +1,347 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+
+interface Opportunity {
+  query: string;
+  page: string;
+  clicks: number;
+  impressions: number;
+  position: number;
+  ctr: number;
+  estimatedUplift: number;
+  pageTitle: string | null;
+  inTitle: boolean | null;
+  inHeadings: boolean | null;
+  missingTerms: string[];
+  suggestedAction: 'optimize' | 'article';
+}
+
+interface Report {
+  opportunities: Opportunity[];
+  count: number;
+  totalUplift: number;
+  property: string;
+  window: { start: string; end: string; windowDays: number };
+}
+
+interface OptimizeTask {
+  id: string;
+  url: string;
+  title: string;
+  keyword: string | null;
+  brief: {
+    title: string;
+    relatedQueries: Opportunity[];
+    suggestions: string[];
+  };
+}
+
+interface PlanOption {
+  id: string;
+  title: string;
+}
+
+const pathOf = (url: string) => {
+  const { pathname, search } = new URL(url);
+  return `${pathname}${search}`;
+};
+
+const opportunityKey = (opportunity: Opportunity) => `${opportunity.query}\u0000${opportunity.page}`;
+
+export default function OpportunitiesPage() {
+  const [report, setReport] = useState<Report | null>(null);
+  const [tasks, setTasks] = useState<OptimizeTask[]>([]);
+  const [plans, setPlans] = useState<PlanOption[]>([]);
+  const [planId, setPlanId] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [working, setWorking] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch('/api/content/opportunities', { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error?.message || 'Failed to load opportunities');
+      }
+      setReport(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load opportunities');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const loadTasks = useCallback(async () => {
+    const response = await fetch('/api/content/tasks?type=optimize&status=open', { credentials: 'include' });
+    const data = await response.json();
+    if (response.ok) {
+      setTasks(data.data);
+    }
+  }, []);
+
+  const loadPlans = useCallback(async () => {
+    const response = await fetch('/api/content-plans?limit=100', { credentials: 'include' });
+    const data = await response.json();
+    if (response.ok) {
+      setPlans(data.data);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+    loadTasks();
+    loadPlans();
+  }, [loadReport, loadTasks, loadPlans]);
+
+  const convert = async (opportunity: Opportunity, action: 'optimize' | 'plan') => {
+    setWorking(`${action}:${opportunityKey(opportunity)}`);
+    setError('');
+    setMessage('');
+    try {
+      const body = {
+        query: opportunity.query,
+        page: opportunity.page,
+        windowDays: report?.window.windowDays,
+        ...(action === 'plan' && planId ? { planId } : {}),
+      };
+      const response = await fetch(`/api/content/opportunities/${action}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error?.message || 'Failed to convert the opportunity');
+      }
+      if (action === 'optimize') {
+        await loadTasks();
+      } else {
+        setMessage(`"${opportunity.query}" was added to ${data.data.title}`);
+        if (!planId) {
+          await loadPlans();
+          setPlanId(data.data.id);
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to convert the opportunity');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const updateTask = async (task: OptimizeTask, status: 'done' | 'dismissed') => {
+    const response = await fetch(`/api/content/tasks/${task.id}`, {
+      method: 'PATCH',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify({ status }),
+    });
+    if (response.ok) {
+      setTasks(previous => previous.filter(item => item.id !== task.id));
+    }
+  };
+
+  const taskUrls = new Set(tasks.map(task => task.url));
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Opportunities</h1>
+          <p className="text-sm text-gray-500">
+            {report
+              ? `${report.property} · queries ranking 8-20 from ${report.window.start} to ${report.window.end}`
+              : 'Queries ranking just off the top of Google.'}
+          </p>
+        </div>
+        <div className="flex items-center gap-2 text-sm">
+          <label htmlFor="plan" className="text-gray-600">Plan articles in</label>
+          <select
+            id="plan"
+            value={planId}
+            onChange={event => setPlanId(event.target.value)}
+            className="rounded-md border border-gray-300 px-3 py-2"
+          >
+            <option value="">A new plan</option>
+            {plans.map(plan => <option key={plan.id} value={plan.id}>{plan.title}</option>)}
+          </select>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4">
+          <p className="text-red-700 text-sm">
+            {error}
+            {/Search Console/.test(error) && (
+              <>
+                {' '}
+                <Link href="/dashboard/google-search-console" className="font-medium underline">Choose a property</Link>
+              </>
+            )}
+          </p>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-50 border-l-4 border-green-500 p-4">
+          <p className="text-green-700 text-sm">
+            {message}. <Link href="/dashboard/content" className="font-medium underline">View content plans</Link>
+          </p>
+        </div>
+      )}
+
+      {loading && !report && <p className="text-sm text-gray-500">Loading...</p>}
+
+      {report && (
+        <>
+          <div className="grid grid-cols-2 gap-6 md:grid-cols-3">
+            <SummaryCard title="Opportunities" value={report.count} detail="Query and page pairs in striking distance" />
+            <SummaryCard title="Estimated uplift" value={report.totalUplift} detail="Clicks a month if each reached position 3" />
+            <SummaryCard title="Optimize tasks" value={tasks.length} detail="Open" />
+          </div>
+
+          <div className="rounded-lg border bg-white p-6 shadow-sm">
+            <div className="overflow-x-auto border rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-4 py-2">Query</th>
+                    <th className="px-4 py-2">Page</th>
+                    <th className="px-4 py-2">Position</th>
+                    <th className="px-4 py-2">Impressions</th>
+                    <th className="px-4 py-2">Clicks</th>
+                    <th className="px-4 py-2">Uplift / month</th>
+                    <th className="px-4 py-2">Covered in</th>
+                    <th className="px-4 py-2"></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.opportunities.map(opportunity => {
+                    const key = opportunityKey(opportunity);
+                    return (
+                      <tr key={key} className="border-t align-top">
+                        <td className="px-4 py-2 font-medium">{opportunity.query}</td>
+                        <td className="px-4 py-2 break-all">
+                          <a href={opportunity.page} target="_blank" rel="noopener noreferrer" className="hover:underline">
+                            {opportunity.pageTitle || pathOf(opportunity.page)}
+                          </a>
+                          <div className="text-xs text-gray-500">{pathOf(opportunity.page)}</div>
+                        </td>
+                        <td className="px-4 py-2">{opportunity.position}</td>
+                        <td className="px-4 py-2">{opportunity.impressions}</td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          {opportunity.clicks} <span className="text-xs text-gray-500">({(opportunity.ctr * 100).toFixed(1)}%)</span>
+                        </td>
+                        <td className="px-4 py-2 font-medium text-green-700">+{opportunity.estimatedUplift}</td>
+                        <td className="px-4 py-2 whitespace-nowrap">
+                          {opportunity.inTitle === null ? (
+                            <span className="text-xs text-gray-500">Not indexed</span>
+                          ) : (
+                            <div className="flex gap-1">
+                              <CoverageBadge label="Title" covered={opportunity.inTitle} />
+                              <CoverageBadge label="Heading" covered={!!opportunity.inHeadings} />
+                            </div>
+                          )}
+                        </td>
+                        <td className="px-4 py-2">
+                          <div className="flex gap-2">
+                            <button
+                              type="button"
+                              onClick={() => convert(opportunity, 'optimize')}
+                              disabled={working !== null}
+                              className={`whitespace-nowrap rounded-md px-3 py-1 disabled:opacity-50 ${
+                                opportunity.suggestedAction === 'optimize'
+                                  ? 'bg-orange-500 text-white hover:bg-orange-600'
+                                  : 'border border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                              }`}
+                            >
+                              {working === `optimize:${key}` ? 'Creating...' : taskUrls.has(opportunity.page) ? 'Refocus task' : 'Optimize page'}
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => convert(opportunity, 'plan')}
+                              disabled={working !== null}
+                              className={`whitespace-nowrap rounded-md px-3 py-1 disabled:opacity-50 ${
+                                opportunity.suggestedAction === 'article'
+                                  ? 'bg-orange-500 text-white hover:bg-orange-600'
+                                  : 'border border-gray-300 bg-white text-gray-700 hover:bg-gray-50'
+                              }`}
+                            >
+                              {working === `plan:${key}` ? 'Planning...' : 'Plan article'}
+                            </button>
+                          </div>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                  {report.opportunities.length === 0 && (
+                    <tr>
+                      <td colSpan={8} className="px-4 py-6 text-center text-gray-500">No queries are in striking distance with enough impressions</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      {tasks.length > 0 && (
+        <div className="rounded-lg border bg-white p-6 shadow-sm">
+          <h2 className="mb-4 text-lg font-bold">Optimize tasks</h2>
+          <ul className="divide-y">
+            {tasks.map(task => (
+              <li key={task.id} className="py-4 space-y-2">
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <a href={task.url} target="_blank" rel="noopener noreferrer" className="font-medium hover:underline">{task.title}</a>
+                  <div className="flex gap-2 text-sm">
+                    <button type="button" onClick={() => updateTask(task, 'done')} className="rounded-md border border-gray-300 px-3 py-1 text-gray-700 hover:bg-gray-50">Done</button>
+                    <button type="button" onClick={() => updateTask(task, 'dismissed')} className="rounded-md border border-gray-300 px-3 py-1 text-gray-700 hover:bg-gray-50">Dismiss</button>
+                  </div>
+                </div>
+                {task.brief.suggestions.length > 0 && (
+                  <ul className="list-disc pl-5 text-sm text-gray-700">
+                    {task.brief.suggestions.map(suggestion => <li key={suggestion}>{suggestion}</li>)}
+                  </ul>
+                )}
+                {task.brief.relatedQueries.length > 0 && (
+                  <p className="text-xs text-gray-500">
+                    Also in striking distance:{' '}
+                    {task.brief.relatedQueries
+                      .map(query => `${query.query} (position ${query.position}, +${query.estimatedUplift})`)
+                      .join(' · ')}
+                  </p>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SummaryCard({ title, value, detail }: { title: string; value: number | string; detail: string }) {
+  return (
+    <div className="rounded-lg border bg-white p-6 shadow-sm">
+      <div className="text-sm text-gray-500">{title}</div>
+      <div className="mt-2 text-3xl font-bold">{value}</div>
+      <div className="mt-1 text-xs text-gray-500">{detail}</div>
+    </div>
+  );
+}
+
+function CoverageBadge({ label, covered }: { label: string; covered: boolean }) {
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${covered ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-500 line-through'}`}>
+      {label}
+    </span>
+  );
+}
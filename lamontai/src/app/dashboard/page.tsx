@@ -75,7 +75,7 @@ export default function DashboardPage() {
         <div className="flex justify-between items-center mb-6">
           <h2 className="text-xl font-bold">Recent Content</h2>
           <Button 
-            href="/create" 
+            href="/dashboard/article/new" 
             variant="primary" 
             size="medium" 
             icon={<Plus className="h-4 w-4" />}
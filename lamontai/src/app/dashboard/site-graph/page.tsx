@@ -0,0 +1,390 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+
+interface SiteCrawl {
+  id: string;
+  homepage: string;
+  status: 'running' | 'completed' | 'failed';
+  pagesCrawled: number;
+  pagesFailed: number;
+  pagesBlocked: number;
+  linkCount: number;
+  error: string | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface CrawlPage {
+  id: string;
+  url: string;
+  state: string;
+  httpStatus: number | null;
+  title: string | null;
+  inSitemap: boolean;
+  inbound: number;
+  outbound: number;
+  depth: number | null;
+  authority: number;
+  orphan: boolean;
+}
+
+interface SiteLink {
+  id: string;
+  sourceUrl: string;
+  targetUrl: string;
+  anchorText: string;
+  nofollow: boolean;
+  count: number;
+}
+
+interface Report {
+  latest: SiteCrawl | null;
+  crawl: SiteCrawl | null;
+  summary: {
+    pages: number;
+    orphans: number;
+    unreachable: number;
+    deep: number;
+    averageDepth: number | null;
+    maxDepth: number | null;
+  } | null;
+  orphans: CrawlPage[];
+  hubs: CrawlPage[];
+  authorities: CrawlPage[];
+  deepPages: CrawlPage[];
+}
+
+interface Pagination {
+  page: number;
+  totalPages: number;
+  hasMore: boolean;
+}
+
+type PageFilter = 'all' | 'orphan' | 'unreachable' | 'deep' | 'error';
+type PageSort = 'authority' | 'inbound' | 'outbound' | 'depth' | 'url';
+
+const PAGE_SIZE = 50;
+// How often a running crawl's progress is checked
+const POLL_INTERVAL = 5000;
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : '—');
+
+const pathOf = (url: string) => {
+  const { pathname, search } = new URL(url);
+  return `${pathname}${search}`;
+};
+
+/**
+ * Internal link report for the user's site: orphan pages, hubs, the
+ * strongest pages and the links into and out of each page
+ */
+export default function SiteGraphPage() {
+  const [report, setReport] = useState<Report | null>(null);
+  const [pages, setPages] = useState<CrawlPage[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [filter, setFilter] = useState<PageFilter>('all');
+  const [sort, setSort] = useState<PageSort>('authority');
+  const [search, setSearch] = useState('');
+  const [pageNumber, setPageNumber] = useState(1);
+  const [selected, setSelected] = useState<{ page: CrawlPage; inbound: SiteLink[]; outbound: SiteLink[] } | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadReport = useCallback(async () => {
+    try {
+      const response = await fetch('/api/user/site-graph', { credentials: 'include' });
+      const data = await response.json();
+      setReport(response.ok ? data.data : null);
+    } catch (err) {
+      console.error('Error loading site graph report:', err);
+    }
+  }, []);
+
+  const loadPages = useCallback(async () => {
+    const params = new URLSearchParams({
+      filter,
+      sort,
+      order: sort === 'url' || sort === 'depth' ? 'asc' : 'desc',
+      page: String(pageNumber),
+      limit: String(PAGE_SIZE),
+    });
+    if (search) params.set('search', search);
+
+    try {
+      const response = await fetch(`/api/user/site-graph/pages?${params}`, { credentials: 'include' });
+      const data = await response.json();
+      setPages(response.ok ? data.data.pages : []);
+      setPagination(response.ok ? data.data.pagination : null);
+    } catch (err) {
+      console.error('Error loading crawled pages:', err);
+    }
+  }, [filter, sort, search, pageNumber]);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  useEffect(() => {
+    loadPages();
+  }, [loadPages, report?.crawl?.id]);
+
+  // Follow a running crawl until it finishes
+  const running = report?.latest?.status === 'running';
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(loadReport, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [running, loadReport]);
+
+  const handleCrawl = async () => {
+    setIsStarting(true);
+    setError('');
+
+    try {
+      const response = await fetch('/api/user/site-graph/crawl', { method: 'POST', credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error?.message || 'Failed to start the crawl');
+      }
+      await loadReport();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to start the crawl');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const showLinks = async (page: CrawlPage) => {
+    try {
+      const response = await fetch(`/api/user/site-graph/links?${new URLSearchParams({ url: page.url })}`, { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error?.message || 'Failed to load links');
+      }
+      setSelected(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load links');
+    }
+  };
+
+  const { latest, crawl, summary } = report || { latest: null, crawl: null, summary: null };
+
+  return (
+    <div className="space-y-8">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">Internal Links</h1>
+          <p className="text-sm text-gray-500">
+            {crawl
+              ? `${crawl.homepage} · crawled ${formatDate(crawl.finishedAt)} · ${crawl.linkCount} links`
+              : 'Crawl your site to map how its pages link to each other.'}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleCrawl}
+          disabled={isStarting || running}
+          className={`px-6 py-2 rounded-full text-white font-medium ${
+            isStarting || running ? 'bg-gray-400 cursor-not-allowed' : 'bg-orange-500 hover:bg-orange-600'
+          }`}
+        >
+          {running ? 'Crawling...' : isStarting ? 'Starting...' : 'Crawl site'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+      {running && latest && (
+        <div className="bg-orange-50 border-l-4 border-orange-500 p-4 text-sm text-orange-800">
+          Crawling {latest.homepage}: {latest.pagesCrawled} pages fetched so far. The crawl waits between requests, so large sites take a while.
+        </div>
+      )}
+      {latest?.status === 'failed' && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4">
+          <p className="text-red-700 text-sm">The last crawl failed: {latest.error}</p>
+        </div>
+      )}
+      {crawl?.error && (
+        <p className="text-sm text-orange-700">{crawl.error}. Uncrawled pages are listed but their links are unknown.</p>
+      )}
+
+      {summary && crawl && (
+        <>
+          <div className="grid grid-cols-2 gap-6 md:grid-cols-5">
+            <SummaryCard title="Pages crawled" value={summary.pages} detail={`${crawl.pagesFailed} failed, ${crawl.pagesBlocked} blocked by robots.txt`} />
+            <SummaryCard title="Orphan pages" value={summary.orphans} detail="In the sitemap, no links in" />
+            <SummaryCard title="Unreachable" value={summary.unreachable} detail="No link path from the homepage" />
+            <SummaryCard title="Deep pages" value={summary.deep} detail="More than 3 clicks from the homepage" />
+            <SummaryCard title="Average depth" value={summary.averageDepth ?? '—'} detail={`Deepest: ${summary.maxDepth ?? '—'} clicks`} />
+          </div>
+
+          <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+            <PageList title="Orphan pages" pages={report!.orphans} empty="Every sitemap page has at least one link pointing to it." metric={page => page.title || '—'} onSelect={showLinks} />
+            <PageList title="Hub pages" pages={report!.hubs} empty="No pages crawled." metric={page => `${page.outbound} links out`} onSelect={showLinks} />
+            <PageList title="Strongest pages" pages={report!.authorities} empty="No pages crawled." metric={page => `${page.authority} authority · ${page.inbound} links in`} onSelect={showLinks} />
+            <PageList title="Deepest pages" pages={report!.deepPages} empty="Every page is within 3 clicks of the homepage." metric={page => `${page.depth} clicks`} onSelect={showLinks} />
+          </div>
+
+          {selected && (
+            <div className="rounded-lg border bg-white p-6 shadow-sm space-y-4">
+              <div className="flex items-center justify-between">
+                <h2 className="text-lg font-bold break-all">{selected.page.url}</h2>
+                <button type="button" onClick={() => setSelected(null)} className="text-sm text-gray-500 hover:text-gray-700">Close</button>
+              </div>
+              <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                <LinkList title={`Links in (${selected.inbound.length})`} links={selected.inbound} urlOf={link => link.sourceUrl} />
+                <LinkList title={`Links out (${selected.outbound.length})`} links={selected.outbound} urlOf={link => link.targetUrl} />
+              </div>
+            </div>
+          )}
+
+          <div className="rounded-lg border bg-white p-6 shadow-sm">
+            <div className="flex flex-wrap gap-3 mb-4">
+              <input
+                type="text"
+                value={search}
+                onChange={(e) => { setSearch(e.target.value); setPageNumber(1); }}
+                placeholder="Filter URLs"
+                className="flex-1 min-w-[200px] px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+              />
+              <select
+                value={filter}
+                onChange={(e) => { setFilter(e.target.value as PageFilter); setPageNumber(1); }}
+                className="px-4 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="all">All pages</option>
+                <option value="orphan">Orphans</option>
+                <option value="unreachable">Unreachable</option>
+                <option value="deep">Deep</option>
+                <option value="error">Errors</option>
+              </select>
+              <select
+                value={sort}
+                onChange={(e) => { setSort(e.target.value as PageSort); setPageNumber(1); }}
+                className="px-4 py-2 border border-gray-300 rounded-lg"
+              >
+                <option value="authority">Authority</option>
+                <option value="inbound">Links in</option>
+                <option value="outbound">Links out</option>
+                <option value="depth">Depth</option>
+                <option value="url">URL</option>
+              </select>
+            </div>
+
+            <div className="overflow-x-auto border rounded-lg mb-4">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-4 py-2">Page</th>
+                    <th className="px-4 py-2">Status</th>
+                    <th className="px-4 py-2">Links in</th>
+                    <th className="px-4 py-2">Links out</th>
+                    <th className="px-4 py-2">Depth</th>
+                    <th className="px-4 py-2">Authority</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {pages.map(page => (
+                    <tr key={page.id} className="border-t">
+                      <td className="px-4 py-2 break-all">
+                        <button type="button" onClick={() => showLinks(page)} className="text-left hover:underline">
+                          {pathOf(page.url)}
+                        </button>
+                        {page.orphan && <span className="ml-2 px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">orphan</span>}
+                      </td>
+                      <td className="px-4 py-2">{page.httpStatus ?? page.state}</td>
+                      <td className="px-4 py-2">{page.inbound}</td>
+                      <td className="px-4 py-2">{page.outbound}</td>
+                      <td className="px-4 py-2">{page.depth ?? '—'}</td>
+                      <td className="px-4 py-2">{page.authority}</td>
+                    </tr>
+                  ))}
+                  {pages.length === 0 && (
+                    <tr>
+                      <td colSpan={6} className="px-4 py-6 text-center text-gray-500">No pages found</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+            {pagination && pagination.totalPages > 1 && (
+              <div className="flex items-center gap-3 text-sm">
+                <button type="button" disabled={pageNumber <= 1} onClick={() => setPageNumber(pageNumber - 1)} className="px-3 py-1 border rounded disabled:opacity-50">Previous</button>
+                <span>Page {pagination.page} of {pagination.totalPages}</span>
+                <button type="button" disabled={!pagination.hasMore} onClick={() => setPageNumber(pageNumber + 1)} className="px-3 py-1 border rounded disabled:opacity-50">Next</button>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function SummaryCard({ title, value, detail }: { title: string; value: number | string; detail: string }) {
+  return (
+    <div className="rounded-lg border bg-white p-6 shadow-sm">
+      <div className="text-sm text-gray-500">{title}</div>
+      <div className="mt-2 text-3xl font-bold">{value}</div>
+      <div className="mt-1 text-xs text-gray-500">{detail}</div>
+    </div>
+  );
+}
+
+interface PageListProps {
+  title: string;
+  pages: CrawlPage[];
+  empty: string;
+  metric: (page: CrawlPage) => string;
+  onSelect: (page: CrawlPage) => void;
+}
+
+function PageList({ title, pages, empty, metric, onSelect }: PageListProps) {
+  return (
+    <div className="rounded-lg border bg-white p-6 shadow-sm">
+      <h2 className="mb-4 text-lg font-bold">{title}</h2>
+      {pages.length === 0 ? (
+        <p className="text-sm text-gray-500">{empty}</p>
+      ) : (
+        <ul className="divide-y text-sm">
+          {pages.map(page => (
+            <li key={page.id} className="flex items-center justify-between gap-4 py-2">
+              <button type="button" onClick={() => onSelect(page)} className="min-w-0 truncate text-left hover:underline">
+                {pathOf(page.url)}
+              </button>
+              <span className="shrink-0 text-gray-500">{metric(page)}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function LinkList({ title, links, urlOf }: { title: string; links: SiteLink[]; urlOf: (link: SiteLink) => string }) {
+  return (
+    <div>
+      <h3 className="mb-2 font-semibold">{title}</h3>
+      {links.length === 0 ? (
+        <p className="text-sm text-gray-500">None</p>
+      ) : (
+        <ul className="divide-y text-sm">
+          {links.map(link => (
+            <li key={link.id} className="py-2">
+              <div className="break-all">{pathOf(urlOf(link))}</div>
+              <div className="text-xs text-gray-500">
+                &ldquo;{link.anchorText || '(no anchor text)'}&rdquo;
+                {link.count > 1 && ` ×${link.count}`}
+                {link.nofollow && ' · nofollow'}
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
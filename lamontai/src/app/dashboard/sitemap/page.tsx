@@ -4,6 +4,7 @@ import React, { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Image from 'next/image';
 import { getUserData } from '@/lib/auth-utils';
+import SitemapInventory from '@/components/dashboard/SitemapInventory';
 
 export default function SitemapPage() {
   const [sitemapUrl, setSitemapUrl] = useState('');
@@ -133,6 +134,7 @@ export default function SitemapPage() {
               <ul className="list-disc list-inside space-y-1">
                 <li>Sitemap helps us add relevant internal links to articles</li>
                 <li>Sitemap helps us analyze your previous articles to match your writing style</li>
+                <li>Leave it empty and we&apos;ll find your sitemaps from your website&apos;s robots.txt</li>
               </ul>
             </div>
           </div>
@@ -197,6 +199,8 @@ export default function SitemapPage() {
           </div>
         </div>
       </main>
+
+      {(user?.settings?.sitemapUrl || user?.settings?.websiteUrl) && <SitemapInventory />}
     </div>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,400 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+
+type Target = 'article' | 'url' | 'topic';
+
+interface FieldCheck {
+  width: number;
+  maxWidth: number;
+  truncated: boolean;
+  displayed: string;
+}
+
+interface ScoredSnippet {
+  title: string;
+  description: string;
+  score: number;
+  checks: { title: FieldCheck; description: FieldCheck };
+  issues: string[];
+  current: boolean;
+}
+
+interface CtrMetrics {
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number | null;
+  expectedCtr: number | null;
+  ctrRatio: number | null;
+}
+
+interface Variants {
+  keyword: string | null;
+  current: ScoredSnippet | null;
+  variants: ScoredSnippet[];
+  performance: {
+    url: string;
+    window: { start: string; end: string };
+    page: CtrMetrics;
+    keyword: CtrMetrics | null;
+    verdict: 'below' | 'expected' | 'above' | null;
+  } | null;
+}
+
+interface SnippetChange {
+  id: string;
+  articleId: string | null;
+  url: string | null;
+  title: string;
+  previousTitle: string | null;
+  score: number;
+  appliedAt: string;
+  impact: {
+    status: 'unavailable' | 'pending' | 'measuring' | 'measured';
+    before: CtrMetrics | null;
+    after: CtrMetrics | null;
+    ctrChange: number | null;
+    adjustedCtrChange: number | null;
+  };
+}
+
+interface ArticleOption {
+  id: string;
+  title: string;
+}
+
+const IMPACT_LABELS: Record<SnippetChange['impact']['status'], string> = {
+  unavailable: 'No Search Console data',
+  pending: 'Waiting for data',
+  measuring: 'Measuring',
+  measured: 'Measured',
+};
+
+const VERDICT_LABELS = {
+  below: 'below the expected CTR for its position',
+  expected: 'in line with the expected CTR for its position',
+  above: 'above the expected CTR for its position',
+};
+
+const percent = (value: number | null | undefined) => (value === null || value === undefined ? '—' : `${(value * 100).toFixed(1)}%`);
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'bg-green-100 text-green-800' : score >= 60 ? 'bg-yellow-100 text-yellow-800' : 'bg-red-100 text-red-800';
+
+export default function SnippetsPage() {
+  const [articles, setArticles] = useState<ArticleOption[]>([]);
+  const [target, setTarget] = useState<Target>('article');
+  const [articleId, setArticleId] = useState('');
+  const [url, setUrl] = useState('');
+  const [topic, setTopic] = useState('');
+  const [keyword, setKeyword] = useState('');
+  const [count, setCount] = useState(5);
+  const [result, setResult] = useState<Variants | null>(null);
+  const [history, setHistory] = useState<SnippetChange[]>([]);
+  const [working, setWorking] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const loadHistory = useCallback(async () => {
+    const response = await fetch('/api/content/snippets/changes', { credentials: 'include' });
+    const data = await response.json();
+    if (response.ok) {
+      setHistory(data.data);
+    }
+  }, []);
+
+  const loadArticles = useCallback(async () => {
+    const response = await fetch('/api/articles', { credentials: 'include' });
+    const data = await response.json();
+    if (response.ok) {
+      setArticles(data.data);
+      setArticleId(previous => previous || data.data[0]?.id || '');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadArticles();
+    loadHistory();
+  }, [loadArticles, loadHistory]);
+
+  const send = async (path: string, body: object, fallback: string) => {
+    const response = await fetch(path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      credentials: 'include',
+      body: JSON.stringify(body),
+    });
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data.message || data.error?.message || fallback);
+    }
+    return data.data;
+  };
+
+  const targetFields = () => ({
+    ...(target === 'article' ? { articleId } : {}),
+    ...(target !== 'topic' && url ? { url } : {}),
+    ...(target === 'topic' ? { topic } : {}),
+  });
+
+  const handleGenerate = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setWorking('generate');
+    setError('');
+    setMessage('');
+    try {
+      setResult(await send(
+        '/api/content/snippets',
+        { ...targetFields(), ...(keyword ? { keyword } : {}), count },
+        'Failed to generate variants'
+      ));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to generate variants');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const handleApply = async (snippet: ScoredSnippet) => {
+    setWorking(snippet.title);
+    setError('');
+    setMessage('');
+    try {
+      const keywordField = result?.keyword ? { keyword: result.keyword } : {};
+      await send(
+        '/api/content/snippets/changes',
+        { ...targetFields(), title: snippet.title, description: snippet.description, ...keywordField },
+        'Failed to save the change'
+      );
+      setMessage(target === 'article'
+        ? 'The article was updated. Its CTR impact is measured once Google shows the new snippet'
+        : 'The change was recorded. Update the page on your site; its CTR impact is measured once Google shows the new snippet');
+      setResult(previous => previous && {
+        ...previous,
+        current: { ...snippet, current: true },
+        variants: previous.variants.filter(variant => variant !== snippet),
+      });
+      await loadHistory();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the change');
+    } finally {
+      setWorking(null);
+    }
+  };
+
+  const ready = target === 'article' ? !!articleId : target === 'url' ? !!url : topic.trim().length >= 2;
+  const performance = result?.performance;
+  const metrics = performance?.keyword?.impressions ? performance.keyword : performance?.page;
+
+  return (
+    <div className="space-y-8">
+      <div>
+        <h1 className="text-2xl font-bold">Titles and Meta Descriptions</h1>
+        <p className="text-sm text-gray-500">
+          Scored variants that fit Google&apos;s result width, checked against the CTR your pages get for their position.
+        </p>
+      </div>
+
+      <form onSubmit={handleGenerate} className="rounded-lg border bg-white p-6 shadow-sm space-y-4">
+        <div className="flex flex-wrap gap-4 text-sm">
+          {(['article', 'url', 'topic'] as Target[]).map(option => (
+            <label key={option} className="flex items-center gap-2">
+              <input type="radio" name="target" checked={target === option} onChange={() => setTarget(option)} />
+              {option === 'article' ? 'An article' : option === 'url' ? 'A page on my site' : 'A new topic'}
+            </label>
+          ))}
+        </div>
+
+        <div className="grid gap-4 md:grid-cols-2">
+          {target === 'article' && (
+            <select
+              value={articleId}
+              onChange={event => setArticleId(event.target.value)}
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+            >
+              {articles.length === 0 && <option value="">No articles yet</option>}
+              {articles.map(article => <option key={article.id} value={article.id}>{article.title}</option>)}
+            </select>
+          )}
+          {target !== 'topic' && (
+            <input
+              type="url"
+              value={url}
+              onChange={event => setUrl(event.target.value)}
+              placeholder={target === 'article' ? 'Published URL (optional)' : 'https://www.example.com/page'}
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+          )}
+          {target === 'topic' && (
+            <input
+              value={topic}
+              onChange={event => setTopic(event.target.value)}
+              placeholder="Article topic"
+              className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+            />
+          )}
+          <input
+            value={keyword}
+            onChange={event => setKeyword(event.target.value)}
+            placeholder="Target keyword (optional)"
+            className="rounded-md border border-gray-300 px-3 py-2 text-sm"
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Variants
+            <input
+              type="number"
+              min={1}
+              max={10}
+              value={count}
+              onChange={event => setCount(Math.min(10, Math.max(1, parseInt(event.target.value, 10) || 1)))}
+              className="w-20 rounded-md border border-gray-300 px-3 py-2"
+            />
+          </label>
+        </div>
+
+        <button
+          type="submit"
+          disabled={!ready || working !== null}
+          className="rounded-md bg-orange-500 px-4 py-2 text-sm font-medium text-white hover:bg-orange-600 disabled:opacity-50"
+        >
+          {working === 'generate' ? 'Generating...' : 'Generate variants'}
+        </button>
+      </form>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {message && (
+        <div className="bg-green-50 border-l-4 border-green-500 p-4">
+          <p className="text-green-700 text-sm">{message}</p>
+        </div>
+      )}
+
+      {result && (
+        <div className="space-y-4">
+          {metrics && metrics.impressions > 0 ? (
+            <div className="rounded-lg border bg-white p-4 text-sm shadow-sm">
+              {performance?.keyword?.impressions ? `For "${result.keyword}", the` : 'The'} page had a{' '}
+              <span className="font-medium">{percent(metrics.ctr)}</span> CTR at position {metrics.position} from{' '}
+              {performance?.window.start} to {performance?.window.end}, against{' '}
+              <span className="font-medium">{percent(metrics.expectedCtr)}</span> expected
+              {performance?.verdict && <> — {VERDICT_LABELS[performance.verdict]}</>}.
+            </div>
+          ) : target !== 'topic' && (
+            <p className="text-xs text-gray-500">
+              No Search Console data for this page.{' '}
+              <Link href="/dashboard/google-search-console" className="underline">Sync a property</Link> to compare its CTR.
+            </p>
+          )}
+
+          {result.current && <SnippetCard snippet={result.current} url={url} />}
+          {result.variants.map(variant => (
+            <SnippetCard
+              key={`${variant.title}\u0000${variant.description}`}
+              snippet={variant}
+              url={url}
+              onApply={target === 'topic' ? undefined : () => handleApply(variant)}
+              applying={working === variant.title}
+              disabled={working !== null}
+            />
+          ))}
+        </div>
+      )}
+
+      <div className="rounded-lg border bg-white p-6 shadow-sm">
+        <h2 className="mb-4 text-lg font-bold">Change history</h2>
+        <div className="overflow-x-auto border rounded-lg">
+          <table className="min-w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-2">Applied</th>
+                <th className="px-4 py-2">Title</th>
+                <th className="px-4 py-2">Score</th>
+                <th className="px-4 py-2">CTR before</th>
+                <th className="px-4 py-2">CTR after</th>
+                <th className="px-4 py-2">Change for position</th>
+                <th className="px-4 py-2">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map(change => (
+                <tr key={change.id} className="border-t align-top">
+                  <td className="px-4 py-2 whitespace-nowrap">{new Date(change.appliedAt).toLocaleDateString()}</td>
+                  <td className="px-4 py-2">
+                    <div className="font-medium">{change.title}</div>
+                    {change.previousTitle && <div className="text-xs text-gray-500 line-through">{change.previousTitle}</div>}
+                    {change.url && <div className="text-xs text-gray-500 break-all">{change.url}</div>}
+                  </td>
+                  <td className="px-4 py-2">{change.score}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">{percent(change.impact.before?.impressions ? change.impact.before.ctr : null)}</td>
+                  <td className="px-4 py-2 whitespace-nowrap">{percent(change.impact.after?.ctr)}</td>
+                  <td className={`px-4 py-2 font-medium ${
+                    change.impact.adjustedCtrChange === null ? '' : change.impact.adjustedCtrChange >= 0 ? 'text-green-700' : 'text-red-700'
+                  }`}>
+                    {change.impact.adjustedCtrChange === null
+                      ? '—'
+                      : `${change.impact.adjustedCtrChange >= 0 ? '+' : ''}${Math.round(change.impact.adjustedCtrChange * 100)}%`}
+                  </td>
+                  <td className="px-4 py-2 text-gray-600">{IMPACT_LABELS[change.impact.status]}</td>
+                </tr>
+              ))}
+              {history.length === 0 && (
+                <tr>
+                  <td colSpan={7} className="px-4 py-6 text-center text-gray-500">No titles or meta descriptions changed yet</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SnippetCard({ snippet, url, onApply, applying, disabled }: {
+  snippet: ScoredSnippet;
+  url: string;
+  onApply?: () => void;
+  applying?: boolean;
+  disabled?: boolean;
+}) {
+  const { title, description } = snippet.checks;
+  return (
+    <div className="rounded-lg border bg-white p-4 shadow-sm">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="min-w-0 flex-1" style={{ maxWidth: 600 }}>
+          <div className="truncate text-xs text-gray-600">{url || 'www.example.com'}</div>
+          <div className="text-xl text-blue-800">{title.displayed}</div>
+          <div className="text-sm text-gray-700">{description.displayed}</div>
+        </div>
+        <div className="flex items-center gap-2">
+          {snippet.current && <span className="text-xs font-medium text-gray-500">Current</span>}
+          <span className={`rounded-full px-2 py-0.5 text-xs font-medium ${scoreColor(snippet.score)}`}>{snippet.score}</span>
+          {onApply && (
+            <button
+              type="button"
+              onClick={onApply}
+              disabled={disabled}
+              className="rounded-md bg-orange-500 px-3 py-1 text-sm text-white hover:bg-orange-600 disabled:opacity-50"
+            >
+              {applying ? 'Saving...' : 'Use this'}
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="mt-2 text-xs text-gray-500">
+        Title {title.width}/{title.maxWidth}px · description {description.width}/{description.maxWidth}px
+      </div>
+      {snippet.issues.length > 0 && (
+        <ul className="mt-2 list-disc pl-5 text-xs text-gray-600">
+          {snippet.issues.map(issue => <li key={issue}>{issue}</li>)}
+        </ul>
+      )}
+    </div>
+  );
+}
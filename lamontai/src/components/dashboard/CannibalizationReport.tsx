@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+
+interface Member {
+  id: string;
+  kind: 'page' | 'article';
+  url: string | null;
+  title: string;
+  primaryKeyword: string;
+  intent: string;
+  status?: string;
+  role: 'primary' | 'competing';
+  action: 'keep' | 'merge' | 'redirect' | 'differentiate';
+  score: number;
+  distinctTerms: string[];
+  reasons: string[];
+}
+
+interface Group {
+  id: string;
+  keyword: string;
+  intent: string;
+  score: number;
+  recommendation: 'merge' | 'redirect' | 'differentiate';
+  members: Member[];
+}
+
+interface Report {
+  groups: Group[];
+  pages: number;
+  indexedPages: number;
+  articles: number;
+}
+
+// Badge colours per recommended action
+const ACTION_STYLES: Record<Member['action'], string> = {
+  keep: 'bg-green-100 text-green-800',
+  merge: 'bg-blue-100 text-blue-800',
+  redirect: 'bg-red-100 text-red-800',
+  differentiate: 'bg-purple-100 text-purple-800',
+};
+
+const ACTION_ADVICE: Record<Group['recommendation'], string> = {
+  merge: 'Fold the competing content into the kept page, then redirect it there.',
+  redirect: 'The competing pages add little of their own; 301 redirect them to the kept page.',
+  differentiate: 'Retarget the competing pages on a different keyword or intent.',
+};
+
+/**
+ * Pages and articles on the user's site that compete for the same keyword
+ */
+export default function CannibalizationReport() {
+  const [report, setReport] = useState<Report | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+
+  const loadReport = useCallback(async () => {
+    setLoading(true);
+    setError('');
+    try {
+      const response = await fetch('/api/content/cannibalization', { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error?.message || 'Failed to check for keyword cannibalization');
+      }
+      setReport(data.data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check for keyword cannibalization');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadReport();
+  }, [loadReport]);
+
+  return (
+    <div className="rounded-lg border bg-white p-6 shadow-sm">
+      <div className="mb-4 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold">Keyword Cannibalization</h2>
+          {report && (
+            <p className="text-sm text-gray-500">
+              {report.groups.length} competing groups across {report.pages} pages and {report.articles} articles
+              {report.indexedPages < report.pages && ` (${report.pages - report.indexedPages} pages compared by title only until indexed)`}
+            </p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={loadReport}
+          disabled={loading}
+          className="rounded-md border border-gray-300 bg-white px-3 py-1 text-sm text-gray-700 hover:bg-gray-50"
+        >
+          {loading ? 'Checking...' : 'Check again'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border-l-4 border-red-500 p-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {report && report.groups.length === 0 && (
+        <p className="text-sm text-gray-500">None of your pages or articles compete for the same keyword.</p>
+      )}
+
+      <div className="space-y-4">
+        {report?.groups.map(group => (
+          <div key={group.id} className="rounded-lg border p-4">
+            <div className="mb-2 flex flex-wrap items-center gap-2">
+              <h3 className="font-medium">&ldquo;{group.keyword}&rdquo;</h3>
+              <span className="text-xs text-gray-500">{group.intent} · {Math.round(group.score * 100)}% overlap</span>
+              <span className={`rounded px-2 py-0.5 text-xs font-medium ${ACTION_STYLES[group.recommendation]}`}>
+                {group.recommendation}
+              </span>
+            </div>
+            <p className="mb-3 text-sm text-gray-600">{ACTION_ADVICE[group.recommendation]}</p>
+            <ul className="divide-y text-sm">
+              {group.members.map(member => (
+                <li key={`${member.kind}:${member.id}`} className="py-2">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className={`rounded px-2 py-0.5 text-xs font-medium ${ACTION_STYLES[member.action]}`}>{member.action}</span>
+                    {member.url ? (
+                      <a href={member.url} target="_blank" rel="noopener noreferrer" className="break-all text-orange-600 hover:underline">
+                        {member.title || member.url}
+                      </a>
+                    ) : (
+                      <Link href={`/dashboard/article/${member.id}`} className="text-orange-600 hover:underline">
+                        {member.title}
+                      </Link>
+                    )}
+                    {member.kind === 'article' && <span className="text-xs text-gray-400">{member.status} article</span>}
+                  </div>
+                  <p className="mt-1 text-xs text-gray-500">{member.reasons.join(' · ')}</p>
+                  {member.action === 'differentiate' && member.distinctTerms.length > 0 && (
+                    <p className="mt-1 text-xs text-gray-500">Angles only this one covers: {member.distinctTerms.join(', ')}</p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
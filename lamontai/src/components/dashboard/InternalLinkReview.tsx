@@ -0,0 +1,169 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+
+interface ArticleLink {
+  id: string;
+  url: string;
+  anchorText: string;
+  paragraphIndex: number;
+  score: number;
+  reasons: string[];
+  status: 'pending' | 'accepted' | 'rejected';
+  present: boolean;
+}
+
+interface InternalLinkReviewProps {
+  articleId: string;
+  // Called with the article's new HTML after links are added, accepted or rejected
+  onContentChange: (content: string) => void;
+}
+
+// Status badge colours
+const STATUS_STYLES: Record<ArticleLink['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  accepted: 'bg-green-100 text-green-800',
+  rejected: 'bg-gray-100 text-gray-600',
+};
+
+export default function InternalLinkReview({ articleId, onContentChange }: InternalLinkReviewProps) {
+  const [links, setLinks] = useState<ArticleLink[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const loadLinks = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/articles/${articleId}/links`, { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error?.message || 'Failed to load internal links');
+      }
+      setLinks(data.data.links);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load internal links');
+    } finally {
+      setLoading(false);
+    }
+  }, [articleId]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  const request = async (key: string, url: string, init: RequestInit) => {
+    setBusy(key);
+    setError('');
+    setMessage('');
+    try {
+      const response = await fetch(url, {
+        ...init,
+        headers: { 'Content-Type': 'application/json' },
+        credentials: 'include',
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error?.message || 'Request failed');
+      }
+      onContentChange(data.data.article.content || '');
+      setMessage(data.message || '');
+      await loadLinks();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Request failed');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const addLinks = () =>
+    request('add', `/api/articles/${articleId}/links`, { method: 'POST', body: JSON.stringify({ maxLinks: 3 }) });
+
+  const review = (link: ArticleLink, status: 'accepted' | 'rejected') =>
+    request(link.id, `/api/articles/${articleId}/links/${link.id}`, { method: 'PATCH', body: JSON.stringify({ status }) });
+
+  const pending = links.filter(link => link.status === 'pending').length;
+
+  return (
+    <div className="space-y-4 rounded-lg border bg-white p-6 shadow-sm">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-bold">Internal Links</h2>
+          <p className="text-sm text-gray-500">
+            {pending > 0
+              ? `${pending} inserted links waiting for review. They are highlighted in the article.`
+              : 'Links to your own pages inserted into this article.'}
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={addLinks}
+          disabled={busy !== null}
+          className={`rounded-md px-4 py-2 text-sm font-medium text-white ${
+            busy !== null ? 'bg-gray-400 cursor-not-allowed' : 'bg-orange-600 hover:bg-orange-700'
+          }`}
+        >
+          {busy === 'add' ? 'Adding...' : 'Add Internal Links'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+      {message && <p className="text-sm text-gray-600">{message}</p>}
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading links...</p>
+      ) : links.length === 0 ? (
+        <p className="text-sm text-gray-500">No internal links have been inserted yet.</p>
+      ) : (
+        <ul className="divide-y">
+          {links.map(link => (
+            <li key={link.id} className="flex items-start justify-between gap-4 py-3">
+              <div className="min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <span className={`rounded px-2 py-0.5 text-xs font-medium ${STATUS_STYLES[link.status]}`}>
+                    {link.status}
+                  </span>
+                  <span className="font-medium">&ldquo;{link.anchorText}&rdquo;</span>
+                  <span className="text-xs text-gray-400">paragraph {link.paragraphIndex + 1}</span>
+                </div>
+                <a href={link.url} target="_blank" rel="noopener noreferrer" className="block truncate text-sm text-orange-600 hover:underline">
+                  {link.url}
+                </a>
+                <p className="text-xs text-gray-500">{link.reasons.join(' · ')}</p>
+                {!link.present && link.status === 'pending' && (
+                  <p className="text-xs text-gray-500">This link has been edited out of the article.</p>
+                )}
+              </div>
+              {link.status === 'pending' && (
+                <div className="flex shrink-0 space-x-2">
+                  {link.present && (
+                    <button
+                      type="button"
+                      onClick={() => review(link, 'accepted')}
+                      disabled={busy !== null}
+                      className="rounded-md border border-green-600 px-3 py-1 text-sm text-green-700 hover:bg-green-50"
+                    >
+                      Accept
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => review(link, 'rejected')}
+                    disabled={busy !== null}
+                    className="rounded-md border border-gray-300 px-3 py-1 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    Reject
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+
+interface SearchConsoleProperty {
+  siteUrl: string;
+  type: 'url-prefix' | 'domain';
+  permissionLevel: string;
+  verified: boolean;
+  coversWebsite: boolean;
+}
+
+interface PropertyList {
+  properties: SearchConsoleProperty[];
+  selected: string | null;
+  websiteUrl: string;
+}
+
+interface SyncStatus {
+  property: string | null;
+  sync: {
+    status: 'running' | 'synced' | 'partial' | 'failed';
+    syncedFrom: string | null;
+    syncedThrough: string | null;
+    rowCount: number;
+    error: string | null;
+    startedAt: string;
+    finishedAt: string | null;
+  } | null;
+  backfilled: boolean;
+  retainedFrom: string;
+}
+
+const STATUS_LABELS: Record<NonNullable<SyncStatus['sync']>['status'], string> = {
+  running: 'Syncing...',
+  synced: 'Up to date',
+  partial: 'Partly synced; the next sync carries on',
+  failed: 'Last sync failed',
+};
+
+// How often to check on a running sync
+const POLL_INTERVAL_MS = 5000;
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '—');
+
+// Why a property cannot be chosen, if it cannot
+const unavailableReason = (property: SearchConsoleProperty) =>
+  !property.verified ? 'not verified' : !property.coversWebsite ? 'does not cover your website' : null;
+
+export default function SearchConsoleSync() {
+  const [list, setList] = useState<PropertyList | null>(null);
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+  const [choice, setChoice] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const loadStatus = useCallback(async () => {
+    const response = await fetch('/api/user/google-search-console/sync', { credentials: 'include' });
+    const data = await response.json();
+    if (response.ok) {
+      setStatus(data.data);
+    }
+  }, []);
+
+  const loadProperties = useCallback(async () => {
+    try {
+      const response = await fetch('/api/user/google-search-console/properties', { credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error?.message || 'Failed to load your Search Console properties');
+      }
+      setList(data.data);
+      const firstAvailable = data.data.properties.find((property: SearchConsoleProperty) => !unavailableReason(property));
+      setChoice(data.data.selected || firstAvailable?.siteUrl || '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load your Search Console properties');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadProperties();
+    loadStatus();
+  }, [loadProperties, loadStatus]);
+
+  const running = status?.sync?.status === 'running';
+  useEffect(() => {
+    if (!running) return;
+    const timer = setInterval(loadStatus, POLL_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [running, loadStatus]);
+
+  const send = async (url: string, init: RequestInit, fallback: string) => {
+    setSaving(true);
+    setError('');
+    try {
+      const response = await fetch(url, { credentials: 'include', ...init });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || data.error?.message || fallback);
+      }
+      await Promise.all([loadStatus(), url.endsWith('/properties') ? loadProperties() : null]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : fallback);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () =>
+    send(
+      '/api/user/google-search-console/properties',
+      { method: 'PUT', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify({ property: choice }) },
+      'Failed to save the property'
+    );
+
+  const handleSync = () =>
+    send('/api/user/google-search-console/sync', { method: 'POST' }, 'Failed to start the sync');
+
+  return (
+    <div className="mb-8 rounded-lg border p-6 space-y-4">
+      <div>
+        <h2 className="text-lg font-bold text-gray-900">Search Console property</h2>
+        <p className="text-sm text-gray-500">
+          {list ? `The verified property that covers ${list.websiteUrl}.` : 'The verified property that covers your website.'}
+          {' '}Its Search Analytics data is synced daily, starting with the last 16 months.
+        </p>
+      </div>
+
+      {error && (
+        <div className="bg-red-50 border-l-4 border-red-500 p-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+
+      {list && (
+        <div className="flex flex-wrap gap-2">
+          <select
+            value={choice}
+            onChange={event => setChoice(event.target.value)}
+            className="flex-1 min-w-0 rounded-md border border-gray-300 px-3 py-2 text-sm"
+          >
+            <option value="" disabled>Choose a property</option>
+            {list.properties.map(property => {
+              const reason = unavailableReason(property);
+              return (
+                <option key={property.siteUrl} value={property.siteUrl} disabled={!!reason}>
+                  {property.siteUrl} ({property.type === 'domain' ? 'domain' : 'URL prefix'}{reason ? `, ${reason}` : ''})
+                </option>
+              );
+            })}
+          </select>
+          <button
+            type="button"
+            onClick={handleSave}
+            disabled={saving || running || !choice || choice === list.selected}
+            className="rounded-md bg-orange-500 px-4 py-2 text-sm font-medium text-white hover:bg-orange-600 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      )}
+
+      {status?.property && (
+        <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+          <div className="text-gray-700">
+            {status.sync ? (
+              <>
+                <span className={status.sync.status === 'failed' ? 'font-medium text-red-700' : 'font-medium'}>
+                  {STATUS_LABELS[status.sync.status]}
+                </span>
+                {status.sync.error && <span className="text-red-700"> ({status.sync.error})</span>}
+                <div className="text-xs text-gray-500">
+                  {status.sync.rowCount.toLocaleString()} rows from {formatDate(status.sync.syncedFrom)} to {formatDate(status.sync.syncedThrough)}
+                  {!status.backfilled && ` · backfilling to ${formatDate(status.retainedFrom)}`}
+                </div>
+              </>
+            ) : (
+              'Not synced yet'
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={handleSync}
+            disabled={saving || running}
+            className="rounded-md border border-gray-300 px-3 py-1 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            Sync now
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
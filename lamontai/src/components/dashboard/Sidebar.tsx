@@ -8,6 +8,10 @@ import {
   HomeIcon, 
   FileTextIcon, 
   BarChartIcon, 
+  NetworkIcon, 
+  TrendingDownIcon, 
+  TargetIcon, 
+  MousePointerClickIcon, 
   SettingsIcon, 
   CreditCardIcon 
 } from 'lucide-react';
@@ -81,6 +85,34 @@ const Sidebar = () => {
           active={pathname === '/dashboard/analytics'} 
           onClick={handleNavigation}
         />
+        <NavItem 
+          href="/dashboard/content-decay" 
+          icon={<TrendingDownIcon size={20} />} 
+          label="Content Decay" 
+          active={pathname === '/dashboard/content-decay'} 
+          onClick={handleNavigation}
+        />
+        <NavItem 
+          href="/dashboard/opportunities" 
+          icon={<TargetIcon size={20} />} 
+          label="Opportunities" 
+          active={pathname === '/dashboard/opportunities'} 
+          onClick={handleNavigation}
+        />
+        <NavItem 
+          href="/dashboard/snippets" 
+          icon={<MousePointerClickIcon size={20} />} 
+          label="Titles & Snippets" 
+          active={pathname === '/dashboard/snippets'} 
+          onClick={handleNavigation}
+        />
+        <NavItem 
+          href="/dashboard/site-graph" 
+          icon={<NetworkIcon size={20} />} 
+          label="Internal Links" 
+          active={pathname === '/dashboard/site-graph'} 
+          onClick={handleNavigation}
+        />
         <NavItem 
           href="/dashboard/settings" 
           icon={<SettingsIcon size={20} />} 
@@ -0,0 +1,330 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+
+interface SitemapFile {
+  id: string;
+  url: string;
+  parentUrl: string | null;
+  isIndex: boolean;
+  format: string;
+  depth: number;
+  urlCount: number;
+  status: string;
+  error: string | null;
+  lastFetchedAt: string | null;
+}
+
+interface Inventory {
+  sitemapUrl: string | null;
+  websiteUrl: string | null;
+  sitemaps: SitemapFile[];
+  pageCount: number;
+  removedCount: number;
+  urlLimit: number;
+  lastRefreshedAt: string | null;
+}
+
+interface SitePage {
+  id: string;
+  url: string;
+  lastmod: string | null;
+  changefreq: string | null;
+  priority: number | null;
+  extensions: {
+    images?: unknown[];
+    news?: { title?: string };
+    alternates?: unknown[];
+  } | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  removedAt: string | null;
+}
+
+interface SitePageChange {
+  id: string;
+  url: string;
+  type: 'added' | 'removed' | 'changed';
+  details: Record<string, { from: unknown; to: unknown }> | null;
+  detectedAt: string;
+}
+
+interface Pagination {
+  page: number;
+  totalPages: number;
+  hasMore: boolean;
+}
+
+// Change log badge colours per change type
+const CHANGE_STYLES: Record<SitePageChange['type'], string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-blue-100 text-blue-800',
+};
+
+const PAGE_SIZE = 50;
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '—');
+
+const describeExtensions = (page: SitePage) =>
+  [
+    page.extensions?.images?.length && `${page.extensions.images.length} images`,
+    page.extensions?.alternates?.length && `${page.extensions.alternates.length} hreflang`,
+    page.extensions?.news && 'news',
+  ].filter(Boolean).join(' · ') || '—';
+
+const describeChange = (change: SitePageChange) =>
+  Object.entries(change.details || {})
+    .map(([field, { from, to }]) => `${field}: ${from ?? '—'} → ${to ?? '—'}`)
+    .join(', ');
+
+/**
+ * Every URL found in the user's sitemaps, and what changed between refreshes
+ */
+export default function SitemapInventory() {
+  const [inventory, setInventory] = useState<Inventory | null>(null);
+  const [pages, setPages] = useState<SitePage[]>([]);
+  const [pagesPagination, setPagesPagination] = useState<Pagination | null>(null);
+  const [changes, setChanges] = useState<SitePageChange[]>([]);
+  const [changesPagination, setChangesPagination] = useState<Pagination | null>(null);
+  const [search, setSearch] = useState('');
+  const [status, setStatus] = useState<'active' | 'removed' | 'all'>('active');
+  const [pageNumber, setPageNumber] = useState(1);
+  const [changeType, setChangeType] = useState('');
+  const [changePage, setChangePage] = useState(1);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+  const [message, setMessage] = useState('');
+  const [error, setError] = useState('');
+
+  const loadInventory = useCallback(async () => {
+    try {
+      const response = await fetch('/api/user/sitemap', { credentials: 'include' });
+      const data = await response.json();
+      setInventory(response.ok ? data.data : null);
+    } catch (err) {
+      console.error('Error loading sitemap inventory:', err);
+    }
+  }, []);
+
+  const loadPages = useCallback(async () => {
+    const params = new URLSearchParams({ status, page: String(pageNumber), limit: String(PAGE_SIZE) });
+    if (search) params.set('search', search);
+
+    try {
+      const response = await fetch(`/api/user/sitemap/pages?${params}`, { credentials: 'include' });
+      const data = await response.json();
+      setPages(response.ok ? data.data.pages : []);
+      setPagesPagination(response.ok ? data.data.pagination : null);
+    } catch (err) {
+      console.error('Error loading sitemap pages:', err);
+    }
+  }, [search, status, pageNumber]);
+
+  const loadChanges = useCallback(async () => {
+    const params = new URLSearchParams({ page: String(changePage), limit: String(PAGE_SIZE) });
+    if (changeType) params.set('type', changeType);
+
+    try {
+      const response = await fetch(`/api/user/sitemap/changes?${params}`, { credentials: 'include' });
+      const data = await response.json();
+      setChanges(response.ok ? data.data.changes : []);
+      setChangesPagination(response.ok ? data.data.pagination : null);
+    } catch (err) {
+      console.error('Error loading sitemap changes:', err);
+    }
+  }, [changeType, changePage]);
+
+  useEffect(() => {
+    loadInventory();
+  }, [loadInventory]);
+
+  useEffect(() => {
+    loadPages();
+  }, [loadPages]);
+
+  useEffect(() => {
+    loadChanges();
+  }, [loadChanges]);
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    setError('');
+    setMessage('');
+
+    try {
+      const response = await fetch('/api/user/sitemap/refresh', { method: 'POST', credentials: 'include' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to refresh sitemap');
+      }
+
+      const result = data.data;
+      const summary = result.baseline
+        ? `Imported ${result.pageCount} URLs`
+        : `${result.added} added, ${result.removed} removed, ${result.changed} changed (${result.notModified} sitemaps unchanged)`;
+      setMessage(result.truncated ? `${summary}. Stopped at your plan's limit of ${result.urlLimit} URLs.` : summary);
+      await Promise.all([loadInventory(), loadPages(), loadChanges()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to refresh sitemap');
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
+  if (!inventory?.sitemapUrl && !inventory?.websiteUrl) {
+    return null;
+  }
+
+  return (
+    <section className="container mx-auto px-6 pb-12">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-2xl font-bold text-gray-900">Sitemap inventory</h2>
+          <p className="text-sm text-gray-500">
+            {inventory.pageCount} URLs in {inventory.sitemaps.length} sitemaps
+            {inventory.removedCount > 0 && `, ${inventory.removedCount} removed`}
+            {' · '}last refreshed {formatDate(inventory.lastRefreshedAt)}
+          </p>
+          {!inventory.sitemapUrl && inventory.sitemaps.length > 0 && (
+            <p className="text-sm text-gray-500">
+              Discovered from {inventory.websiteUrl}:{' '}
+              {inventory.sitemaps.filter(sitemap => !sitemap.parentUrl).map(sitemap => sitemap.url).join(', ')}
+            </p>
+          )}
+          {inventory.pageCount >= inventory.urlLimit && (
+            <p className="text-sm text-orange-700">Your plan keeps up to {inventory.urlLimit} URLs; upgrade to track the rest.</p>
+          )}
+        </div>
+        <button
+          type="button"
+          onClick={handleRefresh}
+          disabled={isRefreshing}
+          className={`px-6 py-2 rounded-full text-white font-medium ${
+            isRefreshing ? 'bg-gray-400 cursor-not-allowed' : 'bg-orange-500 hover:bg-orange-600'
+          }`}
+        >
+          {isRefreshing ? 'Refreshing...' : 'Refresh now'}
+        </button>
+      </div>
+
+      {error && (
+        <div className="mb-4 bg-red-50 border-l-4 border-red-500 p-4">
+          <p className="text-red-700 text-sm">{error}</p>
+        </div>
+      )}
+      {message && (
+        <div className="mb-4 bg-green-50 border-l-4 border-green-500 p-4">
+          <p className="text-green-700 text-sm">{message}</p>
+        </div>
+      )}
+
+      {inventory.sitemaps.some(sitemap => sitemap.status === 'error') && (
+        <div className="mb-4 bg-orange-50 border-l-4 border-orange-500 p-4 text-sm text-orange-800">
+          <p className="font-medium mb-1">Some sitemaps could not be fetched; their URLs were kept as they were:</p>
+          <ul className="list-disc list-inside">
+            {inventory.sitemaps.filter(sitemap => sitemap.status === 'error').map(sitemap => (
+              <li key={sitemap.id}>{sitemap.url}: {sitemap.error}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-3 mb-4">
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => { setSearch(e.target.value); setPageNumber(1); }}
+          placeholder="Filter URLs"
+          className="flex-1 min-w-[200px] px-4 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-orange-500"
+        />
+        <select
+          value={status}
+          onChange={(e) => { setStatus(e.target.value as typeof status); setPageNumber(1); }}
+          className="px-4 py-2 border border-gray-300 rounded-lg"
+        >
+          <option value="active">Listed</option>
+          <option value="removed">Removed</option>
+          <option value="all">All</option>
+        </select>
+      </div>
+
+      <div className="overflow-x-auto border rounded-lg mb-4">
+        <table className="min-w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-600">
+            <tr>
+              <th className="px-4 py-2">URL</th>
+              <th className="px-4 py-2">Last modified</th>
+              <th className="px-4 py-2">Change frequency</th>
+              <th className="px-4 py-2">Priority</th>
+              <th className="px-4 py-2">Extensions</th>
+              <th className="px-4 py-2">First seen</th>
+              <th className="px-4 py-2">Last seen</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pages.map(page => (
+              <tr key={page.id} className={`border-t ${page.removedAt ? 'text-gray-400' : ''}`}>
+                <td className="px-4 py-2 break-all">
+                  <a href={page.url} target="_blank" rel="noopener noreferrer" className="hover:underline">{page.url}</a>
+                </td>
+                <td className="px-4 py-2">{formatDate(page.lastmod)}</td>
+                <td className="px-4 py-2">{page.changefreq || '—'}</td>
+                <td className="px-4 py-2">{page.priority ?? '—'}</td>
+                <td className="px-4 py-2">{describeExtensions(page)}</td>
+                <td className="px-4 py-2">{formatDate(page.firstSeenAt)}</td>
+                <td className="px-4 py-2">{formatDate(page.lastSeenAt)}</td>
+              </tr>
+            ))}
+            {pages.length === 0 && (
+              <tr>
+                <td colSpan={7} className="px-4 py-6 text-center text-gray-500">No URLs found</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {pagesPagination && pagesPagination.totalPages > 1 && (
+        <div className="flex items-center gap-3 mb-10 text-sm">
+          <button type="button" disabled={pageNumber <= 1} onClick={() => setPageNumber(pageNumber - 1)} className="px-3 py-1 border rounded disabled:opacity-50">Previous</button>
+          <span>Page {pagesPagination.page} of {pagesPagination.totalPages}</span>
+          <button type="button" disabled={!pagesPagination.hasMore} onClick={() => setPageNumber(pageNumber + 1)} className="px-3 py-1 border rounded disabled:opacity-50">Next</button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center justify-between gap-3 mb-4 mt-10">
+        <h3 className="text-xl font-semibold text-gray-900">Change log</h3>
+        <select
+          value={changeType}
+          onChange={(e) => { setChangeType(e.target.value); setChangePage(1); }}
+          className="px-4 py-2 border border-gray-300 rounded-lg"
+        >
+          <option value="">All changes</option>
+          <option value="added">Added</option>
+          <option value="removed">Removed</option>
+          <option value="changed">Changed</option>
+        </select>
+      </div>
+
+      <ul className="divide-y border rounded-lg mb-4 text-sm">
+        {changes.map(change => (
+          <li key={change.id} className="px-4 py-2 flex flex-wrap items-center gap-3">
+            <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${CHANGE_STYLES[change.type]}`}>{change.type}</span>
+            <span className="break-all flex-1">{change.url}</span>
+            {change.type === 'changed' && <span className="text-gray-500">{describeChange(change)}</span>}
+            <span className="text-gray-400">{formatDate(change.detectedAt)}</span>
+          </li>
+        ))}
+        {changes.length === 0 && (
+          <li className="px-4 py-6 text-center text-gray-500">No changes recorded since the first import</li>
+        )}
+      </ul>
+      {changesPagination && changesPagination.totalPages > 1 && (
+        <div className="flex items-center gap-3 text-sm">
+          <button type="button" disabled={changePage <= 1} onClick={() => setChangePage(changePage - 1)} className="px-3 py-1 border rounded disabled:opacity-50">Previous</button>
+          <span>Page {changesPagination.page} of {changesPagination.totalPages}</span>
+          <button type="button" disabled={!changesPagination.hasMore} onClick={() => setChangePage(changePage + 1)} className="px-3 py-1 border rounded disabled:opacity-50">Next</button>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,176 @@
+/**
+ * AI content services running in-process on top of the LLM provider layer.
+ * Ported from the Express backend's openaiService.
+ */
+
+import { getLLMProvider } from './llm';
+import type { KeywordResults } from './api-service';
+import type { GenerationStats, OutlineSection } from './generation/events';
+import { runArticlePipeline } from './generation/pipeline';
+import type { ArticleVoice } from './voice-profiles';
+import type { ArticleFormat } from './generation/formats';
+import type { InsertedLink } from './internal-links/insertion';
+import { classifyIntent, intentDistribution } from './keywords/intent';
+import { parseIntent } from './keywords/normalize';
+import type { KeywordIntent } from './keywords/types';
+import { analyzeSeo, SeoAnalysis, SeoAnalysisInput } from './seo-analyzer';
+
+export interface GenerateArticleOptions {
+  tone?: string;
+  length?: 'short' | 'medium' | 'long';
+  style?: string;
+  // Write in a saved brand voice instead of the free-text tone and style
+  voiceProfileId?: string;
+  // Resolved from voiceProfileId by the API before generation
+  voice?: ArticleVoice;
+  // Search intent of the target keyword; classified from the keywords when omitted
+  intent?: KeywordIntent;
+  // Article structure; chosen from the intent when omitted
+  format?: ArticleFormat;
+  // Internal links to insert into the finished article, added by the API
+  internalLinks?: number;
+  // Language the article is written in, e.g. "es" or "Spanish", for
+  // readability scoring; detected when omitted
+  language?: string;
+}
+
+export interface GeneratedArticle {
+  title: string;
+  content: string;
+  snippet: string;
+  keywords: string[];
+  wordCount: number;
+  readabilityScore: number;
+  estimatedRank: string;
+  intent?: KeywordIntent;
+  format?: ArticleFormat;
+  // Links inserted when internalLinks was requested, for review once saved
+  internalLinks?: InsertedLink[];
+}
+
+/**
+ * Generate an article based on the given topic and keywords.
+ * Runs the outline-first pipeline and returns the stitched, validated HTML.
+ */
+export async function generateArticle(
+  topic: string,
+  keywords: string[],
+  options?: GenerateArticleOptions,
+  outline?: OutlineSection[]
+): Promise<GeneratedArticle> {
+  let title = topic;
+  let snippet = '';
+  let content = '';
+  let stats: GenerationStats | null = null;
+
+  for await (const event of runArticlePipeline({ topic, keywords, options, outline })) {
+    if (event.type === 'title') title = event.title;
+    if (event.type === 'meta-description') snippet = event.metaDescription;
+    if (event.type === 'stats') stats = event.stats;
+    if (event.type === 'done') content = event.content;
+  }
+
+  return {
+    title,
+    content,
+    snippet,
+    keywords,
+    wordCount: stats?.wordCount || 0,
+    readabilityScore: stats?.readabilityScore || 0,
+    estimatedRank: stats?.estimatedRank || 'Top 20 potential',
+    intent: options?.intent,
+    format: options?.format,
+  };
+}
+
+/**
+ * Research keywords related to a main keyword
+ */
+export async function researchKeywords(
+  query: string,
+  options?: {
+    limit?: number;
+    country?: string;
+    language?: string;
+  }
+): Promise<KeywordResults> {
+  const limit = options?.limit || 10;
+  const country = options?.country || 'us';
+  const language = options?.language || 'en';
+
+  const prompt = `Generate a list of ${limit} SEO keyword ideas related to "${query}" for the country ${country} and language ${language}.
+    For each keyword, provide an estimated monthly search volume, keyword difficulty score (0-100), cost per click (CPC) in USD, and its search intent (informational, commercial, transactional or navigational).
+    Format your response as JSON only.`;
+
+  const keywordData = await getLLMProvider().completeJson<
+    Partial<KeywordResults> & { keywords?: KeywordResults['relatedKeywords'] }
+  >(
+    [
+      {
+        role: 'system',
+        content: 'You are an expert SEO keyword researcher with access to the latest search volume data. Your responses are always in valid JSON format.',
+      },
+      { role: 'user', content: prompt },
+    ],
+    { task: 'keyword-research', temperature: 0.5, maxTokens: 2000 }
+  );
+
+  // Label keywords the model left unlabelled, then summarise the labels
+  const relatedKeywords = (keywordData.keywords || []).map(item => ({
+    ...item,
+    intent: parseIntent(item.intent) || classifyIntent(String(item.keyword || '')).intent,
+  }));
+
+  return {
+    mainKeyword: query,
+    relatedKeywords,
+    searchIntent: intentDistribution(relatedKeywords.map(item => item.intent)),
+    competitorKeywords: keywordData.competitorKeywords || [],
+  };
+}
+
+/**
+ * Analyze content for SEO optimization. Scores and checks come from the
+ * deterministic analyzer; the model only adds prose suggestions.
+ */
+export async function analyzeContent(input: SeoAnalysisInput): Promise<SeoAnalysis> {
+  const analysis = analyzeSeo(input);
+  const failedChecks = analysis.checks.filter(check => !check.passed);
+
+  const prompt = `Suggest specific improvements for this page targeting "${input.keywords.join('", "')}".
+
+    TITLE: ${analysis.page.title || '(none)'}
+    META DESCRIPTION: ${analysis.page.metaDescription || '(none)'}
+    HEADINGS: ${analysis.headingTree.map(heading => heading.text).join(' | ') || '(none)'}
+    CONTENT: ${input.html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').substring(0, 4000)}
+
+    An automated audit already found these issues:
+    ${failedChecks.map(check => `- ${check.label}: ${check.detail}`).join('\n    ') || '- none'}
+
+    Do not restate the audit or give scores. Give up to 5 concrete suggestions, such as a rewritten title,
+    a better meta description or topics the content should cover.
+    Respond with JSON of the form {"suggestions": ["..."]}.`;
+
+  try {
+    const response = await getLLMProvider().completeJson<{ suggestions?: unknown }>(
+      [
+        {
+          role: 'system',
+          content: 'You are an expert SEO content editor. Your responses are always in valid JSON format.',
+        },
+        { role: 'user', content: prompt },
+      ],
+      { task: 'content-analysis', temperature: 0.3, maxTokens: 800 }
+    );
+
+    analysis.aiSuggestions = Array.isArray(response.suggestions)
+      ? response.suggestions.filter((suggestion): suggestion is string => typeof suggestion === 'string').slice(0, 5)
+      : [];
+  } catch (error) {
+    // The deterministic analysis stands on its own
+    console.error('Error generating AI suggestions:', error);
+    analysis.aiSuggestions = [];
+  }
+
+  return analysis;
+}
@@ -57,24 +57,32 @@ export const PLAN_LIMITS = {
     articlesPerMonth: 5,
     keywordResearches: 10,
     wordLimit: 1000,
+    sitemapUrls: 1000,
+    crawlPages: 200,
     supportLevel: 'email',
   },
   [USER_PLANS.STARTER]: {
     articlesPerMonth: 25,
     keywordResearches: 50,
     wordLimit: 2000,
+    sitemapUrls: 10000,
+    crawlPages: 1000,
     supportLevel: 'email',
   },
   [USER_PLANS.PROFESSIONAL]: {
     articlesPerMonth: 100,
     keywordResearches: 200,
     wordLimit: 5000,
+    sitemapUrls: 50000,
+    crawlPages: 5000,
     supportLevel: 'priority',
   },
   [USER_PLANS.ENTERPRISE]: {
     articlesPerMonth: Infinity,
     keywordResearches: Infinity,
     wordLimit: 10000,
+    sitemapUrls: 250000,
+    crawlPages: 20000,
     supportLevel: 'dedicated',
   },
 };
@@ -49,6 +49,7 @@ export interface KeywordResults {
     volume: number;
     difficulty: number;
     cpc: number;
+    intent?: string;
   }>;
   searchIntent: {
     informational: number;
@@ -236,9 +237,26 @@ export const ApiService = {
   researchKeywords: (query: string) => 
     apiRequest('get', '/keywords', { query }, true, true, 24 * 3600), // Cache for 24 hours
   
+  researchKeywordsInto: (data: { query?: string; source: 'llm' | 'gsc' | 'csv'; csv?: string; listId?: string }) =>
+    apiRequest('post', '/keywords', data, true),
+
+  // Saved keyword lists
+  getKeywordLists: () =>
+    apiRequest('get', '/keywords/lists'),
+
+  createKeywordList: (data: { name: string; description?: string }) =>
+    apiRequest('post', '/keywords/lists', data),
+
+  getKeywordList: (id: string, params?: Record<string, string | number>) =>
+    apiRequest('get', `/keywords/lists/${id}`, params),
+
+  deleteKeywordList: (id: string) =>
+    apiRequest('delete', `/keywords/lists/${id}`),
+  
+
   // Content analysis
-  analyzeContent: (url: string) =>
-    apiRequest('get', '/analyze', { url }, true, true, 12 * 3600), // Cache for 12 hours
+  analyzeContent: (data: { url?: string; content?: string; keywords: string[]; aiSuggestions?: boolean }) =>
+    apiRequest('post', '/analyze', data, true),
   
   // Get user data
   getCurrentUser: () => 
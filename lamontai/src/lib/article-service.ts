@@ -0,0 +1,172 @@
+/**
+ * Article persistence on the Prisma `Article` model.
+ * Ports the derived-field rules of the Express backend's Mongo articleSchema
+ * pre-save hooks (word count, published date) and records a revision
+ * whenever a save changes the article's text.
+ */
+
+import { z } from 'zod';
+import { Article, Prisma } from '@prisma/client';
+import { db } from './db';
+import { ApiError, Errors } from './error-handler';
+import { articleUpdateSchema } from './validation';
+import { ensureBaseRevision, getRevision, hasSnapshotChanges, snapshotArticle } from './revisions';
+
+export type ArticleUpdateInput = z.infer<typeof articleUpdateSchema>;
+
+/**
+ * Count the words in article content, ignoring HTML markup
+ */
+export function countWords(content: string): number {
+  return content.replace(/<[^>]+>/g, ' ').split(/\s+/).filter(Boolean).length;
+}
+
+/**
+ * Map a validated partial update onto Prisma fields, deriving the same
+ * fields the old pre-save hooks did
+ * @param existing - The article before the update
+ */
+export function buildArticleUpdate(
+  existing: Pick<Article, 'status' | 'publishedAt'>,
+  input: ArticleUpdateInput
+): Prisma.ArticleUpdateInput {
+  const data: Prisma.ArticleUpdateInput = {};
+
+  if (input.title !== undefined) data.title = input.title;
+  if (input.status !== undefined) data.status = input.status;
+  if (input.snippet !== undefined) data.metaDescription = input.snippet;
+  if (input.keywords !== undefined) data.keywords = input.keywords.join(', ');
+  if (input.seoScore !== undefined) data.seoScore = Math.round(input.seoScore);
+  if (input.readabilityScore !== undefined) data.readabilityScore = Math.round(input.readabilityScore);
+
+  // Recalculate word count when the content changes
+  if (input.content !== undefined) {
+    data.content = input.content;
+    data.wordCount = countWords(input.content);
+  }
+
+  // Set the published date the first time an article is published
+  if (input.status === 'published' && existing.status !== 'published' && !existing.publishedAt) {
+    data.publishedAt = new Date();
+  }
+
+  return data;
+}
+
+/**
+ * Find an article by id, regardless of owner
+ */
+export async function findArticle(id: string): Promise<Article | null> {
+  return db.article.findUnique({ where: { id } });
+}
+
+/**
+ * Find an article the user owns
+ * @throws ApiError (404) when missing, (403) when owned by someone else
+ */
+export async function getOwnedArticle(userId: string, id: string): Promise<Article> {
+  const article = await findArticle(id);
+  if (!article) {
+    throw Errors.notFound('Article');
+  }
+  if (article.userId !== userId) {
+    throw Errors.forbidden('You are not authorized to access this article');
+  }
+  return article;
+}
+
+/**
+ * Create an article and its first revision
+ */
+export async function createArticle(userId: string, input: { title: string; content?: string }): Promise<Article> {
+  return db.$transaction(async (tx) => {
+    const article = await tx.article.create({
+      data: {
+        title: input.title,
+        content: input.content || '',
+        wordCount: countWords(input.content || ''),
+        userId,
+      },
+    });
+    await snapshotArticle(tx, article, { authorId: userId });
+    return article;
+  });
+}
+
+/**
+ * Apply a partial update to an article, snapshotting the result when the
+ * title, content, meta description or keywords change
+ * @param authorId - The user making the change
+ */
+export async function updateArticle(
+  existing: Article,
+  input: ArticleUpdateInput,
+  authorId?: string
+): Promise<Article> {
+  return db.$transaction(async (tx) => {
+    const article = await tx.article.update({
+      where: { id: existing.id },
+      data: buildArticleUpdate(existing, input),
+    });
+
+    if (hasSnapshotChanges(existing, article)) {
+      await ensureBaseRevision(tx, existing);
+      await snapshotArticle(tx, article, { authorId, source: input.source });
+    }
+
+    return article;
+  });
+}
+
+/**
+ * Save a generated article into the article planned for it in a content
+ * plan, moving it from planned to draft so the plan's progress counts it
+ * @param authorId - The user saving the article
+ * @throws ApiError (409) when the article is no longer planned
+ */
+export async function writePlannedArticle(
+  existing: Article,
+  input: { title: string; content: string; metaDescription?: string },
+  authorId: string
+): Promise<Article> {
+  if (existing.status !== 'planned') {
+    throw new ApiError('This planned article has already been written', 409);
+  }
+
+  return updateArticle(
+    existing,
+    { title: input.title, content: input.content, snippet: input.metaDescription, status: 'draft', source: 'ai' },
+    authorId
+  );
+}
+
+/**
+ * Restore an earlier revision by saving its fields as a new head revision
+ * @throws ApiError (404) when the revision does not belong to the article
+ */
+export async function restoreRevision(existing: Article, revisionId: string, authorId: string): Promise<Article> {
+  const revision = await getRevision(existing.id, revisionId);
+
+  return db.$transaction(async (tx) => {
+    await ensureBaseRevision(tx, existing);
+    const article = await tx.article.update({
+      where: { id: existing.id },
+      data: {
+        title: revision.title,
+        content: revision.content,
+        metaDescription: revision.metaDescription,
+        keywords: revision.keywords,
+        wordCount: countWords(revision.content || ''),
+      },
+    });
+    await snapshotArticle(tx, article, { authorId, source: 'human', restoredFromId: revision.id });
+    return article;
+  });
+}
+
+/**
+ * Delete an article
+ */
+export async function deleteArticle(id: string): Promise<void> {
+  await db.article.delete({ where: { id } });
+}
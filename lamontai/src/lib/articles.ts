@@ -86,24 +86,24 @@ export const getArticleById = (id: string): Article | undefined => {
   return mockArticles.find(article => article.id === id);
 };
 
-// Download article as PDF (simulated)
-export const downloadArticle = (article: Article) => {
-  // In a real app, this would generate a PDF
-  // For now, we'll create a text file with the content
-  const blob = new Blob(
-    [
-      `${article.title}\n\n`,
-      `Date: ${article.date}\n`,
-      `SEO Impact: ${article.seoImpact}\n`,
-      `Keywords: ${article.keywords}\n`,
-      `Search Volume: ${article.searchVolume}\n\n`,
-      // Remove HTML tags for plain text
-      article.content.replace(/<[^>]*>?/gm, '')
-    ],
-    { type: 'text/plain;charset=utf-8' }
-  );
-  
-  saveAs(blob, `article-${article.id}-${new Date().getTime()}.txt`);
+export type ArticleExportFormat = 'markdown' | 'html' | 'docx' | 'pdf';
+
+// Download an article in the given format from the server-side export endpoint
+export const downloadArticle = async (articleId: string, format: ArticleExportFormat = 'pdf') => {
+  const response = await fetch(`/api/articles/${articleId}/export?format=${format}`, {
+    credentials: 'include'
+  });
+
+  if (!response.ok) {
+    const data = await response.json().catch(() => ({}));
+    throw new Error(data.message || data.error?.message || 'Failed to export article');
+  }
+
+  // Use the file name the server chose for this format
+  const disposition = response.headers.get('Content-Disposition') || '';
+  const filename = /filename="([^"]+)"/.exec(disposition)?.[1] || `article-${articleId}`;
+
+  saveAs(await response.blob(), filename);
 };
 
 // Connect to Google Search Console via OAuth
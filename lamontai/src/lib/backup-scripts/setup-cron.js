@@ -7,6 +7,8 @@
  * - Regular database backups
  * - Database vacuum operations
  * - System monitoring checks
+ * - Sitemap inventory refreshes (when CRON_SECRET is set)
+ * - Search Console data syncs (when CRON_SECRET is set)
  * 
  * Usage:
  *   node setup-cron.js [--remove]
@@ -63,6 +65,22 @@ const cronJobs = [
   }
 ];
 
+// Daily sitemap inventory refresh at 4 AM, run through the app's cron endpoint
+if (process.env.CRON_SECRET) {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || `http://localhost:${process.env.PORT || 3001}`;
+  cronJobs.push({
+    schedule: '0 4 * * *',
+    command: `curl -fsS -X POST -H "Authorization: Bearer ${process.env.CRON_SECRET}" ${appUrl}/api/cron/sitemaps >> ${appDir}/logs/sitemaps.log 2>&1`,
+    description: 'Daily sitemap inventory refresh'
+  });
+  // Daily Search Console sync at 5 AM, after the sitemap refresh
+  cronJobs.push({
+    schedule: '0 5 * * *',
+    command: `curl -fsS -X POST -H "Authorization: Bearer ${process.env.CRON_SECRET}" ${appUrl}/api/cron/search-console >> ${appDir}/logs/search-console.log 2>&1`,
+    description: 'Daily Search Console data sync'
+  });
+}
+
 // Function to get current crontab
 async function getCurrentCrontab() {
   try {
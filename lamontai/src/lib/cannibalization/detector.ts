@@ -0,0 +1,418 @@
+/**
+ * Keyword cannibalization: pages and articles that compete for the same
+ * search. Two documents overlap when their primary keywords share the
+ * distinctive terms (weighted by how rare each term is across the site),
+ * more so when their body text is alike, and less when they serve
+ * different search intents. Overlapping documents are grouped and each
+ * group gets a recommendation. Pure functions; ./index loads the documents.
+ */
+
+import { createHash } from 'crypto';
+import { lemmaTokens, lemmaWords } from '../keywords/lemmatize';
+import { KeywordIntent } from '../keywords/types';
+
+export type CannibalizationAction = 'keep' | 'merge' | 'redirect' | 'differentiate';
+export type CannibalizationRecommendation = Exclude<CannibalizationAction, 'keep'>;
+
+export interface CannibalizationDocument {
+  id: string;
+  kind: 'page' | 'article';
+  // Null for articles that are not on the site
+  url: string | null;
+  title: string;
+  // The keyword the document is meant to rank for
+  primaryKeyword: string;
+  intent: KeywordIntent;
+  // Body lemma counts; empty when the text is not known
+  terms: Record<string, number>;
+  // Body length in lemmas
+  length: number;
+  // Article status: planned, draft, published
+  status?: string;
+  // From the latest site crawl, when the page was crawled
+  authority?: number | null;
+  inbound?: number | null;
+}
+
+export interface CannibalizationMember {
+  id: string;
+  kind: CannibalizationDocument['kind'];
+  url: string | null;
+  title: string;
+  primaryKeyword: string;
+  intent: KeywordIntent;
+  status?: string;
+  authority?: number | null;
+  // The page to keep, or one competing with it
+  role: 'primary' | 'competing';
+  action: CannibalizationAction;
+  // Overlap with the primary, 0-1 (1 for the primary itself)
+  score: number;
+  keywordOverlap: number;
+  // Null when either text is not known
+  contentOverlap: number | null;
+  // Terms this document covers that the primary does not, to retarget on
+  distinctTerms: string[];
+  reasons: string[];
+}
+
+export interface CannibalizationGroup {
+  // Stable across runs while the members stay the same
+  id: string;
+  // The keyword the members compete for
+  keyword: string;
+  intent: KeywordIntent | 'mixed';
+  // Highest overlap between the primary and a competing member
+  score: number;
+  recommendation: CannibalizationRecommendation;
+  members: CannibalizationMember[];
+}
+
+export interface CannibalizationConflict {
+  id: string;
+  kind: CannibalizationDocument['kind'];
+  url: string | null;
+  title: string;
+  primaryKeyword: string;
+  intent: KeywordIntent;
+  status?: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface DetectOptions {
+  // Overlap a pair needs to be reported, 0-1
+  threshold?: number;
+}
+
+export const DEFAULT_THRESHOLD = 0.5;
+// Primary keywords must overlap at least this much; similar text alone is not cannibalization
+const MIN_KEYWORD_OVERLAP = 0.5;
+// Weight of keyword overlap when both texts are known; the rest is content similarity
+const KEYWORD_WEIGHT = 0.65;
+// Documents serving different intents compete less for the same results
+const INTENT_MISMATCH_FACTOR = 0.75;
+// Competing documents this close to the primary are redirected or merged
+const STRONG_OVERLAP = 0.7;
+// Body text shorter than this (in lemmas) is thin
+const THIN_CONTENT = 150;
+// Terms shared by more documents than this are not used to find candidate pairs
+const MAX_POSTINGS = 300;
+const DISTINCT_TERMS = 5;
+
+// Words that shape a title or query without naming its subject
+const MODIFIERS = new Set([
+  'best', 'top', 'guide', 'tip', 'review', 'complete', 'ultimate', 'easy', 'simple', 'quick', 'way', 'idea',
+  'example', 'beginner', 'new', 'free', 'great', 'good', 'everything', 'need', 'know', 'step',
+]);
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Lemmas that say what a keyword is about, without years or modifiers
+ */
+export function targetLemmas(keyword: string): string[] {
+  return Array.from(new Set(lemmaTokens(keyword).filter(lemma => !/^\d+$/.test(lemma) && !MODIFIERS.has(lemma))));
+}
+
+interface Profile {
+  doc: CannibalizationDocument;
+  target: Set<string>;
+  // tf-idf of the body, unit length; empty when the text is not known
+  vector: Map<string, number>;
+}
+
+interface Corpus {
+  profiles: Profile[];
+  // Inverse document frequency of a target lemma
+  weight: (lemma: string) => number;
+}
+
+const inverseFrequency = (counts: Map<string, number>, n: number) =>
+  (term: string) => Math.log(1 + (n - (counts.get(term) || 0) + 0.5) / ((counts.get(term) || 0) + 0.5));
+
+function buildCorpus(docs: CannibalizationDocument[]): Corpus {
+  const targetCounts = new Map<string, number>();
+  const bodyCounts = new Map<string, number>();
+  const targets = docs.map(doc => new Set(targetLemmas(doc.primaryKeyword)));
+
+  targets.forEach(target => target.forEach(lemma => targetCounts.set(lemma, (targetCounts.get(lemma) || 0) + 1)));
+  docs.forEach(doc => Object.keys(doc.terms).forEach(term => bodyCounts.set(term, (bodyCounts.get(term) || 0) + 1)));
+  const bodyIdf = inverseFrequency(bodyCounts, docs.length);
+
+  const profiles = docs.map((doc, i) => {
+    const vector = new Map<string, number>();
+    Object.entries(doc.terms).forEach(([term, count]) => vector.set(term, (1 + Math.log(count)) * bodyIdf(term)));
+    const norm = Math.sqrt(Array.from(vector.values()).reduce((sum, value) => sum + value * value, 0));
+    vector.forEach((value, term) => vector.set(term, norm > 0 ? value / norm : 0));
+    return { doc, target: targets[i], vector };
+  });
+
+  return { profiles, weight: inverseFrequency(targetCounts, docs.length) };
+}
+
+/**
+ * Rarity-weighted overlap of two keywords' lemmas: the mean of their
+ * Jaccard similarity and how much of the shorter one the longer contains
+ */
+function keywordOverlap(a: Set<string>, b: Set<string>, weight: (lemma: string) => number): number {
+  const shared = Array.from(a).filter(lemma => b.has(lemma));
+  if (shared.length === 0) return 0;
+
+  const total = (lemmas: Iterable<string>) => Array.from(lemmas).reduce((sum, lemma) => sum + weight(lemma), 0);
+  const both = total(shared);
+  const inA = total(a);
+  const inB = total(b);
+  return (both / (inA + inB - both) + both / Math.min(inA, inB)) / 2;
+}
+
+function cosine(a: Map<string, number>, b: Map<string, number>): number | null {
+  if (a.size === 0 || b.size === 0) return null;
+  const [small, large] = a.size < b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((value, term) => { dot += value * (large.get(term) || 0); });
+  return dot;
+}
+
+interface PairOverlap {
+  score: number;
+  keyword: number;
+  content: number | null;
+}
+
+function pairOverlap(a: Profile, b: Profile, weight: Corpus['weight']): PairOverlap {
+  const keyword = keywordOverlap(a.target, b.target, weight);
+  const content = cosine(a.vector, b.vector);
+  const blended = content === null ? keyword : KEYWORD_WEIGHT * keyword + (1 - KEYWORD_WEIGHT) * content;
+  const factor = a.doc.intent === b.doc.intent ? 1 : INTENT_MISMATCH_FACTOR;
+  return { score: round(blended * factor), keyword: round(keyword), content: content === null ? null : round(content) };
+}
+
+/**
+ * Candidate pairs: documents whose primary keywords share a lemma
+ */
+function candidatePairs(profiles: Profile[]): Array<[number, number]> {
+  const postings = new Map<string, number[]>();
+  profiles.forEach((profile, i) => profile.target.forEach(lemma => {
+    if (!postings.has(lemma)) postings.set(lemma, []);
+    postings.get(lemma)!.push(i);
+  }));
+
+  const seen = new Set<string>();
+  const pairs: Array<[number, number]> = [];
+  postings.forEach(list => {
+    if (list.length > MAX_POSTINGS) return;
+    for (let x = 0; x < list.length; x++) {
+      for (let y = x + 1; y < list.length; y++) {
+        const key = `${list[x]}:${list[y]}`;
+        if (!seen.has(key)) {
+          seen.add(key);
+          pairs.push([list[x], list[y]]);
+        }
+      }
+    }
+  });
+  return pairs;
+}
+
+const label = (doc: CannibalizationDocument) => doc.title || doc.primaryKeyword || doc.url || doc.id;
+
+const isDraft = (doc: CannibalizationDocument) => doc.kind === 'article' && doc.status !== 'published';
+
+/**
+ * Order for picking the document to keep: live pages first, then the
+ * strongest by link authority, inbound links and length
+ */
+const keepRank = (doc: CannibalizationDocument): number[] => [
+  doc.kind === 'page' ? 2 : doc.status === 'published' ? 1 : 0,
+  doc.authority ?? -1,
+  doc.inbound ?? -1,
+  doc.length,
+];
+
+function compareKeepRank(a: CannibalizationDocument, b: CannibalizationDocument): number {
+  const ra = keepRank(a);
+  const rb = keepRank(b);
+  for (let i = 0; i < ra.length; i++) {
+    if (ra[i] !== rb[i]) return rb[i] - ra[i];
+  }
+  return a.id.localeCompare(b.id);
+}
+
+function chooseAction(member: CannibalizationDocument, primary: CannibalizationDocument, overlap: PairOverlap): CannibalizationRecommendation {
+  if (member.intent !== primary.intent) return 'differentiate';
+  // A draft cannot be redirected; its material belongs in the existing page
+  if (isDraft(member)) return overlap.keyword >= STRONG_OVERLAP ? 'merge' : 'differentiate';
+  if ((overlap.content !== null && overlap.content >= STRONG_OVERLAP) || (member.length > 0 && member.length < THIN_CONTENT)) {
+    return 'redirect';
+  }
+  return overlap.keyword >= STRONG_OVERLAP ? 'merge' : 'differentiate';
+}
+
+function describeOverlap(member: Profile, primary: Profile, overlap: PairOverlap, action: CannibalizationAction): string[] {
+  const shared = lemmaWords(primary.doc.primaryKeyword)
+    .filter(({ lemma }) => member.target.has(lemma))
+    .map(({ word }) => word);
+  const reasons = [`Targets "${shared.join(' ') || member.doc.primaryKeyword}" like "${label(primary.doc)}"`];
+
+  reasons.push(`${Math.round(overlap.keyword * 100)}% keyword overlap`);
+  if (overlap.content !== null) reasons.push(`${Math.round(overlap.content * 100)}% content overlap`);
+  if (member.doc.intent !== primary.doc.intent) {
+    reasons.push(`Different intent: ${member.doc.intent} vs ${primary.doc.intent}`);
+  }
+  if (member.doc.length > 0 && member.doc.length < THIN_CONTENT && action === 'redirect') {
+    reasons.push(`Thin content (${member.doc.length} terms)`);
+  }
+  if (primary.doc.authority != null && (member.doc.authority ?? 0) < primary.doc.authority) {
+    reasons.push(`The kept page has more link authority (${primary.doc.authority} vs ${member.doc.authority ?? 0})`);
+  }
+  if (isDraft(member.doc)) {
+    reasons.push(action === 'merge'
+      ? 'Not published yet: update the existing page instead'
+      : 'Not published yet: give it its own keyword before publishing');
+  }
+  return reasons;
+}
+
+/**
+ * Top terms of a document that the primary barely covers
+ */
+function distinctTerms(member: Profile, primary: Profile): string[] {
+  return Array.from(member.vector.entries())
+    .filter(([term]) => !member.target.has(term) && (primary.vector.get(term) || 0) < 0.01)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, DISTINCT_TERMS)
+    .map(([term]) => term);
+}
+
+function buildGroup(members: Profile[], weight: Corpus['weight']): CannibalizationGroup {
+  const ordered = [...members].sort((a, b) => compareKeepRank(a.doc, b.doc));
+  const [primary, ...competing] = ordered;
+
+  const primaryMember: CannibalizationMember = {
+    ...memberFields(primary.doc),
+    role: 'primary',
+    action: 'keep',
+    score: 1,
+    keywordOverlap: 1,
+    contentOverlap: 1,
+    distinctTerms: [],
+    reasons: ['The strongest page for this keyword; keep it as the one that ranks'],
+  };
+  const others = competing.map((member): CannibalizationMember => {
+    const overlap = pairOverlap(member, primary, weight);
+    const action = chooseAction(member.doc, primary.doc, overlap);
+    return {
+      ...memberFields(member.doc),
+      role: 'competing',
+      action,
+      score: overlap.score,
+      keywordOverlap: overlap.keyword,
+      contentOverlap: overlap.content,
+      distinctTerms: distinctTerms(member, primary),
+      reasons: describeOverlap(member, primary, overlap, action),
+    };
+  }).sort((a, b) => b.score - a.score);
+
+  // The keyword is the part of the primary's keyword the others share
+  const sharedLemmas = new Set(competing.flatMap(member => Array.from(member.target)));
+  const keyword = lemmaWords(primary.doc.primaryKeyword)
+    .filter(({ lemma }) => sharedLemmas.has(lemma))
+    .map(({ word }) => word)
+    .join(' ') || primary.doc.primaryKeyword;
+
+  const intents = new Set(members.map(member => member.doc.intent));
+  const ids = members.map(member => `${member.doc.kind}:${member.doc.id}`).sort();
+
+  return {
+    id: createHash('sha1').update(ids.join('\n')).digest('hex').slice(0, 12),
+    keyword,
+    intent: intents.size === 1 ? primary.doc.intent : 'mixed',
+    score: others[0]?.score ?? 0,
+    recommendation: (others[0]?.action as CannibalizationRecommendation) || 'differentiate',
+    members: [primaryMember, ...others],
+  };
+}
+
+const memberFields = (doc: CannibalizationDocument) => ({
+  id: doc.id,
+  kind: doc.kind,
+  url: doc.url,
+  title: doc.title,
+  primaryKeyword: doc.primaryKeyword,
+  intent: doc.intent,
+  status: doc.status,
+  authority: doc.authority,
+});
+
+/**
+ * Groups of documents competing for the same keyword, strongest overlap first
+ */
+export function detectCannibalization(docs: CannibalizationDocument[], options: DetectOptions = {}): CannibalizationGroup[] {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const corpus = buildCorpus(docs);
+  const { profiles } = corpus;
+
+  // Union-find over the overlapping pairs
+  const parent = profiles.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  candidatePairs(profiles).forEach(([a, b]) => {
+    const overlap = pairOverlap(profiles[a], profiles[b], corpus.weight);
+    if (overlap.keyword >= MIN_KEYWORD_OVERLAP && overlap.score >= threshold) {
+      parent[find(a)] = find(b);
+    }
+  });
+
+  const components = new Map<number, Profile[]>();
+  profiles.forEach((profile, i) => {
+    const root = find(i);
+    if (!components.has(root)) components.set(root, []);
+    components.get(root)!.push(profile);
+  });
+
+  return Array.from(components.values())
+    .filter(members => members.length > 1)
+    .map(members => buildGroup(members, corpus.weight))
+    .sort((a, b) => b.score - a.score || b.members.length - a.members.length);
+}
+
+/**
+ * Existing documents a new article on a keyword would compete with
+ */
+export function findKeywordConflicts(
+  docs: CannibalizationDocument[],
+  query: { keyword: string; intent: KeywordIntent },
+  options: DetectOptions = {}
+): CannibalizationConflict[] {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const candidate: CannibalizationDocument = {
+    id: '', kind: 'article', url: null, title: query.keyword, primaryKeyword: query.keyword, intent: query.intent, terms: {}, length: 0,
+  };
+  const corpus = buildCorpus([...docs, candidate]);
+  const target = corpus.profiles[docs.length];
+
+  return corpus.profiles.slice(0, docs.length)
+    .filter(profile => Array.from(profile.target).some(lemma => target.target.has(lemma)))
+    .map(profile => ({ profile, overlap: pairOverlap(target, profile, corpus.weight) }))
+    .filter(({ overlap }) => overlap.keyword >= MIN_KEYWORD_OVERLAP && overlap.score >= threshold)
+    .sort((a, b) => b.overlap.score - a.overlap.score)
+    .map(({ profile, overlap }) => {
+      const reasons = [`${Math.round(overlap.keyword * 100)}% keyword overlap with "${profile.doc.primaryKeyword}"`];
+      reasons.push(profile.doc.intent === query.intent
+        ? `Same intent (${query.intent})`
+        : `Different intent: ${query.intent} vs ${profile.doc.intent}`);
+      if (isDraft(profile.doc)) reasons.push(`Existing ${profile.doc.status} article`);
+      return {
+        id: profile.doc.id,
+        kind: profile.doc.kind,
+        url: profile.doc.url,
+        title: profile.doc.title,
+        primaryKeyword: profile.doc.primaryKeyword,
+        intent: profile.doc.intent,
+        status: profile.doc.status,
+        score: overlap.score,
+        reasons,
+      };
+    });
+}
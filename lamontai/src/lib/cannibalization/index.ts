@@ -0,0 +1,206 @@
+/**
+ * Keyword cannibalization across the user's site and articles. Pages come
+ * from the sitemap inventory with the text indexed for internal links;
+ * articles bring their target keyword and draft. Link authority from the
+ * latest site crawl decides which page of a competing group to keep.
+ */
+
+import { db } from '../db';
+import { classifyIntent, classifyTopic, loadCompetitorBrands } from '../keywords';
+import { KEYWORD_INTENTS, KeywordIntent } from '../keywords/types';
+import { lemmaTokens } from '../keywords/lemmatize';
+import { cleanTitle, extractPageContent, pageLabel } from '../internal-links';
+import { normalizeUrl } from '../site-graph/crawler';
+import {
+  CannibalizationConflict,
+  CannibalizationDocument,
+  CannibalizationGroup,
+  DEFAULT_THRESHOLD,
+  detectCannibalization,
+  findKeywordConflicts,
+} from './detector';
+
+export * from './detector';
+
+export interface LoadOptions {
+  // Include planned and draft articles, not just published ones
+  includeDrafts?: boolean;
+  // Leave an article out, such as the one being written
+  excludeArticleId?: string;
+}
+
+export interface CannibalizationReport {
+  groups: CannibalizationGroup[];
+  pages: number;
+  // Pages whose text has been indexed; the rest are compared by title or URL only
+  indexedPages: number;
+  articles: number;
+  threshold: number;
+}
+
+export interface CannibalizationWarning {
+  keyword: string;
+  intent: KeywordIntent;
+  conflicts: CannibalizationConflict[];
+  message: string;
+}
+
+// Conflicts listed in a generation warning
+const MAX_CONFLICTS = 5;
+
+const splitKeywords = (keywords: string | null) =>
+  (keywords || '').split(',').map(keyword => keyword.trim()).filter(Boolean);
+
+// Lemmas of a title, used to spot an article that is already one of the pages
+const titleKey = (title: string) => lemmaTokens(cleanTitle(title)).sort().join(' ');
+
+const isIntent = (value: string | null): value is KeywordIntent =>
+  value !== null && (KEYWORD_INTENTS as readonly string[]).includes(value);
+
+/**
+ * Link authority of the user's pages from the latest completed crawl, by URL
+ */
+async function loadAuthority(userId: string): Promise<{ homepage: string; pages: Map<string, { authority: number; inbound: number }> } | null> {
+  const crawl = await db.siteCrawl.findFirst({ where: { userId, status: 'completed' }, orderBy: { startedAt: 'desc' } });
+  if (!crawl) return null;
+
+  const pages = await db.siteCrawlPage.findMany({
+    where: { crawlId: crawl.id, state: 'ok' },
+    select: { url: true, authority: true, inbound: true },
+  });
+  return { homepage: crawl.homepage, pages: new Map(pages.map(page => [page.url, { authority: page.authority, inbound: page.inbound }])) };
+}
+
+/**
+ * The user's pages and articles as documents to compare
+ */
+export async function loadCannibalizationDocuments(
+  userId: string,
+  options: LoadOptions = {}
+): Promise<{ docs: CannibalizationDocument[]; pages: number; indexedPages: number; articles: number }> {
+  const [pages, articles, brands, graph] = await Promise.all([
+    db.sitePage.findMany({
+      where: { userId, removedAt: null },
+      select: {
+        id: true,
+        url: true,
+        content: { select: { title: true, headings: true, terms: true, length: true, status: true } },
+      },
+    }),
+    db.article.findMany({
+      where: {
+        userId,
+        status: options.includeDrafts === false ? 'published' : { not: 'archived' },
+        ...(options.excludeArticleId ? { id: { not: options.excludeArticleId } } : {}),
+      },
+      select: { id: true, title: true, content: true, status: true, keywords: true, targetKeyword: true, intent: true },
+    }),
+    loadCompetitorBrands(userId),
+    loadAuthority(userId),
+  ]);
+
+  const pageDocs = pages.map((page): CannibalizationDocument => {
+    const content = page.content?.status === 'ok' ? page.content : null;
+    const headings = Array.isArray(content?.headings) ? content.headings.map(String) : [];
+    const primaryKeyword = content?.title ? cleanTitle(content.title) : headings[0] || pageLabel({ url: page.url, title: '' });
+    const metrics = graph?.pages.get(normalizeUrl(page.url, graph.homepage, graph.homepage) || page.url);
+
+    return {
+      id: page.id,
+      kind: 'page',
+      url: page.url,
+      title: content?.title || pageLabel({ url: page.url, title: '' }),
+      primaryKeyword,
+      intent: classifyIntent(primaryKeyword, { brands }).intent,
+      terms: (content?.terms as Record<string, number>) || {},
+      length: content?.length || 0,
+      authority: metrics?.authority ?? null,
+      inbound: metrics?.inbound ?? null,
+    };
+  });
+
+  // Published articles that are already in the inventory are compared as pages
+  const pageTitles = new Set(pageDocs.filter(doc => doc.title).map(doc => titleKey(doc.title)));
+  const articleDocs = articles
+    .filter(article => article.status !== 'published' || !pageTitles.has(titleKey(article.title)))
+    .map((article): CannibalizationDocument => {
+      const keywords = splitKeywords(article.keywords);
+      const primaryKeyword = article.targetKeyword || keywords[0] || article.title;
+      const text = article.content ? extractPageContent(article.content) : null;
+
+      return {
+        id: article.id,
+        kind: 'article',
+        url: null,
+        title: article.title,
+        primaryKeyword,
+        intent: isIntent(article.intent)
+          ? article.intent
+          : classifyTopic(article.title, [primaryKeyword, ...keywords.filter(keyword => keyword !== primaryKeyword)], { brands }).intent,
+        terms: text?.terms || {},
+        length: text?.length || 0,
+        status: article.status,
+      };
+    });
+
+  return {
+    docs: [...pageDocs, ...articleDocs],
+    pages: pageDocs.length,
+    indexedPages: pages.filter(page => page.content?.status === 'ok').length,
+    articles: articleDocs.length,
+  };
+}
+
+/**
+ * Groups of the user's pages and articles that compete for the same keyword
+ */
+export async function getCannibalizationReport(
+  userId: string,
+  options: LoadOptions & { threshold?: number } = {}
+): Promise<CannibalizationReport> {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const { docs, pages, indexedPages, articles } = await loadCannibalizationDocuments(userId, options);
+
+  return {
+    groups: detectCannibalization(docs, { threshold }),
+    pages,
+    indexedPages,
+    articles,
+    threshold,
+  };
+}
+
+/**
+ * Check a topic before an article is written on it
+ * @returns A warning listing the pages and articles it would compete with,
+ * or null when there are none
+ */
+export async function checkTopicCannibalization(
+  userId: string,
+  topic: string,
+  keywords: string[],
+  options: LoadOptions & { threshold?: number } = {}
+): Promise<CannibalizationWarning | null> {
+  const keyword = keywords[0] || topic;
+  const [{ docs }, brands] = await Promise.all([
+    loadCannibalizationDocuments(userId, options),
+    loadCompetitorBrands(userId),
+  ]);
+  const intent = classifyTopic(topic, keywords, { brands }).intent;
+
+  // Planned articles without a draft are the plan itself, not competition
+  const existing = docs.filter(doc => doc.kind === 'page' || doc.length > 0);
+  const conflicts = findKeywordConflicts(existing, { keyword, intent }, { threshold: options.threshold }).slice(0, MAX_CONFLICTS);
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  const [first] = conflicts;
+  const others = conflicts.length > 1 ? ` and ${conflicts.length - 1} more` : '';
+  return {
+    keyword,
+    intent,
+    conflicts,
+    message: `"${keyword}" overlaps with "${first.title || first.primaryKeyword}"${others}. Consider updating the existing ${first.kind} or targeting a different keyword.`,
+  };
+}
@@ -0,0 +1,272 @@
+/**
+ * Content decay detection over daily Search Console metrics per page. The
+ * latest window of days is compared with the windows before it; a page is
+ * decaying when its daily clicks fell by a meaningful share and Welch's
+ * t-test says the fall is unlikely to be noise after correcting for the
+ * number of pages tested.
+ */
+
+import { mean, welchTest } from './stats';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DailyMetrics {
+  date: string; // YYYY-MM-DD
+  clicks: number;
+  impressions: number;
+  position: number; // Average position that day
+}
+
+export interface PageSeries {
+  url: string;
+  title?: string | null;
+  // Sitemap lastmod of the page, when it is in the inventory
+  lastModified?: Date | null;
+  days: DailyMetrics[];
+}
+
+export interface DecayWindows {
+  baselineStart: string;
+  baselineEnd: string;
+  currentStart: string;
+  currentEnd: string;
+  windowDays: number;
+}
+
+export interface MetricChange {
+  // Totals per window for clicks and impressions; averages for position
+  baseline: number;
+  current: number;
+  // Relative change for clicks and impressions, places moved for position
+  // (positive is worse)
+  change: number;
+  pValue: number;
+  significant: boolean;
+}
+
+// Why the clicks were lost: worse rankings, fewer queries or searches
+// showing the page, or fewer searchers clicking it where it still shows
+export type DecayCause = 'ranking' | 'visibility' | 'ctr';
+
+export interface DecayingPage {
+  url: string;
+  title: string | null;
+  clicks: MetricChange;
+  impressions: MetricChange;
+  position: MetricChange;
+  ctr: { baseline: number; current: number };
+  cause: DecayCause;
+  // Clicks a month lost since the baseline
+  lostClicks: number;
+  // Clicks a month lost beyond the site-wide trend, which a refresh can win back
+  recoverableClicks: number;
+  // Rolling window click totals, a week apart, oldest first
+  trend: number[];
+  lastModified: string | null;
+  daysSinceUpdate: number | null;
+  // Updated during the current window; the decline may be the update settling
+  recentlyUpdated: boolean;
+}
+
+export interface DecayOptions {
+  // Clicks a window the page needed before the decline to be tested
+  minClicks?: number;
+  // Smallest relative fall in clicks worth flagging
+  minDecline?: number;
+  // False discovery rate across the pages tested
+  alpha?: number;
+  // Current over baseline impressions site-wide, when the series given are
+  // not the whole site
+  siteTrend?: number;
+}
+
+export const DEFAULT_WINDOW_DAYS = 28;
+// Windows before the current one that form the baseline
+export const BASELINE_WINDOWS = 2;
+const DEFAULT_MIN_CLICKS = 20;
+const DEFAULT_MIN_DECLINE = 0.2;
+const DEFAULT_ALPHA = 0.05;
+// Places an average position must drop by to count as a ranking loss
+const MIN_POSITION_DROP = 1;
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+const round = (value: number, digits = 0) => Math.round(value * 10 ** digits) / 10 ** digits;
+const sum = (values: number[]) => values.reduce((total, value) => total + value, 0);
+
+/**
+ * The baseline and current windows ending on a date
+ */
+export function decayWindows(endDate: Date, windowDays = DEFAULT_WINDOW_DAYS): DecayWindows {
+  const end = new Date(`${isoDate(endDate)}T00:00:00Z`).getTime();
+  const currentStart = end - (windowDays - 1) * DAY_MS;
+  const baselineEnd = currentStart - DAY_MS;
+  const baselineStart = currentStart - BASELINE_WINDOWS * windowDays * DAY_MS;
+
+  return {
+    baselineStart: isoDate(new Date(baselineStart)),
+    baselineEnd: isoDate(new Date(baselineEnd)),
+    currentStart: isoDate(new Date(currentStart)),
+    currentEnd: isoDate(new Date(end)),
+    windowDays,
+  };
+}
+
+/**
+ * Dates from start to end inclusive
+ */
+function dateRange(start: string, end: string): string[] {
+  const dates: string[] = [];
+  for (let time = Date.parse(`${start}T00:00:00Z`); time <= Date.parse(`${end}T00:00:00Z`); time += DAY_MS) {
+    dates.push(isoDate(new Date(time)));
+  }
+  return dates;
+}
+
+/**
+ * Benjamini-Hochberg adjusted p-values, in input order
+ */
+function adjustPValues(pValues: number[]): number[] {
+  const order = pValues.map((p, index) => ({ p, index })).sort((a, b) => a.p - b.p);
+  const adjusted = new Array<number>(pValues.length);
+  let running = 1;
+  for (let rank = order.length; rank >= 1; rank--) {
+    const { p, index } = order[rank - 1];
+    running = Math.min(running, (p * order.length) / rank);
+    adjusted[index] = running;
+  }
+  return adjusted;
+}
+
+interface PageStats {
+  series: PageSeries;
+  clicks: { baseline: number[]; current: number[] };
+  impressions: { baseline: number[]; current: number[] };
+  position: { baseline: number[]; current: number[]; baselineAverage: number; currentAverage: number };
+  rolling: number[];
+}
+
+function pageStats(series: PageSeries, windows: DecayWindows): PageStats {
+  const byDate = new Map(series.days.map(day => [day.date, day]));
+  const dates = dateRange(windows.baselineStart, windows.currentEnd);
+  const split = dates.indexOf(windows.currentStart);
+  // Search Console leaves out days without impressions
+  const days = dates.map(date => byDate.get(date) || { date, clicks: 0, impressions: 0, position: 0 });
+
+  const weightedPosition = (slice: DailyMetrics[]) => {
+    const impressions = sum(slice.map(day => day.impressions));
+    return impressions ? sum(slice.map(day => day.position * day.impressions)) / impressions : 0;
+  };
+  const shown = (slice: DailyMetrics[]) => slice.filter(day => day.impressions > 0).map(day => day.position);
+
+  const baseline = days.slice(0, split);
+  const current = days.slice(split);
+
+  const rolling: number[] = [];
+  for (let end = days.length; end >= windows.windowDays; end -= 7) {
+    rolling.unshift(sum(days.slice(end - windows.windowDays, end).map(day => day.clicks)));
+  }
+
+  return {
+    series,
+    clicks: { baseline: baseline.map(day => day.clicks), current: current.map(day => day.clicks) },
+    impressions: { baseline: baseline.map(day => day.impressions), current: current.map(day => day.impressions) },
+    position: {
+      baseline: shown(baseline),
+      current: shown(current),
+      baselineAverage: weightedPosition(baseline),
+      currentAverage: weightedPosition(current),
+    },
+    rolling,
+  };
+}
+
+/**
+ * Per-window totals and the relative change of a count metric
+ */
+function countChange(values: { baseline: number[]; current: number[] }, windowDays: number) {
+  const baseline = mean(values.baseline) * windowDays;
+  const current = mean(values.current) * windowDays;
+  return {
+    baseline: round(baseline),
+    current: round(current),
+    change: baseline ? round((current - baseline) / baseline, 3) : 0,
+    pValue: welchTest(values.baseline, values.current).pValue,
+  };
+}
+
+/**
+ * Pages whose clicks fell significantly in the current window, ranked by the
+ * clicks a refresh could recover
+ */
+export function detectDecay(
+  allSeries: PageSeries[],
+  windows: DecayWindows,
+  options: DecayOptions = {}
+): { pages: DecayingPage[]; tested: number; siteTrend: number } {
+  const minClicks = options.minClicks ?? DEFAULT_MIN_CLICKS;
+  const minDecline = options.minDecline ?? DEFAULT_MIN_DECLINE;
+  const alpha = options.alpha ?? DEFAULT_ALPHA;
+  const monthly = 30 / windows.windowDays;
+
+  const stats = allSeries.map(series => pageStats(series, windows));
+
+  // Site-wide change in impressions, standing in for seasonality and demand
+  const siteBaseline = sum(stats.map(page => mean(page.impressions.baseline)));
+  const siteCurrent = sum(stats.map(page => mean(page.impressions.current)));
+  const siteTrend = options.siteTrend ?? (siteBaseline ? siteCurrent / siteBaseline : 1);
+
+  // Only pages with enough traffic to lose are tested
+  const tested = stats.filter(page => mean(page.clicks.baseline) * windows.windowDays >= minClicks);
+  const clickChanges = tested.map(page => countChange(page.clicks, windows.windowDays));
+  const adjusted = adjustPValues(clickChanges.map(change => change.pValue));
+  const windowEnd = Date.parse(`${windows.currentEnd}T00:00:00Z`);
+
+  const pages: DecayingPage[] = [];
+  tested.forEach((page, index) => {
+    const clicks = { ...clickChanges[index], pValue: adjusted[index] };
+    if (clicks.change > -minDecline || clicks.pValue >= alpha) return;
+
+    const impressionChange = countChange(page.impressions, windows.windowDays);
+    const impressions = {
+      ...impressionChange,
+      significant: impressionChange.pValue < alpha && impressionChange.change <= -minDecline,
+    };
+
+    // Higher positions are worse, so test the negated series for a fall
+    const positionTest = welchTest(page.position.baseline.map(value => -value), page.position.current.map(value => -value));
+    const positionDrop = page.position.currentAverage - page.position.baselineAverage;
+    const position = {
+      baseline: round(page.position.baselineAverage, 1),
+      current: round(page.position.currentAverage, 1),
+      change: round(positionDrop, 1),
+      pValue: positionTest.pValue,
+      significant: positionTest.pValue < alpha && positionDrop >= MIN_POSITION_DROP,
+    };
+
+    const cause: DecayCause = position.significant ? 'ranking' : impressions.significant ? 'visibility' : 'ctr';
+    const expected = clicks.baseline * Math.min(1, siteTrend);
+    const lastModified = page.series.lastModified || null;
+
+    pages.push({
+      url: page.series.url,
+      title: page.series.title || null,
+      clicks: { ...clicks, significant: true },
+      impressions,
+      position,
+      ctr: {
+        baseline: impressionChange.baseline ? round(clicks.baseline / impressionChange.baseline, 4) : 0,
+        current: impressionChange.current ? round(clicks.current / impressionChange.current, 4) : 0,
+      },
+      cause,
+      lostClicks: round((clicks.baseline - clicks.current) * monthly),
+      recoverableClicks: round(Math.max(0, expected - clicks.current) * monthly),
+      trend: page.rolling,
+      lastModified: lastModified ? lastModified.toISOString() : null,
+      daysSinceUpdate: lastModified ? Math.max(0, Math.floor((windowEnd - lastModified.getTime()) / DAY_MS)) : null,
+      recentlyUpdated: lastModified ? isoDate(lastModified) >= windows.currentStart : false,
+    });
+  });
+
+  pages.sort((a, b) => b.recoverableClicks - a.recoverableClicks || a.clicks.pValue - b.clicks.pValue);
+  return { pages, tested: tested.length, siteTrend: round(siteTrend, 3) };
+}
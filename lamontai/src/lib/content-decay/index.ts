@@ -0,0 +1,317 @@
+/**
+ * Content decay across the user's site from Google Search Console: pages
+ * whose clicks are falling, ranked by the traffic a refresh could recover,
+ * and refresh briefs that turn one of them into a content task.
+ */
+
+import { ContentTask } from '@prisma/client';
+import { db } from '../db';
+import { Errors } from '../error-handler';
+import redisClient from '../redis-client';
+import { lemmaTokens } from '../keywords/lemmatize';
+import { cleanTitle, pageLabel } from '../internal-links';
+import { normalizeUrl } from '../site-graph/crawler';
+import { saveContentTask } from '../content-tasks';
+import {
+  candidateProperties,
+  DATA_DELAY_DAYS,
+  daysAgo,
+  loadSearchConsoleAccess,
+  querySiteAnalytics,
+  SearchAnalyticsRow,
+  SearchConsoleAccess,
+} from '../search-console';
+import {
+  BASELINE_WINDOWS,
+  DecayingPage,
+  DecayOptions,
+  DecayWindows,
+  DEFAULT_WINDOW_DAYS,
+  decayWindows,
+  detectDecay,
+  PageSeries,
+} from './detector';
+
+export * from './detector';
+
+export interface ContentDecayReport {
+  pages: DecayingPage[];
+  // Pages with enough clicks in the baseline to be tested
+  testedPages: number;
+  // Current over baseline impressions for the whole site
+  siteTrend: number;
+  windows: DecayWindows;
+  property: string;
+  generatedAt: string;
+}
+
+export interface QueryChange {
+  query: string;
+  clicks: { baseline: number; current: number };
+  impressions: { baseline: number; current: number };
+  position: { baseline: number | null; current: number | null };
+  // Whether the title or a heading already covers every word of the query
+  covered: boolean;
+}
+
+export interface RefreshBrief {
+  url: string;
+  title: string;
+  keyword: string | null;
+  windows: DecayWindows;
+  // Null when the page's clicks are not falling significantly right now
+  decay: DecayingPage | null;
+  lostQueries: QueryChange[];
+  headings: string[];
+  lastModified: string | null;
+  suggestions: string[];
+}
+
+// Reports are cached; Search Console only adds a day of data at a time
+const REPORT_CACHE_TTL = 6 * 60 * 60;
+// Daily page rows read for a report
+const MAX_REPORT_ROWS = 200000;
+// Queries listed in a brief
+const MAX_LOST_QUERIES = 10;
+const STALE_DAYS = 365;
+
+const PURPOSE = 'find decaying pages';
+
+const pageKey = (url: string, homepage: string) => normalizeUrl(url, url, homepage) || url;
+
+/**
+ * The sitemap lastmod and indexed title of the user's pages, by URL
+ */
+async function loadInventory(userId: string, homepage: string) {
+  const pages = await db.sitePage.findMany({
+    where: { userId, removedAt: null },
+    select: { url: true, lastmod: true, content: { select: { title: true, headings: true } } },
+  });
+  return new Map(pages.map(page => [pageKey(page.url, homepage), page]));
+}
+
+/**
+ * Daily Search Console metrics per page across both windows
+ */
+async function loadSeries(
+  access: SearchConsoleAccess,
+  windows: DecayWindows,
+  page?: string
+): Promise<{ property: string; series: Map<string, PageSeries> }> {
+  const { property, rows } = await querySiteAnalytics(
+    access,
+    {
+      startDate: windows.baselineStart,
+      endDate: windows.currentEnd,
+      dimensions: ['page', 'date'],
+      ...(page ? { dimensionFilterGroups: [{ filters: [{ dimension: 'page', operator: 'equals', expression: page }] }] } : {}),
+    },
+    MAX_REPORT_ROWS
+  );
+
+  const series = new Map<string, PageSeries>();
+  rows.forEach(row => {
+    const [url, date] = row.keys;
+    if (!series.has(url)) series.set(url, { url, days: [] });
+    series.get(url)!.days.push({ date, clicks: row.clicks, impressions: row.impressions, position: row.position });
+  });
+  return { property, series };
+}
+
+/**
+ * Pages on the user's site whose Search Console clicks fell significantly,
+ * most recoverable traffic first
+ * @throws ApiError (400) when Search Console is not connected or has expired
+ */
+export async function getContentDecayReport(
+  userId: string,
+  options: DecayOptions & { windowDays?: number; refresh?: boolean } = {}
+): Promise<ContentDecayReport> {
+  const windowDays = options.windowDays ?? DEFAULT_WINDOW_DAYS;
+  const cacheKey = `content_decay:${userId}:${windowDays}:${options.minClicks ?? ''}:${options.minDecline ?? ''}`;
+  if (!options.refresh) {
+    const cached = await redisClient.get<ContentDecayReport>(cacheKey);
+    if (cached) return cached;
+  }
+
+  const access = await loadSearchConsoleAccess(userId, PURPOSE);
+  const homepage = candidateProperties(access.websiteUrl)[0];
+  const windows = decayWindows(daysAgo(DATA_DELAY_DAYS), windowDays);
+  const [{ property, series }, inventory] = await Promise.all([
+    loadSeries(access, windows),
+    loadInventory(userId, homepage),
+  ]);
+
+  const withPages = Array.from(series.values()).map((page): PageSeries => {
+    const known = inventory.get(pageKey(page.url, homepage));
+    return { ...page, title: known?.content?.title || null, lastModified: known?.lastmod || null };
+  });
+  const { pages, tested, siteTrend } = detectDecay(withPages, windows, options);
+
+  const report: ContentDecayReport = {
+    pages,
+    testedPages: tested,
+    siteTrend,
+    windows,
+    property,
+    generatedAt: new Date().toISOString(),
+  };
+  await redisClient.set(cacheKey, report, REPORT_CACHE_TTL);
+  return report;
+}
+
+/**
+ * Search queries of one page over a date range, by query
+ */
+async function loadQueries(
+  access: SearchConsoleAccess,
+  url: string,
+  startDate: string,
+  endDate: string
+): Promise<Map<string, SearchAnalyticsRow>> {
+  const { rows } = await querySiteAnalytics(access, {
+    startDate,
+    endDate,
+    dimensions: ['query'],
+    dimensionFilterGroups: [{ filters: [{ dimension: 'page', operator: 'equals', expression: url }] }],
+    rowLimit: 1000,
+  });
+  return new Map(rows.map(row => [row.keys[0], row]));
+}
+
+/**
+ * Queries the page lost the most clicks on, baseline scaled to one window
+ */
+function compareQueries(
+  baseline: Map<string, SearchAnalyticsRow>,
+  current: Map<string, SearchAnalyticsRow>,
+  covered: Set<string>
+): QueryChange[] {
+  const round = (value: number) => Math.round(value * 10) / 10;
+
+  return Array.from(baseline.entries())
+    .map(([query, before]): QueryChange => {
+      const after = current.get(query);
+      return {
+        query,
+        clicks: { baseline: round(before.clicks / BASELINE_WINDOWS), current: after?.clicks || 0 },
+        impressions: { baseline: round(before.impressions / BASELINE_WINDOWS), current: after?.impressions || 0 },
+        position: { baseline: round(before.position), current: after ? round(after.position) : null },
+        covered: lemmaTokens(query).every(lemma => covered.has(lemma)),
+      };
+    })
+    .filter(change => change.clicks.current < change.clicks.baseline)
+    .sort((a, b) => (b.clicks.baseline - b.clicks.current) - (a.clicks.baseline - a.clicks.current))
+    .slice(0, MAX_LOST_QUERIES);
+}
+
+/**
+ * What to change on the page, from why its traffic fell
+ */
+function refreshSuggestions(
+  title: string,
+  decay: DecayingPage | null,
+  lostQueries: QueryChange[],
+  windowDays: number
+): string[] {
+  const suggestions: string[] = [];
+  const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+  if (decay?.cause === 'ranking') {
+    const query = lostQueries[0]?.query;
+    suggestions.push(
+      `Average position fell from ${decay.position.baseline} to ${decay.position.current}` +
+      (query ? `: compare the page with the results now ranking above it for "${query}"` : '')
+    );
+  } else if (decay?.cause === 'visibility') {
+    suggestions.push(
+      `Impressions fell ${percent(-decay.impressions.change)} while the average position held: the page shows for fewer searches, so check the queries below and whether interest in the topic has dropped`
+    );
+  } else if (decay?.cause === 'ctr') {
+    suggestions.push(
+      `Rankings held but click-through fell from ${percent(decay.ctr.baseline)} to ${percent(decay.ctr.current)}: rewrite the title and meta description`
+    );
+  }
+
+  if (decay?.recentlyUpdated) {
+    suggestions.push(`The page changed in the last ${windowDays} days, so part of the decline may be the update settling; check again in a few weeks`);
+  } else if (decay?.daysSinceUpdate && decay.daysSinceUpdate > STALE_DAYS) {
+    suggestions.push(`Last updated ${Math.floor(decay.daysSinceUpdate / 30)} months ago: bring facts, figures and examples up to date`);
+  }
+
+  const year = new Date().getUTCFullYear();
+  const titleYear = title.match(/\b(20\d{2})\b/);
+  if (titleYear && Number(titleYear[1]) < year) {
+    suggestions.push(`The title mentions ${titleYear[1]}; change it to ${year} once the content is current`);
+  }
+
+  lostQueries
+    .filter(query => !query.covered)
+    .slice(0, 3)
+    .forEach(query => {
+      const lost = Math.round(query.clicks.baseline - query.clicks.current);
+      suggestions.push(`Cover "${query.query}" in a heading or section; it lost ${lost} clicks in the last ${windowDays} days`);
+    });
+
+  return suggestions;
+}
+
+/**
+ * Build a refresh brief for one of the user's pages and open a refresh task
+ * for it. Asking again while the task is open updates its brief.
+ * @throws ApiError (400) when Search Console is not connected or has expired
+ */
+export async function createRefreshBrief(
+  userId: string,
+  url: string,
+  options: { windowDays?: number } = {}
+): Promise<ContentTask> {
+  const access = await loadSearchConsoleAccess(userId, PURPOSE);
+  const homepage = candidateProperties(access.websiteUrl)[0];
+  if (new URL(pageKey(url, homepage)).host !== new URL(homepage).host) {
+    throw Errors.validation('The page is not on your website');
+  }
+
+  const windows = decayWindows(daysAgo(DATA_DELAY_DAYS), options.windowDays ?? DEFAULT_WINDOW_DAYS);
+  const [{ series }, baselineQueries, currentQueries, inventory] = await Promise.all([
+    loadSeries(access, windows, url),
+    loadQueries(access, url, windows.baselineStart, windows.baselineEnd),
+    loadQueries(access, url, windows.currentStart, windows.currentEnd),
+    loadInventory(userId, homepage),
+  ]);
+
+  const known = inventory.get(pageKey(url, homepage));
+  const title = known?.content?.title ? cleanTitle(known.content.title) : pageLabel({ url, title: '' });
+  const headings = Array.isArray(known?.content?.headings) ? known.content.headings.map(String) : [];
+  const page: PageSeries = series.get(url) || { url, days: [] };
+  // Alone, the page's trend would pass for the site's; count all lost clicks as recoverable
+  const [decay = null] = detectDecay(
+    [{ ...page, title, lastModified: known?.lastmod || null }],
+    windows,
+    { minClicks: 0, siteTrend: 1 }
+  ).pages;
+
+  const covered = new Set(lemmaTokens([title, ...headings].join(' ')));
+  const lostQueries = compareQueries(baselineQueries, currentQueries, covered);
+  const topQuery = Array.from(baselineQueries.values()).sort((a, b) => b.clicks - a.clicks)[0];
+
+  const brief: RefreshBrief = {
+    url,
+    title,
+    keyword: topQuery?.keys[0] || null,
+    windows,
+    decay,
+    lostQueries,
+    headings,
+    lastModified: known?.lastmod?.toISOString() || null,
+    suggestions: refreshSuggestions(title, decay, lostQueries, windows.windowDays),
+  };
+
+  return saveContentTask(userId, {
+    type: 'refresh',
+    url,
+    title: `Refresh "${title}"`,
+    keyword: brief.keyword,
+    brief,
+  });
+}
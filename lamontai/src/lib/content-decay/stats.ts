@@ -0,0 +1,114 @@
+/**
+ * Small statistics helpers for comparing daily Search Console series
+ */
+
+export interface TestResult {
+  // Welch's t statistic; negative when the second sample is lower
+  t: number;
+  df: number;
+  // One-sided p-value that the second sample's mean is lower than the first's
+  pValue: number;
+}
+
+export const mean = (values: number[]) =>
+  values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Sample variance (n - 1 denominator)
+ */
+export function variance(values: number[]): number {
+  if (values.length < 2) return 0;
+  const average = mean(values);
+  return values.reduce((sum, value) => sum + (value - average) ** 2, 0) / (values.length - 1);
+}
+
+// Lanczos approximation of ln Γ(x)
+function logGamma(x: number): number {
+  const coefficients = [
+    76.18009172947146, -86.50532032941678, 24.01409824083091,
+    -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5,
+  ];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let series = 1.000000000190015;
+  for (const coefficient of coefficients) {
+    series += coefficient / ++y;
+  }
+  return -tmp + Math.log((2.5066282746310007 * series) / x);
+}
+
+// Continued fraction for the incomplete beta function (modified Lentz)
+function betaContinuedFraction(a: number, b: number, x: number): number {
+  const tiny = 1e-30;
+  let c = 1;
+  let d = 1 - ((a + b) * x) / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+
+  for (let m = 1; m <= 200; m++) {
+    const m2 = 2 * m;
+    let aa = (m * (b - m) * x) / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+
+    aa = (-(a + m) * (a + b + m) * x) / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < 3e-10) break;
+  }
+  return h;
+}
+
+/**
+ * Regularized incomplete beta function I_x(a, b)
+ */
+export function incompleteBeta(x: number, a: number, b: number): number {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? (front * betaContinuedFraction(a, b, x)) / a
+    : 1 - (front * betaContinuedFraction(b, a, 1 - x)) / b;
+}
+
+/**
+ * Cumulative distribution of Student's t with df degrees of freedom
+ */
+export function studentTCdf(t: number, df: number): number {
+  const tail = 0.5 * incompleteBeta(df / (df + t * t), df / 2, 0.5);
+  return t > 0 ? 1 - tail : tail;
+}
+
+/**
+ * Welch's t-test of whether `current` has a lower mean than `baseline`.
+ * Daily clicks are noisy counts, so the test does not assume equal variances.
+ */
+export function welchTest(baseline: number[], current: number[]): TestResult {
+  const difference = mean(current) - mean(baseline);
+  if (baseline.length < 2 || current.length < 2) {
+    return { t: 0, df: 0, pValue: 1 };
+  }
+
+  const baselineTerm = variance(baseline) / baseline.length;
+  const currentTerm = variance(current) / current.length;
+  const standardError = Math.sqrt(baselineTerm + currentTerm);
+  if (standardError === 0) {
+    // Constant series: the difference is certain either way
+    return { t: difference === 0 ? 0 : Math.sign(difference) * Infinity, df: baseline.length + current.length - 2, pValue: difference < 0 ? 0 : 1 };
+  }
+
+  const t = difference / standardError;
+  const df = (baselineTerm + currentTerm) ** 2 /
+    (baselineTerm ** 2 / (baseline.length - 1) + currentTerm ** 2 / (current.length - 1));
+  return { t, df, pValue: studentTCdf(t, df) };
+}
@@ -0,0 +1,241 @@
+/**
+ * Generate a month-long content plan from the onboarding settings
+ * (business description, audiences, languages, competitors and sitemap)
+ */
+
+import { db } from './db';
+import { Errors } from './error-handler';
+import { getLLMProvider } from './llm';
+import { getCachedSitemapData } from './sitemap-utils';
+import { getContentPlan } from './content-plans';
+import { guessIntent } from './keywords/normalize';
+
+export type SearchIntent = 'informational' | 'commercial' | 'transactional' | 'navigational';
+
+export interface GeneratePlanOptions {
+  // First publishing day of the plan; defaults to tomorrow
+  startDate?: Date;
+  articleCount?: number;
+  title?: string;
+}
+
+const PLAN_DAYS = 30;
+const DEFAULT_ARTICLE_COUNT = 12;
+const INTENTS: SearchIntent[] = ['informational', 'commercial', 'transactional', 'navigational'];
+
+// Cap on existing topics listed in the prompt
+const MAX_EXISTING_TOPICS = 150;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'your', 'you', 'how', 'what', 'why', 'are', 'from', 'into', 'this', 'that',
+  'best', 'guide', 'tips', 'www', 'html', 'php', 'blog', 'page',
+]);
+
+/**
+ * Read a list stored in a Json settings column. Onboarding stores some of
+ * these as JSON-encoded strings rather than arrays.
+ */
+export function parseJsonList(value: unknown): unknown[] {
+  if (typeof value === 'string') {
+    try {
+      return parseJsonList(JSON.parse(value));
+    } catch {
+      return value.trim() ? [value] : [];
+    }
+  }
+  return Array.isArray(value) ? value : [];
+}
+
+const tokenize = (text: string): Set<string> =>
+  new Set(
+    text
+      .toLowerCase()
+      .split(/[^a-z0-9À-ɏ]+/)
+      .filter(token => token.length > 2 && !STOPWORDS.has(token))
+  );
+
+/**
+ * Turn a page URL into the topic its slug describes
+ */
+export function topicFromUrl(loc: string): string {
+  try {
+    const segments = new URL(loc).pathname.split('/').filter(Boolean);
+    const slug = segments[segments.length - 1] || '';
+    return decodeURIComponent(slug).replace(/\.[a-z]+$/i, '').replace(/[-_]+/g, ' ').trim();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * Whether a proposed keyword is already covered by an existing topic
+ */
+export function isCoveredTopic(keyword: string, existingTopics: Array<Set<string>>): boolean {
+  const tokens = tokenize(keyword);
+  if (tokens.size === 0) {
+    return false;
+  }
+
+  return existingTopics.some(existing => {
+    const shared = Array.from(tokens).filter(token => existing.has(token)).length;
+    // Every term of a multi-word keyword appears in the existing page, or the two mostly overlap
+    return (shared === tokens.size && tokens.size > 1) || shared / (tokens.size + existing.size - shared) >= 0.6;
+  });
+}
+
+/**
+ * Spread articles evenly across the plan window
+ */
+export function scheduleDates(count: number, startDate: Date): Date[] {
+  const step = count > 1 ? (PLAN_DAYS - 1) / (count - 1) : 0;
+  return Array.from({ length: count }, (_, index) => {
+    const date = new Date(startDate);
+    date.setDate(date.getDate() + Math.round(index * step));
+    return date;
+  });
+}
+
+/**
+ * Topics the user's site already covers: sitemap slugs plus existing article titles
+ */
+async function loadExistingTopics(userId: string, sitemapUrl?: string | null): Promise<string[]> {
+  const articles = await db.article.findMany({
+    where: { userId },
+    select: { title: true, targetKeyword: true },
+  });
+  const topics = articles.flatMap(article => [article.title, article.targetKeyword || '']);
+
+  if (sitemapUrl) {
+    try {
+      const sitemap = await getCachedSitemapData(sitemapUrl);
+      topics.push(...sitemap.urls.map(url => topicFromUrl(url.loc)));
+    } catch (error) {
+      // A broken sitemap should not block planning
+      console.error('Error loading sitemap for content plan generation:', error);
+    }
+  }
+
+  return Array.from(new Set(topics.map(topic => topic.trim()).filter(Boolean)));
+}
+
+/**
+ * Ask the model for article proposals
+ */
+async function proposeArticles(context: {
+  businessDescription: string;
+  audiences: string[];
+  languages: string[];
+  competitors: string[];
+  existingTopics: string[];
+  count: number;
+}): Promise<Array<{ title: string; keyword: string; intent: SearchIntent }>> {
+  const response = await getLLMProvider().completeJson<{ articles?: unknown }>(
+    [
+      {
+        role: 'system',
+        content: 'You are an expert SEO content strategist. Your responses are always in valid JSON format.',
+      },
+      {
+        role: 'user',
+        content: `Create a one-month content plan of ${context.count} articles for this business: "${context.businessDescription}".
+    Target audiences: ${context.audiences.join(', ') || 'general'}.
+    Target languages: ${context.languages.join(', ') || 'English'}. Write titles in the first language.
+    Competitors: ${context.competitors.join(', ') || 'none listed'}.
+    Do not propose topics the site already covers: ${context.existingTopics.slice(0, MAX_EXISTING_TOPICS).join('; ') || 'none'}.
+    Mix search intents (informational, commercial, transactional, navigational) and give each article a distinct target keyword.
+    Respond with JSON of the form {"articles": [{"title": "...", "keyword": "...", "intent": "informational"}]}.`,
+      },
+    ],
+    { task: 'content-plan', temperature: 0.7, maxTokens: 2000 }
+  );
+
+  if (!Array.isArray(response.articles)) {
+    return [];
+  }
+
+  return response.articles
+    .map(entry => {
+      const keyword = typeof entry?.keyword === 'string' ? entry.keyword.trim().toLowerCase() : '';
+      return {
+        title: typeof entry?.title === 'string' ? entry.title.trim() : '',
+        keyword,
+        intent: INTENTS.includes(entry?.intent) ? (entry.intent as SearchIntent) : guessIntent(keyword),
+      };
+    })
+    .filter(entry => entry.title && entry.keyword);
+}
+
+/**
+ * Generate and save a month-long content plan of proposed articles
+ * @throws ApiError (400) when onboarding has not collected a business description
+ */
+export async function generateContentPlan(userId: string, options: GeneratePlanOptions = {}) {
+  const settings = await db.settings.findUnique({ where: { userId } });
+  if (!settings?.businessDescription) {
+    throw Errors.validation('Add a business description before generating a content plan');
+  }
+
+  const count = options.articleCount || DEFAULT_ARTICLE_COUNT;
+  const startDate = new Date(options.startDate || Date.now() + 24 * 60 * 60 * 1000);
+  startDate.setHours(9, 0, 0, 0);
+
+  const existingTopics = await loadExistingTopics(userId, settings.sitemapUrl);
+  const existingTokens = existingTopics.map(tokenize);
+
+  const competitors = parseJsonList(settings.competitors)
+    .map(competitor => {
+      if (typeof competitor === 'string') {
+        return competitor;
+      }
+      const { name, domain } = (competitor || {}) as { name?: string; domain?: string };
+      return name || domain || '';
+    })
+    .filter(Boolean);
+
+  const proposals = await proposeArticles({
+    businessDescription: settings.businessDescription,
+    audiences: parseJsonList(settings.targetAudiences).map(String),
+    languages: parseJsonList(settings.targetLanguages).map(String),
+    competitors,
+    existingTopics,
+    count,
+  });
+
+  // Drop proposals the site already covers and duplicate keywords
+  const seen = new Set<string>();
+  const accepted = proposals.filter(proposal => {
+    if (seen.has(proposal.keyword) || isCoveredTopic(proposal.keyword, existingTokens)) {
+      return false;
+    }
+    seen.add(proposal.keyword);
+    return true;
+  }).slice(0, count);
+
+  if (accepted.length < proposals.length) {
+    console.log(`Dropped ${proposals.length - accepted.length} proposed articles already covered by the site`);
+  }
+
+  const dates = scheduleDates(accepted.length, startDate);
+  const monthName = startDate.toLocaleString('en-US', { month: 'long', year: 'numeric' });
+
+  const plan = await db.contentPlan.create({
+    data: {
+      userId,
+      title: options.title || `${monthName} content plan`,
+      description: `${accepted.length} articles proposed from your business description, audiences and competitors`,
+      articles: {
+        create: accepted.map((proposal, index) => ({
+          userId,
+          title: proposal.title,
+          status: 'planned',
+          keywords: proposal.keyword,
+          targetKeyword: proposal.keyword,
+          intent: proposal.intent,
+          scheduledFor: dates[index],
+        })),
+      },
+    },
+  });
+
+  return getContentPlan(userId, plan.id);
+}
@@ -0,0 +1,262 @@
+/**
+ * Content plan persistence, status transitions and article linking
+ */
+
+import { ContentPlan, Prisma } from '@prisma/client';
+import { db } from './db';
+import { ApiError, Errors } from './error-handler';
+
+export type ContentPlanStatus = 'draft' | 'in-progress' | 'completed';
+
+// Statuses a plan may move to from each status. Plans move forward one
+// step at a time and can be reopened one step back.
+const STATUS_TRANSITIONS: Record<ContentPlanStatus, ContentPlanStatus[]> = {
+  'draft': ['in-progress'],
+  'in-progress': ['draft', 'completed'],
+  'completed': ['in-progress'],
+};
+
+export interface ContentPlanProgress {
+  total: number;
+  // Proposed articles that have not been written yet
+  planned: number;
+  draft: number;
+  published: number;
+  archived: number;
+  // Share of linked articles that are published, 0-100
+  percentComplete: number;
+}
+
+export type ContentPlanWithProgress = ContentPlan & { progress: ContentPlanProgress };
+
+export interface ContentPlanPage {
+  plans: ContentPlanWithProgress[];
+  count: number;
+  pagination: {
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
+
+// Only article statuses are needed to compute progress
+const withArticleStatuses = {
+  articles: { select: { status: true } },
+} satisfies Prisma.ContentPlanInclude;
+
+type ContentPlanWithStatuses = Prisma.ContentPlanGetPayload<{ include: typeof withArticleStatuses }>;
+
+/**
+ * Count linked articles by status
+ */
+export function computeProgress(articles: Array<{ status: string }>): ContentPlanProgress {
+  const count = (status: string) => articles.filter(article => article.status === status).length;
+  const published = count('published');
+
+  return {
+    total: articles.length,
+    planned: count('planned'),
+    draft: count('draft'),
+    published,
+    archived: count('archived'),
+    percentComplete: articles.length > 0 ? Math.round((published / articles.length) * 100) : 0,
+  };
+}
+
+const toPlanWithProgress = ({ articles, ...plan }: ContentPlanWithStatuses): ContentPlanWithProgress => ({
+  ...plan,
+  progress: computeProgress(articles),
+});
+
+/**
+ * Check that a plan may move between two statuses
+ * @throws ApiError (409) for transitions that skip or reverse more than one step
+ */
+export function assertStatusTransition(from: string, to: ContentPlanStatus): void {
+  if (from === to) {
+    return;
+  }
+
+  const allowed = STATUS_TRANSITIONS[from as ContentPlanStatus] || [];
+  if (!allowed.includes(to)) {
+    throw new ApiError(`Cannot change content plan status from ${from} to ${to}`, 409, {
+      allowed,
+    });
+  }
+}
+
+/**
+ * List a user's content plans, newest first
+ */
+export async function listContentPlans(
+  userId: string,
+  params: { page?: number; limit?: number; status?: ContentPlanStatus } = {}
+): Promise<ContentPlanPage> {
+  const page = Math.max(1, params.page || 1);
+  const limit = Math.min(100, Math.max(1, params.limit || 10));
+  const where: Prisma.ContentPlanWhereInput = { userId };
+  if (params.status) where.status = params.status;
+
+  const [count, plans] = await Promise.all([
+    db.contentPlan.count({ where }),
+    db.contentPlan.findMany({
+      where,
+      include: withArticleStatuses,
+      orderBy: { createdAt: 'desc' },
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+  ]);
+
+  const totalPages = Math.ceil(count / limit);
+
+  return {
+    plans: plans.map(toPlanWithProgress),
+    count,
+    pagination: { page, limit, totalPages, hasMore: page < totalPages },
+  };
+}
+
+/**
+ * Fetch a content plan owned by the user, with its articles
+ */
+export async function getContentPlan(userId: string, id: string) {
+  const plan = await db.contentPlan.findFirst({
+    where: { id, userId },
+    include: {
+      articles: {
+        select: {
+          id: true,
+          title: true,
+          status: true,
+          keywords: true,
+          targetKeyword: true,
+          intent: true,
+          scheduledFor: true,
+          publishedAt: true,
+          updatedAt: true,
+        },
+        orderBy: [{ scheduledFor: 'asc' }, { createdAt: 'asc' }],
+      },
+    },
+  });
+
+  return plan ? { ...plan, progress: computeProgress(plan.articles) } : null;
+}
+
+/**
+ * Create a content plan. New plans always start as drafts.
+ */
+export async function createContentPlan(
+  userId: string,
+  data: { title: string; description?: string }
+): Promise<ContentPlanWithProgress> {
+  const plan = await db.contentPlan.create({
+    data: { userId, title: data.title, description: data.description },
+    include: withArticleStatuses,
+  });
+
+  return toPlanWithProgress(plan);
+}
+
+/**
+ * Update a content plan's details and/or status
+ * @throws ApiError (404) when the plan is missing, (409) for invalid status transitions
+ */
+export async function updateContentPlan(
+  userId: string,
+  id: string,
+  data: { title?: string; description?: string | null; status?: ContentPlanStatus }
+): Promise<ContentPlanWithProgress> {
+  const existing = await db.contentPlan.findFirst({ where: { id, userId } });
+  if (!existing) {
+    throw Errors.notFound('Content plan');
+  }
+
+  if (data.status) {
+    assertStatusTransition(existing.status, data.status);
+  }
+
+  const plan = await db.contentPlan.update({
+    where: { id },
+    data,
+    include: withArticleStatuses,
+  });
+
+  return toPlanWithProgress(plan);
+}
+
+/**
+ * Delete a content plan. Linked articles are kept and become unassigned.
+ * @returns Whether a plan was deleted
+ */
+export async function deleteContentPlan(userId: string, id: string): Promise<boolean> {
+  const plan = await db.contentPlan.findFirst({ where: { id, userId } });
+  if (!plan) {
+    return false;
+  }
+
+  await db.$transaction([
+    db.article.updateMany({ where: { contentPlanId: id }, data: { contentPlanId: null } }),
+    db.contentPlan.delete({ where: { id } }),
+  ]);
+
+  return true;
+}
+
+/**
+ * Link articles to a plan. Articles already in another plan are moved.
+ * @throws ApiError (404) when the plan or any article is not owned by the user
+ */
+export async function attachArticles(
+  userId: string,
+  id: string,
+  articleIds: string[]
+): Promise<ContentPlanWithProgress> {
+  const plan = await db.contentPlan.findFirst({ where: { id, userId } });
+  if (!plan) {
+    throw Errors.notFound('Content plan');
+  }
+
+  const owned = await db.article.count({ where: { id: { in: articleIds }, userId } });
+  if (owned !== new Set(articleIds).size) {
+    throw Errors.notFound('Article');
+  }
+
+  await db.article.updateMany({
+    where: { id: { in: articleIds }, userId },
+    data: { contentPlanId: id },
+  });
+
+  return toPlanWithProgress(
+    await db.contentPlan.findUniqueOrThrow({ where: { id }, include: withArticleStatuses })
+  );
+}
+
+/**
+ * Unlink an article from a plan
+ * @throws ApiError (404) when the plan is missing or the article is not in it
+ */
+export async function detachArticle(
+  userId: string,
+  id: string,
+  articleId: string
+): Promise<ContentPlanWithProgress> {
+  const plan = await db.contentPlan.findFirst({ where: { id, userId } });
+  if (!plan) {
+    throw Errors.notFound('Content plan');
+  }
+
+  const { count } = await db.article.updateMany({
+    where: { id: articleId, userId, contentPlanId: id },
+    data: { contentPlanId: null },
+  });
+  if (count === 0) {
+    throw Errors.notFound('Article');
+  }
+
+  return toPlanWithProgress(
+    await db.contentPlan.findUniqueOrThrow({ where: { id }, include: withArticleStatuses })
+  );
+}
@@ -0,0 +1,66 @@
+/**
+ * Tasks to improve pages the user has already published, raised from their
+ * Search Console data
+ */
+
+import { ContentTask, Prisma } from '@prisma/client';
+import { db } from '../db';
+import { ContentTaskStatus, ContentTaskType } from './types';
+
+export * from './types';
+
+export interface ContentTaskInput {
+  type: ContentTaskType;
+  url: string;
+  title: string;
+  keyword?: string | null;
+  brief: object;
+}
+
+/**
+ * Open a task for a page. Raising the same type of task again for a page
+ * with an open one updates its brief instead of adding a duplicate.
+ */
+export async function saveContentTask(userId: string, input: ContentTaskInput): Promise<ContentTask> {
+  const data = {
+    title: input.title,
+    keyword: input.keyword ?? null,
+    brief: input.brief as Prisma.InputJsonValue,
+  };
+
+  const existing = await db.contentTask.findFirst({
+    where: { userId, type: input.type, url: input.url, status: 'open' },
+    select: { id: true },
+  });
+  if (existing) {
+    return db.contentTask.update({ where: { id: existing.id }, data });
+  }
+
+  return db.contentTask.create({ data: { userId, type: input.type, url: input.url, ...data } });
+}
+
+/**
+ * List a user's tasks, newest first
+ */
+export async function listContentTasks(
+  userId: string,
+  filters: { type?: ContentTaskType; status?: ContentTaskStatus } = {}
+): Promise<ContentTask[]> {
+  return db.contentTask.findMany({
+    where: { userId, ...filters },
+    orderBy: { updatedAt: 'desc' },
+  });
+}
+
+/**
+ * Mark a task owned by the user as done, dismissed or open again
+ * @returns The updated task, or null when it does not exist
+ */
+export async function updateContentTaskStatus(
+  userId: string,
+  id: string,
+  status: ContentTaskStatus
+): Promise<ContentTask | null> {
+  const { count } = await db.contentTask.updateMany({ where: { id, userId }, data: { status } });
+  return count > 0 ? db.contentTask.findUnique({ where: { id } }) : null;
+}
@@ -0,0 +1,5 @@
+export const CONTENT_TASK_TYPES = ['refresh', 'optimize'] as const;
+export type ContentTaskType = typeof CONTENT_TASK_TYPES[number];
+
+export const CONTENT_TASK_STATUSES = ['open', 'done', 'dismissed'] as const;
+export type ContentTaskStatus = typeof CONTENT_TASK_STATUSES[number];
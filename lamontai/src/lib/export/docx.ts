@@ -0,0 +1,359 @@
+/**
+ * Render article HTML as a DOCX (Office Open XML) document using Word's
+ * built-in Title, Heading, List and Quote styles
+ */
+
+import { HtmlElement, HtmlNode, escapeXml, parseHtml, rawText } from '../html-tree';
+import { createZip } from './zip';
+
+export interface DocxDocument {
+  title: string;
+  content: string;
+  description?: string | null;
+  keywords?: string | null;
+}
+
+interface Run {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  code?: boolean;
+  href?: string;
+  lineBreak?: boolean;
+}
+
+interface RenderState {
+  paragraphs: string[];
+  relationships: string[];
+  // Numbering instances; each ordered list restarts at its own number
+  numbering: Array<{ abstractId: number; start: number }>;
+}
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+const BULLET_NUM_ID = 1;
+
+const xmlText = (text: string) => `<w:t xml:space="preserve">${escapeXml(text)}</w:t>`;
+
+/**
+ * Flatten inline HTML into formatted runs
+ */
+function collectRuns(nodes: HtmlNode[], format: Omit<Run, 'text'> = {}, runs: Run[] = []): Run[] {
+  nodes.forEach(node => {
+    if (node.type === 'text') {
+      const text = node.text.replace(/\s+/g, ' ');
+      if (text) runs.push({ ...format, text });
+      return;
+    }
+
+    switch (node.tag) {
+      case 'strong':
+      case 'b':
+        collectRuns(node.children, { ...format, bold: true }, runs);
+        break;
+      case 'em':
+      case 'i':
+        collectRuns(node.children, { ...format, italic: true }, runs);
+        break;
+      case 'code':
+        collectRuns(node.children, { ...format, code: true }, runs);
+        break;
+      case 'a':
+        collectRuns(node.children, { ...format, href: node.attrs.href || format.href }, runs);
+        break;
+      case 'br':
+        runs.push({ ...format, text: '', lineBreak: true });
+        break;
+      case 'img':
+        if (node.attrs.alt) runs.push({ ...format, italic: true, text: `[${node.attrs.alt}]` });
+        break;
+      default:
+        collectRuns(node.children, format, runs);
+    }
+  });
+
+  return runs;
+}
+
+function renderRun(run: Run): string {
+  const props = [
+    run.href ? '<w:rStyle w:val="Hyperlink"/>' : '',
+    run.code ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/>' : '',
+    run.bold ? '<w:b/>' : '',
+    run.italic ? '<w:i/>' : '',
+  ].join('');
+  const body = run.lineBreak ? '<w:br/>' : xmlText(run.text);
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}${body}</w:r>`;
+}
+
+function renderRuns(runs: Run[], state: RenderState): string {
+  // Trim the whitespace HTML leaves at block edges
+  const trimmed = runs.map(run => ({ ...run }));
+  if (trimmed.length) {
+    trimmed[0].text = trimmed[0].text.trimStart();
+    trimmed[trimmed.length - 1].text = trimmed[trimmed.length - 1].text.trimEnd();
+  }
+
+  let output = '';
+  for (let i = 0; i < trimmed.length; i++) {
+    const href = trimmed[i].href;
+    if (!href) {
+      output += renderRun(trimmed[i]);
+      continue;
+    }
+
+    // Group consecutive runs of the same link into one hyperlink
+    let linked = '';
+    while (i < trimmed.length && trimmed[i].href === href) {
+      linked += renderRun(trimmed[i++]);
+    }
+    i--;
+    state.relationships.push(href);
+    const relId = `rIdLink${state.relationships.length}`;
+    output += `<w:hyperlink r:id="${relId}">${linked}</w:hyperlink>`;
+  }
+
+  return output;
+}
+
+function paragraph(body: string, props: string[] = []): string {
+  const pPr = props.filter(Boolean).join('');
+  return `<w:p>${pPr ? `<w:pPr>${pPr}</w:pPr>` : ''}${body}</w:p>`;
+}
+
+function renderList(list: HtmlElement, level: number, state: RenderState, numId?: number): void {
+  let id = numId;
+  if (id === undefined) {
+    if (list.tag === 'ol') {
+      state.numbering.push({ abstractId: 1, start: Number(list.attrs.start) || 1 });
+      id = BULLET_NUM_ID + state.numbering.length;
+    } else {
+      id = BULLET_NUM_ID;
+    }
+  }
+
+  list.children.forEach(item => {
+    if (item.type !== 'element' || item.tag !== 'li') return;
+
+    const nested = item.children.filter(
+      (child): child is HtmlElement => child.type === 'element' && (child.tag === 'ul' || child.tag === 'ol')
+    );
+    const runs = collectRuns(item.children.filter(child => !nested.includes(child as HtmlElement)));
+    state.paragraphs.push(paragraph(renderRuns(runs, state), [
+      '<w:pStyle w:val="ListParagraph"/>',
+      `<w:numPr><w:ilvl w:val="${Math.min(level, 2)}"/><w:numId w:val="${id}"/></w:numPr>`,
+    ]));
+    nested.forEach(sublist => renderList(sublist, level + 1, state, sublist.tag === list.tag ? id : undefined));
+  });
+}
+
+function renderTable(table: HtmlElement, state: RenderState): void {
+  const rows: HtmlElement[] = [];
+  const collect = (nodes: HtmlNode[]) => nodes.forEach(node => {
+    if (node.type !== 'element') return;
+    if (node.tag === 'tr') rows.push(node);
+    else collect(node.children);
+  });
+  collect(table.children);
+
+  const body = rows.map(row => {
+    const cells = row.children
+      .filter((cell): cell is HtmlElement => cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th'))
+      .map(cell => {
+        const runs = collectRuns(cell.children, cell.tag === 'th' ? { bold: true } : {});
+        return `<w:tc><w:tcPr><w:tcW w:w="0" w:type="auto"/></w:tcPr>${paragraph(renderRuns(runs, state))}</w:tc>`;
+      });
+    return `<w:tr>${cells.join('')}</w:tr>`;
+  });
+
+  if (body.length) {
+    state.paragraphs.push(
+      `<w:tbl><w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="5000" w:type="pct"/></w:tblPr>${body.join('')}</w:tbl>`
+    );
+  }
+}
+
+const BLOCK_TAGS = new Set(['p', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'blockquote', 'pre', 'table', 'hr', 'div', 'section', 'article', 'figure', 'figcaption']);
+
+function renderBlocks(nodes: HtmlNode[], state: RenderState, style?: string): void {
+  let inline: HtmlNode[] = [];
+
+  const flushInline = () => {
+    const runs = collectRuns(inline);
+    if (runs.some(run => run.text.trim() || run.lineBreak)) {
+      state.paragraphs.push(paragraph(renderRuns(runs, state), [style ? `<w:pStyle w:val="${style}"/>` : '']));
+    }
+    inline = [];
+  };
+
+  nodes.forEach(node => {
+    if (node.type === 'text' || !BLOCK_TAGS.has(node.tag)) {
+      inline.push(node);
+      return;
+    }
+
+    flushInline();
+    const heading = /^h([1-6])$/.exec(node.tag);
+    if (heading) {
+      state.paragraphs.push(paragraph(renderRuns(collectRuns(node.children), state), [`<w:pStyle w:val="Heading${heading[1]}"/>`]));
+    } else if (node.tag === 'p' || node.tag === 'figcaption') {
+      inline = node.children;
+      flushInline();
+    } else if (node.tag === 'ul' || node.tag === 'ol') {
+      renderList(node, 0, state);
+    } else if (node.tag === 'blockquote') {
+      renderBlocks(node.children, state, 'Quote');
+    } else if (node.tag === 'pre') {
+      rawText(node.children).replace(/\s+$/, '').split('\n').forEach(line => {
+        state.paragraphs.push(paragraph(renderRun({ text: line, code: true }), ['<w:pStyle w:val="Code"/>']));
+      });
+    } else if (node.tag === 'table') {
+      renderTable(node, state);
+    } else if (node.tag === 'hr') {
+      state.paragraphs.push(paragraph('', ['<w:pBdr><w:bottom w:val="single" w:sz="6" w:space="1" w:color="auto"/></w:pBdr>']));
+    } else {
+      renderBlocks(node.children, state, style);
+    }
+  });
+  flushInline();
+}
+
+function headingStyle(level: number): string {
+  const sizes = [32, 26, 24, 22, 22, 22];
+  return `<w:style w:type="paragraph" w:styleId="Heading${level}">
+    <w:name w:val="heading ${level}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:uiPriority w:val="9"/><w:qFormat/>
+    <w:pPr><w:keepNext/><w:spacing w:before="${level === 1 ? 360 : 240}" w:after="120"/><w:outlineLvl w:val="${level - 1}"/></w:pPr>
+    <w:rPr><w:b/><w:sz w:val="${sizes[level - 1]}"/></w:rPr>
+  </w:style>`;
+}
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NS}">
+  <w:docDefaults>
+    <w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>
+    <w:pPrDefault><w:pPr><w:spacing w:after="160" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+  </w:docDefaults>
+  <w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+  <w:style w:type="paragraph" w:styleId="Title">
+    <w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>
+    <w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="48"/></w:rPr>
+  </w:style>
+  ${[1, 2, 3, 4, 5, 6].map(headingStyle).join('\n  ')}
+  <w:style w:type="paragraph" w:styleId="ListParagraph">
+    <w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:qFormat/>
+    <w:pPr><w:spacing w:after="60"/><w:ind w:left="720"/><w:contextualSpacing/></w:pPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Quote">
+    <w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>
+    <w:pPr><w:ind w:left="720" w:right="720"/></w:pPr><w:rPr><w:i/><w:color w:val="404040"/></w:rPr>
+  </w:style>
+  <w:style w:type="paragraph" w:styleId="Code">
+    <w:name w:val="Code"/><w:basedOn w:val="Normal"/>
+    <w:pPr><w:spacing w:after="0" w:line="240" w:lineRule="auto"/></w:pPr><w:rPr><w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/><w:sz w:val="20"/></w:rPr>
+  </w:style>
+  <w:style w:type="character" w:styleId="Hyperlink">
+    <w:name w:val="Hyperlink"/><w:rPr><w:color w:val="0563C1"/><w:u w:val="single"/></w:rPr>
+  </w:style>
+  <w:style w:type="table" w:styleId="TableGrid">
+    <w:name w:val="Table Grid"/>
+    <w:tblPr><w:tblBorders>
+      <w:top w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:left w:val="single" w:sz="4" w:space="0" w:color="auto"/>
+      <w:bottom w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:right w:val="single" w:sz="4" w:space="0" w:color="auto"/>
+      <w:insideH w:val="single" w:sz="4" w:space="0" w:color="auto"/><w:insideV w:val="single" w:sz="4" w:space="0" w:color="auto"/>
+    </w:tblBorders></w:tblPr>
+  </w:style>
+</w:styles>`;
+
+function abstractNumbering(id: number, format: 'bullet' | 'decimal'): string {
+  const bullets = ['•', '◦', '▪'];
+  const levels = [0, 1, 2].map(level => `<w:lvl w:ilvl="${level}">
+      <w:start w:val="1"/><w:numFmt w:val="${format}"/>
+      <w:lvlText w:val="${format === 'bullet' ? bullets[level] : `%${level + 1}.`}"/><w:lvlJc w:val="left"/>
+      <w:pPr><w:ind w:left="${720 * (level + 1)}" w:hanging="360"/></w:pPr>
+    </w:lvl>`);
+  return `<w:abstractNum w:abstractNumId="${id}">${levels.join('')}</w:abstractNum>`;
+}
+
+function numberingXml(state: RenderState): string {
+  const instances = state.numbering.map((instance, index) => `<w:num w:numId="${BULLET_NUM_ID + index + 1}">
+    <w:abstractNumId w:val="${instance.abstractId}"/>
+    <w:lvlOverride w:ilvl="0"><w:startOverride w:val="${instance.start}"/></w:lvlOverride>
+  </w:num>`);
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="${W_NS}">
+  ${abstractNumbering(0, 'bullet')}
+  ${abstractNumbering(1, 'decimal')}
+  <w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>
+  ${instances.join('\n  ')}
+</w:numbering>`;
+}
+
+/**
+ * Render an article as a DOCX file
+ */
+export function renderDocx(document: DocxDocument): Buffer {
+  const state: RenderState = { paragraphs: [], relationships: [], numbering: [] };
+  state.paragraphs.push(paragraph(renderRun({ text: document.title }), ['<w:pStyle w:val="Title"/>']));
+  renderBlocks(parseHtml(document.content), state);
+
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}">
+  <w:body>
+    ${state.paragraphs.join('\n    ')}
+    <w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr>
+  </w:body>
+</w:document>`;
+
+  const links = state.relationships.map((href, index) =>
+    `<Relationship Id="rIdLink${index + 1}" Type="${R_NS}/hyperlink" Target="${escapeXml(href)}" TargetMode="External"/>`
+  );
+
+  const now = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+  <Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+  <Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="${R_NS}/officeDocument" Target="word/document.xml"/>
+  <Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`,
+    },
+    {
+      name: 'docProps/core.xml',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+  <dc:title>${escapeXml(document.title)}</dc:title>
+  <dc:description>${escapeXml(document.description || '')}</dc:description>
+  <cp:keywords>${escapeXml(document.keywords || '')}</cp:keywords>
+  <dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>
+</cp:coreProperties>`,
+    },
+    { name: 'word/document.xml', data: documentXml },
+    { name: 'word/styles.xml', data: STYLES_XML },
+    { name: 'word/numbering.xml', data: numberingXml(state) },
+    {
+      name: 'word/_rels/document.xml.rels',
+      data: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rIdStyles" Type="${R_NS}/styles" Target="styles.xml"/>
+  <Relationship Id="rIdNumbering" Type="${R_NS}/numbering" Target="numbering.xml"/>
+  ${links.join('\n  ')}
+</Relationships>`,
+    },
+  ]);
+}
@@ -0,0 +1,108 @@
+/**
+ * Render an article as a standalone HTML page with SEO meta tags and
+ * schema.org Article JSON-LD
+ */
+
+import { escapeXml } from '../html-tree';
+
+export interface StandaloneArticle {
+  title: string;
+  content: string;
+  metaDescription?: string | null;
+  keywords?: string | null;
+  wordCount?: number;
+  publishedAt?: Date | null;
+  updatedAt?: Date;
+  authorName?: string | null;
+  // The site the article is published on, from Settings
+  websiteUrl?: string | null;
+}
+
+const PAGE_STYLES = `
+    body { font-family: Georgia, 'Times New Roman', serif; line-height: 1.7; color: #1f2937; max-width: 44rem; margin: 2.5rem auto; padding: 0 1.25rem; }
+    h1, h2, h3, h4 { font-family: -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; line-height: 1.3; color: #111827; }
+    h1 { font-size: 2.25rem; margin-bottom: 0.5rem; }
+    h2 { font-size: 1.6rem; margin-top: 2.25rem; }
+    h3 { font-size: 1.25rem; margin-top: 1.75rem; }
+    a { color: #c2410c; }
+    img { max-width: 100%; height: auto; }
+    blockquote { border-left: 4px solid #e5e7eb; margin-left: 0; padding-left: 1rem; color: #4b5563; }
+    pre { background: #f3f4f6; padding: 1rem; overflow-x: auto; }
+    table { border-collapse: collapse; width: 100%; }
+    th, td { border: 1px solid #d1d5db; padding: 0.5rem; text-align: left; }
+    .meta { color: #6b7280; font-size: 0.9rem; margin-bottom: 2rem; }
+    @media print { body { margin: 0 auto; } a { color: inherit; } }`;
+
+/**
+ * schema.org Article structured data for an article
+ */
+export function buildArticleJsonLd(article: StandaloneArticle): Record<string, unknown> {
+  const jsonLd: Record<string, unknown> = {
+    '@context': 'https://schema.org',
+    '@type': 'Article',
+    headline: article.title.slice(0, 110),
+  };
+
+  if (article.metaDescription) jsonLd.description = article.metaDescription;
+  if (article.keywords) jsonLd.keywords = article.keywords;
+  if (article.wordCount) jsonLd.wordCount = article.wordCount;
+  if (article.publishedAt) jsonLd.datePublished = article.publishedAt.toISOString();
+  if (article.updatedAt) jsonLd.dateModified = article.updatedAt.toISOString();
+  if (article.authorName) jsonLd.author = { '@type': 'Person', name: article.authorName };
+  if (article.websiteUrl) jsonLd.publisher = { '@type': 'Organization', url: article.websiteUrl };
+
+  return jsonLd;
+}
+
+/**
+ * Render a complete HTML document for an article
+ */
+export function renderStandaloneHtml(article: StandaloneArticle): string {
+  const title = escapeXml(article.title);
+  const description = escapeXml(article.metaDescription || '');
+  const date = article.publishedAt || article.updatedAt;
+
+  // Keep "</script>" in any field from closing the JSON-LD block early
+  const jsonLd = JSON.stringify(buildArticleJsonLd(article), null, 2).replace(/</g, '\\u003c');
+
+  const metaTags = [
+    description && `<meta name="description" content="${description}">`,
+    article.keywords && `<meta name="keywords" content="${escapeXml(article.keywords)}">`,
+    article.authorName && `<meta name="author" content="${escapeXml(article.authorName)}">`,
+    `<meta property="og:type" content="article">`,
+    `<meta property="og:title" content="${title}">`,
+    description && `<meta property="og:description" content="${description}">`,
+    article.publishedAt && `<meta property="article:published_time" content="${article.publishedAt.toISOString()}">`,
+    `<meta name="twitter:card" content="summary">`,
+    `<meta name="twitter:title" content="${title}">`,
+    description && `<meta name="twitter:description" content="${description}">`,
+  ].filter(Boolean);
+
+  const byline = [
+    article.authorName && `By ${escapeXml(article.authorName)}`,
+    date && date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }),
+  ].filter(Boolean).join(' · ');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <title>${title}</title>
+  ${metaTags.join('\n  ')}
+  <script type="application/ld+json">
+${jsonLd}
+  </script>
+  <style>${PAGE_STYLES}
+  </style>
+</head>
+<body>
+  <article>
+    <h1>${title}</h1>
+    ${byline ? `<p class="meta">${byline}</p>` : ''}
+    ${article.content.trim()}
+  </article>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,161 @@
+/**
+ * Article export: Markdown, standalone HTML, DOCX and PDF, one article at a
+ * time or a whole content plan as a ZIP
+ */
+
+import { Article } from '@prisma/client';
+import { db } from '../db';
+import { Errors } from '../error-handler';
+import { renderDocx } from './docx';
+import { renderStandaloneHtml, StandaloneArticle } from './html';
+import { htmlToMarkdown } from './markdown';
+import { renderPdf, renderPdfs } from './pdf';
+import { createZip } from './zip';
+
+export { htmlToMarkdown } from './markdown';
+export { renderStandaloneHtml, buildArticleJsonLd } from './html';
+export { renderDocx } from './docx';
+export { createZip } from './zip';
+
+export const EXPORT_FORMATS = ['markdown', 'html', 'docx', 'pdf'] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface ExportFile {
+  filename: string;
+  contentType: string;
+  body: Buffer;
+}
+
+const FORMAT_DETAILS: Record<ExportFormat, { extension: string; contentType: string }> = {
+  markdown: { extension: 'md', contentType: 'text/markdown; charset=utf-8' },
+  html: { extension: 'html', contentType: 'text/html; charset=utf-8' },
+  docx: { extension: 'docx', contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  pdf: { extension: 'pdf', contentType: 'application/pdf' },
+};
+
+type ExportContext = Pick<StandaloneArticle, 'authorName' | 'websiteUrl'>;
+
+/**
+ * A filesystem-safe file name for an article title
+ */
+export function slugify(title: string): string {
+  return title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 80) || 'article';
+}
+
+const yamlString = (value: string) => JSON.stringify(value);
+
+/**
+ * Markdown with YAML front matter carrying the title and meta fields
+ */
+function renderMarkdown(article: Article): string {
+  const frontMatter = [
+    `title: ${yamlString(article.title)}`,
+    article.metaDescription && `description: ${yamlString(article.metaDescription)}`,
+    article.keywords && `keywords: [${article.keywords.split(',').map(k => yamlString(k.trim())).filter(k => k !== '""').join(', ')}]`,
+    `date: ${(article.publishedAt || article.updatedAt).toISOString()}`,
+  ].filter(Boolean);
+
+  return `---\n${frontMatter.join('\n')}\n---\n\n${htmlToMarkdown(article.content || '')}`;
+}
+
+async function loadExportContext(userId: string): Promise<ExportContext> {
+  const [user, settings] = await Promise.all([
+    db.user.findUnique({ where: { id: userId }, select: { name: true } }),
+    db.settings.findUnique({ where: { userId }, select: { websiteUrl: true } }),
+  ]);
+  return { authorName: user?.name, websiteUrl: settings?.websiteUrl };
+}
+
+function toStandaloneHtml(article: Article, context: ExportContext): string {
+  return renderStandaloneHtml({
+    title: article.title,
+    content: article.content || '',
+    metaDescription: article.metaDescription,
+    keywords: article.keywords,
+    wordCount: article.wordCount,
+    publishedAt: article.publishedAt,
+    updatedAt: article.updatedAt,
+    ...context,
+  });
+}
+
+function renderDocument(article: Article, format: Exclude<ExportFormat, 'pdf'>, context: ExportContext): Buffer {
+  switch (format) {
+    case 'markdown':
+      return Buffer.from(renderMarkdown(article), 'utf8');
+    case 'html':
+      return Buffer.from(toStandaloneHtml(article, context), 'utf8');
+    case 'docx':
+      return renderDocx({
+        title: article.title,
+        content: article.content || '',
+        description: article.metaDescription,
+        keywords: article.keywords,
+      });
+  }
+}
+
+/**
+ * Export a single article
+ */
+export async function exportArticle(article: Article, format: ExportFormat): Promise<ExportFile> {
+  const context = await loadExportContext(article.userId);
+  const { extension, contentType } = FORMAT_DETAILS[format];
+
+  const body = format === 'pdf'
+    ? await renderPdf(toStandaloneHtml(article, context))
+    : renderDocument(article, format, context);
+
+  return { filename: `${slugify(article.title)}.${extension}`, contentType, body };
+}
+
+/**
+ * Export every written article in a content plan as a ZIP of one file per article
+ * @throws ApiError (404) when the plan does not exist or belongs to another user,
+ * (400) when none of its articles have content yet
+ */
+export async function exportContentPlan(userId: string, contentPlanId: string, format: ExportFormat): Promise<ExportFile> {
+  const plan = await db.contentPlan.findFirst({
+    where: { id: contentPlanId, userId },
+    include: { articles: { orderBy: [{ scheduledFor: 'asc' }, { createdAt: 'asc' }] } },
+  });
+
+  if (!plan) {
+    throw Errors.notFound('Content plan');
+  }
+
+  // Planned articles have nothing to export yet
+  const articles = plan.articles.filter(article => article.content?.trim());
+  if (articles.length === 0) {
+    throw Errors.validation('This content plan has no written articles to export');
+  }
+
+  const context = await loadExportContext(userId);
+  const { extension } = FORMAT_DETAILS[format];
+
+  const bodies = format === 'pdf'
+    ? await renderPdfs(articles.map(article => toStandaloneHtml(article, context)))
+    : articles.map(article => renderDocument(article, format, context));
+
+  // Number the files so they sort in plan order and titles can repeat
+  const width = String(articles.length).length;
+  const entries = articles.map((article, index) => ({
+    name: `${String(index + 1).padStart(width, '0')}-${slugify(article.title)}.${extension}`,
+    data: bodies[index],
+  }));
+
+  console.log(`Exported ${entries.length} articles from content plan ${plan.id} as ${format}`);
+
+  return {
+    filename: `${slugify(plan.title)}-${format}.zip`,
+    contentType: 'application/zip',
+    body: createZip(entries),
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Convert article HTML to Markdown
+ */
+
+import { HtmlElement, HtmlNode, parseHtml, rawText, textContent } from '../html-tree';
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+  'ul', 'ol', 'li', 'blockquote', 'pre', 'table', 'hr', 'figure', 'figcaption',
+]);
+
+// Characters that would otherwise start Markdown syntax inside plain text
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]])/g, '\\$1');
+
+function renderInline(nodes: HtmlNode[]): string {
+  return nodes
+    .map(node => {
+      if (node.type === 'text') {
+        return escapeMarkdown(node.text.replace(/\s+/g, ' '));
+      }
+
+      const inner = renderInline(node.children);
+      switch (node.tag) {
+        case 'strong':
+        case 'b':
+          return inner.trim() ? `**${inner.trim()}**` : inner;
+        case 'em':
+        case 'i':
+          return inner.trim() ? `*${inner.trim()}*` : inner;
+        case 'code':
+          return `\`${textContent(node.children)}\``;
+        case 'a':
+          return node.attrs.href ? `[${inner.trim()}](${node.attrs.href})` : inner;
+        case 'img':
+          return node.attrs.src ? `![${node.attrs.alt || ''}](${node.attrs.src})` : '';
+        case 'br':
+          return '  \n';
+        default:
+          return BLOCK_TAGS.has(node.tag) ? ` ${renderBlocks([node]).trim()} ` : inner;
+      }
+    })
+    .join('');
+}
+
+function renderList(list: HtmlElement, depth: number): string {
+  const indent = '   '.repeat(depth);
+  let index = Number(list.attrs.start) || 1;
+
+  return list.children
+    .filter((child): child is HtmlElement => child.type === 'element' && child.tag === 'li')
+    .map(item => {
+      const marker = list.tag === 'ol' ? `${index++}.` : '-';
+      const nested = item.children.filter(
+        (child): child is HtmlElement => child.type === 'element' && (child.tag === 'ul' || child.tag === 'ol')
+      );
+      const text = renderInline(item.children.filter(child => !nested.includes(child as HtmlElement))).trim();
+      const sublists = nested.map(sublist => renderList(sublist, depth + 1)).join('\n');
+      return `${indent}${marker} ${text}${sublists ? `\n${sublists}` : ''}`;
+    })
+    .join('\n');
+}
+
+function renderTable(table: HtmlElement): string {
+  const rows: string[][] = [];
+  const collect = (nodes: HtmlNode[]) => {
+    nodes.forEach(node => {
+      if (node.type !== 'element') return;
+      if (node.tag === 'tr') {
+        rows.push(
+          node.children
+            .filter((cell): cell is HtmlElement => cell.type === 'element' && (cell.tag === 'td' || cell.tag === 'th'))
+            .map(cell => renderInline(cell.children).trim().replace(/\|/g, '\\|'))
+        );
+      } else {
+        collect(node.children);
+      }
+    });
+  };
+  collect(table.children);
+
+  if (rows.length === 0) {
+    return '';
+  }
+
+  const width = Math.max(...rows.map(row => row.length));
+  const line = (row: string[]) => `| ${Array.from({ length: width }, (_, i) => row[i] || '').join(' | ')} |`;
+  return [line(rows[0]), line(Array(width).fill('---')), ...rows.slice(1).map(line)].join('\n');
+}
+
+function renderBlocks(nodes: HtmlNode[]): string {
+  const blocks: string[] = [];
+  let inline: HtmlNode[] = [];
+
+  const flushInline = () => {
+    const text = renderInline(inline).trim();
+    if (text) blocks.push(text);
+    inline = [];
+  };
+
+  nodes.forEach(node => {
+    if (node.type === 'text' || !BLOCK_TAGS.has(node.tag)) {
+      inline.push(node);
+      return;
+    }
+
+    flushInline();
+    const heading = /^h([1-6])$/.exec(node.tag);
+    if (heading) {
+      blocks.push(`${'#'.repeat(Number(heading[1]))} ${renderInline(node.children).trim()}`);
+    } else if (node.tag === 'ul' || node.tag === 'ol') {
+      blocks.push(renderList(node, 0));
+    } else if (node.tag === 'blockquote') {
+      blocks.push(renderBlocks(node.children).split('\n').map(line => `> ${line}`.trimEnd()).join('\n'));
+    } else if (node.tag === 'pre') {
+      blocks.push(`\`\`\`\n${rawText(node.children).trimEnd()}\n\`\`\``);
+    } else if (node.tag === 'table') {
+      blocks.push(renderTable(node));
+    } else if (node.tag === 'hr') {
+      blocks.push('---');
+    } else {
+      blocks.push(renderBlocks(node.children));
+    }
+  });
+  flushInline();
+
+  return blocks.filter(Boolean).join('\n\n');
+}
+
+/**
+ * Convert an HTML fragment to Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  return `${renderBlocks(parseHtml(html)).trim()}\n`;
+}
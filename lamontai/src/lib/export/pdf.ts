@@ -0,0 +1,92 @@
+/**
+ * Print standalone article HTML to PDF with headless Chrome (Puppeteer)
+ */
+
+import type { Browser } from 'puppeteer';
+import { ApiError, ErrorCodes } from '../error-handler';
+import { isPublicUrl } from '../public-url';
+
+// Upper bound on loading a page's images; the page is printed with whatever
+// has loaded by then
+const PAGE_LOAD_TIMEOUT_MS = 10000;
+
+/**
+ * Start headless Chrome, or the Chromium at PUPPETEER_EXECUTABLE_PATH
+ * @throws ApiError (501) when no browser can be started on this server
+ */
+async function launchBrowser(): Promise<Browser> {
+  try {
+    const puppeteer = await import('puppeteer');
+    return await puppeteer.default.launch({
+      headless: true,
+      executablePath: process.env.PUPPETEER_EXECUTABLE_PATH || undefined,
+      args: ['--no-sandbox', '--disable-setuid-sandbox', '--disable-dev-shm-usage'],
+    });
+  } catch (error) {
+    console.error('Error starting the browser for PDF export:', error);
+    throw new ApiError('PDF export is not available on this server', 501, { code: ErrorCodes.INTERNAL_SERVER_ERROR });
+  }
+}
+
+async function printPage(browser: Browser, html: string): Promise<Buffer> {
+  const page = await browser.newPage();
+
+  try {
+    // Article HTML is user content: never run its scripts, and only fetch
+    // images from public addresses
+    await page.setJavaScriptEnabled(false);
+    await page.setRequestInterception(true);
+    page.on('request', async request => {
+      const url = request.url();
+      const allowed = url.startsWith('data:')
+        || (request.resourceType() === 'image' && await isPublicUrl(url));
+      if (allowed) {
+        await request.continue();
+      } else {
+        await request.abort();
+      }
+    });
+
+    try {
+      await page.setContent(html, { waitUntil: 'load', timeout: PAGE_LOAD_TIMEOUT_MS });
+    } catch (error) {
+      // An image that never finishes loading is left out rather than failing the export
+      if (!(error instanceof Error && error.name === 'TimeoutError')) {
+        throw error;
+      }
+    }
+    const pdf = await page.pdf({
+      format: 'A4',
+      printBackground: true,
+      margin: { top: '20mm', right: '18mm', bottom: '20mm', left: '18mm' },
+    });
+    return Buffer.from(pdf);
+  } finally {
+    await page.close();
+  }
+}
+
+/**
+ * Render HTML documents to PDF, sharing one browser for the batch
+ */
+export async function renderPdfs(documents: string[]): Promise<Buffer[]> {
+  const browser = await launchBrowser();
+
+  try {
+    const pdfs: Buffer[] = [];
+    for (const html of documents) {
+      pdfs.push(await printPage(browser, html));
+    }
+    return pdfs;
+  } finally {
+    await browser.close();
+  }
+}
+
+/**
+ * Render a single HTML document to PDF
+ */
+export async function renderPdf(html: string): Promise<Buffer> {
+  const [pdf] = await renderPdfs([html]);
+  return pdf;
+}
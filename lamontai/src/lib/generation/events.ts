@@ -0,0 +1,81 @@
+/**
+ * Server-Sent Event types emitted by streaming article generation.
+ * Kept free of server imports so the dashboard can share them.
+ */
+
+import type { ArticleFormat } from './formats';
+import type { InsertedLink } from '../internal-links/insertion';
+import type { CannibalizationWarning } from '../cannibalization';
+
+export interface OutlineSection {
+  heading: string;
+  level: 2 | 3;
+}
+
+export interface GenerationStats {
+  wordCount: number;
+  readabilityScore: number;
+  estimatedRank: string;
+}
+
+export type GenerationEvent =
+  // Sent first when the topic competes with the user's existing pages or articles
+  | { type: 'cannibalization'; warning: CannibalizationWarning }
+  | { type: 'outline'; sections: OutlineSection[]; format?: ArticleFormat }
+  | { type: 'section'; index: number; heading: string }
+  | { type: 'token'; section: number; text: string }
+  | { type: 'title'; title: string }
+  | { type: 'meta-description'; metaDescription: string }
+  | { type: 'stats'; stats: GenerationStats }
+  // Final stitched and validated article HTML, with any internal links inserted
+  | { type: 'done'; content: string; internalLinks?: InsertedLink[] }
+  | { type: 'error'; message: string };
+
+/**
+ * Encode an event in the SSE wire format
+ */
+export function encodeSseEvent(event: GenerationEvent): string {
+  const { type, ...data } = event;
+  return `event: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Read generation events from a streamed fetch response
+ * @param response - Response with a text/event-stream body
+ * @param onEvent - Called for every parsed event, in order
+ */
+export async function readSseEvents(
+  response: Response,
+  onEvent: (event: GenerationEvent) => void
+): Promise<void> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) {
+      break;
+    }
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const raw = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      const type = /^event: (.+)$/m.exec(raw)?.[1];
+      const data = /^data: (.*)$/m.exec(raw)?.[1];
+      if (type) {
+        onEvent({ type, ...(data ? JSON.parse(data) : {}) } as GenerationEvent);
+      }
+    }
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Article formats chosen from the search intent of the target keyword.
+ * Kept free of server imports so the dashboard can offer the same choices.
+ */
+
+import type { IntentClassification } from '../keywords/intent';
+
+export const ARTICLE_FORMATS = ['guide', 'comparison', 'listicle', 'product-page'] as const;
+export type ArticleFormat = typeof ARTICLE_FORMATS[number];
+
+interface FormatGuidance {
+  // Added to the outline prompt
+  outline: string;
+  // Added to every section prompt
+  section: string;
+}
+
+export const FORMAT_GUIDANCE: Record<ArticleFormat, FormatGuidance> = {
+  guide: {
+    outline: 'Structure it as a practical guide: explain the essentials first, then walk through the steps in order, then cover common mistakes.',
+    section: 'This is a practical guide: explain clearly, use ordered steps where the reader has to act, and give concrete examples.',
+  },
+  comparison: {
+    outline: 'Structure it as a comparison: introduce the options, compare them criterion by criterion (one H2 per criterion), then give a verdict on which suits whom.',
+    section: 'This is a comparison: weigh the options fairly on concrete criteria, use an HTML table where it makes differences clearer, and avoid declaring a winner before the verdict.',
+  },
+  listicle: {
+    outline: 'Structure it as a numbered list: a short introduction, one H2 per list item with its number in the heading, then a short wrap-up.',
+    section: 'This is a list article: keep each item self-contained, lead with what makes it stand out, and keep items a similar length.',
+  },
+  'product-page': {
+    outline: 'Structure it as a product page: the problem it solves, key benefits, features, pricing or plans, frequently asked questions and a call to action.',
+    section: 'This is a product page: write concise, benefit-led copy for a reader ready to act, back claims with specifics, and point towards a clear next step.',
+  },
+};
+
+/**
+ * Pick the article format that best serves a search intent
+ */
+export function chooseArticleFormat(classification: Pick<IntentClassification, 'intent' | 'signals'>): ArticleFormat {
+  const signals = new Set(classification.signals);
+  // Searches naming a competitor are best met by comparing against it
+  const competitor = classification.signals.some(signal => signal.startsWith('brand:'));
+
+  switch (classification.intent) {
+    case 'transactional':
+      return competitor ? 'comparison' : 'product-page';
+    case 'commercial':
+      // "X vs Y" and reviews weigh options; "best X" and "X alternatives" rank them
+      if (signals.has('comparison') || signals.has('review')) {
+        return 'comparison';
+      }
+      return signals.has('superlative') || signals.has('alternatives') || signals.has('list')
+        ? 'listicle'
+        : 'comparison';
+    case 'navigational':
+      return competitor ? 'comparison' : 'product-page';
+    default:
+      return signals.has('list') ? 'listicle' : 'guide';
+  }
+}
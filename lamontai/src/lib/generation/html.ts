@@ -0,0 +1,114 @@
+/**
+ * Cleanup and validation of model-written article HTML
+ */
+
+import { OutlineSection } from './events';
+
+// Tags that must be balanced in article bodies
+const BLOCK_TAGS = new Set([
+  'p', 'ul', 'ol', 'li', 'h2', 'h3', 'h4', 'blockquote', 'strong', 'em', 'b', 'i', 'a', 'code', 'pre',
+  'table', 'thead', 'tbody', 'tr', 'th', 'td',
+]);
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const normalizeHeading = (text: string): string =>
+  text.replace(/<[^>]+>/g, '').replace(/&amp;/g, '&').replace(/\s+/g, ' ').trim().toLowerCase();
+
+/**
+ * Close unclosed tags and drop stray closing tags
+ * @returns The balanced HTML and a description of every fix applied
+ */
+export function balanceTags(html: string): { html: string; fixes: string[] } {
+  const stack: string[] = [];
+  const fixes: string[] = [];
+
+  const balanced = html.replace(/<(\/?)([a-z][a-z0-9]*)\b[^>]*?(\/?)>/gi, (tag, closing, rawName, selfClosing) => {
+    const name = rawName.toLowerCase();
+    if (!BLOCK_TAGS.has(name) || selfClosing) {
+      return tag;
+    }
+
+    if (!closing) {
+      stack.push(name);
+      return tag;
+    }
+
+    const openIndex = stack.lastIndexOf(name);
+    if (openIndex === -1) {
+      fixes.push(`Removed stray </${name}>`);
+      return '';
+    }
+
+    // Close anything left open inside this element
+    const unclosed = stack.splice(openIndex).slice(1).reverse();
+    unclosed.forEach(inner => fixes.push(`Closed unclosed <${inner}>`));
+    return unclosed.map(inner => `</${inner}>`).join('') + tag;
+  });
+
+  const trailing = stack.reverse();
+  trailing.forEach(name => fixes.push(`Closed unclosed <${name}>`));
+
+  return { html: balanced + trailing.map(name => `</${name}>`).join(''), fixes };
+}
+
+/**
+ * Clean the HTML written for one outline section so it can be stitched
+ * @param html - Raw model output
+ * @param heading - The H2 the section must open with
+ */
+export function cleanSectionHtml(html: string, heading: string): { html: string; fixes: string[] } {
+  const fixes: string[] = [];
+
+  let cleaned = html
+    // Markdown code fences around the HTML
+    .replace(/^\s*```(?:html)?\s*/i, '')
+    .replace(/\s*```\s*$/, '')
+    // Document wrappers the model sometimes adds
+    .replace(/<!doctype[^>]*>/gi, '')
+    .replace(/<head>[\s\S]*?<\/head>/gi, '')
+    .replace(/<\/?(html|body)[^>]*>/gi, '')
+    .trim();
+
+  // The article title is rendered separately, so demote any H1
+  if (/<h1[\s>]/i.test(cleaned)) {
+    cleaned = cleaned.replace(/<(\/?)h1(\s[^>]*)?>/gi, '<$1h2>');
+    fixes.push('Demoted <h1> to <h2>');
+  }
+
+  const firstHeading = /^<h2[^>]*>([\s\S]*?)<\/h2>/i.exec(cleaned);
+  if (!firstHeading || normalizeHeading(firstHeading[1]) !== normalizeHeading(heading)) {
+    cleaned = `<h2>${escapeHtml(heading)}</h2>\n${cleaned}`;
+    fixes.push(`Added missing heading "${heading}"`);
+  }
+
+  const balanced = balanceTags(cleaned);
+  return { html: balanced.html, fixes: [...fixes, ...balanced.fixes] };
+}
+
+/**
+ * Check that stitched HTML follows the outline, in order
+ * @returns Human-readable problems (empty when valid)
+ */
+export function validateArticleHtml(html: string, outline: OutlineSection[]): string[] {
+  const issues: string[] = [];
+  const headings = Array.from(html.matchAll(/<h([23])[^>]*>([\s\S]*?)<\/h\1>/gi))
+    .map(match => normalizeHeading(match[2]));
+
+  let cursor = 0;
+  outline.forEach(section => {
+    const position = headings.indexOf(normalizeHeading(section.heading), cursor);
+    if (position === -1) {
+      issues.push(`Missing or out-of-order heading "${section.heading}"`);
+    } else {
+      cursor = position + 1;
+    }
+  });
+
+  if (balanceTags(html).fixes.length > 0) {
+    issues.push('Unbalanced HTML tags');
+  }
+
+  return issues;
+}
@@ -0,0 +1,47 @@
+import { getLLMProvider } from '../llm';
+
+/**
+ * Create an SEO title (max 60 characters) for a topic
+ */
+export async function generateTitle(topic: string, keywords: string[], signal?: AbortSignal): Promise<string> {
+  const title = await getLLMProvider().complete(
+    [
+      {
+        role: 'system',
+        content: 'You are an expert at creating SEO-optimized titles for articles.',
+      },
+      {
+        role: 'user',
+        content: `Create a compelling, SEO-optimized title for an article about "${topic}" that includes one of these keywords if possible: ${keywords.join(', ')}. The title should be no more than 60 characters. Return only the title, nothing else.`,
+      },
+    ],
+    { task: 'article-title', model: process.env.OPENAI_FAST_MODEL, temperature: 0.7, maxTokens: 60, signal }
+  );
+
+  return (title || topic).replace(/"/g, '').trim();
+}
+
+/**
+ * Create a meta description (under 160 characters) for a title
+ */
+export async function generateMetaDescription(
+  title: string,
+  keywords: string[],
+  signal?: AbortSignal
+): Promise<string> {
+  const snippet = await getLLMProvider().complete(
+    [
+      {
+        role: 'system',
+        content: 'You are an expert at creating compelling meta descriptions for SEO.',
+      },
+      {
+        role: 'user',
+        content: `Create a compelling meta description for an article with the title "${title}". The description should be under 160 characters and include one of these keywords if possible: ${keywords.join(', ')}. Return only the description, nothing else.`,
+      },
+    ],
+    { task: 'article-meta-description', model: process.env.OPENAI_FAST_MODEL, temperature: 0.7, maxTokens: 200, signal }
+  );
+
+  return snippet.replace(/"/g, '').trim();
+}
@@ -0,0 +1,115 @@
+/**
+ * Editable outline drafts. An outline is generated first, edited or
+ * reordered by the user, and only written once it has been approved.
+ */
+
+import { randomUUID } from 'crypto';
+import redisClient from '../redis-client';
+import type { GenerateArticleOptions } from '../ai-service';
+import { OutlineSection } from './events';
+import { generateOutline, normalizeOutline } from './outline';
+
+// Drafts are short-lived; an unapproved outline expires after a day
+const OUTLINE_DRAFT_TTL = 24 * 60 * 60;
+
+export interface OutlineDraft {
+  id: string;
+  userId: string;
+  topic: string;
+  keywords: string[];
+  options?: GenerateArticleOptions;
+  sections: OutlineSection[];
+  approved: boolean;
+  createdAt: string;
+}
+
+const draftKey = (id: string) => `outline_draft:${id}`;
+
+/**
+ * Generate an outline and store it as an unapproved draft
+ */
+export async function createOutlineDraft(
+  userId: string,
+  topic: string,
+  keywords: string[],
+  options?: GenerateArticleOptions
+): Promise<OutlineDraft> {
+  const draft: OutlineDraft = {
+    id: randomUUID(),
+    userId,
+    topic,
+    keywords,
+    options,
+    sections: await generateOutline(topic, keywords, options),
+    approved: false,
+    createdAt: new Date().toISOString(),
+  };
+
+  await redisClient.set(draftKey(draft.id), draft, OUTLINE_DRAFT_TTL);
+  return draft;
+}
+
+/**
+ * Fetch a draft, or null when it is missing, expired or owned by someone else
+ */
+export async function getOutlineDraft(userId: string, id: string): Promise<OutlineDraft | null> {
+  const draft = await redisClient.get<OutlineDraft>(draftKey(id));
+  return draft && draft.userId === userId ? draft : null;
+}
+
+/**
+ * Replace the sections of a draft and/or mark it approved.
+ * Editing the sections of an approved draft withdraws the approval unless
+ * the same update approves it again.
+ */
+export async function updateOutlineDraft(
+  userId: string,
+  id: string,
+  update: { sections?: OutlineSection[]; approved?: boolean }
+): Promise<OutlineDraft | null> {
+  const draft = await getOutlineDraft(userId, id);
+  if (!draft) {
+    return null;
+  }
+
+  const updated: OutlineDraft = {
+    ...draft,
+    sections: update.sections ? normalizeOutline(update.sections) : draft.sections,
+    approved: update.approved ?? (update.sections ? false : draft.approved),
+  };
+
+  await redisClient.set(draftKey(id), updated, OUTLINE_DRAFT_TTL);
+  return updated;
+}
+
+// How long a claim holds a draft while it is written; long enough for the
+// slowest generation, short enough that a crashed one frees the draft
+const OUTLINE_CLAIM_TTL = 30 * 60;
+
+const claimKey = (id: string) => `${draftKey(id)}:claimed`;
+
+/**
+ * Claim a draft for writing. Only one claim holds at a time, so an approved
+ * outline is not written twice at once.
+ * @returns false when the draft is already claimed
+ */
+export async function claimOutlineDraft(userId: string, id: string): Promise<boolean> {
+  return redisClient.setIfAbsent(claimKey(id), userId, OUTLINE_CLAIM_TTL);
+}
+
+/**
+ * Give up a claim after writing failed or was cancelled, so the draft can be
+ * written again
+ */
+export async function releaseOutlineDraft(id: string): Promise<void> {
+  await redisClient.delete(claimKey(id));
+}
+
+/**
+ * Remove a draft once its article has been written. The claim is left to
+ * expire, so a request that read the draft before it was removed cannot
+ * write it again.
+ */
+export async function completeOutlineDraft(id: string): Promise<void> {
+  await redisClient.delete(draftKey(id));
+}
@@ -0,0 +1,116 @@
+import { getLLMProvider } from '../llm';
+import type { GenerateArticleOptions } from '../ai-service';
+import { OutlineSection } from './events';
+import { FORMAT_GUIDANCE } from './formats';
+
+// Approximate number of H2 sections per article length
+const SECTION_COUNTS = {
+  short: '4-5',
+  medium: '6-8',
+  long: '9-12',
+};
+
+/**
+ * Normalize an outline returned by the model into H2/H3 entries
+ */
+export function normalizeOutline(raw: unknown): OutlineSection[] {
+  if (!Array.isArray(raw)) {
+    return [];
+  }
+
+  return raw
+    .map((entry): OutlineSection | null => {
+      const heading = typeof entry === 'string' ? entry : entry?.heading;
+      if (typeof heading !== 'string' || !heading.trim()) {
+        return null;
+      }
+      return {
+        heading: heading.replace(/<[^>]+>/g, '').trim(),
+        level: entry?.level === 3 || entry?.level === 'h3' ? 3 : 2,
+      };
+    })
+    .filter((entry): entry is OutlineSection => entry !== null)
+    // An H3 cannot open the article; promote it to a section of its own
+    .map((entry, index) => (index === 0 ? { ...entry, level: 2 } : entry));
+}
+
+/**
+ * An H2 section together with its H3 subsections
+ */
+export interface OutlineBlock {
+  // Position of the H2 in the flat outline
+  index: number;
+  heading: string;
+  subsections: string[];
+}
+
+/**
+ * Group a flat outline into H2 blocks, each written in one pass
+ */
+export function groupOutline(outline: OutlineSection[]): OutlineBlock[] {
+  const blocks: OutlineBlock[] = [];
+
+  outline.forEach((section, index) => {
+    if (section.level === 2 || blocks.length === 0) {
+      blocks.push({ index, heading: section.heading, subsections: [] });
+    } else {
+      blocks[blocks.length - 1].subsections.push(section.heading);
+    }
+  });
+
+  return blocks;
+}
+
+/**
+ * Render an outline as an indented list for prompts
+ */
+export function formatOutline(outline: OutlineSection[]): string {
+  return outline
+    .map(section => `${section.level === 2 ? '-' : '  -'} ${section.heading}`)
+    .join('\n');
+}
+
+/**
+ * Generate an H2/H3 outline for an article
+ */
+export async function generateOutline(
+  topic: string,
+  keywords: string[],
+  options?: GenerateArticleOptions,
+  signal?: AbortSignal
+): Promise<OutlineSection[]> {
+  const length = options?.length || 'medium';
+  const formatGuidance = options?.format ? `\n    ${FORMAT_GUIDANCE[options.format].outline}` : '';
+  const headingExamples = options?.voice?.sampleHeadings.length
+    ? `\n    Match the heading style of these existing headings: ${options.voice.sampleHeadings.slice(0, 5).join('; ')}.`
+    : '';
+
+  const response = await getLLMProvider().completeJson<{ sections?: unknown }>(
+    [
+      {
+        role: 'system',
+        content: 'You are an expert SEO content strategist. Your responses are always in valid JSON format.',
+      },
+      {
+        role: 'user',
+        content: `Create an outline for an SEO article about "${topic}".
+    Target keywords: ${keywords.join(', ')}.
+    Use ${SECTION_COUNTS[length]} H2 sections with optional H3 subsections, starting with an introduction and ending with a conclusion.${formatGuidance}${headingExamples}
+    Respond with JSON of the form {"sections": [{"heading": "...", "level": 2}]}.`,
+      },
+    ],
+    { task: 'article-outline', temperature: 0.5, maxTokens: 800, signal }
+  );
+
+  const outline = normalizeOutline(response.sections);
+  if (outline.length > 0) {
+    return outline;
+  }
+
+  // Fall back to a minimal structure so writing can still proceed
+  return [
+    { heading: 'Introduction', level: 2 },
+    { heading: topic, level: 2 },
+    { heading: 'Conclusion', level: 2 },
+  ];
+}
@@ -0,0 +1,160 @@
+import { getLLMProvider } from '../llm';
+import type { GenerateArticleOptions } from '../ai-service';
+import { GenerationEvent, GenerationStats, OutlineSection } from './events';
+import { formatOutline, generateOutline, groupOutline, OutlineBlock } from './outline';
+import { FORMAT_GUIDANCE } from './formats';
+import { cleanSectionHtml, validateArticleHtml } from './html';
+import { generateMetaDescription, generateTitle } from './metadata';
+import { describeStyle } from '../voice-profiles/metrics';
+import { analyzeReadability, htmlToParagraphs } from '../readability';
+
+export const ARTICLE_SYSTEM_PROMPT =
+  'You are an expert SEO content writer who creates high-quality, engaging, and SEO-optimized articles.';
+
+// Target word range per article length
+const WORD_TARGETS = {
+  short: [800, 1000],
+  medium: [1500, 2000],
+  long: [2500, 3000],
+};
+
+// How much of the already-written article each section prompt sees
+const PREVIOUS_CONTEXT_CHARS = 4000;
+
+export interface ArticlePipelineInput {
+  topic: string;
+  keywords: string[];
+  options?: GenerateArticleOptions;
+  // A pre-approved outline; generated when omitted
+  outline?: OutlineSection[];
+}
+
+const htmlToText = (html: string): string =>
+  html.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+
+const countWords = (html: string): number =>
+  htmlToText(html).split(' ').filter(Boolean).length;
+
+/**
+ * Compute summary statistics for generated HTML
+ */
+export function computeArticleStats(content: string, language?: string): GenerationStats {
+  const readability = analyzeReadability(htmlToParagraphs(content), language);
+
+  return {
+    wordCount: countWords(content),
+    readabilityScore: readability.score,
+    estimatedRank: 'Top 20 potential',
+  };
+}
+
+/**
+ * Build the prompt for a single H2 section of the outline
+ */
+function buildSectionPrompt(
+  input: ArticlePipelineInput,
+  outline: OutlineSection[],
+  block: OutlineBlock,
+  previous: string,
+  words: number
+): string {
+  const voice = input.options?.voice;
+  const tone = input.options?.tone || 'professional';
+  const style = input.options?.style || 'informative';
+  const intro = voice
+    ? `You are writing an SEO article about "${input.topic}" in the "${voice.name}" brand voice, one section at a time.
+    ${describeStyle(voice.metrics)}`
+    : `You are writing a ${tone}, ${style} SEO article about "${input.topic}", one section at a time.`;
+
+  const previousText = htmlToText(previous).slice(-PREVIOUS_CONTEXT_CHARS);
+  const format = input.options?.format ? `\n    ${FORMAT_GUIDANCE[input.options.format].section}` : '';
+  const subsections = block.subsections.length > 0
+    ? `\n    Include these H3 subsections in order: ${block.subsections.join('; ')}.`
+    : '';
+
+  return `${intro}${format}
+    Target keywords: ${input.keywords.join(', ')}.
+    Full outline:
+${formatOutline(outline)}
+${previousText ? `\n    Already written (end of the article so far):\n    ${previousText}\n` : ''}
+    Write only the section "${block.heading}" in about ${words} words, starting with <h2>${block.heading}</h2>.${subsections}
+    Continue naturally from the previous sections without repeating them. Use short paragraphs and work the keywords in where they fit.
+    Format the output as clean HTML without <html>, <body> or <h1> tags.`;
+}
+
+/**
+ * Generate an article outline-first and write it section by section,
+ * yielding progress events as each stage completes.
+ * Stages: outline, section tokens, title, meta description, stats, then
+ * the stitched and validated HTML.
+ * @param signal - Aborting stops the upstream request and ends the pipeline
+ */
+export async function* runArticlePipeline(
+  input: ArticlePipelineInput,
+  signal?: AbortSignal
+): AsyncGenerator<GenerationEvent> {
+  const { topic, keywords, options } = input;
+  const length = options?.length || 'medium';
+
+  const outline = input.outline && input.outline.length > 0
+    ? input.outline
+    : await generateOutline(topic, keywords, options, signal);
+  yield { type: 'outline', sections: outline, format: options?.format };
+
+  const blocks = groupOutline(outline);
+  const [minWords, maxWords] = WORD_TARGETS[length];
+  const wordsPerSection = Math.round((minWords + maxWords) / 2 / Math.max(blocks.length, 1));
+
+  const sections: string[] = [];
+  const fixes: string[] = [];
+
+  for (const block of blocks) {
+    yield { type: 'section', index: block.index, heading: block.heading };
+
+    let raw = '';
+    const tokens = getLLMProvider().stream(
+      [
+        { role: 'system', content: ARTICLE_SYSTEM_PROMPT },
+        {
+          role: 'user',
+          content: buildSectionPrompt(input, outline, block, sections.join('\n'), wordsPerSection),
+        },
+      ],
+      {
+        task: 'article-section',
+        temperature: 0.7,
+        maxTokens: Math.min(4000, wordsPerSection * 2 + 200),
+        signal,
+      }
+    );
+
+    for await (const text of tokens) {
+      raw += text;
+      yield { type: 'token', section: block.index, text };
+    }
+
+    const cleaned = cleanSectionHtml(raw, block.heading);
+    sections.push(cleaned.html);
+    fixes.push(...cleaned.fixes);
+  }
+
+  const content = sections.join('\n');
+
+  const issues = validateArticleHtml(content, outline);
+  const wordCount = countWords(content);
+  if (wordCount < minWords) {
+    issues.push(`Article has ${wordCount} words, below the ${minWords} word target`);
+  }
+  if (fixes.length > 0 || issues.length > 0) {
+    console.log('Article HTML validation:', { topic, fixes, issues });
+  }
+
+  const title = await generateTitle(topic, keywords, signal);
+  yield { type: 'title', title };
+
+  const metaDescription = await generateMetaDescription(title, keywords, signal);
+  yield { type: 'meta-description', metaDescription };
+
+  yield { type: 'stats', stats: computeArticleStats(content, options?.language) };
+  yield { type: 'done', content };
+}
@@ -0,0 +1,131 @@
+/**
+ * Lenient HTML parser for article and page content. Builds a small element
+ * tree for the exporters and the SEO analyzer to walk; the HTML involved is
+ * simple enough that a full HTML5 parser is not needed.
+ */
+
+export interface HtmlText {
+  type: 'text';
+  text: string;
+}
+
+export interface HtmlElement {
+  type: 'element';
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+export type HtmlNode = HtmlText | HtmlElement;
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'meta', 'link', 'input', 'source', 'wbr']);
+const SKIPPED_TAGS = new Set(['script', 'style', 'head', 'noscript', 'template']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+  mdash: '—', ndash: '–', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”', copy: '©', reg: '®',
+};
+
+/**
+ * Decode HTML character references
+ */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return Number.isFinite(code) ? String.fromCodePoint(code) : match;
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Escape text for use in HTML or XML
+ */
+export function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function parseAttrs(source: string): Record<string, string> {
+  const attrs: Record<string, string> = {};
+  const pattern = /([a-z_:][-a-z0-9_:.]*)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/gi;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(source))) {
+    attrs[match[1].toLowerCase()] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attrs;
+}
+
+/**
+ * Parse an HTML fragment into a list of nodes. Unclosed elements are closed
+ * by their parent's end tag and stray end tags are ignored.
+ */
+export function parseHtml(html: string): HtmlNode[] {
+  const root: HtmlElement = { type: 'element', tag: '#root', attrs: {}, children: [] };
+  const stack: HtmlElement[] = [root];
+  const pattern = /<!--[\s\S]*?-->|<!doctype[^>]*>|<\/?([a-z][a-z0-9]*)([^>]*)>|[^<]+|</gi;
+  let skipUntil: string | null = null;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(html))) {
+    const [token, rawTag, rawAttrs = ''] = match;
+    const parent = stack[stack.length - 1];
+
+    if (skipUntil) {
+      if (rawTag?.toLowerCase() === skipUntil && token.startsWith('</')) {
+        skipUntil = null;
+      }
+      continue;
+    }
+
+    if (!rawTag) {
+      if (!token.startsWith('<!')) {
+        parent.children.push({ type: 'text', text: decodeEntities(token) });
+      }
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (token.startsWith('</')) {
+      const index = stack.map(element => element.tag).lastIndexOf(tag);
+      if (index > 0) {
+        stack.length = index;
+      }
+      continue;
+    }
+
+    if (SKIPPED_TAGS.has(tag)) {
+      if (!token.endsWith('/>')) {
+        skipUntil = tag;
+      }
+      continue;
+    }
+
+    const element: HtmlElement = { type: 'element', tag, attrs: parseAttrs(rawAttrs.replace(/\/$/, '')), children: [] };
+    parent.children.push(element);
+    if (!VOID_TAGS.has(tag) && !token.endsWith('/>')) {
+      stack.push(element);
+    }
+  }
+
+  return root.children;
+}
+
+/**
+ * The text content of a node, whitespace preserved
+ */
+export function rawText(node: HtmlNode | HtmlNode[]): string {
+  const nodes = Array.isArray(node) ? node : [node];
+  return nodes.map(child => (child.type === 'text' ? child.text : rawText(child.children))).join('');
+}
+
+/**
+ * The text content of a node, with whitespace collapsed
+ */
+export function textContent(node: HtmlNode | HtmlNode[]): string {
+  return rawText(node).replace(/\s+/g, ' ');
+}
@@ -0,0 +1,128 @@
+/**
+ * Internal links inserted into saved articles, recorded so the user can
+ * accept or reject each one. Accepting drops the link's review marker from
+ * the HTML; rejecting removes the link and keeps its anchor text.
+ */
+
+import { Article, ArticleLink } from '@prisma/client';
+import { db } from '../db';
+import { ApiError, Errors } from '../error-handler';
+import { updateArticle } from '../article-service';
+import {
+  acceptInsertedLink,
+  hasInsertedLink,
+  InsertedLink,
+  insertInternalLinks,
+  rejectInsertedLink,
+} from './index';
+
+export type ArticleLinkStatus = 'pending' | 'accepted' | 'rejected';
+
+export interface ArticleLinkView extends ArticleLink {
+  // False once the link has been edited out of the article by hand
+  present: boolean;
+}
+
+/**
+ * Record the links inserted into an article's content; links that are not
+ * in the saved HTML are ignored
+ */
+export async function recordArticleLinks(article: Article, links: InsertedLink[]): Promise<number> {
+  const present = links.filter(link => hasInsertedLink(article.content || '', link.id));
+  if (present.length === 0) {
+    return 0;
+  }
+
+  const { count } = await db.articleLink.createMany({
+    data: present.map(link => ({
+      id: link.id,
+      articleId: article.id,
+      url: link.url,
+      anchorText: link.anchorText,
+      paragraphIndex: link.paragraphIndex,
+      score: link.score,
+      reasons: link.reasons,
+    })),
+    skipDuplicates: true,
+  });
+  return count;
+}
+
+/**
+ * Links inserted into an article, pending ones first
+ */
+export async function listArticleLinks(article: Article): Promise<ArticleLinkView[]> {
+  const links = await db.articleLink.findMany({
+    where: { articleId: article.id },
+    orderBy: [{ decidedAt: { sort: 'asc', nulls: 'first' } }, { paragraphIndex: 'asc' }],
+  });
+
+  return links.map(link => ({
+    ...link,
+    present: link.status === 'pending' ? hasInsertedLink(article.content || '', link.id) : link.status === 'accepted',
+  }));
+}
+
+/**
+ * Insert internal links into a saved article and record them for review
+ * @param authorId - The user asking for the links
+ */
+export async function addArticleLinks(
+  article: Article,
+  authorId: string,
+  options: { maxLinks: number; embeddings?: boolean }
+): Promise<{ article: Article; links: InsertedLink[] }> {
+  if (!article.content?.trim()) {
+    throw Errors.validation('The article has no content to add links to');
+  }
+
+  const keywords = (article.keywords || '').split(',').map(keyword => keyword.trim()).filter(Boolean);
+  const { content, links } = await insertInternalLinks(article.userId, article.content, {
+    topic: article.targetKeyword || article.title,
+    keywords,
+    maxLinks: options.maxLinks,
+    embeddings: options.embeddings,
+  });
+
+  if (links.length === 0) {
+    return { article, links };
+  }
+
+  const updated = await updateArticle(article, { content, source: 'ai' }, authorId);
+  await recordArticleLinks(updated, links);
+  return { article: updated, links };
+}
+
+/**
+ * Accept or reject a pending inserted link
+ * @throws ApiError (404) when the link is not the article's, (409) when it was already reviewed
+ */
+export async function reviewArticleLink(
+  article: Article,
+  linkId: string,
+  status: Exclude<ArticleLinkStatus, 'pending'>,
+  authorId: string
+): Promise<{ article: Article; link: ArticleLink }> {
+  const link = await db.articleLink.findFirst({ where: { id: linkId, articleId: article.id } });
+  if (!link) {
+    throw Errors.notFound('Link');
+  }
+  if (link.status !== 'pending') {
+    throw new ApiError(`This link was already ${link.status}`, 409);
+  }
+
+  const current = article.content || '';
+  if (status === 'accepted' && !hasInsertedLink(current, link.id)) {
+    throw Errors.validation('This link is no longer in the article');
+  }
+  const content = status === 'accepted' ? acceptInsertedLink(current, link.id) : rejectInsertedLink(current, link.id);
+  const updated = content !== current
+    ? await updateArticle(article, { content, source: 'human' }, authorId)
+    : article;
+
+  const reviewed = await db.articleLink.update({
+    where: { id: link.id },
+    data: { status, decidedAt: new Date() },
+  });
+  return { article: updated, link: reviewed };
+}
@@ -0,0 +1,183 @@
+/**
+ * Content index of the user's own pages for internal linking. Each page in
+ * the sitemap inventory is fetched once, then again when its lastmod moves
+ * past the last fetch or the stored copy is a month old.
+ */
+
+import { Prisma } from '@prisma/client';
+import { db } from '../db';
+import redisClient from '../redis-client';
+import { lemmaTokens } from '../keywords/lemmatize';
+import { fetchPageHtml, parsePage } from '../seo-analyzer';
+
+export interface PageContent {
+  title: string;
+  description: string;
+  headings: string[];
+  // Lemma counts of the body text, most frequent first
+  terms: Record<string, number>;
+  // Body length in lemmas
+  length: number;
+}
+
+export interface ContentIndexStatus {
+  // Pages listed in the sitemap inventory
+  totalPages: number;
+  indexedPages: number;
+  // Pages waiting for a first or fresh fetch
+  pending: number;
+}
+
+export interface IndexRunResult extends ContentIndexStatus {
+  indexed: number;
+  failed: number;
+  // Another run for the user was already in progress
+  skipped: boolean;
+}
+
+// Stored copies older than this are refetched
+const REINDEX_AFTER_DAYS = 30;
+// Pages that failed to load are retried after this long
+const RETRY_FAILED_AFTER_HOURS = 24;
+// Pages fetched per run; the rest wait for the next one
+const DEFAULT_BATCH_SIZE = 100;
+// Requests in flight at once against the user's site
+const CONCURRENCY = 4;
+// Body terms kept per page
+const MAX_TERMS = 200;
+const INDEX_LOCK_TTL = 30 * 60;
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Title, description, headings and body terms of a page's HTML
+ */
+export function extractPageContent(html: string): PageContent {
+  const page = parsePage(html);
+  const tokens = lemmaTokens([...page.paragraphs, ...page.listItems].join(' '));
+
+  const counts = new Map<string, number>();
+  tokens.forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+  const terms = Object.fromEntries(
+    Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_TERMS)
+  );
+
+  return {
+    title: page.title,
+    description: page.metaDescription,
+    headings: page.headings.map(heading => heading.text.trim()).filter(Boolean),
+    terms,
+    length: tokens.length,
+  };
+}
+
+/**
+ * Active pages that have never been fetched, changed since, or whose copy
+ * is stale; never-fetched pages first
+ */
+async function pagesToIndex(userId: string): Promise<{ pages: Array<{ id: string; url: string }>; totalPages: number; indexedPages: number }> {
+  const now = Date.now();
+  const pages = await db.sitePage.findMany({
+    where: { userId, removedAt: null },
+    select: { id: true, url: true, lastmod: true, content: { select: { status: true, indexedAt: true } } },
+    orderBy: { url: 'asc' },
+  });
+
+  const due = pages.filter(page => {
+    const content = page.content;
+    if (!content) return true;
+    const age = now - content.indexedAt.getTime();
+    if (content.status === 'error') return age > RETRY_FAILED_AFTER_HOURS * 60 * 60 * 1000;
+    return age > REINDEX_AFTER_DAYS * DAY || (page.lastmod !== null && page.lastmod > content.indexedAt);
+  });
+  due.sort((a, b) => Number(Boolean(a.content)) - Number(Boolean(b.content)));
+
+  return {
+    pages: due.map(({ id, url }) => ({ id, url })),
+    totalPages: pages.length,
+    indexedPages: pages.filter(page => page.content?.status === 'ok').length,
+  };
+}
+
+/**
+ * How much of the user's inventory has been indexed
+ */
+export async function getContentIndexStatus(userId: string): Promise<ContentIndexStatus> {
+  const { pages, totalPages, indexedPages } = await pagesToIndex(userId);
+  return { totalPages, indexedPages, pending: pages.length };
+}
+
+async function indexPage(userId: string, page: { id: string; url: string }): Promise<boolean> {
+  const now = new Date();
+  try {
+    const content = extractPageContent(await fetchPageHtml(page.url));
+    await db.sitePageContent.upsert({
+      where: { pageId: page.id },
+      create: { pageId: page.id, userId, ...content, indexedAt: now },
+      // New text makes a stored embedding stale
+      update: { ...content, status: 'ok', error: null, indexedAt: now, embedding: Prisma.JsonNull, embeddingModel: null },
+    });
+    return true;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    await db.sitePageContent.upsert({
+      where: { pageId: page.id },
+      create: { pageId: page.id, userId, headings: [], terms: {}, status: 'error', error: message, indexedAt: now },
+      // Keep the last good copy of a page that failed to load this time
+      update: { status: 'error', error: message, indexedAt: now },
+    });
+    return false;
+  }
+}
+
+/**
+ * Fetch and index the next batch of pages that need it
+ * @param limit - Most pages to fetch in this run
+ */
+export async function indexSitePages(userId: string, limit = DEFAULT_BATCH_SIZE): Promise<IndexRunResult> {
+  const lockKey = `link_index:${userId}`;
+  if (!(await redisClient.setIfAbsent(lockKey, true, INDEX_LOCK_TTL))) {
+    return { ...(await getContentIndexStatus(userId)), indexed: 0, failed: 0, skipped: true };
+  }
+
+  try {
+    const { pages } = await pagesToIndex(userId);
+    const batch = pages.slice(0, limit);
+    let indexed = 0;
+    let failed = 0;
+
+    for (let i = 0; i < batch.length; i += CONCURRENCY) {
+      const results = await Promise.all(batch.slice(i, i + CONCURRENCY).map(page => indexPage(userId, page)));
+      results.forEach(ok => (ok ? indexed++ : failed++));
+    }
+
+    console.log(`Indexed ${indexed} pages for user ${userId} (${failed} failed, ${pages.length - batch.length} pending)`);
+
+    return { ...(await getContentIndexStatus(userId)), indexed, failed, skipped: false };
+  } finally {
+    await redisClient.delete(lockKey);
+  }
+}
+
+/**
+ * Index the next batch of pages for every user with a sitemap inventory
+ */
+export async function indexAllSitePages(): Promise<{ users: number; indexed: number; failed: number }> {
+  const users = await db.sitePage.groupBy({ by: ['userId'], where: { removedAt: null } });
+
+  let indexed = 0;
+  let failed = 0;
+  for (const { userId } of users) {
+    try {
+      const result = await indexSitePages(userId);
+      indexed += result.indexed;
+      failed += result.failed;
+    } catch (error) {
+      console.error(`Error indexing pages for user ${userId}:`, error);
+    }
+  }
+
+  return { users: users.length, indexed, failed };
+}
@@ -0,0 +1,350 @@
+/**
+ * Internal link recommendations from the user's own pages. Pages in the
+ * sitemap inventory are indexed by ./content-index and ranked for a topic
+ * or draft by ./recommender, optionally reranked by embedding similarity.
+ */
+
+import { randomUUID } from 'crypto';
+import { db } from '../db';
+import { getLLMProvider } from '../llm';
+import { refreshSitemapInventory } from '../sitemap-utils/inventory';
+import { ContentIndexStatus, getContentIndexStatus, indexSitePages } from './content-index';
+import { applyLinkInsertions, InsertedLink, locateAnchor, mapParagraphs } from './insertion';
+import {
+  buildLinkCorpus,
+  buildQuery,
+  CorpusPage,
+  draftParagraphs,
+  draftText,
+  explainMatch,
+  LinkCorpus,
+  LinkPlacement,
+  LinkQuery,
+  linkedUrls,
+  pageLabel,
+  QueryTerm,
+  rankPages,
+  RankedPage,
+  suggestPlacement,
+} from './recommender';
+
+export * from './content-index';
+export * from './recommender';
+export * from './insertion';
+
+export interface RecommendOptions extends LinkQuery {
+  maxResults?: number;
+  // Rerank the best lexical matches by embedding similarity
+  embeddings?: boolean;
+  embeddingModel?: string;
+  // URLs never to suggest, such as the page being written
+  excludeUrls?: string[];
+}
+
+export interface InsertLinksOptions {
+  topic?: string;
+  keywords?: string[];
+  maxLinks: number;
+  maxPerParagraph?: number;
+  embeddings?: boolean;
+  excludeUrls?: string[];
+}
+
+export interface LinkRecommendation {
+  url: string;
+  title: string;
+  // Final score, 0-1
+  score: number;
+  // BM25 relative to the best match, 0-1
+  lexicalScore: number;
+  // Cosine similarity of embeddings, when used
+  semanticScore?: number;
+  anchorText: string;
+  // Where the link fits in the draft; null without a draft
+  placement: LinkPlacement | null;
+  reasons: string[];
+}
+
+export interface LinkRecommendations {
+  links: LinkRecommendation[];
+  method: 'bm25' | 'bm25+embeddings';
+  index: ContentIndexStatus;
+}
+
+const DEFAULT_MAX_RESULTS = 5;
+// Lexical candidates reranked by embeddings
+const RERANK_CANDIDATES = 50;
+// Weight of embedding similarity in the final score
+const EMBEDDING_WEIGHT = 0.5;
+// Candidates considered per link to insert, since not all fit the text
+const CANDIDATES_PER_LINK = 3;
+const DEFAULT_LINKS_PER_PARAGRAPH = 1;
+// Characters of page and draft text sent for embedding
+const EMBEDDING_TEXT_LIMIT = 2000;
+
+const round = (value: number, digits = 3) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+// Corpora are rebuilt only when the inventory or the index changes
+const corpusCache = new Map<string, { version: string; corpus: LinkCorpus }>();
+
+async function corpusVersion(userId: string): Promise<string> {
+  const [pages, contents] = await Promise.all([
+    db.sitePage.aggregate({ where: { userId, removedAt: null }, _count: true, _max: { updatedAt: true } }),
+    db.sitePageContent.aggregate({ where: { userId }, _count: true, _max: { indexedAt: true } }),
+  ]);
+  return [
+    pages._count,
+    pages._max.updatedAt?.getTime() || 0,
+    contents._count,
+    contents._max.indexedAt?.getTime() || 0,
+  ].join(':');
+}
+
+/**
+ * The user's active pages with whatever text has been indexed for them
+ */
+async function loadLinkCorpus(userId: string): Promise<LinkCorpus> {
+  const version = await corpusVersion(userId);
+  const cached = corpusCache.get(userId);
+  if (cached && cached.version === version) {
+    return cached.corpus;
+  }
+
+  const pages = await db.sitePage.findMany({
+    where: { userId, removedAt: null },
+    select: {
+      id: true,
+      url: true,
+      content: { select: { title: true, description: true, headings: true, terms: true, length: true } },
+    },
+  });
+
+  const corpus = buildLinkCorpus(pages.map((page): CorpusPage => {
+    const content = page.content;
+    const indexed = Boolean(content && (content.title || content.length > 0));
+    return {
+      id: page.id,
+      url: page.url,
+      title: content?.title || '',
+      description: content?.description || '',
+      headings: Array.isArray(content?.headings) ? content.headings.map(String) : [],
+      terms: indexed ? (content?.terms as Record<string, number>) : {},
+      length: content?.length || 0,
+      indexed,
+    };
+  }));
+
+  corpusCache.set(userId, { version, corpus });
+  return corpus;
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+const pageEmbeddingText = (page: CorpusPage) =>
+  [pageLabel(page), page.description, ...page.headings].join('\n').slice(0, EMBEDDING_TEXT_LIMIT);
+
+/**
+ * Embedding similarity of each candidate to the query. Page embeddings are
+ * stored with the index and reused until the page is refetched.
+ * @returns Similarity by page id, or null when embeddings are unavailable
+ */
+async function semanticScores(
+  candidates: RankedPage[],
+  query: LinkQuery,
+  model?: string
+): Promise<Map<string, number> | null> {
+  const provider = getLLMProvider();
+  const modelKey = `${provider.name}:${model || 'default'}`;
+
+  try {
+    const stored = await db.sitePageContent.findMany({
+      where: { pageId: { in: candidates.map(candidate => candidate.doc.page.id) }, embeddingModel: modelKey },
+      select: { pageId: true, embedding: true },
+    });
+    const vectors = new Map<string, number[]>();
+    stored.forEach(row => {
+      if (Array.isArray(row.embedding)) {
+        vectors.set(row.pageId, row.embedding as number[]);
+      }
+    });
+
+    const missing = candidates.map(candidate => candidate.doc.page).filter(page => !vectors.has(page.id));
+    const queryText = [query.topic, ...(query.keywords || []), query.content ? draftText(query.content) : '']
+      .filter(Boolean)
+      .join('\n')
+      .slice(0, EMBEDDING_TEXT_LIMIT);
+    const embedded = await provider.embed([queryText, ...missing.map(pageEmbeddingText)], {
+      model,
+      task: 'internal-links',
+    });
+    const [queryVector, ...pageVectors] = embedded;
+
+    await Promise.all(missing.map(async (page, index) => {
+      vectors.set(page.id, pageVectors[index]);
+      // Pages without indexed text get a fresh embedding once they are fetched
+      if (page.indexed) {
+        await db.sitePageContent.update({
+          where: { pageId: page.id },
+          data: { embedding: pageVectors[index], embeddingModel: modelKey },
+        });
+      }
+    }));
+
+    return new Map(candidates.map(candidate => {
+      const vector = vectors.get(candidate.doc.page.id);
+      return [candidate.doc.page.id, vector ? Math.max(0, cosine(queryVector, vector)) : 0];
+    }));
+  } catch (error) {
+    // BM25 alone still gives usable recommendations
+    console.error('Internal link embeddings failed, ranking lexically:', error);
+    return null;
+  }
+}
+
+/**
+ * Links already in a draft, made absolute against the user's site
+ */
+function resolveLinkedUrls(content: string, corpus: LinkCorpus): string[] {
+  const base = corpus.docs[0]?.page.url;
+  return linkedUrls(content).map(href => {
+    try {
+      return new URL(href, base).toString();
+    } catch {
+      return href;
+    }
+  });
+}
+
+/**
+ * Score the user's pages for a query, best first, with the corpus they came from
+ */
+async function rankLinkTargets(userId: string, options: RecommendOptions, limit: number) {
+  if ((await db.sitePage.count({ where: { userId, removedAt: null } })) === 0) {
+    // First use: build the inventory the recommendations come from
+    await refreshSitemapInventory(userId);
+  }
+
+  const index = await getContentIndexStatus(userId);
+  if (index.pending > 0) {
+    // Pages are ranked on what is indexed so far; the rest catch up in the background
+    indexSitePages(userId).catch(error => console.error(`Error indexing pages for user ${userId}:`, error));
+  }
+
+  const corpus = await loadLinkCorpus(userId);
+  const exclude = new Set([
+    ...(options.excludeUrls || []),
+    ...(options.content ? resolveLinkedUrls(options.content, corpus) : []),
+  ]);
+  const terms = buildQuery(corpus, options);
+  const ranked = rankPages(corpus, terms, exclude, options.embeddings ? Math.max(RERANK_CANDIDATES, limit) : limit);
+
+  const semantic = options.embeddings && ranked.length > 0
+    ? await semanticScores(ranked, options, options.embeddingModel)
+    : null;
+
+  const scored = ranked
+    .map(candidate => {
+      const semanticScore = semantic?.get(candidate.doc.page.id);
+      const score = semanticScore === undefined
+        ? candidate.lexicalScore
+        : (1 - EMBEDDING_WEIGHT) * candidate.lexicalScore + EMBEDDING_WEIGHT * semanticScore;
+      return { candidate, semanticScore, score };
+    })
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+
+  return { corpus, terms, index, scored, method: semantic ? 'bm25+embeddings' as const : 'bm25' as const };
+}
+
+const matchReasons = (doc: RankedPage['doc'], terms: Map<string, QueryTerm>, semanticScore?: number) => {
+  const reasons = explainMatch(doc, terms);
+  if (semanticScore !== undefined) {
+    reasons.push(`Semantic similarity ${round(semanticScore, 2)}`);
+  }
+  return reasons;
+};
+
+/**
+ * Rank the user's pages as internal link targets for a topic or draft
+ */
+export async function recommendInternalLinks(userId: string, options: RecommendOptions): Promise<LinkRecommendations> {
+  const maxResults = options.maxResults || DEFAULT_MAX_RESULTS;
+  const { corpus, terms, index, scored, method } = await rankLinkTargets(userId, options, maxResults);
+
+  const paragraphs = options.content ? draftParagraphs(options.content) : [];
+  const links = scored.map(({ candidate, semanticScore, score }): LinkRecommendation => {
+    const { page } = candidate.doc;
+    const placement = suggestPlacement(corpus, candidate.doc, paragraphs);
+
+    return {
+      url: page.url,
+      title: page.title || pageLabel(page),
+      score: round(score),
+      lexicalScore: candidate.lexicalScore,
+      ...(semanticScore !== undefined ? { semanticScore: round(semanticScore) } : {}),
+      anchorText: placement?.anchorText || pageLabel(page),
+      placement,
+      reasons: matchReasons(candidate.doc, terms, semanticScore),
+    };
+  });
+
+  return { links, method, index };
+}
+
+/**
+ * Link up to `maxLinks` of the user's pages from an article's paragraphs.
+ * Headings and existing links are never touched, each page is linked at
+ * most once and each paragraph gets at most `maxPerParagraph` links,
+ * counting the ones it already has.
+ */
+export async function insertInternalLinks(
+  userId: string,
+  content: string,
+  options: InsertLinksOptions
+): Promise<{ content: string; links: InsertedLink[] }> {
+  const maxPerParagraph = options.maxPerParagraph || DEFAULT_LINKS_PER_PARAGRAPH;
+  const { corpus, terms, scored } = await rankLinkTargets(
+    userId,
+    { ...options, content },
+    options.maxLinks * CANDIDATES_PER_LINK
+  );
+
+  const paragraphs = draftParagraphs(content);
+  const map = mapParagraphs(content);
+  const linkCounts = new Map(map.linkCounts);
+  const links: InsertedLink[] = [];
+
+  for (const { candidate, semanticScore, score } of scored) {
+    if (links.length >= options.maxLinks) break;
+
+    const open = paragraphs.filter(paragraph => (linkCounts.get(paragraph.index) || 0) < maxPerParagraph);
+    const placement = suggestPlacement(corpus, candidate.doc, open);
+    // Only link words the article already uses
+    if (!placement?.anchorInText || !locateAnchor(content, map, placement.paragraphIndex, placement.anchorText)) {
+      continue;
+    }
+
+    linkCounts.set(placement.paragraphIndex, (linkCounts.get(placement.paragraphIndex) || 0) + 1);
+    links.push({
+      id: randomUUID(),
+      url: candidate.doc.page.url,
+      anchorText: placement.anchorText,
+      paragraphIndex: placement.paragraphIndex,
+      score: round(score),
+      reasons: matchReasons(candidate.doc, terms, semanticScore),
+    });
+  }
+
+  const { html, applied } = applyLinkInsertions(content, links);
+  return { content: html, links: links.filter(link => applied.includes(link)) };
+}
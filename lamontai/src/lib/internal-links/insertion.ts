@@ -0,0 +1,194 @@
+/**
+ * Inserting internal links into article HTML. Paragraphs are counted the way
+ * ./recommender counts them (top-level <p> and <li> elements), so a
+ * placement's paragraph index points at the same element here. Inserted
+ * links carry a `data-link-id` attribute until they are accepted or
+ * rejected. Kept free of server imports so the dashboard can share the types.
+ */
+
+import { escapeXml } from '../html-tree';
+
+export interface InsertedLink {
+  // Also the link's data-link-id in the article HTML
+  id: string;
+  url: string;
+  anchorText: string;
+  paragraphIndex: number;
+  score: number;
+  reasons: string[];
+}
+
+export interface LinkInsertion {
+  id: string;
+  url: string;
+  anchorText: string;
+  paragraphIndex: number;
+}
+
+interface TextSlot {
+  paragraphIndex: number;
+  // Offsets of the raw text token in the HTML
+  start: number;
+  end: number;
+}
+
+export interface ParagraphMap {
+  slots: TextSlot[];
+  // Links already in each paragraph
+  linkCounts: Map<number, number>;
+}
+
+const VOID_TAGS = new Set(['br', 'hr', 'img', 'meta', 'link', 'input', 'source', 'wbr']);
+const SKIPPED_TAGS = new Set(['script', 'style', 'head', 'noscript', 'template']);
+// Text inside these never becomes an anchor
+const NO_LINK_TAGS = new Set(['a', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'code', 'pre', 'button']);
+
+const TOKEN_PATTERN = /<!--[\s\S]*?-->|<!doctype[^>]*>|<\/?([a-z][a-z0-9]*)([^>]*)>|[^<]+|</gi;
+
+/**
+ * The linkable text of each paragraph and how many links it already has
+ */
+export function mapParagraphs(html: string): ParagraphMap {
+  const slots: TextSlot[] = [];
+  const linkCounts = new Map<number, number>();
+  const stack: string[] = [];
+  // Stack depth of the open paragraph, and its index
+  let paragraphDepth = -1;
+  let paragraphIndex = -1;
+  let skipUntil: string | null = null;
+  let match: RegExpExecArray | null;
+
+  TOKEN_PATTERN.lastIndex = 0;
+  while ((match = TOKEN_PATTERN.exec(html))) {
+    const [token, rawTag, rawAttrs = ''] = match;
+
+    if (skipUntil) {
+      if (rawTag?.toLowerCase() === skipUntil && token.startsWith('</')) {
+        skipUntil = null;
+      }
+      continue;
+    }
+
+    if (!rawTag) {
+      const linkable = paragraphDepth >= 0 && !stack.slice(paragraphDepth).some(tag => NO_LINK_TAGS.has(tag));
+      if (linkable && !token.startsWith('<')) {
+        slots.push({ paragraphIndex, start: match.index, end: match.index + token.length });
+      }
+      continue;
+    }
+
+    const tag = rawTag.toLowerCase();
+    if (token.startsWith('</')) {
+      const index = stack.lastIndexOf(tag);
+      if (index >= 0) {
+        stack.length = index;
+        if (paragraphDepth >= stack.length) {
+          paragraphDepth = -1;
+        }
+      }
+      continue;
+    }
+
+    if (SKIPPED_TAGS.has(tag)) {
+      if (!token.endsWith('/>')) {
+        skipUntil = tag;
+      }
+      continue;
+    }
+
+    if (tag === 'a' && paragraphDepth >= 0 && /\bhref\s*=/i.test(rawAttrs)) {
+      linkCounts.set(paragraphIndex, (linkCounts.get(paragraphIndex) || 0) + 1);
+    }
+    if (VOID_TAGS.has(tag) || token.endsWith('/>')) {
+      continue;
+    }
+    if ((tag === 'p' || tag === 'li') && paragraphDepth < 0) {
+      paragraphDepth = stack.length;
+      paragraphIndex++;
+    }
+    stack.push(tag);
+  }
+
+  return { slots, linkCounts };
+}
+
+const isWordChar = (char: string | undefined) => Boolean(char && /[\p{L}\p{N}]/u.test(char));
+
+/**
+ * Where the anchor text occurs as whole words in a paragraph's linkable text
+ * @returns Offsets in the HTML, or null when the words are split by markup
+ */
+export function locateAnchor(
+  html: string,
+  map: ParagraphMap,
+  paragraphIndex: number,
+  anchorText: string
+): { start: number; end: number } | null {
+  for (const slot of map.slots.filter(candidate => candidate.paragraphIndex === paragraphIndex)) {
+    const raw = html.slice(slot.start, slot.end);
+    for (const needle of new Set([anchorText, escapeXml(anchorText)])) {
+      let from = 0;
+      let index: number;
+      while ((index = raw.indexOf(needle, from)) >= 0) {
+        if (!isWordChar(raw[index - 1]) && !isWordChar(raw[index + needle.length])) {
+          return { start: slot.start + index, end: slot.start + index + needle.length };
+        }
+        from = index + 1;
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Wrap each located anchor in a link; insertions that cannot be placed or
+ * overlap an earlier one are left out
+ * @returns The new HTML and the insertions that were applied
+ */
+export function applyLinkInsertions(
+  html: string,
+  insertions: LinkInsertion[]
+): { html: string; applied: LinkInsertion[] } {
+  const map = mapParagraphs(html);
+  const located: Array<{ insertion: LinkInsertion; start: number; end: number }> = [];
+
+  insertions.forEach(insertion => {
+    const range = locateAnchor(html, map, insertion.paragraphIndex, insertion.anchorText);
+    if (range && !located.some(other => range.start < other.end && other.start < range.end)) {
+      located.push({ insertion, ...range });
+    }
+  });
+
+  let result = html;
+  [...located].sort((a, b) => b.start - a.start).forEach(({ insertion, start, end }) => {
+    const link = `<a href="${escapeXml(insertion.url)}" data-link-id="${escapeXml(insertion.id)}">${result.slice(start, end)}</a>`;
+    result = result.slice(0, start) + link + result.slice(end);
+  });
+
+  return { html: result, applied: located.map(({ insertion }) => insertion) };
+}
+
+const linkPattern = (id: string) =>
+  new RegExp(`<a\\s[^>]*data-link-id=["']${id.replace(/[^\w-]/g, '')}["'][^>]*>([\\s\\S]*?)</a>`, 'i');
+
+/**
+ * Whether an inserted link is still in the HTML
+ */
+export function hasInsertedLink(html: string, id: string): boolean {
+  return linkPattern(id).test(html);
+}
+
+/**
+ * Keep an inserted link as a plain link, dropping its review marker
+ */
+export function acceptInsertedLink(html: string, id: string): string {
+  return html.replace(linkPattern(id), match => match.replace(/\s+data-link-id=["'][^"']*["']/i, ''));
+}
+
+/**
+ * Remove an inserted link, leaving its anchor text in place
+ */
+export function rejectInsertedLink(html: string, id: string): string {
+  return html.replace(linkPattern(id), (_, text: string) => text);
+}
+
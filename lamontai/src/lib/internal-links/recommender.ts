@@ -0,0 +1,410 @@
+/**
+ * BM25F ranking of the user's pages against a topic or draft, and the
+ * anchor text and paragraph each link fits best. Pure functions over a
+ * corpus built from the content index; loading and caching live in ./index.
+ */
+
+import { lemmaTokens, lemmaWords } from '../keywords/lemmatize';
+import { HtmlNode, parseHtml, textContent } from '../html-tree';
+
+/**
+ * A page as the recommender sees it
+ */
+export interface CorpusPage {
+  // SitePage id
+  id: string;
+  url: string;
+  title: string;
+  description: string;
+  headings: string[];
+  terms: Record<string, number>;
+  length: number;
+  // False until the page's text has been fetched; only its URL is known
+  indexed: boolean;
+}
+
+interface CorpusDoc {
+  page: CorpusPage;
+  // Field-weighted term frequencies
+  weights: Map<string, number>;
+  title: Set<string>;
+  headings: Set<string>;
+  url: Set<string>;
+  length: number;
+}
+
+export interface LinkCorpus {
+  docs: CorpusDoc[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+export interface LinkQuery {
+  topic?: string;
+  keywords?: string[];
+  // Draft article, as HTML or plain text
+  content?: string;
+}
+
+export interface QueryTerm {
+  weight: number;
+  // The word as written, for explanations
+  word: string;
+}
+
+export interface RankedPage {
+  doc: CorpusDoc;
+  bm25: number;
+  // bm25 relative to the best match, 0-1
+  lexicalScore: number;
+}
+
+export interface DraftParagraph {
+  // Position among the draft's paragraphs and list items
+  index: number;
+  text: string;
+}
+
+export interface LinkPlacement {
+  anchorText: string;
+  paragraphIndex: number;
+  paragraph: string;
+  // False when no phrase in the paragraph fits and the anchor is the page title
+  anchorInText: boolean;
+}
+
+// How much a term in each field counts towards a match
+const FIELD_WEIGHTS = { title: 3, headings: 2, url: 2, description: 1.5, body: 1 };
+// BM25 term saturation and length normalization
+const K1 = 1.2;
+const B = 0.75;
+// Draft terms added to the query
+const DRAFT_QUERY_TERMS = 25;
+// Longest suggested anchor, in words
+const MAX_ANCHOR_WORDS = 6;
+// A one-word anchor has to be at least this rare across the site
+const MIN_SINGLE_WORD_IDF = 1.5;
+
+const WORD_PATTERN = /[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu;
+
+const round = (value: number, digits = 3) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Words of a URL path: "/blog/best-coffee-grinders.html" gives "blog best coffee grinders"
+ */
+export function urlWords(url: string): string {
+  try {
+    return decodeURIComponent(new URL(url).pathname)
+      .replace(/\.(html?|php|aspx?)$/i, '')
+      .split(/[/\-_.]+/)
+      .join(' ')
+      .trim();
+  } catch {
+    return '';
+  }
+}
+
+/**
+ * A page title without the site name: "Burr grinders explained | Acme" gives "Burr grinders explained"
+ */
+export function cleanTitle(title: string): string {
+  const [first] = title.split(/\s+[|–—-]\s+/);
+  return (first.split(/\s+/).length >= 2 ? first : title).trim();
+}
+
+/**
+ * Name to show for a page: its title without the site name, or the last
+ * segment of its URL until the page has been indexed
+ */
+export function pageLabel(page: Pick<CorpusPage, 'url' | 'title'>): string {
+  if (page.title) {
+    return cleanTitle(page.title);
+  }
+  try {
+    const { origin, hostname, pathname } = new URL(page.url);
+    const segment = pathname.split('/').filter(Boolean).pop();
+    return segment ? urlWords(`${origin}/${segment}`) : hostname;
+  } catch {
+    return page.url;
+  }
+}
+
+const countTokens = (text: string, into: Map<string, number>, weight: number) => {
+  const tokens = lemmaTokens(text);
+  tokens.forEach(token => into.set(token, (into.get(token) || 0) + weight));
+  return tokens;
+};
+
+/**
+ * Build the term statistics BM25 needs from the indexed pages
+ */
+export function buildLinkCorpus(pages: CorpusPage[]): LinkCorpus {
+  const documentFrequency = new Map<string, number>();
+
+  const docs = pages.map(page => {
+    const weights = new Map<string, number>();
+    const title = countTokens(page.title, weights, FIELD_WEIGHTS.title);
+    const headings = countTokens(page.headings.join(' \n '), weights, FIELD_WEIGHTS.headings);
+    const url = countTokens(urlWords(page.url), weights, FIELD_WEIGHTS.url);
+    const description = countTokens(page.description, weights, FIELD_WEIGHTS.description);
+    Object.entries(page.terms).forEach(([term, count]) => weights.set(term, (weights.get(term) || 0) + count * FIELD_WEIGHTS.body));
+
+    weights.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+
+    return {
+      page,
+      weights,
+      title: new Set(title),
+      headings: new Set(headings),
+      url: new Set(url),
+      length: page.length
+        + title.length * FIELD_WEIGHTS.title
+        + headings.length * FIELD_WEIGHTS.headings
+        + url.length * FIELD_WEIGHTS.url
+        + description.length * FIELD_WEIGHTS.description,
+    };
+  });
+
+  const averageLength = docs.reduce((sum, doc) => sum + doc.length, 0) / (docs.length || 1);
+  return { docs, documentFrequency, averageLength: averageLength || 1 };
+}
+
+/**
+ * Inverse document frequency of a term (BM25 variant, always positive)
+ */
+export function idf(corpus: LinkCorpus, term: string): number {
+  const n = corpus.docs.length;
+  const df = corpus.documentFrequency.get(term) || 0;
+  return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+}
+
+/**
+ * Plain text of a draft given as HTML or text
+ */
+export function draftText(content: string): string {
+  return /<[a-z][^>]*>/i.test(content) ? textContent(parseHtml(content)) : content;
+}
+
+/**
+ * Query terms: the topic and keywords in full, plus the terms that set the
+ * draft apart from the rest of the site
+ */
+export function buildQuery(corpus: LinkCorpus, query: LinkQuery): Map<string, QueryTerm> {
+  const terms = new Map<string, QueryTerm>();
+  const add = (text: string, weight: number) => {
+    lemmaWords(text).forEach(({ word, lemma }) => {
+      const current = terms.get(lemma);
+      if (!current || current.weight < weight) {
+        terms.set(lemma, { weight, word: current?.word || word });
+      }
+    });
+  };
+
+  add(query.topic || '', 2);
+  (query.keywords || []).forEach((keyword, index) => add(keyword, index === 0 ? 2 : 1.5));
+
+  if (query.content) {
+    const counts = new Map<string, { count: number; word: string }>();
+    lemmaWords(draftText(query.content)).forEach(({ word, lemma }) => {
+      const entry = counts.get(lemma);
+      counts.set(lemma, { count: (entry?.count || 0) + 1, word: entry?.word || word });
+    });
+
+    const scored = Array.from(counts.entries())
+      .filter(([lemma, { count }]) => count > 1 && lemma.length > 2 && !/^\d+$/.test(lemma))
+      .map(([lemma, { count, word }]) => ({ lemma, word, score: Math.log(1 + count) * idf(corpus, lemma) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, DRAFT_QUERY_TERMS);
+    const best = scored[0]?.score || 1;
+    scored.forEach(({ lemma, word, score }) => {
+      if (!terms.has(lemma)) {
+        terms.set(lemma, { weight: round(score / best, 2), word });
+      }
+    });
+  }
+
+  return terms;
+}
+
+/**
+ * Score every page against the query with BM25F
+ * @param exclude - URLs never to return (the draft itself, pages it already links to)
+ */
+export function rankPages(
+  corpus: LinkCorpus,
+  terms: Map<string, QueryTerm>,
+  exclude: Set<string> = new Set(),
+  limit = 50
+): RankedPage[] {
+  const scored = corpus.docs
+    .filter(doc => !exclude.has(doc.page.url))
+    .map(doc => {
+      const norm = K1 * (1 - B + B * (doc.length / corpus.averageLength));
+      let bm25 = 0;
+      terms.forEach(({ weight }, term) => {
+        const tf = doc.weights.get(term);
+        if (tf) {
+          bm25 += weight * idf(corpus, term) * ((tf * (K1 + 1)) / (tf + norm));
+        }
+      });
+      return { doc, bm25 };
+    })
+    .filter(result => result.bm25 > 0)
+    .sort((a, b) => b.bm25 - a.bm25)
+    .slice(0, limit);
+
+  const best = scored[0]?.bm25 || 1;
+  return scored.map(result => ({ ...result, bm25: round(result.bm25), lexicalScore: round(result.bm25 / best) }));
+}
+
+/**
+ * Why a page matched, in words
+ */
+export function explainMatch(doc: CorpusDoc, terms: Map<string, QueryTerm>): string[] {
+  const matched = (field: Set<string>) =>
+    Array.from(terms.entries()).filter(([term]) => field.has(term)).map(([, { word }]) => `"${word}"`);
+
+  const reasons: string[] = [];
+  const title = matched(doc.title);
+  const headings = matched(doc.headings).filter(word => !title.includes(word));
+  const url = matched(doc.url).filter(word => !title.includes(word));
+  if (title.length > 0) reasons.push(`Title matches ${title.join(', ')}`);
+  if (headings.length > 0) reasons.push(`Headings mention ${headings.join(', ')}`);
+  if (url.length > 0) reasons.push(`URL contains ${url.join(', ')}`);
+
+  const body = Array.from(terms.entries())
+    .map(([term, { word }]) => ({ word, count: doc.page.terms[term] || 0 }))
+    .filter(({ count }) => count > 0)
+    .sort((a, b) => b.count - a.count)
+    .slice(0, 3);
+  if (body.length > 0) {
+    reasons.push(`Body text covers ${body.map(({ word, count }) => `"${word}" (${count}×)`).join(', ')}`);
+  }
+  if (!doc.page.indexed) {
+    reasons.push('Matched on its URL only; the page text has not been indexed yet');
+  }
+
+  return reasons;
+}
+
+/**
+ * URLs a draft already links to
+ */
+export function linkedUrls(content: string): string[] {
+  return Array.from(content.matchAll(/<a\s[^>]*href=["']([^"']+)["']/gi)).map(match => match[1]);
+}
+
+/**
+ * The draft's paragraphs and list items in document order; headings are
+ * never link targets. Plain-text drafts are split on blank lines.
+ */
+export function draftParagraphs(content: string): DraftParagraph[] {
+  if (!/<[a-z][^>]*>/i.test(content)) {
+    return content
+      .split(/\n\s*\n/)
+      .map(text => text.replace(/\s+/g, ' ').trim())
+      .filter(Boolean)
+      .map((text, index) => ({ index, text }));
+  }
+
+  const paragraphs: DraftParagraph[] = [];
+  const walk = (nodes: HtmlNode[]) => {
+    nodes.forEach(node => {
+      if (node.type !== 'element') return;
+      if (node.tag === 'p' || node.tag === 'li') {
+        paragraphs.push({ index: paragraphs.length, text: textContent(node.children).trim() });
+        return;
+      }
+      walk(node.children);
+    });
+  };
+  walk(parseHtml(content));
+  return paragraphs;
+}
+
+interface AnchorCandidate {
+  text: string;
+  score: number;
+}
+
+/**
+ * The phrase in a paragraph that best describes the target page: a run of
+ * up to six words that starts and ends on words from the page's title,
+ * headings or URL
+ */
+function bestAnchor(text: string, targetTerms: Map<string, number>): AnchorCandidate | null {
+  const words = Array.from(text.matchAll(WORD_PATTERN)).map(match => ({
+    start: match.index || 0,
+    end: (match.index || 0) + match[0].length,
+    lemma: lemmaTokens(match[0])[0],
+  }));
+
+  let best: AnchorCandidate | null = null;
+  for (let i = 0; i < words.length; i++) {
+    if (!words[i].lemma || !targetTerms.has(words[i].lemma)) continue;
+    for (let j = i; j < Math.min(words.length, i + MAX_ANCHOR_WORDS); j++) {
+      // Anchors stay within one clause
+      if (j > i && /[.!?;:,()[\]]/.test(text.slice(words[j - 1].end, words[j].start))) break;
+      if (!words[j].lemma || !targetTerms.has(words[j].lemma)) continue;
+
+      const window = words.slice(i, j + 1);
+      const matched = new Set(window.map(word => word.lemma).filter(lemma => lemma && targetTerms.has(lemma)));
+      if (matched.size === 1 && (targetTerms.get(Array.from(matched)[0]) || 0) < MIN_SINGLE_WORD_IDF) continue;
+
+      const filler = window.filter(word => word.lemma && !targetTerms.has(word.lemma)).length;
+      const score = Array.from(matched).reduce((sum, lemma) => sum + (targetTerms.get(lemma) || 0), 0) - 0.15 * filler;
+      if (!best || score > best.score) {
+        best = { text: text.slice(words[i].start, words[j].end), score };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Where a link to the page fits best in the draft, and the words to link
+ */
+export function suggestPlacement(
+  corpus: LinkCorpus,
+  doc: CorpusDoc,
+  paragraphs: DraftParagraph[]
+): LinkPlacement | null {
+  if (paragraphs.length === 0) {
+    return null;
+  }
+
+  // Title words say most about the page; headings and URL words support them
+  const targetTerms = new Map<string, number>();
+  [doc.url, doc.headings, doc.title].forEach((field, index) => {
+    field.forEach(term => targetTerms.set(term, idf(corpus, term) * (index === 2 ? 1.5 : 1)));
+  });
+
+  let best: { paragraph: DraftParagraph; anchor: AnchorCandidate | null; score: number } | null = null;
+  paragraphs.forEach(paragraph => {
+    const anchor = bestAnchor(paragraph.text, targetTerms);
+    // Paragraphs about the page's subject are better homes for the link
+    const context = new Set(lemmaTokens(paragraph.text));
+    const overlap = Array.from(context).reduce(
+      (sum, term) => sum + (doc.weights.has(term) ? idf(corpus, term) : 0),
+      0
+    );
+    const score = (anchor?.score || 0) * 2 + 0.25 * overlap;
+    const better = !best
+      || (anchor && !best.anchor)
+      || (Boolean(anchor) === Boolean(best.anchor) && score > best.score);
+    if (score > 0 && better) {
+      best = { paragraph, anchor, score };
+    }
+  });
+
+  if (!best) {
+    return null;
+  }
+  const { paragraph, anchor } = best as { paragraph: DraftParagraph; anchor: AnchorCandidate | null };
+  return {
+    anchorText: anchor ? anchor.text : pageLabel(doc.page),
+    paragraphIndex: paragraph.index,
+    paragraph: paragraph.text,
+    anchorInText: Boolean(anchor),
+  };
+}
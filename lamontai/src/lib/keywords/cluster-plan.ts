@@ -0,0 +1,104 @@
+import { db } from '../db';
+import { Errors } from '../error-handler';
+import { getContentPlan } from '../content-plans';
+import { scheduleDates } from '../content-plan-generator';
+import type { ClusterRole } from './clustering';
+import type { KeywordIntent } from './types';
+
+/**
+ * The parts of a keyword cluster an article is planned from
+ */
+export interface ClusterPlanInput {
+  headTerm: string;
+  primaryKeyword: string;
+  secondaryKeywords: string[];
+  intent?: KeywordIntent;
+  role?: ClusterRole;
+}
+
+export interface ClusterPlanOptions {
+  // Add to this plan instead of creating a new one
+  planId?: string;
+  title?: string;
+  // First publishing day; defaults to tomorrow
+  startDate?: Date;
+}
+
+// Words kept lowercase inside a title
+const MINOR_WORDS = new Set(['a', 'an', 'and', 'as', 'at', 'by', 'for', 'in', 'of', 'on', 'or', 'the', 'to', 'vs', 'with']);
+
+const titleCase = (text: string) => text
+  .split(' ')
+  .map((word, index) => (index > 0 && MINOR_WORDS.has(word) ? word : word.charAt(0).toUpperCase() + word.slice(1)))
+  .join(' ');
+
+/**
+ * Working title for a cluster's article; pillars get a comprehensive guide
+ */
+export function clusterArticleTitle(cluster: ClusterPlanInput): string {
+  const keyword = titleCase(cluster.primaryKeyword);
+  return cluster.role === 'pillar' ? `${keyword}: The Complete Guide` : keyword;
+}
+
+/**
+ * Turn keyword clusters into planned articles, one per cluster. Pillars are
+ * scheduled first so supporting articles can link to them.
+ * @throws ApiError (404) when `planId` is not one of the user's plans
+ */
+export async function createPlanFromClusters(
+  userId: string,
+  clusters: ClusterPlanInput[],
+  options: ClusterPlanOptions = {}
+) {
+  const startDate = new Date(options.startDate || Date.now() + 24 * 60 * 60 * 1000);
+  startDate.setHours(9, 0, 0, 0);
+
+  let planId = options.planId;
+  let existingKeywords = new Set<string>();
+  if (planId) {
+    const plan = await db.contentPlan.findFirst({
+      where: { id: planId, userId },
+      include: { articles: { select: { targetKeyword: true } } },
+    });
+    if (!plan) {
+      throw Errors.notFound('Content plan');
+    }
+    existingKeywords = new Set(plan.articles.map(article => (article.targetKeyword || '').toLowerCase()));
+  }
+
+  const rank = (cluster: ClusterPlanInput) => (cluster.role === 'pillar' ? 0 : cluster.role === 'supporting' ? 1 : 2);
+  const accepted = clusters
+    .map((cluster, index) => ({ cluster, index }))
+    .filter(({ cluster }) => !existingKeywords.has(cluster.primaryKeyword.toLowerCase()))
+    .sort((a, b) => rank(a.cluster) - rank(b.cluster) || a.index - b.index)
+    .map(({ cluster }) => cluster);
+  const dates = scheduleDates(accepted.length, startDate);
+
+  const articles = accepted.map((cluster, index) => ({
+    userId,
+    title: clusterArticleTitle(cluster),
+    status: 'planned',
+    keywords: [cluster.primaryKeyword, ...cluster.secondaryKeywords].join(', '),
+    targetKeyword: cluster.primaryKeyword,
+    intent: cluster.intent || 'informational',
+    scheduledFor: dates[index],
+  }));
+
+  if (planId) {
+    await db.article.createMany({ data: articles.map(article => ({ ...article, contentPlanId: planId })) });
+  } else {
+    const monthName = startDate.toLocaleString('en-US', { month: 'long', year: 'numeric' });
+    const pillars = accepted.filter(cluster => cluster.role === 'pillar').length;
+    const plan = await db.contentPlan.create({
+      data: {
+        userId,
+        title: options.title || `${monthName} keyword cluster plan`,
+        description: `${articles.length} articles from keyword clusters${pillars ? `, ${pillars} of them pillar pages` : ''}`,
+        articles: { create: articles },
+      },
+    });
+    planId = plan.id;
+  }
+
+  return getContentPlan(userId, planId);
+}
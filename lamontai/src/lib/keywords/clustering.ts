@@ -0,0 +1,386 @@
+/**
+ * Keyword clustering for pillar/cluster planning. Keywords are compared by
+ * IDF-weighted overlap of their lemmas, optionally blended with embedding
+ * similarity, and grouped greedily around the highest-volume keywords.
+ */
+
+import { getLLMProvider } from '../llm';
+import { lemmaWords } from './lemmatize';
+import { guessIntent, normalizeKeyword } from './normalize';
+import { KeywordIdea, KeywordIntent } from './types';
+
+export interface ClusterOptions {
+  // Minimum similarity (0-1) for a keyword to join a cluster
+  threshold?: number;
+  // Blend in embedding similarity from the LLM provider
+  embeddings?: boolean;
+  embeddingModel?: string;
+  // Secondary keywords reported per cluster
+  maxSecondary?: number;
+}
+
+export type ClusterRole = 'pillar' | 'supporting' | 'standalone';
+
+export interface ClusteredKeyword extends KeywordIdea {
+  // Similarity to the cluster as a whole
+  similarity: number;
+}
+
+export interface KeywordCluster {
+  id: string;
+  // The term most of the cluster's keywords share
+  headTerm: string;
+  primaryKeyword: string;
+  secondaryKeywords: string[];
+  keywords: ClusteredKeyword[];
+  intent: KeywordIntent;
+  totalVolume: number | null;
+  averageDifficulty: number | null;
+  // Pillar clusters anchor a topic; supporting clusters link up to `pillarId`
+  role: ClusterRole;
+  pillarId?: string;
+}
+
+export interface ClusteringResult {
+  clusters: KeywordCluster[];
+  method: 'lexical' | 'lexical+embeddings';
+  threshold: number;
+}
+
+const DEFAULT_THRESHOLD = 0.45;
+const DEFAULT_MAX_SECONDARY = 8;
+// Weight of embedding similarity when embeddings are used
+const EMBEDDING_WEIGHT = 0.5;
+// Clusters this similar (relative to the threshold) belong to the same topic
+const TOPIC_LINK_RATIO = 0.5;
+const MAX_MERGE_PASSES = 5;
+
+interface Item {
+  idea: KeywordIdea;
+  words: Array<{ word: string; lemma: string }>;
+  vector: Map<string, number>;
+  embedding?: number[];
+}
+
+interface WorkingCluster {
+  members: Item[];
+  centroid: Map<string, number>;
+  embedding?: number[];
+}
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+function sparseCosine(a: Map<string, number>, b: Map<string, number>): number {
+  const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+  let dot = 0;
+  small.forEach((value, key) => {
+    dot += value * (large.get(key) || 0);
+  });
+  const norm = (vector: Map<string, number>) => Math.sqrt(Array.from(vector.values()).reduce((sum, value) => sum + value * value, 0));
+  const denominator = norm(a) * norm(b);
+  return denominator ? dot / denominator : 0;
+}
+
+function denseCosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+function addInto(target: Map<string, number>, source: Map<string, number>): void {
+  source.forEach((value, key) => target.set(key, (target.get(key) || 0) + value));
+}
+
+function addDense(target: number[] | undefined, source: number[] | undefined): number[] | undefined {
+  if (!source) return target;
+  if (!target) return [...source];
+  return target.map((value, index) => value + source[index]);
+}
+
+function similarity(
+  a: { vector: Map<string, number>; embedding?: number[] },
+  b: { vector: Map<string, number>; embedding?: number[] }
+): number {
+  const lexical = sparseCosine(a.vector, b.vector);
+  if (!a.embedding || !b.embedding) {
+    return lexical;
+  }
+  return (1 - EMBEDDING_WEIGHT) * lexical + EMBEDDING_WEIGHT * Math.max(0, denseCosine(a.embedding, b.embedding));
+}
+
+const clusterView = (cluster: WorkingCluster) => ({ vector: cluster.centroid, embedding: cluster.embedding });
+
+/**
+ * Build lemma vectors weighted by how rare each lemma is across the keyword set
+ */
+function buildItems(ideas: KeywordIdea[]): Item[] {
+  const words = ideas.map(idea => {
+    const lemmas = lemmaWords(idea.keyword);
+    // Keywords made only of stopwords still need something to compare
+    return lemmas.length ? lemmas : idea.keyword.split(' ').map(word => ({ word, lemma: word }));
+  });
+
+  const documentFrequency = new Map<string, number>();
+  words.forEach(list => new Set(list.map(({ lemma }) => lemma)).forEach(lemma => {
+    documentFrequency.set(lemma, (documentFrequency.get(lemma) || 0) + 1);
+  }));
+
+  return ideas.map((idea, index) => {
+    const vector = new Map<string, number>();
+    words[index].forEach(({ lemma }) => {
+      vector.set(lemma, Math.log(1 + ideas.length / (documentFrequency.get(lemma) || 1)));
+    });
+    return { idea, words: words[index], vector };
+  });
+}
+
+async function attachEmbeddings(items: Item[], model?: string): Promise<boolean> {
+  try {
+    const vectors = await getLLMProvider().embed(items.map(item => item.idea.keyword), {
+      model,
+      task: 'keyword-clustering',
+    });
+    items.forEach((item, index) => {
+      item.embedding = vectors[index];
+    });
+    return vectors.length === items.length;
+  } catch (error) {
+    // Lexical similarity alone still gives usable clusters
+    console.error('Keyword embeddings failed, clustering lexically:', error);
+    items.forEach(item => {
+      item.embedding = undefined;
+    });
+    return false;
+  }
+}
+
+function addMember(cluster: WorkingCluster, item: Item): void {
+  cluster.members.push(item);
+  addInto(cluster.centroid, item.vector);
+  cluster.embedding = addDense(cluster.embedding, item.embedding);
+}
+
+/**
+ * Assign each keyword, highest volume first, to the most similar cluster or
+ * start a new one, then merge clusters that ended up close to each other
+ */
+function groupItems(items: Item[], threshold: number): WorkingCluster[] {
+  const ordered = [...items].sort((a, b) =>
+    (b.idea.volume ?? -1) - (a.idea.volume ?? -1)
+    || a.words.length - b.words.length
+    || a.idea.keyword.localeCompare(b.idea.keyword)
+  );
+
+  const clusters: WorkingCluster[] = [];
+  ordered.forEach(item => {
+    let best: WorkingCluster | null = null;
+    let bestScore = threshold;
+    clusters.forEach(cluster => {
+      const score = similarity(item, clusterView(cluster));
+      if (score >= bestScore) {
+        best = cluster;
+        bestScore = score;
+      }
+    });
+
+    if (best) {
+      addMember(best, item);
+    } else {
+      const cluster: WorkingCluster = { members: [], centroid: new Map() };
+      addMember(cluster, item);
+      clusters.push(cluster);
+    }
+  });
+
+  for (let pass = 0; pass < MAX_MERGE_PASSES; pass++) {
+    let merged = false;
+    for (let i = 0; i < clusters.length; i++) {
+      for (let j = i + 1; j < clusters.length; j++) {
+        if (similarity(clusterView(clusters[i]), clusterView(clusters[j])) >= threshold) {
+          clusters[j].members.forEach(member => addMember(clusters[i], member));
+          clusters.splice(j, 1);
+          j--;
+          merged = true;
+        }
+      }
+    }
+    if (!merged) break;
+  }
+
+  return clusters;
+}
+
+/**
+ * The lemma n-gram (up to three words) shared by the most members, shown in
+ * the wording of the highest-volume member that uses it
+ */
+function pickHeadTerm(members: Item[]): string {
+  const counts = new Map<string, { members: number; volume: number; length: number; surface: string }>();
+
+  members.forEach(member => {
+    const seen = new Set<string>();
+    for (let size = 1; size <= 3; size++) {
+      for (let start = 0; start + size <= member.words.length; start++) {
+        const slice = member.words.slice(start, start + size);
+        const key = slice.map(({ lemma }) => lemma).join(' ');
+        if (seen.has(key)) continue;
+        seen.add(key);
+
+        const entry = counts.get(key) || { members: 0, volume: 0, length: size, surface: slice.map(({ word }) => word).join(' ') };
+        entry.members++;
+        entry.volume += member.idea.volume || 0;
+        counts.set(key, entry);
+      }
+    }
+  });
+
+  const [best] = Array.from(counts.values()).sort((a, b) =>
+    b.members - a.members || b.length - a.length || b.volume - a.volume || a.surface.localeCompare(b.surface)
+  );
+  return best?.surface || members[0].idea.keyword;
+}
+
+function describeCluster(cluster: WorkingCluster, maxSecondary: number): Omit<KeywordCluster, 'id' | 'role' | 'pillarId'> {
+  const view = clusterView(cluster);
+  const keywords: ClusteredKeyword[] = cluster.members.map(member => ({
+    ...member.idea,
+    similarity: round(similarity(member, view)),
+  }));
+
+  const hasVolume = keywords.some(keyword => typeof keyword.volume === 'number');
+  // Prefer volume, discounted by difficulty; without volumes, the most central keyword
+  const value = (keyword: ClusteredKeyword) => hasVolume
+    ? (keyword.volume || 0) * (1 - (keyword.difficulty ?? 50) / 200)
+    : keyword.similarity;
+
+  const ranked = [...keywords].sort((a, b) =>
+    value(b) - value(a) || a.keyword.length - b.keyword.length || a.keyword.localeCompare(b.keyword)
+  );
+  const [primary] = ranked;
+  const secondary = ranked
+    .slice(1)
+    .sort((a, b) => b.similarity - a.similarity || (b.volume || 0) - (a.volume || 0))
+    .slice(0, maxSecondary);
+
+  const intentCounts = new Map<KeywordIntent, number>();
+  keywords.forEach(keyword => {
+    const intent = keyword.intent || guessIntent(keyword.keyword);
+    intentCounts.set(intent, (intentCounts.get(intent) || 0) + (keyword.volume || 1));
+  });
+  const [intent] = Array.from(intentCounts.entries()).sort((a, b) => b[1] - a[1])[0];
+
+  const volumes = keywords.map(keyword => keyword.volume).filter((volume): volume is number => typeof volume === 'number');
+  const difficulties = keywords.map(keyword => keyword.difficulty).filter((difficulty): difficulty is number => typeof difficulty === 'number');
+
+  return {
+    headTerm: pickHeadTerm(cluster.members),
+    primaryKeyword: primary.keyword,
+    secondaryKeywords: secondary.map(keyword => keyword.keyword),
+    keywords: ranked,
+    intent,
+    totalVolume: volumes.length ? volumes.reduce((sum, volume) => sum + volume, 0) : null,
+    averageDifficulty: difficulties.length
+      ? Math.round(difficulties.reduce((sum, difficulty) => sum + difficulty, 0) / difficulties.length)
+      : null,
+  };
+}
+
+/**
+ * Link related clusters into topics and pick each topic's pillar: the
+ * cluster with the broadest head term, most demand and most links
+ */
+function assignRoles(clusters: KeywordCluster[], working: WorkingCluster[], threshold: number): void {
+  const linkThreshold = threshold * TOPIC_LINK_RATIO;
+  const parent = clusters.map((_, index) => index);
+  const find = (index: number): number => (parent[index] === index ? index : (parent[index] = find(parent[index])));
+  const degree = clusters.map(() => 0);
+
+  for (let i = 0; i < clusters.length; i++) {
+    for (let j = i + 1; j < clusters.length; j++) {
+      if (similarity(clusterView(working[i]), clusterView(working[j])) >= linkThreshold) {
+        parent[find(i)] = find(j);
+        degree[i]++;
+        degree[j]++;
+      }
+    }
+  }
+
+  const pillarScore = (index: number) => {
+    const cluster = clusters[index];
+    return Math.log1p(cluster.totalVolume ?? 0)
+      + Math.log1p(cluster.keywords.length) * 2
+      + degree[index]
+      - cluster.headTerm.split(' ').length;
+  };
+
+  const topics = new Map<number, number[]>();
+  clusters.forEach((_, index) => {
+    const root = find(index);
+    topics.set(root, [...(topics.get(root) || []), index]);
+  });
+
+  topics.forEach(indexes => {
+    if (indexes.length < 2) {
+      clusters[indexes[0]].role = 'standalone';
+      return;
+    }
+    const pillar = indexes.reduce((best, index) => (pillarScore(index) > pillarScore(best) ? index : best));
+    indexes.forEach(index => {
+      clusters[index].role = index === pillar ? 'pillar' : 'supporting';
+      if (index !== pillar) clusters[index].pillarId = clusters[pillar].id;
+    });
+  });
+
+  // With no linked topics, still suggest the strongest cluster as a pillar
+  if (clusters.length > 0 && !clusters.some(cluster => cluster.role === 'pillar')) {
+    const strongest = clusters.reduce((best, _, index) => (pillarScore(index) > pillarScore(best) ? index : best), 0);
+    clusters[strongest].role = 'pillar';
+  }
+}
+
+/**
+ * Group keywords into topic clusters, each with a head term, a primary
+ * keyword, secondary keywords and a pillar/supporting role
+ */
+export async function clusterKeywords(ideas: KeywordIdea[], options: ClusterOptions = {}): Promise<ClusteringResult> {
+  const threshold = options.threshold ?? DEFAULT_THRESHOLD;
+  const unique = new Map<string, KeywordIdea>();
+  ideas.forEach(idea => {
+    const keyword = normalizeKeyword(idea.keyword);
+    if (keyword && !unique.has(keyword)) unique.set(keyword, { ...idea, keyword });
+  });
+
+  const items = buildItems(Array.from(unique.values()));
+  const withEmbeddings = options.embeddings && items.length > 0 ? await attachEmbeddings(items, options.embeddingModel) : false;
+
+  const working = groupItems(items, threshold);
+  const described = working.map(cluster => describeCluster(cluster, options.maxSecondary ?? DEFAULT_MAX_SECONDARY));
+
+  // Largest demand first; ids follow that order
+  const order = described
+    .map((cluster, index) => ({ cluster, index }))
+    .sort((a, b) =>
+      (b.cluster.totalVolume ?? 0) - (a.cluster.totalVolume ?? 0)
+      || b.cluster.keywords.length - a.cluster.keywords.length
+      || a.cluster.headTerm.localeCompare(b.cluster.headTerm)
+    );
+
+  const clusters: KeywordCluster[] = order.map(({ cluster }, position) => ({
+    id: `cluster-${position + 1}`,
+    ...cluster,
+    role: 'standalone',
+  }));
+  assignRoles(clusters, order.map(({ index }) => working[index]), threshold);
+
+  return {
+    clusters,
+    method: withEmbeddings ? 'lexical+embeddings' : 'lexical',
+    threshold,
+  };
+}
@@ -0,0 +1,59 @@
+import { Errors } from '../error-handler';
+import { parseCsv } from './csv';
+import { normalizeIdea } from './normalize';
+import { KeywordIdea, KeywordResearchProvider } from './types';
+
+// Maximum keyword rows read from one file
+const MAX_ROWS = 5000;
+
+// Header names used by common keyword tools (Google Keyword Planner, Ahrefs,
+// Semrush, Moz) and by our own export
+const COLUMN_ALIASES: Record<'keyword' | 'volume' | 'difficulty' | 'cpc' | 'intent', string[]> = {
+  keyword: ['keyword', 'keywords', 'query', 'search term', 'term', 'top queries'],
+  volume: ['volume', 'search volume', 'avg. monthly searches', 'monthly searches', 'avg monthly searches', 'sv'],
+  difficulty: ['difficulty', 'keyword difficulty', 'kd', 'kd %', 'kd%', 'competition (indexed value)'],
+  cpc: ['cpc', 'cpc (usd)', 'cpc usd', 'top of page bid (high range)', 'cost per click'],
+  intent: ['intent', 'search intent', 'intents'],
+};
+
+const normalizeHeader = (header: string) => header.trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Keywords imported from a CSV file exported by another keyword tool
+ */
+export function createCsvKeywordProvider(): KeywordResearchProvider {
+  return {
+    source: 'csv',
+
+    async research({ csv }) {
+      if (!csv?.trim()) {
+        throw Errors.validation('CSV content is required for a CSV import');
+      }
+
+      const [header = [], ...rows] = parseCsv(csv);
+      const headers = header.map(normalizeHeader);
+      const columns = Object.fromEntries(
+        Object.entries(COLUMN_ALIASES).map(([field, aliases]) => [field, headers.findIndex(name => aliases.includes(name))])
+      ) as Record<keyof typeof COLUMN_ALIASES, number>;
+
+      if (columns.keyword === -1) {
+        throw Errors.validation('The CSV needs a "keyword" column', { headers: header });
+      }
+      if (rows.length > MAX_ROWS) {
+        throw Errors.validation(`The CSV has ${rows.length} rows; import at most ${MAX_ROWS} at a time`);
+      }
+
+      const cell = (row: string[], index: number) => (index === -1 ? undefined : row[index]);
+
+      return rows
+        .map(row => normalizeIdea({
+          keyword: cell(row, columns.keyword),
+          volume: cell(row, columns.volume),
+          difficulty: cell(row, columns.difficulty),
+          cpc: cell(row, columns.cpc),
+          intent: cell(row, columns.intent),
+        }))
+        .filter((idea): idea is KeywordIdea => idea !== null);
+    },
+  };
+}
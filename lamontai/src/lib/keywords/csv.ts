@@ -0,0 +1,68 @@
+/**
+ * CSV reading and writing for keyword import and export (RFC 4180 quoting)
+ */
+
+/**
+ * Parse CSV text into rows of cells. Handles quoted cells with commas,
+ * newlines and doubled quotes; semicolon- and tab-separated files are
+ * detected from the header row.
+ */
+export function parseCsv(text: string): string[][] {
+  const input = text.replace(/^\uFEFF/, '');
+  const header = input.slice(0, input.search(/\r?\n|$/));
+  const delimiter = [',', ';', '\t']
+    .map(candidate => ({ candidate, count: header.split(candidate).length }))
+    .sort((a, b) => b.count - a.count)[0].candidate;
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(value => value.trim() !== ''));
+}
+
+const escapeCell = (value: unknown): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  // Prefix formula-like cells so spreadsheets do not evaluate them
+  const safe = /^[=+\-@]/.test(text) && !/^-?\d/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+/**
+ * Format rows as CSV, header first
+ */
+export function toCsv(header: string[], rows: unknown[][]): string {
+  return [header, ...rows].map(cells => cells.map(escapeCell).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,50 @@
+import { daysAgo, DATA_DELAY_DAYS, isoDate, loadSearchConsoleAccess, querySiteAnalytics } from '../search-console';
+import { guessIntent, normalizeKeyword } from './normalize';
+import { KeywordIdea, KeywordResearchProvider } from './types';
+
+const WINDOW_DAYS = 28;
+
+/**
+ * Keywords the user's site already receives impressions for, from Google
+ * Search Console. Volume is estimated from monthly impressions, so it is a
+ * lower bound; difficulty and CPC are not available from this source.
+ */
+export function createGscKeywordProvider(): KeywordResearchProvider {
+  return {
+    source: 'gsc',
+
+    async research({ userId, query, limit = 100, country }) {
+      const access = await loadSearchConsoleAccess(userId, 'research keywords from it');
+
+      const end = daysAgo(DATA_DELAY_DAYS);
+      const start = daysAgo(DATA_DELAY_DAYS + WINDOW_DAYS - 1);
+      const filters: Array<Record<string, string>> = [];
+      if (query) {
+        filters.push({ dimension: 'query', operator: 'contains', expression: query.toLowerCase() });
+      }
+      // Search Console filters countries by ISO 3166-1 alpha-3 code
+      if (country && /^[a-z]{3}$/i.test(country)) {
+        filters.push({ dimension: 'country', operator: 'equals', expression: country.toLowerCase() });
+      }
+
+      const { rows } = await querySiteAnalytics(access, {
+        startDate: isoDate(start),
+        endDate: isoDate(end),
+        dimensions: ['query'],
+        rowLimit: Math.min(limit, 1000),
+        ...(filters.length ? { dimensionFilterGroups: [{ filters }] } : {}),
+      });
+
+      return rows.map((row): KeywordIdea => ({
+        keyword: normalizeKeyword(row.keys[0]),
+        volume: Math.round((row.impressions * 30) / WINDOW_DAYS),
+        difficulty: null,
+        cpc: null,
+        intent: guessIntent(row.keys[0]),
+        clicks: row.clicks,
+        impressions: row.impressions,
+        position: Math.round(row.position * 10) / 10,
+      }));
+    },
+  };
+}
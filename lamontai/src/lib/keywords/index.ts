@@ -0,0 +1,400 @@
+/**
+ * Keyword research behind interchangeable providers, and the saved keyword
+ * lists research results are collected into
+ */
+
+import { z } from 'zod';
+import { Keyword, KeywordList, Prisma } from '@prisma/client';
+import { db } from '../db';
+import { ApiError, Errors } from '../error-handler';
+import { ExportFile, slugify } from '../export';
+import type { GenerateArticleOptions } from '../ai-service';
+import { parseJsonList } from '../content-plan-generator';
+import { chooseArticleFormat } from '../generation/formats';
+import { keywordExportSchema, keywordListQuerySchema } from '../validation';
+import { toCsv } from './csv';
+import { parseIntent } from './normalize';
+import { brandNames, classifyTopic } from './intent';
+import { createCsvKeywordProvider } from './csv-provider';
+import { createGscKeywordProvider } from './gsc-provider';
+import { createLlmKeywordProvider } from './llm-provider';
+import { KeywordIdea, KeywordResearchProvider, KeywordResearchRequest, KeywordSource } from './types';
+
+export * from './types';
+export { guessIntent, normalizeIdea, normalizeKeyword, parseIntent, parseMetric } from './normalize';
+export { parseCsv, toCsv } from './csv';
+export { createCsvKeywordProvider } from './csv-provider';
+export { createGscKeywordProvider } from './gsc-provider';
+export { createLlmKeywordProvider } from './llm-provider';
+export * from './clustering';
+export * from './cluster-plan';
+export { lemmatize, lemmaTokens } from './lemmatize';
+export * from './intent';
+
+export type KeywordFilters = z.infer<typeof keywordExportSchema>;
+export type KeywordListQuery = z.infer<typeof keywordListQuerySchema>;
+
+// Keyword metrics older than this are reported as stale
+export const KEYWORD_STALE_DAYS = 30;
+
+export interface KeywordWithFreshness extends Keyword {
+  stale: boolean;
+}
+
+export interface KeywordListSummary extends KeywordList {
+  keywordCount: number;
+}
+
+export interface KeywordPage {
+  list: KeywordList;
+  keywords: KeywordWithFreshness[];
+  count: number;
+  pagination: {
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
+
+const providers: Partial<Record<KeywordSource, KeywordResearchProvider>> = {};
+
+const PROVIDER_FACTORIES: Record<KeywordSource, () => KeywordResearchProvider> = {
+  llm: createLlmKeywordProvider,
+  gsc: createGscKeywordProvider,
+  csv: createCsvKeywordProvider,
+};
+
+/**
+ * Get the provider for a keyword data source
+ */
+export function getKeywordProvider(source: KeywordSource): KeywordResearchProvider {
+  if (!providers[source]) {
+    providers[source] = PROVIDER_FACTORIES[source]();
+  }
+  return providers[source] as KeywordResearchProvider;
+}
+
+/**
+ * Override the provider for a source (tests and scripts)
+ */
+export function setKeywordProvider(source: KeywordSource, override: KeywordResearchProvider | null): void {
+  if (override) {
+    providers[source] = override;
+  } else {
+    delete providers[source];
+  }
+}
+
+/**
+ * Run keyword research against one source, merging duplicate keywords
+ */
+export async function researchKeywordIdeas(
+  source: KeywordSource,
+  request: KeywordResearchRequest
+): Promise<KeywordIdea[]> {
+  const ideas = await getKeywordProvider(source).research(request);
+  const unique = new Map<string, KeywordIdea>();
+  ideas.forEach(idea => {
+    if (!unique.has(idea.keyword)) unique.set(idea.keyword, idea);
+  });
+  return Array.from(unique.values());
+}
+
+/**
+ * Brand names of the competitors in the user's settings
+ */
+export async function loadCompetitorBrands(userId: string): Promise<string[]> {
+  const settings = await db.settings.findUnique({
+    where: { userId },
+    select: { competitors: true },
+  });
+  return brandNames(parseJsonList(settings?.competitors));
+}
+
+/**
+ * Fill in `options.intent` and `options.format` for an article, classifying
+ * the topic and keywords (with the user's competitor brands) when the
+ * request does not set them
+ */
+export async function resolveArticleFormat(
+  userId: string,
+  topic: string,
+  keywords: string[],
+  options?: GenerateArticleOptions
+): Promise<GenerateArticleOptions> {
+  if (options?.intent && options.format) {
+    return options;
+  }
+
+  const classification = classifyTopic(topic, keywords, { brands: await loadCompetitorBrands(userId) });
+  const intent = options?.intent || classification.intent;
+  // A caller-supplied intent keeps the keyword signals but not their label
+  const format = options?.format || chooseArticleFormat({ intent, signals: classification.signals });
+
+  return { ...options, intent, format };
+}
+
+const staleBefore = () => new Date(Date.now() - KEYWORD_STALE_DAYS * 24 * 60 * 60 * 1000);
+
+const withFreshness = (keyword: Keyword): KeywordWithFreshness => ({
+  ...keyword,
+  stale: keyword.fetchedAt < staleBefore(),
+});
+
+const isUniqueViolation = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002';
+
+/**
+ * List a user's keyword lists, most recently updated first
+ */
+export async function listKeywordLists(userId: string): Promise<KeywordListSummary[]> {
+  const lists = await db.keywordList.findMany({
+    where: { userId },
+    include: { _count: { select: { keywords: true } } },
+    orderBy: { updatedAt: 'desc' },
+  });
+
+  return lists.map(({ _count, ...list }) => ({ ...list, keywordCount: _count.keywords }));
+}
+
+/**
+ * Fetch a keyword list owned by the user
+ * @throws ApiError (404) when the list does not exist, (403) when it belongs to another user
+ */
+export async function getOwnedKeywordList(userId: string, id: string): Promise<KeywordList> {
+  const list = await db.keywordList.findUnique({ where: { id } });
+  if (!list) {
+    throw Errors.notFound('Keyword list');
+  }
+  if (list.userId !== userId) {
+    throw Errors.forbidden('You are not authorized to access this keyword list');
+  }
+  return list;
+}
+
+/**
+ * Create a keyword list
+ * @throws ApiError (409) when the user already has a list with the name
+ */
+export async function createKeywordList(
+  userId: string,
+  input: { name: string; description?: string }
+): Promise<KeywordList> {
+  try {
+    return await db.keywordList.create({ data: { userId, ...input } });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ApiError(`A keyword list named "${input.name}" already exists`, 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Rename or describe a keyword list
+ * @throws ApiError (409) when the new name is taken
+ */
+export async function updateKeywordList(
+  list: KeywordList,
+  input: { name?: string; description?: string | null }
+): Promise<KeywordList> {
+  try {
+    return await db.keywordList.update({ where: { id: list.id }, data: input });
+  } catch (error) {
+    if (isUniqueViolation(error)) {
+      throw new ApiError(`A keyword list named "${input.name}" already exists`, 409);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Delete a keyword list and its keywords
+ */
+export async function deleteKeywordList(list: KeywordList): Promise<void> {
+  await db.keywordList.delete({ where: { id: list.id } });
+}
+
+/**
+ * Save research results into a list. Keywords already in the list get the
+ * new metrics and a fresh timestamp; metrics the new source does not supply
+ * keep their previous values.
+ */
+export async function saveKeywordIdeas(
+  list: KeywordList,
+  ideas: KeywordIdea[],
+  meta: { source: KeywordSource; country?: string; language?: string }
+): Promise<{ added: number; updated: number }> {
+  if (ideas.length === 0) {
+    return { added: 0, updated: 0 };
+  }
+
+  const existing = await db.keyword.findMany({
+    where: { listId: list.id, keyword: { in: ideas.map(idea => idea.keyword) } },
+    select: { keyword: true },
+  });
+  const known = new Set(existing.map(keyword => keyword.keyword));
+  const fetchedAt = new Date();
+
+  // Prisma leaves undefined fields untouched
+  const metrics = (idea: KeywordIdea) => ({
+    volume: idea.volume ?? undefined,
+    difficulty: idea.difficulty ?? undefined,
+    cpc: idea.cpc ?? undefined,
+    intent: idea.intent ?? undefined,
+    clicks: idea.clicks ?? undefined,
+    impressions: idea.impressions ?? undefined,
+    position: idea.position ?? undefined,
+  });
+
+  await db.$transaction([
+    ...ideas.map(idea => db.keyword.upsert({
+      where: { listId_keyword: { listId: list.id, keyword: idea.keyword } },
+      create: {
+        listId: list.id,
+        keyword: idea.keyword,
+        source: meta.source,
+        country: meta.country,
+        language: meta.language,
+        fetchedAt,
+        ...metrics(idea),
+      },
+      update: { ...metrics(idea), source: meta.source, country: meta.country, language: meta.language, fetchedAt },
+    })),
+    db.keywordList.update({ where: { id: list.id }, data: { updatedAt: fetchedAt } }),
+  ]);
+
+  const added = ideas.filter(idea => !known.has(idea.keyword)).length;
+  return { added, updated: ideas.length - added };
+}
+
+// Most keywords one list can be clustered in one go
+const MAX_CLUSTER_KEYWORDS = 2000;
+
+/**
+ * A list's keywords as research ideas, highest volume first
+ */
+export async function loadListIdeas(list: KeywordList): Promise<KeywordIdea[]> {
+  const keywords = await db.keyword.findMany({
+    where: { listId: list.id },
+    orderBy: [{ volume: { sort: 'desc', nulls: 'last' } }, { keyword: 'asc' }],
+    take: MAX_CLUSTER_KEYWORDS,
+  });
+
+  return keywords.map(keyword => ({
+    keyword: keyword.keyword,
+    volume: keyword.volume,
+    difficulty: keyword.difficulty,
+    cpc: keyword.cpc,
+    intent: parseIntent(keyword.intent),
+  }));
+}
+
+/**
+ * Remove keywords from a list
+ * @returns The number of keywords removed
+ */
+export async function deleteKeywords(list: KeywordList, ids: string[]): Promise<number> {
+  const { count } = await db.keyword.deleteMany({ where: { listId: list.id, id: { in: ids } } });
+  return count;
+}
+
+function buildKeywordWhere(listId: string, filters: Partial<KeywordFilters>): Prisma.KeywordWhereInput {
+  const where: Prisma.KeywordWhereInput = { listId };
+
+  if (filters.search) where.keyword = { contains: filters.search.toLowerCase() };
+  if (filters.intent) where.intent = filters.intent;
+  if (filters.source) where.source = filters.source;
+  if (filters.minVolume !== undefined || filters.maxVolume !== undefined) {
+    where.volume = { gte: filters.minVolume, lte: filters.maxVolume };
+  }
+  if (filters.minDifficulty !== undefined || filters.maxDifficulty !== undefined) {
+    where.difficulty = { gte: filters.minDifficulty, lte: filters.maxDifficulty };
+  }
+  if (filters.stale !== undefined) {
+    where.fetchedAt = filters.stale ? { lt: staleBefore() } : { gte: staleBefore() };
+  }
+
+  return where;
+}
+
+function buildKeywordOrder(filters: Partial<KeywordFilters>): Prisma.KeywordOrderByWithRelationInput[] {
+  const sort = filters.sort || 'volume';
+  const order = filters.order || 'desc';
+  const nullable = ['volume', 'difficulty', 'cpc', 'intent', 'position'].includes(sort);
+
+  return [
+    { [sort]: nullable ? { sort: order, nulls: 'last' } : order },
+    { keyword: 'asc' },
+  ];
+}
+
+/**
+ * Fetch a page of a list's keywords with filters and sorting applied
+ */
+export async function queryKeywords(list: KeywordList, query: Partial<KeywordListQuery> = {}): Promise<KeywordPage> {
+  const page = Math.max(1, query.page || 1);
+  const limit = Math.min(500, Math.max(1, query.limit || 100));
+  const where = buildKeywordWhere(list.id, query);
+
+  const [count, keywords] = await Promise.all([
+    db.keyword.count({ where }),
+    db.keyword.findMany({
+      where,
+      orderBy: buildKeywordOrder(query),
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+  ]);
+
+  const totalPages = Math.ceil(count / limit);
+
+  return {
+    list,
+    keywords: keywords.map(withFreshness),
+    count,
+    pagination: { page, limit, totalPages, hasMore: page < totalPages },
+  };
+}
+
+const EXPORT_COLUMNS = [
+  'keyword', 'volume', 'difficulty', 'cpc', 'intent', 'source',
+  'clicks', 'impressions', 'position', 'country', 'language', 'fetchedAt',
+] as const;
+
+/**
+ * Export a list's keywords, with the same filters and sorting as the list view
+ */
+export async function exportKeywordList(
+  list: KeywordList,
+  filters: Partial<KeywordFilters> & { format: 'csv' | 'json' }
+): Promise<ExportFile> {
+  const keywords = await db.keyword.findMany({
+    where: buildKeywordWhere(list.id, filters),
+    orderBy: buildKeywordOrder(filters),
+  });
+  const slug = slugify(list.name);
+
+  if (filters.format === 'json') {
+    const body = keywords.map(keyword => ({
+      ...Object.fromEntries(EXPORT_COLUMNS.map(column => [column, keyword[column]])),
+      stale: withFreshness(keyword).stale,
+    }));
+    return {
+      filename: `${slug}.json`,
+      contentType: 'application/json; charset=utf-8',
+      body: Buffer.from(JSON.stringify({ name: list.name, description: list.description, keywords: body }, null, 2)),
+    };
+  }
+
+  const rows = keywords.map(keyword => EXPORT_COLUMNS.map(column => {
+    const value = keyword[column];
+    return value instanceof Date ? value.toISOString() : value;
+  }));
+  return {
+    filename: `${slug}.csv`,
+    contentType: 'text/csv; charset=utf-8',
+    body: Buffer.from(toCsv([...EXPORT_COLUMNS], rows)),
+  };
+}
@@ -0,0 +1,301 @@
+/**
+ * Search intent classification. Keywords are scored against modifier
+ * features ("how to", "best", "buy", "login", competitor brands) and,
+ * optionally, the labels the rules are unsure about are adjudicated by the LLM.
+ */
+
+import { getLLMProvider } from '../llm';
+import { KEYWORD_INTENTS, KeywordIntent } from './types';
+
+export type IntentScores = Record<KeywordIntent, number>;
+
+export interface IntentClassification {
+  keyword: string;
+  intent: KeywordIntent;
+  // Share of the evidence behind the label, 0-1
+  confidence: number;
+  // Probability of each intent, summing to 1
+  scores: IntentScores;
+  // Features that fired, e.g. "how-to", "comparison" or "brand:ahrefs"
+  signals: string[];
+  source: 'rules' | 'llm';
+}
+
+export interface ClassifyIntentOptions {
+  // Brand names that make a query navigational (competitors, the user's own brand)
+  brands?: string[];
+}
+
+export interface ClassifyIntentsOptions extends ClassifyIntentOptions {
+  // Ask the LLM to settle labels the rules are unsure about
+  adjudicate?: boolean;
+  // Labels below this confidence are sent for adjudication
+  minConfidence?: number;
+  signal?: AbortSignal;
+}
+
+interface IntentFeature {
+  name: string;
+  intent: KeywordIntent;
+  weight: number;
+  pattern: RegExp;
+}
+
+const FEATURES: IntentFeature[] = [
+  { name: 'how-to', intent: 'informational', weight: 2, pattern: /\bhow (to|do|does|can)\b/ },
+  { name: 'question', intent: 'informational', weight: 1.5, pattern: /^(what|why|when|where|who|which|how|can|does|do|is|are|should|will)\b/ },
+  { name: 'learning', intent: 'informational', weight: 1.2, pattern: /\b(guide|tutorial|tips|examples?|ideas|meaning|definition|explained|learn|steps|checklist|template|benefits|strategy)\b/ },
+  { name: 'list', intent: 'informational', weight: 0.3, pattern: /\b(tips|ideas|examples|ways|mistakes|\d+ (best|top|ways|tips|ideas))\b/ },
+  { name: 'superlative', intent: 'commercial', weight: 2, pattern: /\b(best|top( \d+)?|leading|most popular|cheapest)\b/ },
+  { name: 'comparison', intent: 'commercial', weight: 2.2, pattern: /\b(vs\.?|versus|compared?|comparison|difference between)\b/ },
+  { name: 'review', intent: 'commercial', weight: 1.8, pattern: /\b(reviews?|rated|ratings?|pros and cons|worth it)\b/ },
+  { name: 'alternatives', intent: 'commercial', weight: 1.8, pattern: /\b(alternatives?|competitors?|similar to|(sites|apps|tools) like)\b/ },
+  { name: 'purchase', intent: 'transactional', weight: 2.2, pattern: /\b(buy|purchase|order|shop|subscribe|hire|book an?|for sale|free trial|download)\b/ },
+  { name: 'price', intent: 'transactional', weight: 1.8, pattern: /\b(price|prices|pricing|cost|costs|quote|cheap|affordable)\b/ },
+  { name: 'deal', intent: 'transactional', weight: 1.8, pattern: /\b(discount|coupon|promo( code)?|deals?|offer|sale)\b/ },
+  { name: 'local', intent: 'transactional', weight: 1.5, pattern: /\bnear me\b/ },
+  { name: 'login', intent: 'navigational', weight: 2.5, pattern: /\b(login|log ?in|sign ?in|account|dashboard|portal)\b/ },
+  { name: 'official', intent: 'navigational', weight: 1.5, pattern: /\b(official|website|homepage|contact|customer service|phone number)\b|\.com\b/ },
+];
+
+// Evidence every keyword starts with: unmarked queries are usually informational
+const PRIORS: IntentScores = {
+  informational: 0.6,
+  commercial: 0.15,
+  transactional: 0.15,
+  navigational: 0.1,
+};
+
+// Below this, classifyIntents asks the LLM when adjudication is on
+const DEFAULT_MIN_CONFIDENCE = 0.6;
+
+// Keywords sent to the model per adjudication request
+const ADJUDICATION_BATCH_SIZE = 50;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const roundScore = (value: number) => Math.round(value * 1000) / 1000;
+
+/**
+ * Brand names from the competitors stored in settings, which are either
+ * plain names or `{name, domain}` objects. Domains contribute their
+ * registrable name ("ahrefs.com" gives "ahrefs").
+ */
+export function brandNames(competitors: unknown[]): string[] {
+  const names = competitors.flatMap(competitor => {
+    if (typeof competitor === 'string') {
+      return [competitor];
+    }
+    const { name, domain } = (competitor || {}) as { name?: unknown; domain?: unknown };
+    return [name, domain];
+  });
+
+  return Array.from(new Set(
+    names
+      .filter((name): name is string => typeof name === 'string')
+      .map(name => name
+        .toLowerCase()
+        .replace(/^https?:\/\//, '')
+        .replace(/^www\./, '')
+        .replace(/\/.*$/, '')
+        .replace(/\.[a-z.]{2,}$/, '')
+        .trim())
+      .filter(name => name.length > 1)
+  ));
+}
+
+const normalize = (scores: IntentScores): IntentScores => {
+  const total = KEYWORD_INTENTS.reduce((sum, intent) => sum + scores[intent], 0) || 1;
+  return Object.fromEntries(
+    KEYWORD_INTENTS.map(intent => [intent, roundScore(scores[intent] / total)])
+  ) as IntentScores;
+};
+
+const topIntent = (scores: IntentScores): KeywordIntent =>
+  KEYWORD_INTENTS.reduce((best, intent) => (scores[intent] > scores[best] ? intent : best));
+
+/**
+ * Classify a keyword from its modifiers and any brand names it mentions
+ */
+export function classifyIntent(keyword: string, options: ClassifyIntentOptions = {}): IntentClassification {
+  const text = keyword.replace(/\s+/g, ' ').trim().toLowerCase();
+  const raw: IntentScores = { ...PRIORS };
+  const signals: string[] = [];
+
+  FEATURES.forEach(feature => {
+    if (feature.pattern.test(text)) {
+      raw[feature.intent] += feature.weight;
+      signals.push(feature.name);
+    }
+  });
+
+  const brands = (options.brands || []).filter(brand =>
+    new RegExp(`(^|\\W)${escapeRegExp(brand.toLowerCase())}($|\\W)`).test(text)
+  );
+  if (brands.length > 0) {
+    signals.push(...brands.map(brand => `brand:${brand}`));
+    // A bare brand name is looking for that site; a brand next to other
+    // modifiers is usually research about it
+    const rest = brands.reduce((remaining, brand) => remaining.replace(brand.toLowerCase(), ' '), text).trim();
+    raw.navigational += rest ? 0.8 : 2.5;
+    raw.commercial += 0.5 * brands.length;
+  }
+
+  const scores = normalize(raw);
+  const intent = topIntent(scores);
+
+  return {
+    keyword,
+    intent,
+    confidence: scores[intent],
+    scores,
+    signals,
+    source: 'rules',
+  };
+}
+
+/**
+ * Classify keywords, optionally letting the LLM settle low-confidence labels.
+ * The model sees the rule scores so it only overturns them with reason.
+ */
+export async function classifyIntents(
+  keywords: string[],
+  options: ClassifyIntentsOptions = {}
+): Promise<IntentClassification[]> {
+  const results = keywords.map(keyword => classifyIntent(keyword, options));
+  if (!options.adjudicate) {
+    return results;
+  }
+
+  const minConfidence = options.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+  const unsure = results.filter(result => result.confidence < minConfidence);
+
+  for (let i = 0; i < unsure.length; i += ADJUDICATION_BATCH_SIZE) {
+    const batch = unsure.slice(i, i + ADJUDICATION_BATCH_SIZE);
+    const labels = await adjudicateIntents(batch, options.signal);
+
+    batch.forEach(result => {
+      const label = labels.get(result.keyword.toLowerCase());
+      if (!label) {
+        return;
+      }
+      // Blend the model's label into the rule scores rather than discarding them
+      const blended = { ...result.scores };
+      blended[label.intent] += label.confidence;
+      result.scores = normalize(blended);
+      result.intent = label.intent;
+      result.confidence = result.scores[label.intent];
+      result.source = 'llm';
+    });
+  }
+
+  return results;
+}
+
+async function adjudicateIntents(
+  batch: IntentClassification[],
+  signal?: AbortSignal
+): Promise<Map<string, { intent: KeywordIntent; confidence: number }>> {
+  const lines = batch
+    .map(result => `- "${result.keyword}" (rules: ${result.intent} ${Math.round(result.confidence * 100)}%)`)
+    .join('\n');
+
+  const response = await getLLMProvider().completeJson<{ keywords?: unknown }>(
+    [
+      {
+        role: 'system',
+        content: 'You are an expert SEO analyst who classifies search intent. Your responses are always in valid JSON format.',
+      },
+      {
+        role: 'user',
+        content: `Classify the search intent of each keyword as informational, commercial, transactional or navigational.
+    Commercial means researching options before buying (best, reviews, comparisons); transactional means ready to act (buy, pricing, sign up); navigational means looking for a specific site or page.
+    A rule-based guess is shown for each keyword; keep it unless the keyword clearly means something else.
+${lines}
+    Respond with JSON of the form {"keywords": [{"keyword": "...", "intent": "informational", "confidence": 0.8}]}.`,
+      },
+    ],
+    { task: 'intent-classification', temperature: 0, maxTokens: 40 * batch.length + 100, signal }
+  );
+
+  const labels = new Map<string, { intent: KeywordIntent; confidence: number }>();
+  (Array.isArray(response.keywords) ? response.keywords : []).forEach(entry => {
+    const { keyword, intent, confidence } = (entry || {}) as { keyword?: unknown; intent?: unknown; confidence?: unknown };
+    if (typeof keyword !== 'string' || !KEYWORD_INTENTS.includes(intent as KeywordIntent)) {
+      return;
+    }
+    labels.set(keyword.trim().toLowerCase(), {
+      intent: intent as KeywordIntent,
+      confidence: typeof confidence === 'number' ? Math.min(1, Math.max(0, confidence)) : 0.7,
+    });
+  });
+  return labels;
+}
+
+/**
+ * Classify an article topic from its title and target keywords. The primary
+ * keyword counts double; the title and secondary keywords break ties.
+ */
+export function classifyTopic(
+  topic: string,
+  keywords: string[],
+  options: ClassifyIntentOptions = {}
+): IntentClassification {
+  const [primary, ...secondary] = keywords.length > 0 ? keywords : [topic];
+  const weighted: Array<[string, number]> = [
+    [primary, 2],
+    [topic, 1],
+    ...secondary.slice(0, 4).map((keyword): [string, number] => [keyword, 0.5]),
+  ];
+
+  const combined: IntentScores = { informational: 0, commercial: 0, transactional: 0, navigational: 0 };
+  const signals = new Set<string>();
+  weighted.forEach(([text, weight]) => {
+    const result = classifyIntent(text, options);
+    KEYWORD_INTENTS.forEach(intent => {
+      combined[intent] += result.scores[intent] * weight;
+    });
+    result.signals.forEach(signal => signals.add(signal));
+  });
+
+  const scores = normalize(combined);
+  const intent = topIntent(scores);
+
+  return {
+    keyword: primary,
+    intent,
+    confidence: scores[intent],
+    scores,
+    signals: Array.from(signals),
+    source: 'rules',
+  };
+}
+
+/**
+ * Percentage of keywords per intent, summing to 100
+ */
+export function intentDistribution(intents: KeywordIntent[]): Record<KeywordIntent, number> {
+  const counts = Object.fromEntries(KEYWORD_INTENTS.map(intent => [intent, 0])) as Record<KeywordIntent, number>;
+  intents.forEach(intent => {
+    counts[intent] += 1;
+  });
+
+  if (intents.length === 0) {
+    return counts;
+  }
+
+  // Largest remainder rounding so the shares add up to exactly 100
+  const exact = KEYWORD_INTENTS.map(intent => ({ intent, share: (counts[intent] / intents.length) * 100 }));
+  const result = Object.fromEntries(exact.map(({ intent, share }) => [intent, Math.floor(share)])) as Record<KeywordIntent, number>;
+  let remaining = 100 - KEYWORD_INTENTS.reduce((sum, intent) => sum + result[intent], 0);
+  [...exact]
+    .sort((a, b) => (b.share % 1) - (a.share % 1))
+    .forEach(({ intent }) => {
+      if (remaining > 0) {
+        result[intent] += 1;
+        remaining -= 1;
+      }
+    });
+
+  return result;
+}
@@ -0,0 +1,83 @@
+/**
+ * Light rule-based lemmatization for keyword comparison. Keywords are short
+ * and mostly English, so folding plurals, verb endings and possessives is
+ * enough for "coffee grinders" and "grinding coffee" to share terms.
+ */
+
+// Words that carry no topic in a search query
+const STOPWORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'by', 'at', 'from', 'as', 'is', 'are',
+  'be', 'it', 'its', 'my', 'your', 'our', 'i', 'you', 'we', 'me', 'do', 'does', 'can', 'vs', 'versus',
+  'what', 'which', 'who', 'why', 'how', 'when', 'where', 'that', 'this', 'these', 'those', 'there',
+  'under', 'over', 'without', 'about', 'into', 'than', 'near', 'between',
+]);
+
+const IRREGULAR: Record<string, string> = {
+  children: 'child', men: 'man', women: 'woman', people: 'person', feet: 'foot', teeth: 'tooth',
+  mice: 'mouse', geese: 'goose',
+  ran: 'run', running: 'run', made: 'make', bought: 'buy', sold: 'sell', written: 'write', wrote: 'write',
+};
+
+// Endings of words ending in "s" that are not plurals
+const SINGULAR_S = /(?:ss|us|is|ous|ics)$/;
+
+// Words that look inflected but are not
+const INVARIANT = new Set([
+  'news', 'series', 'species', 'means', 'always', 'perhaps', 'canvas', 'atlas', 'bias', 'gas', 'lens', 'ios',
+  'thing', 'nothing', 'something', 'anything', 'everything', 'during', 'ceiling', 'wedding', 'hundred', 'sacred',
+]);
+
+/**
+ * Reduce a lowercase word to a base form
+ */
+export function lemmatize(word: string): string {
+  if (IRREGULAR[word]) {
+    return IRREGULAR[word];
+  }
+  if (word.length <= 3 || INVARIANT.has(word) || /\d/.test(word)) {
+    return word;
+  }
+
+  let base = word.replace(/['’]s$/, '');
+  if (/ies$/.test(base) && base.length > 4) {
+    base = base.replace(/ies$/, 'y');
+  } else if (/(?:ches|shes|sses|xes|zes)$/.test(base)) {
+    base = base.slice(0, -2);
+  } else if (/s$/.test(base) && !SINGULAR_S.test(base)) {
+    base = base.slice(0, -1);
+  }
+
+  const verb = /^(.{2,}?)(ing|ed)$/.exec(base);
+  // The stem needs a vowel ("bring" and "shed" are not inflections), and "-eed" words are base forms
+  if (verb && /[aeiouy]/.test(verb[1]) && !/eed$/.test(base)) {
+    let stem = verb[1];
+    if (/([^aeiouslz])\1$/.test(stem)) {
+      // Doubled final consonant: "shopping" -> "shop"
+      stem = stem.slice(0, -1);
+    } else if (/[^aeiouy][aeiouy][^aeiouwxy]$/.test(stem) && stem.length <= 4) {
+      // Dropped silent e: "making" -> "make"
+      stem += 'e';
+    } else if (/(?:at|iz|bl|ur|dg|ag|iv|us)$/.test(stem)) {
+      stem += 'e';
+    }
+    base = stem;
+  }
+
+  return base;
+}
+
+/**
+ * A keyword's meaningful words paired with their lemmas, in order
+ */
+export function lemmaWords(text: string): Array<{ word: string; lemma: string }> {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+(?:['’][\p{L}]+)?/gu) || [])
+    .filter(word => !STOPWORDS.has(word))
+    .map(word => ({ word, lemma: lemmatize(word) }));
+}
+
+/**
+ * The lemmas of a keyword's meaningful words, in order
+ */
+export function lemmaTokens(text: string): string[] {
+  return lemmaWords(text).map(({ lemma }) => lemma);
+}
@@ -0,0 +1,26 @@
+import { researchKeywords } from '../ai-service';
+import { Errors } from '../error-handler';
+import { normalizeIdea } from './normalize';
+import { KeywordIdea, KeywordResearchProvider } from './types';
+
+/**
+ * Keyword ideas with metrics estimated by the LLM. The numbers are the
+ * model's estimates, not measured data.
+ */
+export function createLlmKeywordProvider(): KeywordResearchProvider {
+  return {
+    source: 'llm',
+
+    async research({ query, limit, country, language }) {
+      if (!query) {
+        throw Errors.validation('A keyword query is required for LLM research');
+      }
+
+      const results = await researchKeywords(query, { limit, country, language });
+
+      return results.relatedKeywords
+        .map(item => normalizeIdea(item as unknown as Record<string, unknown>))
+        .filter((idea): idea is KeywordIdea => idea !== null);
+    },
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Cleaning of keyword data coming from providers, whose numbers and labels
+ * arrive in many shapes ("1,200", "$1.50", "Commercial", "45%")
+ */
+
+import { classifyIntent } from './intent';
+import { KEYWORD_INTENTS, KeywordIdea, KeywordIntent } from './types';
+
+/**
+ * Normalise keyword text so the same keyword from different sources matches
+ */
+export function normalizeKeyword(keyword: string): string {
+  return keyword.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Parse a metric that may include separators, currency or percent signs
+ */
+export function parseMetric(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  let cleaned = value.trim().replace(/[$€£%\s]/g, '');
+  if (/^\d{1,3}([.,])\d{3}(?:\1\d{3})*$/.test(cleaned)) {
+    // Grouped thousands: "1,200" or "1.200"
+    cleaned = cleaned.replace(/[.,]/g, '');
+  } else {
+    // Whichever separator comes last is the decimal point: "1,234.50" or "1.234,50"
+    const decimal = cleaned.lastIndexOf(',') > cleaned.lastIndexOf('.') ? ',' : '.';
+    cleaned = cleaned.split(decimal === ',' ? '.' : ',').join('').replace(',', '.');
+  }
+  // Ranges such as "1K-10K" use their lower bound
+  const match = /^(\d+(?:\.\d+)?)([km])?/i.exec(cleaned);
+  if (!match) {
+    return null;
+  }
+  const multiplier = { k: 1000, m: 1000000 }[match[2]?.toLowerCase() as 'k' | 'm'] || 1;
+  return parseFloat(match[1]) * multiplier;
+}
+
+/**
+ * Map a provider's intent label to one of the four search intents
+ */
+export function parseIntent(value: unknown): KeywordIntent | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const normalized = value.trim().toLowerCase();
+  return KEYWORD_INTENTS.find(intent => normalized.startsWith(intent.slice(0, 4))) || null;
+}
+
+/**
+ * Guess the intent of a keyword from its modifiers, defaulting to informational
+ */
+export function guessIntent(keyword: string, brands?: string[]): KeywordIntent {
+  return classifyIntent(keyword, { brands }).intent;
+}
+
+const clamp = (value: number | null, min: number, max: number) =>
+  value === null ? null : Math.min(max, Math.max(min, value));
+
+/**
+ * Clean a raw provider record into a keyword idea
+ * @returns null when the record has no usable keyword
+ */
+export function normalizeIdea(raw: Record<string, unknown>): KeywordIdea | null {
+  const keyword = typeof raw.keyword === 'string' ? normalizeKeyword(raw.keyword) : '';
+  if (!keyword || keyword.length > 200) {
+    return null;
+  }
+
+  const volume = clamp(parseMetric(raw.volume), 0, Number.MAX_SAFE_INTEGER);
+  const difficulty = clamp(parseMetric(raw.difficulty), 0, 100);
+  const cpc = clamp(parseMetric(raw.cpc), 0, 10000);
+
+  return {
+    keyword,
+    volume: volume === null ? null : Math.round(volume),
+    difficulty: difficulty === null ? null : Math.round(difficulty),
+    cpc: cpc === null ? null : Math.round(cpc * 100) / 100,
+    intent: parseIntent(raw.intent) || guessIntent(keyword),
+  };
+}
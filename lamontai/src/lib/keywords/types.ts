@@ -0,0 +1,53 @@
+/**
+ * Shared types for the keyword research provider layer
+ */
+
+export const KEYWORD_SOURCES = ['llm', 'gsc', 'csv'] as const;
+export type KeywordSource = typeof KEYWORD_SOURCES[number];
+
+export const KEYWORD_INTENTS = ['informational', 'commercial', 'transactional', 'navigational'] as const;
+export type KeywordIntent = typeof KEYWORD_INTENTS[number];
+
+/**
+ * A keyword and whatever metrics the provider could supply
+ */
+export interface KeywordIdea {
+  keyword: string;
+  // Estimated monthly searches
+  volume?: number | null;
+  // 0-100
+  difficulty?: number | null;
+  // USD
+  cpc?: number | null;
+  intent?: KeywordIntent | null;
+  // Search Console performance over the research window
+  clicks?: number | null;
+  impressions?: number | null;
+  position?: number | null;
+}
+
+/**
+ * Input to a research run. Each provider uses the fields it understands:
+ * the LLM and GSC providers research `query`, the CSV provider reads `csv`.
+ */
+export interface KeywordResearchRequest {
+  userId: string;
+  query?: string;
+  limit?: number;
+  country?: string;
+  language?: string;
+  // CSV text with a header row
+  csv?: string;
+}
+
+/**
+ * Common interface implemented by every keyword data source
+ */
+export interface KeywordResearchProvider {
+  readonly source: KeywordSource;
+
+  /**
+   * Find keyword ideas and their metrics
+   */
+  research(request: KeywordResearchRequest): Promise<KeywordIdea[]>;
+}
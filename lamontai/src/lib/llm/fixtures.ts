@@ -0,0 +1,244 @@
+import { ChatMessage } from './types';
+
+/**
+ * Built-in fixtures for the local provider, keyed by completion task.
+ * Every handler is a pure function of the messages so results are reproducible.
+ */
+export type FixtureHandler = (messages: ChatMessage[]) => string | object;
+
+/**
+ * Deterministic 32-bit FNV-1a hash of a string
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Pick a deterministic integer in [min, max] from a seed string
+ */
+export function seededInt(seed: string, min: number, max: number): number {
+  return min + (hashString(seed) % (max - min + 1));
+}
+
+const lastUserMessage = (messages: ChatMessage[]): string =>
+  [...messages].reverse().find(message => message.role === 'user')?.content || '';
+
+// Prompts quote the subject first, e.g. `about "topic"` or `related to "query"`
+const firstQuoted = (text: string, fallback = 'your topic'): string =>
+  /"([^"]+)"/.exec(text)?.[1] || fallback;
+
+const listAfter = (text: string, label: string): string[] => {
+  const match = new RegExp(`${label}[^:\\n]*:\\s*([^\\n.]+)`, 'i').exec(text);
+  return match ? match[1].split(',').map(item => item.trim()).filter(Boolean) : [];
+};
+
+const titleCase = (text: string): string =>
+  text.replace(/\b\w/g, char => char.toUpperCase());
+
+// Sentences the local section writer cycles through to reach a word target
+const SECTION_SENTENCES = [
+  (subject: string, primary: string) => `${subject} is a key part of getting ${primary} right.`,
+  (subject: string) => `Start by writing down what ${subject.toLowerCase()} should achieve and how you will measure it.`,
+  (subject: string, primary: string) => `Teams that treat ${primary} as a repeatable process see steadier results over a few months.`,
+  () => 'Keep each step small enough to ship within a week, then review what changed.',
+  (subject: string) => `Common mistakes with ${subject.toLowerCase()} include skipping research and changing too many things at once.`,
+  () => 'Document what worked so the next iteration starts from evidence rather than guesswork.',
+];
+
+const sectionParagraphs = (subject: string, primary: string, words: number): string[] => {
+  const paragraphs: string[] = [];
+  let written = 0;
+  let sentence = hashString(subject) % SECTION_SENTENCES.length;
+
+  while (written < words) {
+    const paragraph = Array.from({ length: 3 }, () =>
+      SECTION_SENTENCES[sentence++ % SECTION_SENTENCES.length](subject, primary)
+    ).join(' ');
+    paragraphs.push(`<p>${paragraph}</p>`);
+    written += paragraph.split(/\s+/).length;
+  }
+
+  return paragraphs;
+};
+
+const articleSection: FixtureHandler = messages => {
+  const prompt = lastUserMessage(messages);
+  const topic = firstQuoted(prompt);
+  const primary = listAfter(prompt, 'keywords')[0] || topic;
+  const heading = /Write only the section "([^"]+)"/.exec(prompt)?.[1] || titleCase(topic);
+  const words = parseInt(/about (\d+) words/.exec(prompt)?.[1] || '200', 10);
+  const subsections = (/Include these H3 subsections in order: ([^\n]+)\./.exec(prompt)?.[1] || '')
+    .split(';')
+    .map(item => item.trim())
+    .filter(Boolean);
+
+  // Split the word budget between the section intro and its subsections
+  const share = Math.ceil(words / (subsections.length + 1));
+
+  return [
+    `<h2>${heading}</h2>`,
+    ...sectionParagraphs(heading, primary, share),
+    ...subsections.flatMap(subsection => [
+      `<h3>${subsection}</h3>`,
+      ...sectionParagraphs(subsection, primary, share),
+    ]),
+  ].join('\n');
+};
+
+const articleOutline: FixtureHandler = messages => {
+  const prompt = lastUserMessage(messages);
+  const topic = titleCase(firstQuoted(prompt));
+  const primary = titleCase(listAfter(prompt, 'keywords')[0] || topic);
+
+  return {
+    sections: [
+      { heading: 'Introduction', level: 2 },
+      { heading: `What Is ${primary}?`, level: 2 },
+      { heading: 'Why It Works', level: 3 },
+      { heading: `How to Get Started with ${topic}`, level: 2 },
+      { heading: 'Conclusion', level: 2 },
+    ],
+  };
+};
+
+const articleTitle: FixtureHandler = messages => {
+  const topic = firstQuoted(lastUserMessage(messages));
+  return `${titleCase(topic)}: A Practical Guide`.slice(0, 60);
+};
+
+const articleMetaDescription: FixtureHandler = messages => {
+  const title = firstQuoted(lastUserMessage(messages));
+  return `Learn the essentials in "${title}" with clear steps, examples and tips you can apply today.`.slice(0, 159);
+};
+
+// Title and description angles for the snippet optimizer, around a keyword
+const SNIPPET_ANGLES = [
+  (keyword: string) => ({
+    title: `${titleCase(keyword)}: A Practical Guide`,
+    description: `Learn how ${keyword} works with clear steps, real examples and the mistakes to avoid. Start with what matters most.`,
+  }),
+  (keyword: string) => ({
+    title: `${titleCase(keyword)} in 7 Simple Steps`,
+    description: `Follow seven simple steps to get ${keyword} right, from the basics to the details most guides skip.`,
+  }),
+  (keyword: string) => ({
+    title: `What Is ${titleCase(keyword)}? Everything to Know`,
+    description: `Discover what ${keyword} is, why it matters and how to use it, explained in plain language with examples.`,
+  }),
+  (keyword: string) => ({
+    title: `${titleCase(keyword)} (Checklist and Examples)`,
+    description: `Use this ${keyword} checklist to check your work, with worked examples and tips you can apply today.`,
+  }),
+  (keyword: string) => ({
+    title: `12 ${titleCase(keyword)} Tips That Actually Work`,
+    description: `Get better results with these ${keyword} tips, tested in practice and ordered by the impact they have.`,
+  }),
+  (keyword: string) => ({
+    title: `The Beginner's Guide to ${titleCase(keyword)}`,
+    description: `New to ${keyword}? Read this guide for the essentials, common questions and the first steps to take.`,
+  }),
+];
+
+const snippetVariants: FixtureHandler = messages => {
+  const prompt = lastUserMessage(messages);
+  const subject = firstQuoted(prompt);
+  const keyword = /Target keyword: "([^"]+)"/.exec(prompt)?.[1] || subject;
+  const count = parseInt(/Write (\d+)/.exec(prompt)?.[1] || '5', 10);
+  const start = seededInt(keyword, 0, SNIPPET_ANGLES.length - 1);
+
+  return {
+    variants: Array.from({ length: count }, (_, index) => SNIPPET_ANGLES[(start + index) % SNIPPET_ANGLES.length](keyword)),
+  };
+};
+
+const contentPlan: FixtureHandler = messages => {
+  const prompt = lastUserMessage(messages);
+  const business = firstQuoted(prompt, 'your business');
+  const count = parseInt(/content plan of (\d+)/i.exec(prompt)?.[1] || '12', 10);
+  const audience = listAfter(prompt, 'Target audiences')[0] || 'small teams';
+
+  // Build keywords from the most descriptive words of the business description
+  const terms = Array.from(new Set(
+    business.toLowerCase().split(/[^a-z]+/).filter(word => word.length > 4)
+  ));
+  const formats = [
+    { pattern: (term: string) => `what is ${term}`, title: (term: string) => `What Is ${titleCase(term)}? A Beginner's Guide`, intent: 'informational' },
+    { pattern: (term: string) => `${term} for ${audience}`, title: (term: string) => `${titleCase(term)} for ${titleCase(audience)}`, intent: 'informational' },
+    { pattern: (term: string) => `best ${term} tools`, title: (term: string) => `The Best ${titleCase(term)} Tools Compared`, intent: 'commercial' },
+    { pattern: (term: string) => `${term} pricing`, title: (term: string) => `${titleCase(term)} Pricing: What to Expect`, intent: 'transactional' },
+  ];
+
+  const articles = Array.from({ length: count }, (_, index) => {
+    const term = terms[index % Math.max(terms.length, 1)] || 'content';
+    const format = formats[Math.floor(index / Math.max(terms.length, 1)) % formats.length];
+    return { title: format.title(term), keyword: format.pattern(term), intent: format.intent };
+  });
+
+  return { articles };
+};
+
+const keywordResearch: FixtureHandler = messages => {
+  const prompt = lastUserMessage(messages);
+  const query = firstQuoted(prompt, 'keyword');
+  const limit = parseInt(/list of (\d+)/i.exec(prompt)?.[1] || '10', 10);
+  const modifiers = ['guide', 'examples', 'tools', 'tips', 'strategy', 'best', 'how to', 'vs', 'pricing', 'checklist'];
+
+  const keywords = Array.from({ length: limit }, (_, index) => {
+    const modifier = modifiers[index % modifiers.length];
+    const keyword = modifier === 'how to' || modifier === 'best'
+      ? `${modifier} ${query}`
+      : `${query} ${modifier}`;
+    return {
+      keyword,
+      volume: seededInt(`${keyword}:volume`, 50, 9900),
+      difficulty: seededInt(`${keyword}:difficulty`, 10, 90),
+      cpc: seededInt(`${keyword}:cpc`, 20, 1800) / 100,
+      intent: ['how to', 'guide', 'examples', 'tips', 'checklist'].includes(modifier)
+        ? 'informational'
+        : modifier === 'pricing' ? 'transactional' : 'commercial',
+    };
+  });
+
+  return { keywords };
+};
+
+const contentAnalysis: FixtureHandler = messages => {
+  const prompt = lastUserMessage(messages);
+  const keyword = firstQuoted(prompt, 'your topic');
+  const issues = Array.from(prompt.matchAll(/^\s*- ([^:\n]+):/gm)).map(match => match[1].toLowerCase());
+  return {
+    suggestions: [
+      ...issues.slice(0, 3).map(issue => `Revise the ${issue} with "${keyword}" readers in mind`),
+      `Add a short FAQ answering common questions about ${keyword}`,
+    ],
+  };
+};
+
+// Keeps the rule-based guess shown in the prompt, which is as good as the
+// local provider can do without a model
+const intentClassification: FixtureHandler = messages => {
+  const prompt = lastUserMessage(messages);
+  const keywords = Array.from(prompt.matchAll(/^\s*- "([^"]+)" \(rules: (\w+)/gm)).map(match => ({
+    keyword: match[1],
+    intent: match[2],
+    confidence: 0.7,
+  }));
+  return { keywords };
+};
+
+export const defaultFixtures: Record<string, FixtureHandler> = {
+  'article-outline': articleOutline,
+  'article-section': articleSection,
+  'article-title': articleTitle,
+  'article-meta-description': articleMetaDescription,
+  'snippet-variants': snippetVariants,
+  'content-plan': contentPlan,
+  'keyword-research': keywordResearch,
+  'content-analysis': contentAnalysis,
+  'intent-classification': intentClassification,
+};
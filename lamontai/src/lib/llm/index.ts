@@ -0,0 +1,62 @@
+import { createLocalProvider } from './local-provider';
+import { createOpenAIProvider } from './openai-provider';
+import { LLMProvider } from './types';
+import { ApiError, ErrorCodes } from '../error-handler';
+
+export * from './types';
+export { createLocalProvider, fixtureKey } from './local-provider';
+export { createOpenAIProvider } from './openai-provider';
+
+let provider: LLMProvider | null = null;
+
+/**
+ * Build the provider selected by LLM_PROVIDER ('openai' or 'local').
+ * Without LLM_PROVIDER, OpenAI is used when a key is configured; the local
+ * fixtures are only a fallback outside production, so a missing key never
+ * serves canned content to real users.
+ * @throws ApiError (503) when no provider is configured
+ */
+function createProviderFromEnv(): LLMProvider {
+  const selected = process.env.LLM_PROVIDER
+    || (process.env.OPENAI_API_KEY || process.env.NODE_ENV === 'production' ? 'openai' : 'local');
+
+  if (selected === 'openai') {
+    if (!process.env.OPENAI_API_KEY) {
+      console.error('OPENAI_API_KEY environment variable is not set');
+      throw new ApiError(
+        'The AI service is currently unavailable. Please try again in a few minutes.',
+        503,
+        { code: ErrorCodes.EXTERNAL_API_ERROR }
+      );
+    }
+    return createOpenAIProvider({
+      apiKey: process.env.OPENAI_API_KEY,
+      baseURL: process.env.OPENAI_BASE_URL,
+      defaultModel: process.env.OPENAI_MODEL,
+      embeddingModel: process.env.OPENAI_EMBEDDING_MODEL,
+    });
+  }
+
+  if (selected === 'local') {
+    return createLocalProvider({ fixturesPath: process.env.LLM_FIXTURES_PATH });
+  }
+
+  throw new Error(`Unknown LLM provider: ${selected}`);
+}
+
+/**
+ * Get the shared LLM provider instance
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!provider) {
+    provider = createProviderFromEnv();
+  }
+  return provider;
+}
+
+/**
+ * Override the shared provider (tests and scripts)
+ */
+export function setLLMProvider(override: LLMProvider | null): void {
+  provider = override;
+}
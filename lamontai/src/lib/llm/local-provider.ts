@@ -0,0 +1,140 @@
+import fs from 'fs';
+import { createHash } from 'crypto';
+import { defaultFixtures, FixtureHandler } from './fixtures';
+import { ChatMessage, CompletionOptions, EmbeddingOptions, LLMProvider } from './types';
+
+/**
+ * Configuration for the deterministic local provider
+ */
+export interface LocalProviderConfig {
+  // JSON file of recorded responses keyed by task name or message hash
+  fixturesPath?: string;
+  // Extra or overriding task handlers
+  fixtures?: Record<string, FixtureHandler>;
+  // Characters per streamed chunk
+  chunkSize?: number;
+}
+
+// Dimensions of the local hashed embeddings
+const EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Deterministic stand-in for a semantic embedding: character trigrams of
+ * each word hashed into a fixed-size, unit-length vector, so texts sharing
+ * words and word stems land close together
+ */
+function hashedEmbedding(text: string, dimensions = EMBEDDING_DIMENSIONS): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+  words.forEach(word => {
+    const padded = `^${word}$`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      const digest = createHash('md5').update(padded.slice(i, i + 3)).digest();
+      const index = digest.readUInt32LE(0) % dimensions;
+      vector[index] += digest[4] & 1 ? 1 : -1;
+    }
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0)) || 1;
+  return vector.map(value => value / norm);
+}
+
+/**
+ * Stable key for a message list, usable as a recorded fixture key
+ */
+export function fixtureKey(messages: ChatMessage[]): string {
+  return createHash('sha256')
+    .update(messages.map(message => `${message.role}:${message.content}`).join('\n'))
+    .digest('hex');
+}
+
+function loadRecordedFixtures(fixturesPath?: string): Record<string, string | object> {
+  if (!fixturesPath) {
+    return {};
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(fixturesPath, 'utf8'));
+  } catch (error) {
+    console.error(`Failed to load LLM fixtures from ${fixturesPath}:`, error);
+    return {};
+  }
+}
+
+/**
+ * Create an offline provider that answers from fixtures.
+ * Lookup order: recorded response by message hash, recorded response by task,
+ * built-in task handler, then a generic echo of the prompt.
+ * @param config - Fixture configuration
+ * @returns Deterministic LLM provider
+ */
+export function createLocalProvider(config: LocalProviderConfig = {}): LLMProvider {
+  const recorded = loadRecordedFixtures(config.fixturesPath);
+  const handlers = { ...defaultFixtures, ...config.fixtures };
+  const chunkSize = config.chunkSize || 24;
+
+  const resolve = (messages: ChatMessage[], options: CompletionOptions = {}): string | object => {
+    const byHash = recorded[fixtureKey(messages)];
+    if (byHash !== undefined) {
+      return byHash;
+    }
+
+    if (options.task) {
+      if (recorded[options.task] !== undefined) {
+        return recorded[options.task];
+      }
+      if (handlers[options.task]) {
+        return handlers[options.task](messages);
+      }
+    }
+
+    const prompt = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+    return `Local response: ${prompt.slice(0, 200)}`;
+  };
+
+  const throwIfAborted = (signal?: AbortSignal) => {
+    if (signal?.aborted) {
+      const error = new Error('Request aborted');
+      error.name = 'AbortError';
+      throw error;
+    }
+  };
+
+  return {
+    name: 'local',
+
+    async complete(messages, options = {}) {
+      throwIfAborted(options.signal);
+      const response = resolve(messages, options);
+      return typeof response === 'string' ? response : JSON.stringify(response);
+    },
+
+    async completeJson<T>(messages: ChatMessage[], options: CompletionOptions = {}): Promise<T> {
+      throwIfAborted(options.signal);
+      const response = resolve(messages, options);
+      if (typeof response !== 'string') {
+        return response as T;
+      }
+
+      try {
+        return JSON.parse(response);
+      } catch {
+        return {} as T;
+      }
+    },
+
+    async *stream(messages, options = {}) {
+      const text = await this.complete(messages, options);
+      for (let i = 0; i < text.length; i += chunkSize) {
+        throwIfAborted(options.signal);
+        yield text.slice(i, i + chunkSize);
+      }
+    },
+
+    async embed(texts: string[], options: EmbeddingOptions = {}) {
+      throwIfAborted(options.signal);
+      return texts.map(text => hashedEmbedding(text));
+    },
+  };
+}
@@ -0,0 +1,124 @@
+import OpenAI from 'openai';
+import { Errors } from '../error-handler';
+import { ChatMessage, CompletionOptions, EmbeddingOptions, LLMProvider } from './types';
+
+/**
+ * Configuration for an OpenAI-compatible HTTP endpoint
+ */
+export interface OpenAIProviderConfig {
+  apiKey: string;
+  // Override to target any OpenAI-compatible server (Azure, vLLM, Ollama, ...)
+  baseURL?: string;
+  defaultModel?: string;
+  embeddingModel?: string;
+  timeout?: number;
+}
+
+const DEFAULT_MODEL = 'gpt-4';
+const DEFAULT_EMBEDDING_MODEL = 'text-embedding-3-small';
+// Inputs per embeddings request
+const EMBEDDING_BATCH_SIZE = 256;
+
+/**
+ * Create a provider that talks to the OpenAI chat completions API
+ * @param config - Endpoint configuration
+ * @returns LLM provider backed by the HTTP API
+ */
+export function createOpenAIProvider(config: OpenAIProviderConfig): LLMProvider {
+  const client = new OpenAI({
+    apiKey: config.apiKey,
+    baseURL: config.baseURL,
+    timeout: config.timeout ?? 60000,
+  });
+  const defaultModel = config.defaultModel || DEFAULT_MODEL;
+  const embeddingModel = config.embeddingModel || DEFAULT_EMBEDDING_MODEL;
+
+  const buildParams = (messages: ChatMessage[], options: CompletionOptions = {}) => ({
+    model: options.model || defaultModel,
+    messages,
+    temperature: options.temperature ?? 0.7,
+    max_tokens: options.maxTokens,
+  });
+
+  const wrapError = (error: unknown, options: CompletionOptions | EmbeddingOptions = {}) => {
+    // Let aborts propagate untouched so callers can tell them apart from failures
+    if (options.signal?.aborted) {
+      return error;
+    }
+    console.error(`OpenAI request failed${options.task ? ` (${options.task})` : ''}:`, error);
+    return Errors.externalApi(
+      `LLM request failed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      { provider: 'openai', task: options.task }
+    );
+  };
+
+  return {
+    name: 'openai',
+
+    async complete(messages, options = {}) {
+      try {
+        const completion = await client.chat.completions.create(
+          buildParams(messages, options),
+          { signal: options.signal }
+        );
+        return completion.choices[0]?.message?.content || '';
+      } catch (error) {
+        throw wrapError(error, options);
+      }
+    },
+
+    async completeJson<T>(messages: ChatMessage[], options: CompletionOptions = {}): Promise<T> {
+      let content: string;
+      try {
+        const completion = await client.chat.completions.create(
+          { ...buildParams(messages, options), response_format: { type: 'json_object' } },
+          { signal: options.signal }
+        );
+        content = completion.choices[0]?.message?.content || '{}';
+      } catch (error) {
+        throw wrapError(error, options);
+      }
+
+      try {
+        return JSON.parse(content);
+      } catch (error) {
+        throw Errors.externalApi('LLM returned invalid JSON', { provider: 'openai', task: options.task });
+      }
+    },
+
+    async *stream(messages, options = {}) {
+      let response;
+      try {
+        response = await client.chat.completions.create(
+          { ...buildParams(messages, options), stream: true },
+          { signal: options.signal }
+        );
+      } catch (error) {
+        throw wrapError(error, options);
+      }
+
+      for await (const chunk of response) {
+        const delta = chunk.choices[0]?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    },
+
+    async embed(texts: string[], options: EmbeddingOptions = {}) {
+      const vectors: number[][] = [];
+      for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+        try {
+          const response = await client.embeddings.create(
+            { model: options.model || embeddingModel, input: texts.slice(i, i + EMBEDDING_BATCH_SIZE) },
+            { signal: options.signal }
+          );
+          vectors.push(...response.data.sort((a, b) => a.index - b.index).map(item => item.embedding));
+        } catch (error) {
+          throw wrapError(error, options);
+        }
+      }
+      return vectors;
+    },
+  };
+}
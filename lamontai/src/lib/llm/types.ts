@@ -0,0 +1,60 @@
+/**
+ * Shared types for the LLM provider layer
+ */
+
+/**
+ * A single chat message sent to a provider
+ */
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * Options accepted by every provider call
+ */
+export interface CompletionOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Logical name of the call (e.g. 'article-section'), used for logging and fixture lookup
+  task?: string;
+  // Aborts the upstream request when the caller goes away
+  signal?: AbortSignal;
+}
+
+/**
+ * Options accepted by embedding calls
+ */
+export interface EmbeddingOptions {
+  model?: string;
+  task?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Common interface implemented by every LLM backend
+ */
+export interface LLMProvider {
+  readonly name: string;
+
+  /**
+   * Run a chat completion and return the assistant text
+   */
+  complete(messages: ChatMessage[], options?: CompletionOptions): Promise<string>;
+
+  /**
+   * Run a chat completion in JSON mode and return the parsed object
+   */
+  completeJson<T>(messages: ChatMessage[], options?: CompletionOptions): Promise<T>;
+
+  /**
+   * Run a chat completion and yield text deltas as they arrive
+   */
+  stream(messages: ChatMessage[], options?: CompletionOptions): AsyncIterable<string>;
+
+  /**
+   * Embed texts as vectors, one per input in the same order
+   */
+  embed(texts: string[], options?: EmbeddingOptions): Promise<number[][]>;
+}
@@ -0,0 +1,295 @@
+/**
+ * Striking-distance keyword opportunities: queries whose page ranks just off
+ * the top of Google (positions 8-20 by default) with enough impressions that
+ * moving up would bring meaningful clicks. They are read from the Search
+ * Analytics rows synced into the database, and each one can become a task to
+ * optimize the page or a planned article.
+ */
+
+import { z } from 'zod';
+import { ContentTask, Prisma } from '@prisma/client';
+import { db } from '../db';
+import { Errors } from '../error-handler';
+import { opportunityActionSchema, opportunityPlanSchema, opportunityQuerySchema } from '../validation';
+import { classifyIntent } from '../keywords/intent';
+import { createPlanFromClusters } from '../keywords/cluster-plan';
+import { saveContentTask } from '../content-tasks';
+import { cleanTitle, pageLabel } from '../internal-links';
+import { normalizeUrl } from '../site-graph/crawler';
+import { candidateProperties, expectedCtr, isoDate } from '../search-console';
+import {
+  DEFAULT_MAX_POSITION,
+  DEFAULT_MIN_POSITION,
+  PageOutline,
+  QueryPageMetrics,
+  StrikingDistanceOpportunity,
+  findStrikingDistance,
+  queryCoverage,
+} from './scoring';
+
+export * from './scoring';
+
+export type OpportunityQuery = z.infer<typeof opportunityQuerySchema>;
+export type OpportunityAction = z.infer<typeof opportunityActionSchema>;
+export type OpportunityPlanInput = z.infer<typeof opportunityPlanSchema>;
+
+export interface OpportunityWindow {
+  start: string;
+  end: string;
+  windowDays: number;
+}
+
+export interface OpportunityReport {
+  opportunities: StrikingDistanceOpportunity[];
+  // Opportunities found before the limit, and their total uplift
+  count: number;
+  totalUplift: number;
+  property: string;
+  window: OpportunityWindow;
+}
+
+export interface OptimizeBrief {
+  url: string;
+  title: string;
+  keyword: string;
+  window: OpportunityWindow;
+  opportunity: StrikingDistanceOpportunity;
+  // The page's other striking-distance queries, most uplift first
+  relatedQueries: StrikingDistanceOpportunity[];
+  headings: string[];
+  suggestions: string[];
+}
+
+const DEFAULT_WINDOW_DAYS = 28;
+const DEFAULT_MIN_IMPRESSIONS = 100;
+const DEFAULT_LIMIT = 100;
+// Related queries kept in an optimize brief, and added to a planned article
+const BRIEF_QUERIES = 10;
+const PLAN_KEYWORDS = 4;
+// A CTR this far below the curve suggests the snippet, not the ranking, loses clicks
+const LOW_CTR_RATIO = 0.7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pageKey = (url: string, homepage: string) => normalizeUrl(url, url, homepage) || url;
+
+/**
+ * The synced property and the window of days ending with the newest synced day
+ * @throws ApiError (400) until the user's Search Console data has been synced
+ */
+async function loadWindow(userId: string, windowDays: number) {
+  const [settings, sync] = await Promise.all([
+    db.settings.findUnique({ where: { userId }, select: { websiteUrl: true } }),
+    db.searchConsoleSync.findUnique({ where: { userId } }),
+  ]);
+  if (!sync?.syncedThrough) {
+    throw Errors.validation('Choose a Search Console property and sync it to find opportunities');
+  }
+
+  const end = sync.syncedThrough;
+  const start = new Date(end.getTime() - (windowDays - 1) * DAY_MS);
+  const homepage = settings?.websiteUrl ? candidateProperties(settings.websiteUrl)[0] : null;
+  return {
+    property: sync.property,
+    start,
+    end,
+    homepage,
+    window: { start: isoDate(start), end: isoDate(end), windowDays },
+  };
+}
+
+/**
+ * Clicks, impressions and impression-weighted position per query and page
+ */
+async function loadMetrics(
+  userId: string,
+  property: string,
+  start: Date,
+  end: Date,
+  filters: { minImpressions: number; page?: string }
+): Promise<QueryPageMetrics[]> {
+  return db.$queryRaw<QueryPageMetrics[]>`
+    SELECT "query", "page",
+      SUM("clicks")::int AS "clicks",
+      SUM("impressions")::int AS "impressions",
+      SUM("position" * "impressions") / NULLIF(SUM("impressions"), 0) AS "position"
+    FROM "SearchConsoleRow"
+    WHERE "userId" = ${userId} AND "property" = ${property}
+      AND "date" BETWEEN ${start}::date AND ${end}::date
+      ${filters.page ? Prisma.sql`AND "page" = ${filters.page}` : Prisma.empty}
+    GROUP BY "query", "page"
+    HAVING SUM("impressions") >= ${filters.minImpressions}`;
+}
+
+/**
+ * Indexed titles and headings of the user's pages, by normalized URL
+ */
+async function loadOutlines(userId: string, homepage: string | null): Promise<Map<string, PageOutline>> {
+  const pages = await db.sitePage.findMany({
+    where: { userId, removedAt: null, content: { isNot: null } },
+    select: { url: true, content: { select: { title: true, headings: true } } },
+  });
+
+  return new Map(pages.map(page => [
+    homepage ? pageKey(page.url, homepage) : page.url,
+    {
+      title: page.content?.title ? cleanTitle(page.content.title) : '',
+      headings: Array.isArray(page.content?.headings) ? page.content.headings.map(String) : [],
+    },
+  ]));
+}
+
+/**
+ * Striking-distance query/page pairs from the user's synced Search Console
+ * data, most estimated uplift first
+ * @throws ApiError (400) until the user's Search Console data has been synced
+ */
+export async function getStrikingDistanceOpportunities(
+  userId: string,
+  options: Partial<OpportunityQuery> = {}
+): Promise<OpportunityReport> {
+  const windowDays = options.windowDays ?? DEFAULT_WINDOW_DAYS;
+  const minImpressions = options.minImpressions ?? DEFAULT_MIN_IMPRESSIONS;
+  const { property, start, end, homepage, window } = await loadWindow(userId, windowDays);
+
+  const [rows, outlines] = await Promise.all([
+    loadMetrics(userId, property, start, end, { minImpressions }),
+    loadOutlines(userId, homepage),
+  ]);
+
+  const opportunities = findStrikingDistance(
+    rows,
+    page => outlines.get(homepage ? pageKey(page, homepage) : page),
+    {
+      windowDays,
+      minImpressions,
+      minPosition: options.minPosition ?? DEFAULT_MIN_POSITION,
+      maxPosition: options.maxPosition ?? DEFAULT_MAX_POSITION,
+    }
+  );
+
+  return {
+    opportunities: opportunities.slice(0, options.limit ?? DEFAULT_LIMIT),
+    count: opportunities.length,
+    totalUplift: opportunities.reduce((total, opportunity) => total + opportunity.estimatedUplift, 0),
+    property,
+    window,
+  };
+}
+
+/**
+ * One query's opportunity on a page, recomputed from the synced data, with
+ * the page's other queries in striking distance
+ * @throws ApiError (404) when the page has no impressions for the query in the window
+ */
+async function loadOpportunity(userId: string, input: OpportunityAction) {
+  const windowDays = input.windowDays ?? DEFAULT_WINDOW_DAYS;
+  const { property, start, end, homepage, window } = await loadWindow(userId, windowDays);
+  const [rows, outlines] = await Promise.all([
+    loadMetrics(userId, property, start, end, { minImpressions: 1, page: input.page }),
+    loadOutlines(userId, homepage),
+  ]);
+
+  const outline = outlines.get(homepage ? pageKey(input.page, homepage) : input.page);
+  const [opportunity] = findStrikingDistance(
+    rows.filter(row => row.query === input.query),
+    () => outline,
+    { windowDays, minImpressions: 1, minPosition: 1, maxPosition: Infinity }
+  );
+  if (!opportunity) {
+    throw Errors.notFound('Opportunity');
+  }
+
+  const relatedQueries = findStrikingDistance(
+    rows.filter(row => row.query !== input.query),
+    () => outline,
+    { windowDays, minImpressions: 1, minPosition: DEFAULT_MIN_POSITION, maxPosition: DEFAULT_MAX_POSITION }
+  ).slice(0, BRIEF_QUERIES);
+
+  return { opportunity, relatedQueries, outline, window };
+}
+
+function optimizeSuggestions(
+  opportunity: StrikingDistanceOpportunity,
+  relatedQueries: StrikingDistanceOpportunity[]
+): string[] {
+  const { query } = opportunity;
+  const suggestions: string[] = [];
+
+  if (opportunity.inTitle === false) {
+    suggestions.push(`Work "${query}" into the title, as near the start as reads naturally`);
+  }
+  if (opportunity.inHeadings === false) {
+    suggestions.push(`Add a section with "${query}" in its heading`);
+  }
+  if (opportunity.missingTerms.length > 0) {
+    suggestions.push(`Use ${opportunity.missingTerms.map(term => `"${term}"`).join(', ')} in the body; the page never does in a title or heading`);
+  }
+  if (opportunity.position > 10) {
+    suggestions.push(`Link to the page from related pages with "${query}" as anchor text; it ranks on page two`);
+  }
+  if (opportunity.ctr < expectedCtr(opportunity.position) * LOW_CTR_RATIO) {
+    suggestions.push('Its click-through rate is low for its position; rewrite the title and meta description around the query');
+  }
+  const uncovered = relatedQueries.filter(related => related.inTitle === false && related.inHeadings === false);
+  if (uncovered.length > 0) {
+    suggestions.push(`Answer related searches it also ranks for: ${uncovered.slice(0, 5).map(related => related.query).join(', ')}`);
+  }
+
+  return suggestions;
+}
+
+/**
+ * Open a task to optimize the page for the query. A page has one open
+ * optimize task; converting another of its queries refocuses the brief.
+ * @throws ApiError (404) when the page has no impressions for the query
+ */
+export async function createOptimizeTask(userId: string, input: OpportunityAction): Promise<ContentTask> {
+  const { opportunity, relatedQueries, outline, window } = await loadOpportunity(userId, input);
+  const title = outline?.title || pageLabel({ url: input.page, title: '' });
+
+  const brief: OptimizeBrief = {
+    url: input.page,
+    title,
+    keyword: input.query,
+    window,
+    opportunity,
+    relatedQueries,
+    headings: outline?.headings || [],
+    suggestions: optimizeSuggestions(opportunity, relatedQueries),
+  };
+
+  return saveContentTask(userId, {
+    type: 'optimize',
+    url: input.page,
+    title: `Optimize "${title}" for "${input.query}"`,
+    keyword: input.query,
+    brief,
+  });
+}
+
+/**
+ * Plan a new article targeting the query, in a new content plan or an
+ * existing one. The page's related queries that share a term with it become
+ * secondary keywords.
+ * @throws ApiError (404) when the page has no impressions for the query, or
+ * `planId` is not one of the user's plans
+ */
+export async function planOpportunityArticle(userId: string, input: OpportunityPlanInput) {
+  const { opportunity, relatedQueries } = await loadOpportunity(userId, input);
+  const secondaryKeywords = relatedQueries
+    .filter(related => queryCoverage(related.query, { title: opportunity.query, headings: [] }).sharesTerms)
+    .slice(0, PLAN_KEYWORDS)
+    .map(related => related.query);
+
+  return createPlanFromClusters(
+    userId,
+    [{
+      headTerm: opportunity.query,
+      primaryKeyword: opportunity.query,
+      secondaryKeywords,
+      intent: classifyIntent(opportunity.query).intent,
+    }],
+    { planId: input.planId, title: 'Search opportunities' }
+  );
+}
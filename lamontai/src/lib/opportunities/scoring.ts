@@ -0,0 +1,114 @@
+import { lemmaTokens } from '../keywords/lemmatize';
+import { expectedCtr } from '../search-console/ctr';
+
+/**
+ * A query's Search Console totals on one page over a window
+ */
+export interface QueryPageMetrics {
+  query: string;
+  page: string;
+  clicks: number;
+  impressions: number;
+  // Average position, weighted by impressions
+  position: number;
+}
+
+/**
+ * The indexed title and headings of a page, where known
+ */
+export interface PageOutline {
+  title: string;
+  headings: string[];
+}
+
+export type OpportunityAction = 'optimize' | 'article';
+
+export interface StrikingDistanceOpportunity extends QueryPageMetrics {
+  ctr: number;
+  // Extra clicks a month if the page reached TARGET_POSITION
+  estimatedUplift: number;
+  pageTitle: string | null;
+  // Whether the title or a single heading uses every term of the query;
+  // null until the page has been indexed
+  inTitle: boolean | null;
+  inHeadings: boolean | null;
+  // Query terms neither the title nor any heading uses
+  missingTerms: string[];
+  // Optimize a page that is about the query, or plan an article when the
+  // page ranks without its title or headings sharing a term with it
+  suggestedAction: OpportunityAction;
+}
+
+export interface StrikingDistanceOptions {
+  windowDays: number;
+  minImpressions: number;
+  minPosition: number;
+  maxPosition: number;
+}
+
+// Striking distance: the bottom of page one and page two
+export const DEFAULT_MIN_POSITION = 8;
+export const DEFAULT_MAX_POSITION = 20;
+// Position a page moved up could reasonably reach
+export const TARGET_POSITION = 3;
+
+/**
+ * Extra clicks a month if a query's page moved from its position to
+ * TARGET_POSITION, at the expected CTR there
+ */
+export function estimateUplift(metrics: Pick<QueryPageMetrics, 'clicks' | 'impressions'>, windowDays: number): number {
+  const gain = metrics.impressions * expectedCtr(TARGET_POSITION) - metrics.clicks;
+  return Math.max(0, Math.round((gain * 30) / windowDays));
+}
+
+/**
+ * How a page's title and headings cover a query's terms
+ */
+export function queryCoverage(query: string, outline: PageOutline) {
+  const terms = Array.from(new Set(lemmaTokens(query)));
+  const titleTerms = new Set(lemmaTokens(outline.title));
+  const headingTerms = outline.headings.map(heading => new Set(lemmaTokens(heading)));
+  const used = new Set([...Array.from(titleTerms), ...headingTerms.flatMap(heading => Array.from(heading))]);
+
+  return {
+    inTitle: terms.length > 0 && terms.every(term => titleTerms.has(term)),
+    inHeadings: terms.length > 0 && headingTerms.some(heading => terms.every(term => heading.has(term))),
+    missingTerms: terms.filter(term => !used.has(term)),
+    sharesTerms: terms.some(term => used.has(term)),
+  };
+}
+
+/**
+ * Query/page pairs ranking in striking distance with enough impressions,
+ * most estimated uplift first
+ * @param outlineOf - The indexed title and headings of a page, if any
+ */
+export function findStrikingDistance(
+  rows: QueryPageMetrics[],
+  outlineOf: (page: string) => PageOutline | undefined,
+  options: StrikingDistanceOptions
+): StrikingDistanceOpportunity[] {
+  return rows
+    .filter(row =>
+      row.impressions >= options.minImpressions &&
+      row.position >= options.minPosition &&
+      row.position <= options.maxPosition
+    )
+    .map((row): StrikingDistanceOpportunity => {
+      const outline = outlineOf(row.page);
+      const coverage = outline ? queryCoverage(row.query, outline) : null;
+
+      return {
+        ...row,
+        position: Math.round(row.position * 10) / 10,
+        ctr: row.impressions > 0 ? Math.round((row.clicks / row.impressions) * 10000) / 10000 : 0,
+        estimatedUplift: estimateUplift(row, options.windowDays),
+        pageTitle: outline?.title || null,
+        inTitle: coverage?.inTitle ?? null,
+        inHeadings: coverage?.inHeadings ?? null,
+        missingTerms: coverage?.missingTerms ?? [],
+        suggestedAction: coverage && !coverage.sharesTerms ? 'article' : 'optimize',
+      };
+    })
+    .sort((a, b) => b.estimatedUplift - a.estimatedUplift || b.impressions - a.impressions);
+}
@@ -0,0 +1,199 @@
+/**
+ * Guards for fetching user-supplied URLs from the server, so that a URL
+ * cannot reach loopback, link-local or private network addresses
+ */
+import axios, { AxiosError, AxiosRequestConfig, AxiosResponse } from 'axios';
+import http from 'http';
+import https from 'https';
+import dns from 'dns';
+import net from 'net';
+import { Errors } from './error-handler';
+
+const BLOCKED_ADDRESSES = new net.BlockList();
+
+// Loopback, private, link-local, carrier-grade NAT and reserved IPv4 ranges
+([
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 3],
+] as const).forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4'));
+
+// The IPv6 equivalents, and NAT64 addresses
+([
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const).forEach(([address, prefix]) => BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6'));
+
+// IPv4-mapped IPv6 addresses are refused outright rather than unpacked. They
+// sit in a list of their own because a BlockList also matches IPv4 addresses
+// against their mapped form.
+const IPV4_MAPPED = new net.BlockList();
+IPV4_MAPPED.addSubnet('::ffff:0:0', 96, 'ipv6');
+
+/**
+ * Whether an IP address is reachable on the public internet
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = net.isIP(address);
+  if (!family) {
+    return false;
+  }
+  if (family === 6 && IPV4_MAPPED.check(address, 'ipv6')) {
+    return false;
+  }
+  return !BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Parse a URL and check it may be fetched: http(s) only, and no literal
+ * private address as the host. Hostnames are checked when they resolve, by
+ * the agents below.
+ * @throws ApiError (400) when the URL is not allowed
+ */
+export function assertPublicUrl(url: string): URL {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    throw Errors.validation(`${url} is not a valid URL`);
+  }
+
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+    throw Errors.validation('Only http and https URLs can be fetched');
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host) && !isPublicAddress(host)) {
+    throw Errors.validation(`${parsed.hostname} is not a public address`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Whether a URL is http(s) and its host resolves only to public addresses,
+ * for fetches made outside Node's agents, such as by a headless browser
+ */
+export async function isPublicUrl(url: string): Promise<boolean> {
+  let parsed: URL;
+  try {
+    parsed = assertPublicUrl(url);
+  } catch {
+    return false;
+  }
+
+  const host = parsed.hostname.replace(/^\[|\]$/g, '');
+  if (net.isIP(host)) {
+    return true;
+  }
+  try {
+    const addresses = await dns.promises.lookup(host, { all: true });
+    return addresses.length > 0 && addresses.every(entry => isPublicAddress(entry.address));
+  } catch {
+    return false;
+  }
+}
+
+// Resolves like dns.lookup, but fails for hostnames that resolve to a
+// non-public address. Checking at connect time rather than before the
+// request means a second DNS answer cannot point the socket elsewhere.
+const publicLookup = ((hostname: string, options: dns.LookupOptions, callback: (...args: unknown[]) => void) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error);
+      return;
+    }
+
+    const blocked = addresses.find(entry => !isPublicAddress(entry.address));
+    if (blocked) {
+      callback(Object.assign(new Error(`${hostname} resolves to a non-public address`), { code: 'EADDRNOTPUBLIC' }));
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}) as unknown as net.LookupFunction;
+
+export const publicHttpAgent = new http.Agent({ lookup: publicLookup });
+export const publicHttpsAgent = new https.Agent({ lookup: publicLookup });
+
+/**
+ * Whether a request failed because its host resolved to a non-public address
+ */
+export function isNonPublicAddressError(error: unknown): boolean {
+  const cause = error as { code?: string; cause?: { code?: string } } | null;
+  return cause?.code === 'EADDRNOTPUBLIC' || cause?.cause?.code === 'EADDRNOTPUBLIC';
+}
+
+// Redirects are followed by hand so that every hop is checked
+const MAX_REDIRECTS = 5;
+
+/**
+ * GET a user-supplied URL from a public address, following redirects by hand
+ * and checking every hop
+ * @param config - Request options; `validateStatus` applies to the final
+ * response, and redirect and agent options are overridden
+ * @returns The final response and the URL it was served from
+ * @throws ApiError (400) when the URL or a redirect is not a public address
+ * @throws ApiError (502) after too many redirects
+ * @throws AxiosError when the request fails or the final status is not valid
+ */
+export async function getPublicUrl<T = unknown>(
+  url: string,
+  config: AxiosRequestConfig = {}
+): Promise<{ response: AxiosResponse<T>; finalUrl: string }> {
+  const validateStatus = config.validateStatus || ((status: number) => status >= 200 && status < 300);
+  let current = assertPublicUrl(url);
+
+  for (let hop = 0; ; hop++) {
+    let response: AxiosResponse<T>;
+    try {
+      response = await axios.get<T>(current.href, {
+        ...config,
+        maxRedirects: 0,
+        httpAgent: publicHttpAgent,
+        httpsAgent: publicHttpsAgent,
+        validateStatus: () => true,
+      });
+    } catch (error) {
+      if (isNonPublicAddressError(error)) {
+        throw Errors.validation(`${current.hostname} is not a public address`);
+      }
+      throw error;
+    }
+
+    const location = response.headers['location'];
+    if (response.status >= 300 && response.status < 400 && location) {
+      if (hop >= MAX_REDIRECTS) {
+        throw Errors.externalApi(`Could not fetch ${url}: too many redirects`);
+      }
+      current = assertPublicUrl(new URL(String(location), current).href);
+      continue;
+    }
+
+    if (!validateStatus(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        response.config,
+        response.request,
+        response
+      );
+    }
+    return { response, finalUrl: current.href };
+  }
+}
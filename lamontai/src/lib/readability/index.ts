@@ -0,0 +1,211 @@
+/**
+ * Readability scoring with language-appropriate formulas, plus the
+ * paragraphs that are hardest to read
+ */
+
+import { HtmlNode, parseHtml, textContent } from '../html-tree';
+import { countCjkCharacters, countSyllables, splitSentences, splitWords } from './segmentation';
+import { detectLanguage, FORMULAS, isCjkLanguage, ReadabilityLanguage, resolveLanguage, TextCounts } from './languages';
+
+export * from './languages';
+export { countSyllables, splitSentences, splitWords } from './segmentation';
+
+export interface ReadabilityResult {
+  language: ReadabilityLanguage;
+  formula: string;
+  // Reading ease clamped to 0-100, higher is easier
+  score: number;
+  label: string;
+  // Flesch-Kincaid grade level, English only
+  gradeLevel?: number;
+  sentences: number;
+  words: number;
+  syllables: number;
+  characters: number;
+  averageSentenceLength: number;
+  averageSyllablesPerWord: number;
+}
+
+export interface HardSpot {
+  // Index into the paragraphs passed in
+  paragraph: number;
+  excerpt: string;
+  score: number;
+  reasons: string[];
+}
+
+export interface ReadabilityReport extends ReadabilityResult {
+  hardSpots: HardSpot[];
+}
+
+// Paragraphs scoring below this are flagged
+const HARD_SCORE = 50;
+// Sentences longer than this (words, or characters for CJK) are flagged
+const LONG_SENTENCE_WORDS = 25;
+const LONG_SENTENCE_CHARACTERS = 50;
+// Paragraphs shorter than this are too small to judge
+const MIN_PARAGRAPH_WORDS = 12;
+const MIN_PARAGRAPH_CHARACTERS = 25;
+const MAX_HARD_SPOTS = 10;
+
+const LABELS: Array<[number, string]> = [
+  [90, 'Very easy'],
+  [80, 'Easy'],
+  [70, 'Fairly easy'],
+  [60, 'Standard'],
+  [50, 'Fairly difficult'],
+  [30, 'Difficult'],
+  [0, 'Very difficult'],
+];
+
+const round = (value: number, digits = 1) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Describe a reading ease score
+ */
+export function readabilityLabel(score: number): string {
+  return (LABELS.find(([min]) => score >= min) || LABELS[LABELS.length - 1])[1];
+}
+
+function countText(text: string, language: ReadabilityLanguage): TextCounts {
+  const words = splitWords(text);
+  const characters = countCjkCharacters(text);
+  const han = (text.match(/\p{Script=Han}/gu) || []).length;
+
+  return {
+    sentences: Math.max(1, splitSentences(text).length),
+    words: words.length,
+    syllables: words.reduce((sum, word) => sum + countSyllables(word, language), 0),
+    characters,
+    kanjiRatio: characters ? han / characters : 0,
+  };
+}
+
+/**
+ * Score the readability of plain text
+ * @param language - Language name, code or locale; detected from the text when omitted
+ */
+export function scoreReadability(text: string, language?: string | null): ReadabilityResult {
+  const resolved = resolveLanguage(language) || detectLanguage(text);
+  const counts = countText(text, resolved);
+  const formula = FORMULAS[resolved];
+  const cjk = isCjkLanguage(resolved);
+  const measured = cjk ? counts.characters : counts.words;
+
+  const base = {
+    language: resolved,
+    formula: formula.name,
+    sentences: counts.sentences,
+    words: counts.words,
+    syllables: counts.syllables,
+    characters: counts.characters,
+  };
+
+  if (measured === 0) {
+    return { ...base, sentences: 0, score: 0, label: readabilityLabel(0), averageSentenceLength: 0, averageSyllablesPerWord: 0 };
+  }
+
+  const score = Math.round(Math.min(100, Math.max(0, formula.ease(counts))));
+  const averageSentenceLength = measured / counts.sentences;
+  const averageSyllablesPerWord = counts.words ? counts.syllables / counts.words : 0;
+
+  return {
+    ...base,
+    score,
+    label: readabilityLabel(score),
+    gradeLevel: resolved === 'en'
+      ? round(Math.max(0, 0.39 * averageSentenceLength + 11.8 * averageSyllablesPerWord - 15.59))
+      : undefined,
+    averageSentenceLength: round(averageSentenceLength),
+    averageSyllablesPerWord: round(averageSyllablesPerWord, 2),
+  };
+}
+
+function findHardSpot(text: string, index: number, language: ReadabilityLanguage): HardSpot | null {
+  const cjk = isCjkLanguage(language);
+  const length = (sentence: string) => (cjk ? countCjkCharacters(sentence) : splitWords(sentence).length);
+  const unit = cjk ? 'characters' : 'words';
+
+  if (length(text) < (cjk ? MIN_PARAGRAPH_CHARACTERS : MIN_PARAGRAPH_WORDS)) {
+    return null;
+  }
+
+  const result = scoreReadability(text, language);
+  const limit = cjk ? LONG_SENTENCE_CHARACTERS : LONG_SENTENCE_WORDS;
+  const longSentences = splitSentences(text).map(length).filter(sentenceLength => sentenceLength > limit);
+  const reasons: string[] = [];
+
+  if (result.score < HARD_SCORE) {
+    reasons.push(`${result.formula} score ${result.score} (${result.label.toLowerCase()})`);
+  }
+  if (longSentences.length) {
+    reasons.push(
+      `${longSentences.length} sentence${longSentences.length === 1 ? '' : 's'} over ${limit} ${unit} (longest ${Math.max(...longSentences)})`
+    );
+  }
+  if (!cjk && result.averageSyllablesPerWord >= 1.9) {
+    reasons.push(`Long words: ${result.averageSyllablesPerWord} syllables per word on average`);
+  }
+
+  if (reasons.length === 0) {
+    return null;
+  }
+
+  return {
+    paragraph: index,
+    excerpt: text.length > 120 ? `${text.slice(0, 117).trimEnd()}...` : text,
+    score: result.score,
+    reasons,
+  };
+}
+
+/**
+ * Score a document given as paragraphs and list its hardest paragraphs,
+ * lowest scoring first
+ * @param language - Language name, code or locale; detected from the text when omitted
+ */
+export function analyzeReadability(paragraphs: string[], language?: string | null): ReadabilityReport {
+  // Close unpunctuated blocks such as list items so they count as sentences
+  const blocks = paragraphs
+    .map(paragraph => paragraph.replace(/\s+/g, ' ').trim())
+    .map(paragraph => (!paragraph || /[.!?…。！？:]$/.test(paragraph) ? paragraph : `${paragraph}.`));
+  const text = blocks.filter(Boolean).join('\n');
+  const overall = scoreReadability(text, language);
+
+  const hardSpots = blocks
+    .map((paragraph, index) => (paragraph ? findHardSpot(paragraph, index, overall.language) : null))
+    .filter((spot): spot is HardSpot => spot !== null)
+    .sort((a, b) => a.score - b.score)
+    .slice(0, MAX_HARD_SPOTS);
+
+  return { ...overall, hardSpots };
+}
+
+// Blocks whose text is read as a paragraph
+const PARAGRAPH_TAGS = new Set(['p', 'li', 'blockquote', 'td', 'dd', 'figcaption']);
+// Blocks nested in a paragraph-level block that are read separately
+const NESTED_BLOCK_TAGS = new Set([...PARAGRAPH_TAGS, 'ul', 'ol', 'dl', 'table', 'div']);
+
+/**
+ * Split HTML into the paragraph-level blocks readability is measured on
+ */
+export function htmlToParagraphs(html: string): string[] {
+  const paragraphs: string[] = [];
+  const isNestedBlock = (node: HtmlNode) => node.type === 'element' && NESTED_BLOCK_TAGS.has(node.tag);
+
+  const walk = (nodes: HtmlNode[]) => {
+    nodes.forEach(node => {
+      if (node.type !== 'element') return;
+      if (PARAGRAPH_TAGS.has(node.tag)) {
+        const text = textContent(node.children.filter(child => !isNestedBlock(child))).trim();
+        if (text) paragraphs.push(text);
+        walk(node.children.filter(isNestedBlock));
+      } else {
+        walk(node.children);
+      }
+    });
+  };
+
+  walk(parseHtml(html));
+  return paragraphs;
+}
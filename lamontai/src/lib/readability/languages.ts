@@ -0,0 +1,143 @@
+/**
+ * Supported languages, how to recognise them and the readability formula
+ * used for each
+ */
+
+export type ReadabilityLanguage = 'en' | 'es' | 'fr' | 'de' | 'pt' | 'it' | 'nl' | 'ru' | 'ja' | 'zh';
+
+export interface TextCounts {
+  sentences: number;
+  words: number;
+  syllables: number;
+  // CJK characters, for the character-based proxy
+  characters: number;
+  // Share of Han characters among CJK characters, for Japanese
+  kanjiRatio: number;
+}
+
+export interface ReadabilityFormula {
+  name: string;
+  // Reading ease on a 0-100 scale, higher is easier
+  ease: (counts: TextCounts) => number;
+}
+
+// Names used by onboarding (Settings.targetLanguages) and ISO 639-1 codes
+const LANGUAGE_ALIASES: Record<string, ReadabilityLanguage> = {
+  english: 'en', spanish: 'es', french: 'fr', german: 'de', portuguese: 'pt',
+  italian: 'it', dutch: 'nl', russian: 'ru', japanese: 'ja', chinese: 'zh',
+  español: 'es', français: 'fr', deutsch: 'de', português: 'pt', italiano: 'it', nederlands: 'nl',
+};
+
+// Frequent function words used to guess the language of unlabelled text
+const STOPWORDS: Record<'en' | 'es' | 'fr' | 'de' | 'pt' | 'it' | 'nl', string[]> = {
+  en: ['the', 'and', 'of', 'to', 'is', 'in', 'that', 'it', 'for', 'you', 'with', 'are', 'this', 'be'],
+  es: ['el', 'la', 'de', 'que', 'y', 'en', 'los', 'las', 'por', 'con', 'para', 'una', 'es', 'del'],
+  fr: ['le', 'la', 'les', 'de', 'des', 'et', 'est', 'que', 'une', 'pour', 'dans', 'du', 'pas', 'vous'],
+  de: ['der', 'die', 'das', 'und', 'ist', 'nicht', 'mit', 'sie', 'ein', 'eine', 'den', 'zu', 'auf', 'ich'],
+  pt: ['o', 'a', 'os', 'de', 'que', 'e', 'do', 'da', 'em', 'um', 'para', 'com', 'não', 'uma'],
+  it: ['il', 'la', 'di', 'che', 'e', 'per', 'un', 'una', 'non', 'sono', 'del', 'della', 'con', 'gli'],
+  nl: ['de', 'het', 'een', 'en', 'van', 'ik', 'je', 'dat', 'niet', 'op', 'is', 'met', 'voor', 'zijn'],
+};
+
+const per100 = (value: number, words: number) => (value / words) * 100;
+const averageSentenceLength = (counts: TextCounts) => counts.words / counts.sentences;
+const averageSyllables = (counts: TextCounts) => counts.syllables / counts.words;
+
+// Character-based proxy for scripts without word spacing: sentences of
+// about 10 characters or fewer score 100 and every extra character costs two points
+const cjkProxy = (counts: TextCounts, kanjiPenalty: number) =>
+  100 - 2 * Math.max(0, counts.characters / counts.sentences - 10) - kanjiPenalty * Math.max(0, counts.kanjiRatio - 0.3);
+
+export const FORMULAS: Record<ReadabilityLanguage, ReadabilityFormula> = {
+  en: {
+    name: 'Flesch reading ease',
+    ease: counts => 206.835 - 1.015 * averageSentenceLength(counts) - 84.6 * averageSyllables(counts),
+  },
+  es: {
+    name: 'Fernández-Huerta',
+    ease: counts => 206.84 - 0.6 * per100(counts.syllables, counts.words) - 1.02 * averageSentenceLength(counts),
+  },
+  fr: {
+    name: 'Kandel-Moles',
+    ease: counts => 207 - 1.015 * averageSentenceLength(counts) - 73.6 * averageSyllables(counts),
+  },
+  de: {
+    name: 'Amstad',
+    ease: counts => 180 - averageSentenceLength(counts) - 58.5 * averageSyllables(counts),
+  },
+  pt: {
+    name: 'Flesch (Martins)',
+    ease: counts => 248.835 - 1.015 * averageSentenceLength(counts) - 84.6 * averageSyllables(counts),
+  },
+  it: {
+    name: 'Flesch-Vacca',
+    ease: counts => 206 - 0.65 * per100(counts.syllables, counts.words) - averageSentenceLength(counts),
+  },
+  nl: {
+    name: 'Flesch-Douma',
+    ease: counts => 206.835 - 0.93 * averageSentenceLength(counts) - 77 * averageSyllables(counts),
+  },
+  ru: {
+    name: 'Flesch (Oborneva)',
+    ease: counts => 206.835 - 1.3 * averageSentenceLength(counts) - 60.1 * averageSyllables(counts),
+  },
+  ja: {
+    name: 'CJK sentence length proxy',
+    // Kanji-dense text reads harder than the same length in kana
+    ease: counts => cjkProxy(counts, 60),
+  },
+  zh: {
+    name: 'CJK sentence length proxy',
+    ease: counts => cjkProxy(counts, 0),
+  },
+};
+
+export const isCjkLanguage = (language: ReadabilityLanguage) => language === 'ja' || language === 'zh';
+
+/**
+ * Map a language name, code or locale (e.g. "Spanish", "es", "pt-BR") to a
+ * supported language
+ */
+export function resolveLanguage(value?: string | null): ReadabilityLanguage | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const normalized = value.trim().toLowerCase();
+  const code = normalized.split(/[-_]/)[0];
+  if (code in FORMULAS) {
+    return code as ReadabilityLanguage;
+  }
+  return LANGUAGE_ALIASES[normalized];
+}
+
+/**
+ * Guess the language of text from its script and most frequent function words
+ */
+export function detectLanguage(text: string): ReadabilityLanguage {
+  const sample = text.slice(0, 5000);
+  const letters = (sample.match(/\p{L}/gu) || []).length || 1;
+  const kana = (sample.match(/[\p{Script=Hiragana}\p{Script=Katakana}]/gu) || []).length;
+  const han = (sample.match(/\p{Script=Han}/gu) || []).length;
+  const cyrillic = (sample.match(/\p{Script=Cyrillic}/gu) || []).length;
+
+  if ((kana + han) / letters > 0.3) {
+    return kana > 0 ? 'ja' : 'zh';
+  }
+  if (cyrillic / letters > 0.3) {
+    return 'ru';
+  }
+
+  const words = sample.toLowerCase().match(/\p{L}+/gu) || [];
+  let best: ReadabilityLanguage = 'en';
+  let bestHits = 0;
+  (Object.keys(STOPWORDS) as Array<keyof typeof STOPWORDS>).forEach(language => {
+    const stopwords = new Set(STOPWORDS[language]);
+    const hits = words.filter(word => stopwords.has(word)).length;
+    if (hits > bestHits) {
+      best = language;
+      bestHits = hits;
+    }
+  });
+
+  return best;
+}
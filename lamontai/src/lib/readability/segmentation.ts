@@ -0,0 +1,119 @@
+/**
+ * Sentence, word and syllable segmentation for the readability formulas
+ */
+
+import type { ReadabilityLanguage } from './languages';
+
+const CJK_CHARS = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu;
+
+// Abbreviations whose trailing period does not end a sentence
+const ABBREVIATIONS = /\b(?:e\.g|i\.e|etc|vs|mr|mrs|ms|dr|prof|sr|jr|st|no|fig|approx|z\.b|bzw|usw|p\.ej|sra?|mme|mlle)\.$/i;
+
+/**
+ * Split text into sentences on terminal punctuation, including CJK full stops
+ */
+export function splitSentences(text: string): string[] {
+  const parts = text.replace(/\s+/g, ' ').split(/(?<=[.!?…])\s+|(?<=[。！？])/);
+  const sentences: string[] = [];
+
+  parts.forEach(part => {
+    const previous = sentences[sentences.length - 1];
+    if (previous !== undefined && ABBREVIATIONS.test(previous)) {
+      sentences[sentences.length - 1] = `${previous} ${part}`;
+    } else {
+      sentences.push(part);
+    }
+  });
+
+  return sentences.map(sentence => sentence.trim()).filter(sentence => /[\p{L}\p{N}]/u.test(sentence));
+}
+
+/**
+ * Split text into words, keeping apostrophes and hyphens inside words
+ */
+export function splitWords(text: string): string[] {
+  return text.replace(CJK_CHARS, ' ').match(/[\p{L}\p{N}]+(?:['’-][\p{L}\p{N}]+)*/gu) || [];
+}
+
+/**
+ * Count CJK characters, the unit the CJK proxy measures length in
+ */
+export function countCjkCharacters(text: string): number {
+  return (text.match(CJK_CHARS) || []).length;
+}
+
+const countGroups = (word: string, vowels: RegExp) => (word.match(vowels) || []).length;
+
+function englishSyllables(word: string): number {
+  if (word.length <= 3) {
+    return 1;
+  }
+  const trimmed = word
+    .replace(/(?:[^laeiouy]es|[^laeiouy]ed|[^laeiouy]e)$/, '')
+    .replace(/^y/, '');
+  return Math.max(1, countGroups(trimmed, /[aeiouy]{1,2}/g));
+}
+
+// Spanish, Italian and Portuguese: two strong vowels, or an accented weak
+// vowel next to a strong one, are separate syllables (hiatus); otherwise
+// adjacent vowels form a diphthong
+function romanceSyllables(word: string): number {
+  const strong = 'aeoáéóàèòâêôãõ';
+  const accentedWeak = 'íúìù';
+  const vowels = /[aeiouáéíóúàèìòùâêôãõü]+/g;
+  let syllables = 0;
+
+  (word.match(vowels) || []).forEach(group => {
+    syllables++;
+    for (let i = 1; i < group.length; i++) {
+      const a = group[i - 1];
+      const b = group[i];
+      const hiatus = (strong.includes(a) && strong.includes(b))
+        || (accentedWeak.includes(a) && strong.includes(b))
+        || (strong.includes(a) && accentedWeak.includes(b));
+      if (hiatus) syllables++;
+    }
+  });
+
+  return Math.max(1, syllables);
+}
+
+function frenchSyllables(word: string): number {
+  const vowels = /[aeiouyàâäéèêëîïôöùûüœæ]+/g;
+  let syllables = countGroups(word, vowels);
+  // A final mute e (-e, -es, -ent) is not pronounced
+  if (syllables > 1 && /(?:[^aeiouyéèêë]e|[^aeiouyéèêë]es|[^aeiouyéèêë]ent)$/.test(word)) {
+    syllables--;
+  }
+  return Math.max(1, syllables);
+}
+
+/**
+ * Estimate the syllables in a word for a language
+ */
+export function countSyllables(word: string, language: ReadabilityLanguage = 'en'): number {
+  const lower = word.toLowerCase();
+  if (!/[\p{L}]/u.test(lower)) {
+    // Count a bare number as one syllable
+    return 1;
+  }
+
+  switch (language) {
+    case 'en':
+      return englishSyllables(lower.replace(/[^a-z]/g, '') || lower);
+    case 'es':
+    case 'it':
+    case 'pt':
+      return romanceSyllables(lower);
+    case 'fr':
+      return frenchSyllables(lower);
+    case 'de':
+      return Math.max(1, countGroups(lower, /[aeiouyäöü]+/g));
+    case 'nl':
+      return Math.max(1, countGroups(lower, /[aeiouyàáèéëïóöü]+/g));
+    case 'ru':
+      return Math.max(1, countGroups(lower, /[аеёиоуыэюя]/g));
+    default:
+      return Math.max(1, countGroups(lower, /[aeiouy]+/g));
+  }
+}
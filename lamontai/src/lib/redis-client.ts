@@ -121,6 +121,34 @@ class RedisClient {
     }
   }
 
+  /**
+   * Set a value only if the key is not already set, atomically, so it can
+   * serve as a lock or a one-time claim
+   * @returns Whether the value was set
+   */
+  public async setIfAbsent(key: string, value: unknown, ttl = DEFAULT_CACHE_TTL): Promise<boolean> {
+    try {
+      if (this.isAlive() && this.redis) {
+        const result = await this.redis.set(key, JSON.stringify(value), 'EX', ttl, 'NX');
+        return result === 'OK';
+      }
+    } catch (error) {
+      console.error(`Error setting cache key ${key}:`, error);
+    }
+
+    // The memory cache is checked and set without yielding, which is atomic
+    // within this process
+    const existing = memoryCache[key];
+    if (existing && existing.expiry > Date.now()) {
+      return false;
+    }
+    memoryCache[key] = {
+      value,
+      expiry: Date.now() + ttl * 1000,
+    };
+    return true;
+  }
+
   /**
    * Get a value from cache
    */
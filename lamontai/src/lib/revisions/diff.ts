@@ -0,0 +1,229 @@
+/**
+ * HTML-aware diff between two revisions of article content.
+ * Content is compared block by block (headings, paragraphs, list items),
+ * then word by word inside changed blocks, so markup is never split.
+ */
+
+export interface HtmlDiffStats {
+  blocksAdded: number;
+  blocksRemoved: number;
+  blocksChanged: number;
+  wordsAdded: number;
+  wordsRemoved: number;
+}
+
+export interface HtmlDiff {
+  // The new content with <ins>/<del> marking the changes
+  html: string;
+  stats: HtmlDiffStats;
+}
+
+type DiffOp<T> = { type: 'equal' | 'insert' | 'delete'; value: T };
+
+// Above this many comparison cells a changed block is shown as a whole replacement
+const MAX_LCS_CELLS = 4_000_000;
+
+const BLOCK_END = /(<\/(?:p|h[1-6]|li|ul|ol|blockquote|pre|table|figure|div)>)/i;
+
+const isTag = (token: string) => token.startsWith('<');
+const isWord = (token: string) => !isTag(token) && token.trim().length > 0;
+
+/**
+ * Split HTML into block-level chunks
+ */
+export function splitBlocks(html: string): string[] {
+  const parts = html.split(BLOCK_END);
+  const blocks: string[] = [];
+
+  for (let i = 0; i < parts.length; i += 2) {
+    const block = (parts[i] + (parts[i + 1] || '')).trim();
+    if (block) {
+      blocks.push(block);
+    }
+  }
+
+  return blocks;
+}
+
+/**
+ * Split a block into tags, words and whitespace
+ */
+export function tokenizeHtml(html: string): string[] {
+  return html.match(/<[^>]+>|\s+|[^<\s]+/g) || [];
+}
+
+/**
+ * Longest-common-subsequence diff of two token lists
+ */
+export function diffSequences<T>(before: T[], after: T[]): Array<DiffOp<T>> | null {
+  const n = before.length;
+  const m = after.length;
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    return null;
+  }
+
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const width = m + 1;
+  const lengths = new Uint32Array((n + 1) * width);
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] = before[i] === after[j]
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1]);
+    }
+  }
+
+  const ops: Array<DiffOp<T>> = [];
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (before[i] === after[j]) {
+      ops.push({ type: 'equal', value: after[j] });
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      ops.push({ type: 'delete', value: before[i++] });
+    } else {
+      ops.push({ type: 'insert', value: after[j++] });
+    }
+  }
+  while (i < n) ops.push({ type: 'delete', value: before[i++] });
+  while (j < m) ops.push({ type: 'insert', value: after[j++] });
+
+  return ops;
+}
+
+/**
+ * Render a run of changed tokens with the text wrapped in <ins>/<del>
+ * @param keepTags - Keep the run's markup; inside an edited block only
+ * inserted markup is kept so tags stay balanced
+ */
+function renderRun(tokens: string[], type: 'insert' | 'delete', keepTags = type === 'insert'): string {
+  const wrapper = type === 'insert' ? 'ins' : 'del';
+  let output = '';
+  let text = '';
+
+  const flush = () => {
+    if (text.trim()) {
+      output += `<${wrapper}>${text}</${wrapper}>`;
+    } else {
+      output += text;
+    }
+    text = '';
+  };
+
+  tokens.forEach(token => {
+    if (isTag(token)) {
+      flush();
+      if (keepTags) {
+        output += token;
+      }
+    } else {
+      text += token;
+    }
+  });
+  flush();
+
+  return output;
+}
+
+const blockTag = (block: string) => /^<([a-z0-9]+)/i.exec(block)?.[1].toLowerCase() || '';
+
+/**
+ * Diff the words of two versions of the same block
+ */
+function diffBlock(before: string, after: string, stats: HtmlDiffStats): string {
+  const ops = diffSequences(tokenizeHtml(before), tokenizeHtml(after));
+  if (!ops) {
+    stats.wordsRemoved += tokenizeHtml(before).filter(isWord).length;
+    stats.wordsAdded += tokenizeHtml(after).filter(isWord).length;
+    return renderRun(tokenizeHtml(before), 'delete', true) + renderRun(tokenizeHtml(after), 'insert');
+  }
+
+  let output = '';
+  let run: string[] = [];
+  let runType: 'insert' | 'delete' | null = null;
+
+  const flush = () => {
+    if (runType) {
+      output += renderRun(run, runType);
+    }
+    run = [];
+    runType = null;
+  };
+
+  ops.forEach(op => {
+    if (op.type === 'equal') {
+      flush();
+      output += op.value;
+      return;
+    }
+    if (op.type !== runType) {
+      flush();
+      runType = op.type;
+    }
+    run.push(op.value);
+    if (isWord(op.value)) {
+      if (op.type === 'insert') stats.wordsAdded++;
+      else stats.wordsRemoved++;
+    }
+  });
+  flush();
+
+  return output;
+}
+
+/**
+ * Diff two versions of article HTML
+ */
+export function diffHtml(before: string, after: string): HtmlDiff {
+  const stats: HtmlDiffStats = { blocksAdded: 0, blocksRemoved: 0, blocksChanged: 0, wordsAdded: 0, wordsRemoved: 0 };
+  const ops = diffSequences(splitBlocks(before), splitBlocks(after)) || [
+    ...splitBlocks(before).map(value => ({ type: 'delete' as const, value })),
+    ...splitBlocks(after).map(value => ({ type: 'insert' as const, value })),
+  ];
+
+  const output: string[] = [];
+  let deleted: string[] = [];
+  let inserted: string[] = [];
+
+  // Pair up adjacent removed and added blocks of the same kind as edits
+  const flush = () => {
+    const pairs = Math.min(deleted.length, inserted.length);
+    for (let k = 0; k < Math.max(deleted.length, inserted.length); k++) {
+      const oldBlock = deleted[k];
+      const newBlock = inserted[k];
+      if (k < pairs && blockTag(oldBlock) === blockTag(newBlock)) {
+        stats.blocksChanged++;
+        output.push(diffBlock(oldBlock, newBlock, stats));
+        continue;
+      }
+      if (oldBlock !== undefined) {
+        stats.blocksRemoved++;
+        stats.wordsRemoved += tokenizeHtml(oldBlock).filter(isWord).length;
+        output.push(renderRun(tokenizeHtml(oldBlock), 'delete', true));
+      }
+      if (newBlock !== undefined) {
+        stats.blocksAdded++;
+        stats.wordsAdded += tokenizeHtml(newBlock).filter(isWord).length;
+        output.push(renderRun(tokenizeHtml(newBlock), 'insert'));
+      }
+    }
+    deleted = [];
+    inserted = [];
+  };
+
+  ops.forEach(op => {
+    if (op.type === 'equal') {
+      flush();
+      output.push(op.value);
+    } else if (op.type === 'delete') {
+      deleted.push(op.value);
+    } else {
+      inserted.push(op.value);
+    }
+  });
+  flush();
+
+  return { html: output.join('\n'), stats };
+}
@@ -0,0 +1,182 @@
+/**
+ * Article revision history: a snapshot of the title, content, meta
+ * description and keywords is stored on every save that changes them
+ */
+
+import { Article, ArticleRevision, Prisma } from '@prisma/client';
+import { db } from '../db';
+import { Errors } from '../error-handler';
+import { diffHtml, HtmlDiff } from './diff';
+
+export * from './diff';
+
+export type RevisionSource = 'human' | 'ai';
+
+export interface SnapshotOptions {
+  authorId?: string | null;
+  source?: RevisionSource;
+  restoredFromId?: string;
+}
+
+export interface FieldChange {
+  before: string | null;
+  after: string | null;
+  changed: boolean;
+}
+
+export interface RevisionDiff {
+  from: RevisionSummary;
+  to: RevisionSummary;
+  fields: {
+    title: FieldChange;
+    metaDescription: FieldChange;
+    keywords: FieldChange;
+  };
+  content: HtmlDiff;
+}
+
+const SNAPSHOT_FIELDS = ['title', 'content', 'metaDescription', 'keywords'] as const;
+
+type Snapshot = Pick<Article, typeof SNAPSHOT_FIELDS[number]>;
+
+const summarySelect = {
+  id: true,
+  version: true,
+  title: true,
+  metaDescription: true,
+  keywords: true,
+  source: true,
+  restoredFromId: true,
+  createdAt: true,
+  author: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.ArticleRevisionSelect;
+
+export type RevisionSummary = Prisma.ArticleRevisionGetPayload<{ select: typeof summarySelect }>;
+
+/**
+ * Whether two versions of an article differ in any snapshotted field
+ */
+export function hasSnapshotChanges(before: Snapshot, after: Snapshot): boolean {
+  return SNAPSHOT_FIELDS.some(field => (before[field] || '') !== (after[field] || ''));
+}
+
+/**
+ * Lock an article's row until the transaction ends, so concurrent saves
+ * number their revisions one after the other instead of both taking the
+ * same version
+ */
+async function lockArticle(tx: Prisma.TransactionClient, articleId: string): Promise<void> {
+  await tx.$queryRaw`SELECT "id" FROM "Article" WHERE "id" = ${articleId} FOR UPDATE`;
+}
+
+/**
+ * Store the current state of an article as its next revision
+ * @param tx - Transaction the article write is running in
+ */
+export async function snapshotArticle(
+  tx: Prisma.TransactionClient,
+  article: Pick<Article, 'id'> & Snapshot,
+  options: SnapshotOptions = {}
+): Promise<ArticleRevision> {
+  await lockArticle(tx, article.id);
+  const latest = await tx.articleRevision.aggregate({
+    where: { articleId: article.id },
+    _max: { version: true },
+  });
+
+  return tx.articleRevision.create({
+    data: {
+      articleId: article.id,
+      version: (latest._max.version || 0) + 1,
+      title: article.title,
+      content: article.content,
+      metaDescription: article.metaDescription,
+      keywords: article.keywords,
+      authorId: options.authorId ?? null,
+      source: options.source || 'human',
+      restoredFromId: options.restoredFromId,
+    },
+  });
+}
+
+/**
+ * Snapshot an article saved before revision history existed, so its
+ * original state survives the first tracked save
+ */
+export async function ensureBaseRevision(tx: Prisma.TransactionClient, article: Article): Promise<void> {
+  await lockArticle(tx, article.id);
+  const count = await tx.articleRevision.count({ where: { articleId: article.id } });
+  if (count === 0) {
+    await snapshotArticle(tx, article, { authorId: article.userId });
+  }
+}
+
+/**
+ * List an article's revisions, newest first, without their content
+ */
+export async function listRevisions(articleId: string): Promise<RevisionSummary[]> {
+  return db.articleRevision.findMany({
+    where: { articleId },
+    select: summarySelect,
+    orderBy: { version: 'desc' },
+  });
+}
+
+/**
+ * Get a single revision of an article
+ * @throws ApiError (404) when the revision does not belong to the article
+ */
+export async function getRevision(articleId: string, revisionId: string): Promise<ArticleRevision> {
+  const revision = await db.articleRevision.findFirst({ where: { id: revisionId, articleId } });
+  if (!revision) {
+    throw Errors.notFound('Revision');
+  }
+  return revision;
+}
+
+const fieldChange = (before: string | null, after: string | null): FieldChange => ({
+  before,
+  after,
+  changed: (before || '') !== (after || ''),
+});
+
+const toSummary = (revision: ArticleRevision & { author: RevisionSummary['author'] }): RevisionSummary => ({
+  id: revision.id,
+  version: revision.version,
+  title: revision.title,
+  metaDescription: revision.metaDescription,
+  keywords: revision.keywords,
+  source: revision.source,
+  restoredFromId: revision.restoredFromId,
+  createdAt: revision.createdAt,
+  author: revision.author,
+});
+
+/**
+ * Diff two revisions of an article
+ * @param toId - The newer revision; defaults to the latest one
+ */
+export async function diffRevisions(articleId: string, fromId: string, toId?: string): Promise<RevisionDiff> {
+  const include = { author: summarySelect.author };
+  const [from, to] = await Promise.all([
+    db.articleRevision.findFirst({ where: { id: fromId, articleId }, include }),
+    toId
+      ? db.articleRevision.findFirst({ where: { id: toId, articleId }, include })
+      : db.articleRevision.findFirst({ where: { articleId }, include, orderBy: { version: 'desc' } }),
+  ]);
+
+  if (!from || !to) {
+    throw Errors.notFound('Revision');
+  }
+
+  return {
+    from: toSummary(from),
+    to: toSummary(to),
+    fields: {
+      title: fieldChange(from.title, to.title),
+      metaDescription: fieldChange(from.metaDescription, to.metaDescription),
+      keywords: fieldChange(from.keywords, to.keywords),
+    },
+    content: diffHtml(from.content || '', to.content || ''),
+  };
+}
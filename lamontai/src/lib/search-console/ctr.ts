@@ -0,0 +1,28 @@
+/**
+ * Expected organic click-through rate by average Google position, from
+ * published industry click curves for desktop and mobile combined. Actual
+ * CTR varies with the query and SERP features; the curve gives a baseline
+ * to compare a page against and to estimate clicks at another position.
+ */
+
+// CTR at positions 1 to 20
+const CTR_BY_POSITION = [
+  0.28, 0.155, 0.11, 0.08, 0.06, 0.046, 0.036, 0.029, 0.024, 0.02,
+  0.017, 0.015, 0.013, 0.012, 0.011, 0.01, 0.009, 0.008, 0.007, 0.006,
+];
+// CTR past the second page
+const TAIL_CTR = 0.004;
+
+/**
+ * Expected CTR for an average position, interpolated between whole positions
+ */
+export function expectedCtr(position: number): number {
+  if (!Number.isFinite(position) || position <= 1) return CTR_BY_POSITION[0];
+  if (position > CTR_BY_POSITION.length) return TAIL_CTR;
+
+  const lower = Math.floor(position);
+  const upper = Math.min(lower + 1, CTR_BY_POSITION.length);
+  const fraction = position - lower;
+  const upperCtr = upper === lower ? TAIL_CTR : CTR_BY_POSITION[upper - 1];
+  return CTR_BY_POSITION[lower - 1] * (1 - fraction) + upperCtr * fraction;
+}
@@ -0,0 +1,231 @@
+/**
+ * Google Search Console access for the connected user: the stored OAuth
+ * token, the properties the account can see, the one that covers their
+ * website and paged Search Analytics queries against it.
+ *
+ * GOOGLE_API_URL points the client at another host, such as the local
+ * stand-in in scripts/gsc-stand-in.ts.
+ */
+
+import axios from 'axios';
+import { db } from '../db';
+import { Errors } from '../error-handler';
+import { brokenConnectionError, getSearchConsoleAccessToken, markSearchConsoleBroken, refreshSearchConsoleToken } from './tokens';
+
+export * from './tokens';
+export * from './ctr';
+
+const SITES_URL = `${process.env.GOOGLE_API_URL || 'https://www.googleapis.com'}/webmasters/v3/sites`;
+// Search Console data lags by two to three days
+export const DATA_DELAY_DAYS = 3;
+// Largest page of rows the Search Analytics API returns
+const PAGE_SIZE = 25000;
+
+export interface SearchAnalyticsRow {
+  keys: string[];
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  position: number;
+}
+
+export interface SearchAnalyticsQuery {
+  startDate: string;
+  endDate: string;
+  dimensions: Array<'date' | 'query' | 'page' | 'country' | 'device'>;
+  dimensionFilterGroups?: Array<{ filters: Array<Record<string, string>> }>;
+  rowLimit?: number;
+}
+
+export interface SearchConsoleAccess {
+  userId: string;
+  accessToken: string;
+  websiteUrl: string;
+  // The property chosen in settings, queried instead of guessing one
+  property: string | null;
+}
+
+export interface SearchConsoleProperty {
+  siteUrl: string;
+  type: 'url-prefix' | 'domain';
+  permissionLevel: string;
+  // Unverified users can see a property but not its data
+  verified: boolean;
+  // Whether the property covers the website URL in settings
+  coversWebsite: boolean;
+}
+
+export const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+/**
+ * The start of the UTC day a number of days before today
+ */
+export function daysAgo(days: number): Date {
+  const date = new Date();
+  date.setUTCHours(0, 0, 0, 0);
+  date.setUTCDate(date.getUTCDate() - days);
+  return date;
+}
+
+const parseWebsiteUrl = (websiteUrl: string) =>
+  new URL(/^https?:\/\//i.test(websiteUrl) ? websiteUrl : `https://${websiteUrl}`);
+
+/**
+ * Search Console properties that may cover a website: the URL-prefix
+ * property first, then the domain property
+ */
+export function candidateProperties(websiteUrl: string): string[] {
+  const url = parseWebsiteUrl(websiteUrl);
+  return [`${url.origin}/`, `sc-domain:${url.hostname.replace(/^www\./, '')}`];
+}
+
+/**
+ * Whether a property covers a website: a domain property covers its host and
+ * subdomains on any protocol, a URL-prefix property the URLs that start with it
+ */
+export function propertyCoversWebsite(siteUrl: string, websiteUrl: string): boolean {
+  const url = parseWebsiteUrl(websiteUrl);
+  if (siteUrl.startsWith('sc-domain:')) {
+    const domain = siteUrl.slice('sc-domain:'.length).toLowerCase();
+    return url.hostname === domain || url.hostname.endsWith(`.${domain}`);
+  }
+  return `${url.origin}${url.pathname}`.startsWith(siteUrl);
+}
+
+/**
+ * The user's Search Console token and website
+ * @param purpose - What the data is for, used in the error messages
+ */
+export async function loadSearchConsoleAccess(userId: string, purpose: string): Promise<SearchConsoleAccess> {
+  const settings = await db.settings.findUnique({ where: { userId } });
+
+  if (!settings?.hasGoogleSearchConsole || !settings.googleSearchConsoleTokens) {
+    throw Errors.validation(`Connect Google Search Console to ${purpose}`);
+  }
+  if (!settings.websiteUrl) {
+    throw Errors.validation(`Add your website URL in settings to ${purpose}`);
+  }
+
+  const accessToken = await getSearchConsoleAccessToken(userId);
+  return { userId, accessToken, websiteUrl: settings.websiteUrl, property: settings.googleSearchConsoleProperty };
+}
+
+/**
+ * Run a Search Analytics query against one property, following pages of
+ * rows up to maxRows
+ */
+export async function querySearchAnalytics(
+  accessToken: string,
+  property: string,
+  query: SearchAnalyticsQuery,
+  maxRows = query.rowLimit ?? PAGE_SIZE
+): Promise<SearchAnalyticsRow[]> {
+  const rows: SearchAnalyticsRow[] = [];
+
+  while (rows.length < maxRows) {
+    const rowLimit = Math.min(PAGE_SIZE, maxRows - rows.length);
+    const response = await axios.post(
+      `${SITES_URL}/${encodeURIComponent(property)}/searchAnalytics/query`,
+      { ...query, rowLimit, startRow: rows.length },
+      { headers: { Authorization: `Bearer ${accessToken}` }, timeout: 30000 }
+    );
+    const page: SearchAnalyticsRow[] = response.data?.rows || [];
+    rows.push(...page);
+    if (page.length < rowLimit) break;
+  }
+
+  return rows;
+}
+
+/**
+ * Call Google with the user's access token, renewing it once if Google
+ * rejects it. `access` keeps the new token for later calls.
+ */
+async function withRenewal<T>(access: SearchConsoleAccess, call: (accessToken: string) => Promise<T>): Promise<T> {
+  const rejected = (error: unknown) => axios.isAxiosError(error) && error.response?.status === 401;
+
+  try {
+    return await call(access.accessToken);
+  } catch (error) {
+    if (!rejected(error)) throw error;
+  }
+
+  // Revoked or expired early: renew the token and try again
+  access.accessToken = await refreshSearchConsoleToken(access.userId);
+  try {
+    return await call(access.accessToken);
+  } catch (error) {
+    if (rejected(error)) {
+      await markSearchConsoleBroken(access.userId, 'Google rejected a renewed access token');
+      throw brokenConnectionError();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Properties the connected account can see, those covering the user's
+ * website first
+ */
+export async function listSearchConsoleProperties(
+  access: SearchConsoleAccess
+): Promise<SearchConsoleProperty[]> {
+  let entries: Array<{ siteUrl: string; permissionLevel: string }>;
+  try {
+    const response = await withRenewal(access, accessToken =>
+      axios.get(SITES_URL, { headers: { Authorization: `Bearer ${accessToken}` }, timeout: 30000 })
+    );
+    entries = response.data?.siteEntry || [];
+  } catch (error) {
+    if (!axios.isAxiosError(error)) throw error;
+    console.error('Error listing Search Console properties:', error);
+    throw Errors.externalApi('Could not list your Search Console properties; try again later');
+  }
+
+  const properties = entries.map((entry): SearchConsoleProperty => ({
+    siteUrl: entry.siteUrl,
+    type: entry.siteUrl.startsWith('sc-domain:') ? 'domain' : 'url-prefix',
+    permissionLevel: entry.permissionLevel,
+    verified: entry.permissionLevel !== 'siteUnverifiedUser',
+    coversWebsite: propertyCoversWebsite(entry.siteUrl, access.websiteUrl),
+  }));
+
+  return properties.sort(
+    (a, b) =>
+      Number(b.coversWebsite && b.verified) - Number(a.coversWebsite && a.verified) ||
+      a.siteUrl.localeCompare(b.siteUrl)
+  );
+}
+
+/**
+ * Run a Search Analytics query against the property chosen in settings or,
+ * without one, the first property of the user's website that the connected
+ * account can read
+ */
+export async function querySiteAnalytics(
+  access: SearchConsoleAccess,
+  query: SearchAnalyticsQuery,
+  maxRows?: number
+): Promise<{ property: string; rows: SearchAnalyticsRow[] }> {
+  let lastError: unknown;
+  const properties = access.property ? [access.property] : candidateProperties(access.websiteUrl);
+  for (const property of properties) {
+    try {
+      const rows = await withRenewal(access, accessToken => querySearchAnalytics(accessToken, property, query, maxRows));
+      return { property, rows };
+    } catch (error) {
+      // A broken connection or a failed renewal
+      if (!axios.isAxiosError(error)) throw error;
+
+      lastError = error;
+      const status = error.response?.status;
+      // 403/404 mean the account cannot see this property; try the next one
+      if (status !== 403 && status !== 404) {
+        break;
+      }
+    }
+  }
+
+  console.error('Search Console query failed:', lastError);
+  throw Errors.externalApi(`No Search Console data available for ${access.websiteUrl}`);
+}
@@ -0,0 +1,364 @@
+/**
+ * Search Analytics rows copied from the user's chosen Search Console property
+ * into local tables. The first sync backfills the 16 months Google keeps,
+ * newest day first; later syncs fetch the days since the last one and fetch
+ * the most recent days again, as Google finalizes them late. Each day is
+ * replaced as a whole, so a rerun or a day fetched twice never duplicates rows.
+ * A sync stops after GSC_SYNC_MAX_MINUTES and the next one carries on where
+ * it left off.
+ */
+
+import { SearchConsoleSync } from '@prisma/client';
+import { db } from '../db';
+import redisClient from '../redis-client';
+import { ApiError, Errors } from '../error-handler';
+import {
+  DATA_DELAY_DAYS,
+  SearchConsoleAccess,
+  SearchConsoleProperty,
+  daysAgo,
+  isoDate,
+  listSearchConsoleProperties,
+  loadSearchConsoleAccess,
+  querySiteAnalytics,
+} from './index';
+
+export interface SearchConsolePropertyList {
+  properties: SearchConsoleProperty[];
+  selected: string | null;
+  websiteUrl: string;
+}
+
+export interface SearchConsoleSyncStatus {
+  property: string | null;
+  sync: SearchConsoleSync | null;
+  // Whether every day Google still keeps has been fetched
+  backfilled: boolean;
+  // The oldest day Google keeps data for
+  retainedFrom: string;
+}
+
+// Google keeps 16 months of Search Analytics data
+const RETENTION_MONTHS = 16;
+// Days up to the newest stored one that each sync fetches again
+const REFETCH_DAYS = 3;
+// Google returns at most this many rows for one day of a property
+const MAX_ROWS_PER_DAY = 50000;
+// A sync stops fetching after this long; the next one resumes
+const GSC_SYNC_MAX_MINUTES = parseInt(process.env.GSC_SYNC_MAX_MINUTES || '20', 10);
+// A sync that holds the lock longer than this is assumed to have died
+const SYNC_LOCK_TTL = (GSC_SYNC_MAX_MINUTES + 5) * 60;
+// Rows per write
+const WRITE_BATCH_SIZE = 1000;
+
+const lockKey = (userId: string) => `gsc_sync:${userId}`;
+
+/**
+ * Take the user's sync lock, which also guards changing the property
+ * @throws ApiError (409) when the lock is held
+ */
+async function acquireSyncLock(userId: string, message: string): Promise<void> {
+  if (!(await redisClient.setIfAbsent(lockKey(userId), true, SYNC_LOCK_TTL))) {
+    throw new ApiError(message, 409);
+  }
+}
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * 24 * 60 * 60 * 1000);
+
+/**
+ * The oldest day Google keeps Search Analytics data for
+ */
+function retentionStart(): Date {
+  const date = daysAgo(0);
+  date.setUTCMonth(date.getUTCMonth() - RETENTION_MONTHS);
+  return date;
+}
+
+/**
+ * The connected account's properties, marked with whether each covers the
+ * user's website, and the one chosen for syncing
+ */
+export async function getSearchConsoleProperties(userId: string): Promise<SearchConsolePropertyList> {
+  const access = await loadSearchConsoleAccess(userId, 'choose a property');
+  const properties = await listSearchConsoleProperties(access);
+  return { properties, selected: access.property, websiteUrl: access.websiteUrl };
+}
+
+/**
+ * Choose the property to sync. It must be verified and cover the user's
+ * website. Rows synced from another property are deleted, so reports never
+ * mix two properties.
+ * @throws ApiError (409) while a sync is running
+ */
+export async function selectSearchConsoleProperty(userId: string, siteUrl: string): Promise<SearchConsoleProperty> {
+  await acquireSyncLock(userId, 'Wait for the Search Console sync to finish before changing the property');
+  try {
+    return await replaceProperty(userId, siteUrl);
+  } finally {
+    await redisClient.delete(lockKey(userId));
+  }
+}
+
+async function replaceProperty(userId: string, siteUrl: string): Promise<SearchConsoleProperty> {
+  const { properties, websiteUrl } = await getSearchConsoleProperties(userId);
+  const property = properties.find(candidate => candidate.siteUrl === siteUrl);
+  if (!property) {
+    throw Errors.validation(`${siteUrl} is not a property of the connected Search Console account`);
+  }
+  if (!property.verified) {
+    throw Errors.validation(`Verify ${siteUrl} in Search Console before choosing it`);
+  }
+  if (!property.coversWebsite) {
+    throw Errors.validation(`${siteUrl} does not cover ${websiteUrl}`);
+  }
+
+  await db.settings.update({ where: { userId }, data: { googleSearchConsoleProperty: siteUrl } });
+  await db.searchConsoleRow.deleteMany({ where: { userId, property: { not: siteUrl } } });
+  await db.searchConsoleSync.deleteMany({ where: { userId, property: { not: siteUrl } } });
+
+  return property;
+}
+
+/**
+ * Take the user's sync lock and mark their sync running
+ * @throws ApiError (409) when a sync for the user is already running
+ */
+async function beginSync(userId: string): Promise<SearchConsoleSync> {
+  await acquireSyncLock(userId, 'A Search Console sync is already running');
+  try {
+    const settings = await db.settings.findUnique({
+      where: { userId },
+      select: { googleSearchConsoleProperty: true },
+    });
+    const property = settings?.googleSearchConsoleProperty;
+    if (!property) {
+      throw Errors.validation('Choose a Search Console property before syncing');
+    }
+
+    const running = { status: 'running', error: null, startedAt: new Date(), finishedAt: null };
+    return await db.searchConsoleSync.upsert({
+      where: { userId },
+      create: { userId, property, ...running },
+      update: running,
+    });
+  } catch (error) {
+    await redisClient.delete(lockKey(userId));
+    throw error;
+  }
+}
+
+/**
+ * Start syncing the user's property in the background
+ * @returns The sync record, with status `running`
+ * @throws ApiError (409) when a sync for the user is already running
+ */
+export async function startSearchConsoleSync(userId: string): Promise<SearchConsoleSync> {
+  const sync = await beginSync(userId);
+
+  runSync(sync)
+    .catch(error => console.error(`Error syncing Search Console data for user ${userId}:`, error))
+    .finally(() => redisClient.delete(lockKey(userId)));
+
+  return sync;
+}
+
+/**
+ * Sync the user's property and wait for it to stop
+ * @returns The sync record, with status `synced`, `partial` or `failed`
+ */
+export async function syncSearchConsole(userId: string): Promise<SearchConsoleSync> {
+  const sync = await beginSync(userId);
+  try {
+    return await runSync(sync);
+  } finally {
+    await redisClient.delete(lockKey(userId));
+  }
+}
+
+/**
+ * Sync every user with a chosen property and a working connection in the
+ * background, one user at a time (scheduled job). Each sync can take up to
+ * GSC_SYNC_MAX_MINUTES, so the caller is not kept waiting for them.
+ * @returns The number of users whose sync was queued
+ */
+export async function startAllSearchConsoleSyncs(): Promise<{ queued: number }> {
+  const settings = await db.settings.findMany({
+    where: {
+      hasGoogleSearchConsole: true,
+      googleSearchConsoleProperty: { not: null },
+      googleSearchConsoleBrokenAt: null,
+    },
+    select: { userId: true },
+  });
+  const userIds = settings.map(({ userId }) => userId);
+
+  syncUsers(userIds)
+    .then(({ synced, failed }) => console.log(`Scheduled Search Console sync finished: ${synced} synced, ${failed} failed`))
+    .catch(error => console.error('Error running scheduled Search Console sync:', error));
+
+  return { queued: userIds.length };
+}
+
+async function syncUsers(userIds: string[]): Promise<{ synced: number; failed: number }> {
+  let synced = 0;
+  let failed = 0;
+  for (const userId of userIds) {
+    try {
+      const sync = await syncSearchConsole(userId);
+      if (sync.status === 'failed') {
+        failed++;
+      } else {
+        synced++;
+      }
+    } catch (error) {
+      console.error(`Error syncing Search Console data for user ${userId}:`, error);
+      failed++;
+    }
+  }
+
+  return { synced, failed };
+}
+
+/**
+ * The chosen property and how far its sync has got
+ */
+export async function getSearchConsoleSyncStatus(userId: string): Promise<SearchConsoleSyncStatus> {
+  const [settings, sync] = await Promise.all([
+    db.settings.findUnique({ where: { userId }, select: { googleSearchConsoleProperty: true } }),
+    db.searchConsoleSync.findUnique({ where: { userId } }),
+  ]);
+  const retainedFrom = retentionStart();
+
+  return {
+    property: settings?.googleSearchConsoleProperty ?? null,
+    sync,
+    backfilled: !!sync?.syncedFrom && sync.syncedFrom <= retainedFrom,
+    retainedFrom: isoDate(retainedFrom),
+  };
+}
+
+/**
+ * Fetch one day of rows and store them in place of any stored for that day
+ * @returns The number of rows stored
+ */
+async function replaceDay(access: SearchConsoleAccess, property: string, day: Date): Promise<number> {
+  const date = isoDate(day);
+  const { rows } = await querySiteAnalytics(
+    access,
+    { startDate: date, endDate: date, dimensions: ['query', 'page', 'country', 'device'] },
+    MAX_ROWS_PER_DAY
+  );
+
+  const data = rows.map(row => ({
+    userId: access.userId,
+    property,
+    date: day,
+    query: row.keys[0],
+    page: row.keys[1],
+    country: row.keys[2],
+    device: row.keys[3],
+    clicks: row.clicks,
+    impressions: row.impressions,
+    position: row.position,
+  }));
+
+  const writes = [];
+  for (let start = 0; start < data.length; start += WRITE_BATCH_SIZE) {
+    writes.push(db.searchConsoleRow.createMany({ data: data.slice(start, start + WRITE_BATCH_SIZE) }));
+  }
+  await db.$transaction([
+    db.searchConsoleRow.deleteMany({ where: { userId: access.userId, property, date: day } }),
+    ...writes,
+  ]);
+
+  return data.length;
+}
+
+/**
+ * Days in a range with any impressions, found with one query so the backfill
+ * skips the days before a site had any search traffic
+ */
+async function daysWithData(access: SearchConsoleAccess, from: Date, through: Date): Promise<Set<string>> {
+  const { rows } = await querySiteAnalytics(access, {
+    startDate: isoDate(from),
+    endDate: isoDate(through),
+    dimensions: ['date'],
+  });
+  return new Set(rows.map(row => row.keys[0]));
+}
+
+async function runSync(sync: SearchConsoleSync): Promise<SearchConsoleSync> {
+  const { userId, property } = sync;
+  const deadline = Date.now() + GSC_SYNC_MAX_MINUTES * 60 * 1000;
+  const earliest = retentionStart();
+  const latest = daysAgo(DATA_DELAY_DAYS);
+  let { syncedFrom, syncedThrough } = sync;
+
+  const saveProgress = () =>
+    db.searchConsoleSync.update({ where: { userId }, data: { syncedFrom, syncedThrough } });
+
+  try {
+    const access = await loadSearchConsoleAccess(userId, 'sync its data');
+    access.property = property;
+
+    // Days Google no longer keeps, and all of them after a long gap
+    await db.searchConsoleRow.deleteMany({ where: { userId, property, date: { lt: earliest } } });
+    if (syncedThrough && syncedThrough < earliest) {
+      syncedFrom = null;
+      syncedThrough = null;
+    } else if (syncedFrom && syncedFrom < earliest) {
+      syncedFrom = earliest;
+    }
+
+    // Days since the last sync, and the last few again
+    if (syncedThrough) {
+      const from = addDays(syncedThrough, -(REFETCH_DAYS - 1));
+      for (let day = from > earliest ? from : earliest; day <= latest && Date.now() < deadline; day = addDays(day, 1)) {
+        await replaceDay(access, property, day);
+        if (day > syncedThrough) {
+          syncedThrough = day;
+          await saveProgress();
+        }
+      }
+    }
+
+    // Older days, newest first, back to the oldest Google keeps
+    const backfillFrom = syncedFrom ? addDays(syncedFrom, -1) : latest;
+    if (backfillFrom >= earliest && Date.now() < deadline) {
+      const withData = await daysWithData(access, earliest, backfillFrom);
+      for (let day = backfillFrom; day >= earliest && Date.now() < deadline; day = addDays(day, -1)) {
+        if (withData.has(isoDate(day))) {
+          await replaceDay(access, property, day);
+        }
+        syncedFrom = day;
+        syncedThrough = syncedThrough ?? day;
+        await saveProgress();
+      }
+    }
+
+    const complete = !!syncedFrom && syncedFrom <= earliest && !!syncedThrough && syncedThrough >= latest;
+    return await db.searchConsoleSync.update({
+      where: { userId },
+      data: {
+        status: complete ? 'synced' : 'partial',
+        syncedFrom,
+        syncedThrough,
+        rowCount: await db.searchConsoleRow.count({ where: { userId, property } }),
+        finishedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error(`Search Console sync failed for user ${userId}:`, error);
+    return db.searchConsoleSync.update({
+      where: { userId },
+      data: {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'The sync failed',
+        syncedFrom,
+        syncedThrough,
+        rowCount: await db.searchConsoleRow.count({ where: { userId, property } }),
+        finishedAt: new Date(),
+      },
+    });
+  }
+}
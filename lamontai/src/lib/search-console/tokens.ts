@@ -0,0 +1,285 @@
+/**
+ * Google Search Console OAuth tokens: stored envelope encrypted on the user's
+ * settings, refreshed before they expire or when Google rejects them, and
+ * marked broken when Google no longer accepts the refresh token.
+ */
+
+import axios from 'axios';
+import { db } from '../db';
+import { Errors } from '../error-handler';
+import {
+  currentKeyId,
+  decryptToken,
+  encryptionKeyId,
+  encryptToken,
+  isEncrypted,
+  rewrapToken,
+  TokenKeyConfigError,
+} from '../token-encryption';
+
+// Google's OAuth endpoints, or a stand-in for local testing
+export const GOOGLE_OAUTH_URL = process.env.GOOGLE_OAUTH_URL || 'https://oauth2.googleapis.com';
+const TOKEN_URL = `${GOOGLE_OAUTH_URL}/token`;
+const REVOKE_URL = `${GOOGLE_OAUTH_URL}/revoke`;
+// Refresh a minute early so a request does not race the expiry
+const EXPIRY_MARGIN_MS = 60 * 1000;
+
+export interface SearchConsoleTokens {
+  accessToken: string;
+  refreshToken?: string;
+  expiresAt: string;
+}
+
+export type SearchConsoleStatus = 'connected' | 'broken' | 'disconnected';
+
+export interface SearchConsoleConnection {
+  status: SearchConsoleStatus;
+  // Why and when the connection broke
+  error: string | null;
+  brokenAt: Date | null;
+}
+
+// Refreshes in flight, so parallel requests for a user share one
+const refreshing = new Map<string, Promise<string>>();
+
+// Ties the ciphertext to its user, so it cannot be copied to another account
+const tokenContext = (userId: string) => `google-search-console:${userId}`;
+
+export const brokenConnectionError = () =>
+  Errors.validation('Your Google Search Console connection is broken; reconnect it');
+
+/**
+ * Store a user's tokens encrypted and mark the connection working
+ */
+export async function saveSearchConsoleTokens(userId: string, tokens: SearchConsoleTokens): Promise<void> {
+  const data = {
+    hasGoogleSearchConsole: true,
+    googleSearchConsoleTokens: encryptToken(JSON.stringify(tokens), tokenContext(userId)),
+    googleSearchConsoleBrokenAt: null,
+    googleSearchConsoleError: null,
+  };
+
+  await db.settings.upsert({
+    where: { userId },
+    create: { userId, ...data },
+    update: data,
+  });
+}
+
+/**
+ * Mark a user's connection broken so features stop calling Google until
+ * they reconnect
+ */
+export async function markSearchConsoleBroken(userId: string, reason: string): Promise<void> {
+  console.error(`Google Search Console connection broken for user ${userId}: ${reason}`);
+  await db.settings.update({
+    where: { userId },
+    data: { googleSearchConsoleBrokenAt: new Date(), googleSearchConsoleError: reason },
+  });
+}
+
+/**
+ * Decrypt stored tokens, along with the value to store instead when they were
+ * written under an older key or before tokens were encrypted
+ */
+function readStoredTokens(userId: string, stored: string): { tokens: SearchConsoleTokens; replacement: string | null } {
+  if (!isEncrypted(stored)) {
+    const tokens = JSON.parse(stored) as SearchConsoleTokens;
+    return { tokens, replacement: encryptToken(JSON.stringify(tokens), tokenContext(userId)) };
+  }
+
+  const tokens = JSON.parse(decryptToken(stored, tokenContext(userId))) as SearchConsoleTokens;
+  return { tokens, replacement: encryptionKeyId(stored) === currentKeyId() ? null : rewrapToken(stored) };
+}
+
+/**
+ * A user's stored tokens, or null when there are none or they cannot be read.
+ * Only a record that fails to decrypt marks the connection broken; missing or
+ * unknown encryption keys are a server error, so that fixing the
+ * configuration restores every connection.
+ * @throws ApiError (500) when the encryption keys are misconfigured
+ */
+export async function loadSearchConsoleTokens(userId: string): Promise<SearchConsoleTokens | null> {
+  const settings = await db.settings.findUnique({
+    where: { userId },
+    select: { googleSearchConsoleTokens: true },
+  });
+  const stored = settings?.googleSearchConsoleTokens;
+  if (!stored) return null;
+
+  let result: ReturnType<typeof readStoredTokens>;
+  try {
+    result = readStoredTokens(userId, stored);
+  } catch (error) {
+    if (error instanceof TokenKeyConfigError) {
+      console.error('Google Search Console tokens cannot be read with the configured keys:', error);
+      throw Errors.internal('Search Console is temporarily unavailable');
+    }
+    console.error('Error reading Google Search Console tokens:', error);
+    await markSearchConsoleBroken(userId, 'The stored connection could not be read');
+    return null;
+  }
+
+  if (result.replacement) {
+    await db.settings.update({ where: { userId }, data: { googleSearchConsoleTokens: result.replacement } });
+  }
+  return result.tokens;
+}
+
+async function refreshTokens(userId: string): Promise<string> {
+  const tokens = await loadSearchConsoleTokens(userId);
+  if (!tokens?.refreshToken) {
+    await markSearchConsoleBroken(userId, 'Google did not grant offline access, so the connection cannot be renewed');
+    throw brokenConnectionError();
+  }
+
+  try {
+    const response = await axios.post(
+      TOKEN_URL,
+      new URLSearchParams({
+        client_id: process.env.GOOGLE_CLIENT_ID || '',
+        client_secret: process.env.GOOGLE_CLIENT_SECRET || '',
+        refresh_token: tokens.refreshToken,
+        grant_type: 'refresh_token',
+      }),
+      { timeout: 15000 }
+    );
+    const { access_token, expires_in, refresh_token } = response.data;
+
+    await saveSearchConsoleTokens(userId, {
+      accessToken: access_token,
+      // Google only sends a new refresh token when it rotates it
+      refreshToken: refresh_token || tokens.refreshToken,
+      expiresAt: new Date(Date.now() + expires_in * 1000).toISOString(),
+    });
+    return access_token;
+  } catch (error) {
+    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+    const code = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+    // invalid_grant: the user revoked access, or the token expired or was replaced
+    if (status === 400 || status === 401) {
+      await markSearchConsoleBroken(
+        userId,
+        code === 'invalid_grant' ? 'Google access was revoked or has expired' : `Google refused to renew access (${code || status})`
+      );
+      throw brokenConnectionError();
+    }
+
+    console.error('Error refreshing Google Search Console token:', error);
+    throw Errors.externalApi('Could not renew the Google Search Console connection; try again later');
+  }
+}
+
+/**
+ * Exchange the user's refresh token for a new access token
+ * @throws ApiError (400) and marks the connection broken when Google rejects the refresh token
+ */
+export async function refreshSearchConsoleToken(userId: string): Promise<string> {
+  const pending = refreshing.get(userId);
+  if (pending) return pending;
+
+  const refresh = refreshTokens(userId).finally(() => refreshing.delete(userId));
+  refreshing.set(userId, refresh);
+  return refresh;
+}
+
+/**
+ * A current access token for the user, refreshed first when it is about to expire
+ * @throws ApiError (400) when the user is not connected or the connection is broken
+ */
+export async function getSearchConsoleAccessToken(userId: string): Promise<string> {
+  const settings = await db.settings.findUnique({
+    where: { userId },
+    select: { googleSearchConsoleBrokenAt: true },
+  });
+  if (settings?.googleSearchConsoleBrokenAt) {
+    throw brokenConnectionError();
+  }
+
+  const tokens = await loadSearchConsoleTokens(userId);
+  if (!tokens?.accessToken) {
+    throw Errors.validation('Connect Google Search Console first');
+  }
+
+  if (!tokens.expiresAt || new Date(tokens.expiresAt).getTime() - EXPIRY_MARGIN_MS <= Date.now()) {
+    return refreshSearchConsoleToken(userId);
+  }
+  return tokens.accessToken;
+}
+
+/**
+ * Whether the user's connection is working, broken or absent
+ */
+export async function getSearchConsoleConnection(userId: string): Promise<SearchConsoleConnection> {
+  const settings = await db.settings.findUnique({
+    where: { userId },
+    select: {
+      hasGoogleSearchConsole: true,
+      googleSearchConsoleTokens: true,
+      googleSearchConsoleBrokenAt: true,
+      googleSearchConsoleError: true,
+    },
+  });
+
+  if (!settings?.hasGoogleSearchConsole || !settings.googleSearchConsoleTokens) {
+    return { status: 'disconnected', error: null, brokenAt: null };
+  }
+  if (settings.googleSearchConsoleBrokenAt) {
+    return { status: 'broken', error: settings.googleSearchConsoleError, brokenAt: settings.googleSearchConsoleBrokenAt };
+  }
+  return { status: 'connected', error: null, brokenAt: null };
+}
+
+/**
+ * Revoke the user's tokens with Google and forget them
+ */
+export async function disconnectSearchConsole(userId: string): Promise<void> {
+  // Tokens the server cannot decrypt right now are forgotten unrevoked
+  const tokens = await loadSearchConsoleTokens(userId).catch(() => null);
+  const token = tokens?.refreshToken || tokens?.accessToken;
+  if (token) {
+    try {
+      await axios.post(REVOKE_URL, new URLSearchParams({ token }), { timeout: 15000 });
+    } catch (error) {
+      // Already revoked or expired; forgetting the tokens is what matters
+      console.error('Error revoking Google Search Console token:', error);
+    }
+  }
+
+  await db.settings.updateMany({
+    where: { userId },
+    data: {
+      hasGoogleSearchConsole: false,
+      googleSearchConsoleTokens: null,
+      googleSearchConsoleBrokenAt: null,
+      googleSearchConsoleError: null,
+    },
+  });
+}
+
+/**
+ * Rewrap every stored token with the current key, and encrypt any stored
+ * before encryption, so an old key can be dropped from TOKEN_ENCRYPTION_KEYS
+ */
+export async function rewrapSearchConsoleTokens(): Promise<{ rewrapped: number; failed: number }> {
+  const rows = await db.settings.findMany({
+    where: { googleSearchConsoleTokens: { not: null } },
+    select: { userId: true, googleSearchConsoleTokens: true },
+  });
+
+  let rewrapped = 0;
+  let failed = 0;
+  for (const row of rows) {
+    try {
+      const { replacement } = readStoredTokens(row.userId, row.googleSearchConsoleTokens!);
+      if (replacement) {
+        await db.settings.update({ where: { userId: row.userId }, data: { googleSearchConsoleTokens: replacement } });
+        rewrapped++;
+      }
+    } catch (error) {
+      console.error(`Error rewrapping Google Search Console tokens for user ${row.userId}:`, error);
+      failed++;
+    }
+  }
+  return { rewrapped, failed };
+}
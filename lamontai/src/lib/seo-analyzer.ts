@@ -0,0 +1,475 @@
+/**
+ * Deterministic on-page SEO analysis. The score is the weighted share of
+ * rule checks passed, so every point can be traced back to a check.
+ */
+
+import type { ContentAnalysis } from './api-service';
+import { ApiError, Errors } from './error-handler';
+import { HtmlElement, HtmlNode, parseHtml, textContent } from './html-tree';
+import { getPublicUrl } from './public-url';
+import { analyzeReadability, ReadabilityReport } from './readability';
+
+export interface SeoAnalysisInput {
+  // An HTML document or article fragment
+  html: string;
+  keywords: string[];
+  // Used when the HTML is a fragment without its own <title> or meta description
+  title?: string;
+  metaDescription?: string;
+  url?: string;
+  // Language name, code or locale for readability; falls back to <html lang>, then detection
+  language?: string;
+}
+
+export interface SeoCheck {
+  id: string;
+  label: string;
+  weight: number;
+  // Points earned out of the weight; partial credit is possible
+  earned: number;
+  passed: boolean;
+  detail: string;
+}
+
+export interface KeywordStats {
+  keyword: string;
+  occurrences: number;
+  // Share of all words taken up by the keyword, as a percentage
+  density: number;
+  inTitle: boolean;
+  inMetaDescription: boolean;
+  inFirstParagraph: boolean;
+  inHeadings: boolean;
+  inImageAlt: boolean;
+  inUrl: boolean;
+}
+
+export interface HeadingNode {
+  level: number;
+  text: string;
+  children: HeadingNode[];
+}
+
+export interface SeoAnalysis extends ContentAnalysis {
+  page: {
+    url?: string;
+    title: string;
+    metaDescription: string;
+    canonical?: string;
+    lang?: string;
+  };
+  checks: SeoCheck[];
+  keywords: KeywordStats[];
+  headingTree: HeadingNode[];
+  links: { internal: number; external: number };
+  images: { total: number; missingAlt: number };
+  readability: ReadabilityReport;
+  // Prose suggestions from the LLM, only when requested
+  aiSuggestions?: string[];
+}
+
+interface ParsedPage {
+  isDocument: boolean;
+  title: string;
+  metaDescription: string;
+  canonical?: string;
+  lang?: string;
+  hasViewport: boolean;
+  headings: Array<{ level: number; text: string }>;
+  paragraphs: string[];
+  listItems: string[];
+  images: Array<{ src: string; alt: string }>;
+  links: string[];
+  text: string;
+}
+
+// Recommended ranges behind the checks
+const TITLE_LENGTH = { min: 30, max: 60 };
+const META_DESCRIPTION_LENGTH = { min: 70, max: 160 };
+const KEYWORD_DENSITY = { min: 0.5, max: 2.5, stuffing: 3.5 };
+const TARGET_WORD_COUNT = 600;
+const WORDS_PER_SUBHEADING = 350;
+const READABLE_SCORE = 60;
+
+// Page chrome that should not count towards the content
+const CHROME_TAGS = new Set(['nav', 'header', 'footer', 'aside', 'form', 'button']);
+
+const round = (value: number, digits = 2) => Math.round(value * 10 ** digits) / 10 ** digits;
+
+/**
+ * Lowercase, strip accents and punctuation so phrases can be compared
+ */
+export function normalizeText(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+/**
+ * Count the occurrences of a phrase in normalized text, on word boundaries
+ */
+export function countPhrase(text: string, phrase: string): number {
+  const needle = normalizeText(phrase);
+  if (!needle) {
+    return 0;
+  }
+
+  const haystack = ` ${normalizeText(text)} `;
+  let count = 0;
+  let index = haystack.indexOf(` ${needle} `);
+  while (index !== -1) {
+    count++;
+    index = haystack.indexOf(` ${needle} `, index + needle.length + 1);
+  }
+  return count;
+}
+
+const containsPhrase = (text: string, phrase: string) => countPhrase(text, phrase) > 0;
+
+const findElement = (nodes: HtmlNode[], tag: string): HtmlElement | undefined => {
+  for (const node of nodes) {
+    if (node.type !== 'element') continue;
+    if (node.tag === tag) return node;
+    const found = findElement(node.children, tag);
+    if (found) return found;
+  }
+  return undefined;
+};
+
+/**
+ * Pull the SEO-relevant structure out of an HTML document or fragment
+ */
+export function parsePage(html: string): ParsedPage {
+  const isDocument = /<(?:html|head|body)[\s>]/i.test(html);
+  const head = parseHtml(/<head[^>]*>([\s\S]*?)<\/head>/i.exec(html)?.[1] || '');
+  const body = parseHtml(/<body[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html.replace(/<head[^>]*>[\s\S]*?<\/head>/i, ''));
+
+  const meta = (name: string) => {
+    const element = head.find(
+      (node): node is HtmlElement => node.type === 'element' && node.tag === 'meta' && node.attrs.name?.toLowerCase() === name
+    );
+    return element?.attrs.content?.trim();
+  };
+  const titleElement = findElement(head, 'title');
+  const canonical = head.find(
+    (node): node is HtmlElement => node.type === 'element' && node.tag === 'link' && node.attrs.rel?.toLowerCase() === 'canonical'
+  );
+
+  // Prefer the main content area when the page marks one
+  const root = findElement(body, 'article') || findElement(body, 'main');
+  const contentNodes = root ? root.children : body;
+
+  const page: ParsedPage = {
+    isDocument,
+    title: titleElement ? textContent(titleElement.children).trim() : '',
+    metaDescription: meta('description') || '',
+    canonical: canonical?.attrs.href,
+    lang: /<html[^>]*\slang=["']?([\w-]+)/i.exec(html)?.[1],
+    hasViewport: Boolean(meta('viewport')),
+    headings: [],
+    paragraphs: [],
+    listItems: [],
+    images: [],
+    links: [],
+    text: '',
+  };
+
+  const textParts: string[] = [];
+  const walk = (nodes: HtmlNode[]) => {
+    nodes.forEach(node => {
+      if (node.type === 'text') {
+        textParts.push(node.text);
+        return;
+      }
+      if (CHROME_TAGS.has(node.tag)) {
+        return;
+      }
+
+      const heading = /^h([1-6])$/.exec(node.tag);
+      const text = () => textContent(node.children).trim();
+      if (heading) {
+        page.headings.push({ level: Number(heading[1]), text: text() });
+      } else if (node.tag === 'p' && text()) {
+        page.paragraphs.push(text());
+      } else if (node.tag === 'li' && text()) {
+        page.listItems.push(text());
+      } else if (node.tag === 'img') {
+        page.images.push({ src: node.attrs.src || '', alt: (node.attrs.alt || '').trim() });
+      } else if (node.tag === 'a' && node.attrs.href) {
+        page.links.push(node.attrs.href);
+      }
+
+      // Keep block boundaries from gluing words together
+      textParts.push(' ');
+      walk(node.children);
+      textParts.push(' ');
+    });
+  };
+  walk(contentNodes);
+  page.text = textParts.join('').replace(/\s+/g, ' ').trim();
+
+  return page;
+}
+
+/**
+ * Nest a flat list of headings by level
+ */
+export function buildHeadingTree(headings: Array<{ level: number; text: string }>): HeadingNode[] {
+  const roots: HeadingNode[] = [];
+  const stack: HeadingNode[] = [];
+
+  headings.forEach(({ level, text }) => {
+    const node: HeadingNode = { level, text, children: [] };
+    while (stack.length && stack[stack.length - 1].level >= level) {
+      stack.pop();
+    }
+    if (stack.length) {
+      stack[stack.length - 1].children.push(node);
+    } else {
+      roots.push(node);
+    }
+    stack.push(node);
+  });
+
+  return roots;
+}
+
+// The words in a URL's path
+function urlPathText(url: string): string {
+  try {
+    return decodeURIComponent(new URL(url).pathname).replace(/[-_/.]+/g, ' ');
+  } catch {
+    return '';
+  }
+}
+
+function isInternalLink(href: string, pageUrl?: string): boolean {
+  if (/^(?:mailto|tel|javascript):/i.test(href) || href.startsWith('#')) {
+    return false;
+  }
+  if (!/^https?:\/\//i.test(href)) {
+    return true;
+  }
+  try {
+    return Boolean(pageUrl) && new URL(href).hostname === new URL(pageUrl as string).hostname;
+  } catch {
+    return false;
+  }
+}
+
+const check = (id: string, label: string, weight: number, ratio: number, detail: string): SeoCheck => {
+  const earned = round(weight * Math.min(1, Math.max(0, ratio)), 1);
+  return { id, label, weight, earned, passed: earned >= weight, detail };
+};
+
+function lengthCheck(id: string, label: string, weight: number, value: string, range: { min: number; max: number }): SeoCheck {
+  if (!value) {
+    return check(id, label, weight, 0, `No ${label.toLowerCase()} found`);
+  }
+  const inRange = value.length >= range.min && value.length <= range.max;
+  return check(
+    id,
+    label,
+    weight,
+    inRange ? 1 : 0.5,
+    `${value.length} characters (recommended ${range.min}-${range.max})`
+  );
+}
+
+function densityRatio(density: number): number {
+  if (density >= KEYWORD_DENSITY.min && density <= KEYWORD_DENSITY.max) return 1;
+  if (density < KEYWORD_DENSITY.min) return density / KEYWORD_DENSITY.min;
+  if (density >= KEYWORD_DENSITY.stuffing) return 0;
+  return (KEYWORD_DENSITY.stuffing - density) / (KEYWORD_DENSITY.stuffing - KEYWORD_DENSITY.max);
+}
+
+// Suggestions for each failed check
+const SUGGESTIONS: Record<string, (analysis: { primary: string }) => string> = {
+  'title-length': () => `Keep the title between ${TITLE_LENGTH.min} and ${TITLE_LENGTH.max} characters so it is not truncated in search results`,
+  'title-keyword': ({ primary }) => `Include "${primary}" in the title, ideally near the start`,
+  'meta-length': () => `Write a meta description of ${META_DESCRIPTION_LENGTH.min}-${META_DESCRIPTION_LENGTH.max} characters that summarizes the page`,
+  'meta-keyword': ({ primary }) => `Mention "${primary}" in the meta description`,
+  'single-h1': () => 'Use exactly one H1 heading for the page topic',
+  'first-paragraph-keyword': ({ primary }) => `Use "${primary}" in the first paragraph`,
+  'heading-keyword': ({ primary }) => `Use "${primary}" or a close variant in at least one H2 or H3 subheading`,
+  'keyword-density': ({ primary }) => `Aim for a "${primary}" density between ${KEYWORD_DENSITY.min}% and ${KEYWORD_DENSITY.max}%`,
+  'secondary-keywords': () => 'Work each secondary keyword into the body at least once',
+  'word-count': () => `Expand the content towards at least ${TARGET_WORD_COUNT} words`,
+  'heading-hierarchy': () => 'Avoid skipping heading levels (for example an H4 directly under an H2)',
+  'subheading-frequency': () => `Break up long stretches of text with a subheading about every ${WORDS_PER_SUBHEADING} words`,
+  'image-alt': () => 'Add descriptive alt text to every image',
+  'image-alt-keyword': ({ primary }) => `Add an image whose alt text describes "${primary}"`,
+  links: () => 'Link to related pages on your site and to authoritative sources',
+  readability: () => 'Shorten long sentences and prefer simpler words to improve readability',
+};
+
+/**
+ * Analyze an HTML page or article fragment against its target keywords
+ */
+export function analyzeSeo(input: SeoAnalysisInput): SeoAnalysis {
+  const page = parsePage(input.html);
+  const title = page.title || input.title?.trim() || '';
+  const metaDescription = page.metaDescription || input.metaDescription?.trim() || '';
+  const keywords = input.keywords.map(keyword => keyword.trim()).filter(Boolean);
+  const [primary = ''] = keywords;
+
+  const words = page.text.split(/\s+/).filter(word => /[\p{L}\p{N}]/u.test(word)).length;
+  const headingText = page.headings.filter(heading => heading.level > 1).map(heading => heading.text).join(' \n ');
+  const altText = page.images.map(image => image.alt).join(' \n ');
+  const firstParagraph = page.paragraphs[0] || page.text.split(/\s+/).slice(0, 100).join(' ');
+  const urlText = input.url ? urlPathText(input.url) : '';
+
+  const keywordStats: KeywordStats[] = keywords.map(keyword => {
+    const occurrences = countPhrase(page.text, keyword);
+    const keywordWords = normalizeText(keyword).split(' ').length;
+    return {
+      keyword,
+      occurrences,
+      density: words ? round((occurrences * keywordWords / words) * 100) : 0,
+      inTitle: containsPhrase(title, keyword),
+      inMetaDescription: containsPhrase(metaDescription, keyword),
+      inFirstParagraph: containsPhrase(firstParagraph, keyword),
+      inHeadings: containsPhrase(headingText, keyword),
+      inImageAlt: containsPhrase(altText, keyword),
+      inUrl: containsPhrase(urlText, keyword),
+    };
+  });
+  const primaryStats = keywordStats[0];
+  const secondaryStats = keywordStats.slice(1);
+
+  const headingCounts = [1, 2, 3, 4].map(level => page.headings.filter(heading => heading.level === level).length);
+  const h1Count = headingCounts[0];
+  const subheadings = page.headings.filter(heading => heading.level === 2 || heading.level === 3).length;
+  const skippedLevels = page.headings.filter((heading, index) =>
+    index > 0 && heading.level > page.headings[index - 1].level + 1
+  );
+
+  const readability = analyzeReadability([...page.paragraphs, ...page.listItems], input.language || page.lang);
+
+  const internalLinks = page.links.filter(href => isInternalLink(href, input.url)).length;
+  const externalLinks = page.links.filter(href => /^https?:\/\//i.test(href) && !isInternalLink(href, input.url)).length;
+  const missingAlt = page.images.filter(image => !image.alt).length;
+
+  // An article fragment gets its H1 from the title when published
+  const h1Ok = h1Count === 1 || (!page.isDocument && h1Count === 0 && Boolean(title));
+
+  const checks: SeoCheck[] = [
+    lengthCheck('title-length', 'Title', 8, title, TITLE_LENGTH),
+    check('title-keyword', 'Keyword in title', 10, primaryStats?.inTitle ? 1 : 0,
+      primaryStats?.inTitle ? `"${primary}" appears in the title` : `"${primary}" is missing from the title`),
+    lengthCheck('meta-length', 'Meta description', 6, metaDescription, META_DESCRIPTION_LENGTH),
+    check('meta-keyword', 'Keyword in meta description', 6, primaryStats?.inMetaDescription ? 1 : 0,
+      primaryStats?.inMetaDescription ? `"${primary}" appears in the meta description` : `"${primary}" is missing from the meta description`),
+    check('single-h1', 'Single H1', 6, h1Ok ? 1 : 0, `${h1Count} H1 heading${h1Count === 1 ? '' : 's'}`),
+    check('first-paragraph-keyword', 'Keyword in first paragraph', 10, primaryStats?.inFirstParagraph ? 1 : 0,
+      primaryStats?.inFirstParagraph ? `"${primary}" appears in the first paragraph` : `"${primary}" is missing from the first paragraph`),
+    check('heading-keyword', 'Keyword in subheadings', 8, primaryStats?.inHeadings ? 1 : 0,
+      primaryStats?.inHeadings ? `"${primary}" appears in a subheading` : `"${primary}" is missing from the subheadings`),
+    check('keyword-density', 'Keyword density', 12, densityRatio(primaryStats?.density || 0),
+      `"${primary}" density is ${primaryStats?.density || 0}% (recommended ${KEYWORD_DENSITY.min}-${KEYWORD_DENSITY.max}%)`),
+    check('word-count', 'Content length', 10, words / TARGET_WORD_COUNT, `${words} words (recommended at least ${TARGET_WORD_COUNT})`),
+    check('heading-hierarchy', 'Heading hierarchy', 6, skippedLevels.length ? 0 : 1,
+      skippedLevels.length
+        ? `Skipped levels at ${skippedLevels.map(heading => `"${heading.text}" (H${heading.level})`).join(', ')}`
+        : 'No skipped heading levels'),
+    check('subheading-frequency', 'Subheading frequency', 4,
+      words <= WORDS_PER_SUBHEADING ? 1 : (subheadings * WORDS_PER_SUBHEADING) / words,
+      `${subheadings} H2/H3 subheadings for ${words} words`),
+    check('image-alt', 'Image alt text', 6, page.images.length ? 1 - missingAlt / page.images.length : 1,
+      page.images.length ? `${missingAlt} of ${page.images.length} images missing alt text` : 'No images'),
+    check('image-alt-keyword', 'Keyword in image alt text', 4, primaryStats?.inImageAlt ? 1 : 0,
+      primaryStats?.inImageAlt ? `"${primary}" appears in image alt text` : `No image alt text mentions "${primary}"`),
+    check('links', 'Links', 4, page.links.length ? 1 : 0, `${internalLinks} internal and ${externalLinks} external links`),
+    check('readability', 'Readability', 4, readability.score / READABLE_SCORE,
+      `${readability.formula} ${readability.score}, ${readability.label.toLowerCase()} (recommended at least ${READABLE_SCORE})`
+        + (readability.hardSpots.length ? `; ${readability.hardSpots.length} hard-to-read paragraph${readability.hardSpots.length === 1 ? '' : 's'}` : '')),
+  ];
+
+  if (secondaryStats.length) {
+    const used = secondaryStats.filter(stats => stats.occurrences > 0);
+    checks.push(check('secondary-keywords', 'Secondary keywords', 4, used.length / secondaryStats.length,
+      `${used.length} of ${secondaryStats.length} secondary keywords used`));
+  }
+
+  const totalWeight = checks.reduce((sum, item) => sum + item.weight, 0);
+  const earned = checks.reduce((sum, item) => sum + item.earned, 0);
+
+  const technicalIssues: string[] = [];
+  if (!title) technicalIssues.push('Missing <title>');
+  if (!metaDescription) technicalIssues.push('Missing meta description');
+  if (h1Count > 1) technicalIssues.push(`${h1Count} H1 headings; use one`);
+  if (missingAlt) technicalIssues.push(`${missingAlt} image${missingAlt === 1 ? '' : 's'} without alt text`);
+  if (skippedLevels.length) technicalIssues.push('Heading levels are skipped');
+  if (page.isDocument) {
+    if (!page.lang) technicalIssues.push('Missing lang attribute on <html>');
+    if (!page.hasViewport) technicalIssues.push('Missing viewport meta tag');
+    if (!page.canonical) technicalIssues.push('Missing canonical link');
+  }
+
+  const secondaryDensity = secondaryStats.length
+    ? round(secondaryStats.reduce((sum, stats) => sum + stats.density, 0) / secondaryStats.length)
+    : 0;
+
+  return {
+    seoScore: Math.round((earned / totalWeight) * 100),
+    readabilityScore: readability.score,
+    keywordDensity: {
+      primary: primaryStats?.density || 0,
+      secondary: secondaryDensity,
+    },
+    contentLength: {
+      words,
+      characters: page.text.length,
+      paragraphs: page.paragraphs.length,
+    },
+    suggestions: checks.filter(item => !item.passed).map(item => SUGGESTIONS[item.id]({ primary })),
+    headingStructure: { h1: headingCounts[0], h2: headingCounts[1], h3: headingCounts[2], h4: headingCounts[3] },
+    keywordUsage: {
+      title: Boolean(primaryStats?.inTitle),
+      metaDescription: Boolean(primaryStats?.inMetaDescription),
+      firstParagraph: Boolean(primaryStats?.inFirstParagraph),
+      headings: Boolean(primaryStats?.inHeadings),
+      imageAlt: Boolean(primaryStats?.inImageAlt),
+    },
+    // Competitor comparison needs SERP data the on-page analyzer does not have
+    competitors: [],
+    technicalIssues,
+    page: { url: input.url, title, metaDescription, canonical: page.canonical, lang: page.lang },
+    checks,
+    keywords: keywordStats,
+    headingTree: buildHeadingTree(page.headings),
+    links: { internal: internalLinks, external: externalLinks },
+    images: { total: page.images.length, missingAlt },
+    readability,
+  };
+}
+
+/**
+ * Fetch a page's HTML for analysis. Only public http(s) addresses are
+ * fetched, including on every redirect.
+ * @throws ApiError (400) when the URL or a redirect is not a public address
+ * @throws ApiError (502) when the page cannot be fetched
+ */
+export async function fetchPageHtml(url: string): Promise<string> {
+  try {
+    const { response } = await getPublicUrl<string>(url, {
+      headers: {
+        'Accept': 'text/html,application/xhtml+xml',
+        'User-Agent': 'LamontAI-Content-Analyzer/1.0 (+https://lamontai.ai)'
+      },
+      timeout: 15000,
+      maxContentLength: 5 * 1024 * 1024,
+      responseType: 'text',
+    });
+    return response.data;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    console.error(`Error fetching ${url} for analysis:`, error);
+    throw Errors.externalApi(`Could not fetch ${url}`);
+  }
+}
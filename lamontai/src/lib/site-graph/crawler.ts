@@ -0,0 +1,322 @@
+/**
+ * Polite crawler for the link graph. Starts at the homepage, follows
+ * internal links breadth first, then visits sitemap URLs no link led to.
+ * Honours robots.txt and waits between requests to the same host.
+ */
+
+import { HtmlNode, parseHtml, textContent } from '../html-tree';
+import { getPublicUrl } from '../public-url';
+import { CRAWLER_USER_AGENT, isAllowed, RobotsRules } from './robots';
+
+export type CrawlPageState = 'ok' | 'error' | 'blocked' | 'not-html' | 'not-crawled';
+
+export interface CrawledPage {
+  url: string;
+  state: CrawlPageState;
+  httpStatus: number | null;
+  title: string | null;
+  error?: string;
+}
+
+export interface CrawledLink {
+  source: string;
+  target: string;
+  anchorText: string;
+  nofollow: boolean;
+  // Times the source links to the target with this anchor text
+  count: number;
+}
+
+export interface PageLinks {
+  title: string;
+  // Set by a meta robots or X-Robots-Tag nofollow
+  nofollow: boolean;
+  links: Array<{ href: string; anchorText: string; nofollow: boolean }>;
+}
+
+export interface CrawlOptions {
+  homepage: string;
+  // Sitemap URLs, visited after the pages reachable by links
+  seeds: string[];
+  rules: RobotsRules;
+  maxPages: number;
+  // Minimum wait between requests to one host; robots.txt may ask for longer
+  delayMs: number;
+  // The crawl stops fetching after this long
+  maxDurationMs: number;
+  onProgress?: (fetched: number) => void | Promise<void>;
+}
+
+export interface CrawlResult {
+  pages: CrawledPage[];
+  links: CrawledLink[];
+  // True when the page or time limit left URLs unfetched
+  truncated: boolean;
+}
+
+const TRACKING_PARAMS = /^(utm_\w+|gclid|fbclid|msclkid|mc_cid|mc_eid|_ga)$/i;
+const ASSET_EXTENSIONS = /\.(jpe?g|png|gif|webp|avif|svg|ico|bmp|pdf|zip|gz|rar|mp[34]|webm|mov|avi|css|js|json|xml|txt|rss|woff2?|ttf|eot|docx?|xlsx?|pptx?|csv)$/i;
+
+/**
+ * Hostname with any leading www. removed, so the two forms count as one site
+ */
+export function siteKey(hostname: string): string {
+  return hostname.toLowerCase().replace(/^www\./, '');
+}
+
+/**
+ * Absolute form of a link used as its identity in the graph: fragment and
+ * tracking parameters removed, and internal links moved onto the
+ * homepage's scheme and host
+ * @returns null for links that are not http(s) or cannot be parsed
+ */
+export function normalizeUrl(href: string, base: string, homepage?: string): string | null {
+  let url: URL;
+  try {
+    url = new URL(href.trim(), base);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return null;
+  }
+
+  url.hash = '';
+  Array.from(url.searchParams.keys())
+    .filter(key => TRACKING_PARAMS.test(key))
+    .forEach(key => url.searchParams.delete(key));
+  if (!url.pathname) url.pathname = '/';
+
+  if (homepage) {
+    const home = new URL(homepage);
+    if (siteKey(url.hostname) === siteKey(home.hostname)) {
+      url.protocol = home.protocol;
+      url.host = home.host;
+    }
+  }
+  return url.toString();
+}
+
+export function isInternal(url: string, homepage: string): boolean {
+  return new URL(url).host === new URL(homepage).host;
+}
+
+function collectLinks(nodes: HtmlNode[], found: PageLinks['links']): void {
+  nodes.forEach(node => {
+    if (node.type !== 'element') return;
+    if (node.tag === 'a' && node.attrs.href) {
+      const images = node.children.filter(child => child.type === 'element' && child.tag === 'img');
+      const text = textContent(node.children).replace(/\s+/g, ' ').trim();
+      const alt = images.map(image => (image.type === 'element' ? image.attrs.alt || '' : '')).join(' ').trim();
+      found.push({
+        href: node.attrs.href,
+        anchorText: (text || alt).slice(0, 200),
+        nofollow: /\bnofollow\b/i.test(node.attrs.rel || ''),
+      });
+    }
+    collectLinks(node.children, found);
+  });
+}
+
+/**
+ * The title and `<a href>` links of an HTML document
+ */
+export function extractPageLinks(html: string): PageLinks & { baseHref?: string } {
+  const head = /<head[^>]*>([\s\S]*?)<\/head>/i.exec(html)?.[1] || '';
+  const body = /<body[^>]*>([\s\S]*)<\/body>/i.exec(html)?.[1] ?? html.replace(/<head[^>]*>[\s\S]*?<\/head>/i, '');
+  const metaRobots = /<meta[^>]+name=["']?robots["']?[^>]*>/i.exec(head)?.[0] || '';
+  const title = textContent(parseHtml(/<title[^>]*>([\s\S]*?)<\/title>/i.exec(head)?.[1] || '')).replace(/\s+/g, ' ').trim();
+
+  const links: PageLinks['links'] = [];
+  collectLinks(parseHtml(body), links);
+
+  return {
+    title,
+    nofollow: /content=["'][^"']*\b(nofollow|none)\b/i.test(metaRobots),
+    links,
+    baseHref: /<base[^>]+href=["']([^"']+)["']/i.exec(head)?.[1],
+  };
+}
+
+/**
+ * Waits so that requests to one host are at least `delayMs` apart
+ */
+function createHostThrottle(delayMs: number) {
+  const nextAllowed = new Map<string, number>();
+  return async (url: string) => {
+    const host = new URL(url).host;
+    const wait = (nextAllowed.get(host) || 0) - Date.now();
+    if (wait > 0) {
+      await new Promise(resolve => setTimeout(resolve, wait));
+    }
+    nextAllowed.set(host, Date.now() + delayMs);
+  };
+}
+
+interface FetchedPage {
+  finalUrl: string;
+  status: number;
+  html: string | null;
+  robotsHeader: string;
+}
+
+// Links and sitemap URLs are user-controlled, so only public addresses are
+// fetched, on every redirect too
+async function fetchPage(url: string): Promise<FetchedPage> {
+  const { response, finalUrl } = await getPublicUrl<string>(url, {
+    headers: {
+      'Accept': 'text/html,application/xhtml+xml',
+      'User-Agent': CRAWLER_USER_AGENT,
+    },
+    timeout: 15000,
+    maxContentLength: 5 * 1024 * 1024,
+    responseType: 'text',
+    validateStatus: () => true,
+  });
+
+  const contentType = String(response.headers['content-type'] || '');
+  const isHtml = !contentType || /html/i.test(contentType);
+  return {
+    finalUrl,
+    status: response.status,
+    html: isHtml ? String(response.data) : null,
+    robotsHeader: String(response.headers['x-robots-tag'] || ''),
+  };
+}
+
+/**
+ * The homepage URL after redirects, so that a site served from www. or over
+ * https is crawled on that host
+ */
+export async function resolveHomepage(websiteUrl: string): Promise<string> {
+  const start = normalizeUrl(websiteUrl, websiteUrl) || websiteUrl;
+  try {
+    const { finalUrl } = await fetchPage(start);
+    return normalizeUrl(finalUrl, start) || start;
+  } catch {
+    return start;
+  }
+}
+
+/**
+ * Crawl a site and return its pages and internal links. Links are recorded
+ * against the URL a page redirected to.
+ */
+export async function crawlSite(options: CrawlOptions): Promise<CrawlResult> {
+  const { homepage, rules, maxPages } = options;
+  const delayMs = Math.max(options.delayMs, (rules.crawlDelay || 0) * 1000);
+  const throttle = createHostThrottle(delayMs);
+  const deadline = Date.now() + options.maxDurationMs;
+
+  const pages = new Map<string, CrawledPage>();
+  const aliases = new Map<string, string>();
+  const linkCounts = new Map<string, CrawledLink>();
+  const queued = new Set<string>([homepage]);
+  const queue = [homepage];
+  const seeds = options.seeds
+    .map(seed => normalizeUrl(seed, homepage, homepage))
+    .filter((url): url is string => url !== null && isInternal(url, homepage));
+  let seedIndex = 0;
+  let fetched = 0;
+
+  const enqueue = (url: string) => {
+    if (!queued.has(url) && !ASSET_EXTENSIONS.test(new URL(url).pathname)) {
+      queued.add(url);
+      queue.push(url);
+    }
+  };
+
+  for (let head = 0; ; head++) {
+    // Sitemap URLs no link led to are visited once the linked pages run out
+    while (head >= queue.length && seedIndex < seeds.length) {
+      enqueue(seeds[seedIndex++]);
+    }
+    if (head >= queue.length) break;
+
+    const url = queue[head];
+    if (pages.has(url)) continue;
+    if (fetched >= maxPages || Date.now() >= deadline) {
+      pages.set(url, { url, state: 'not-crawled', httpStatus: null, title: null });
+      continue;
+    }
+    if (!isAllowed(rules, url)) {
+      pages.set(url, { url, state: 'blocked', httpStatus: null, title: null });
+      continue;
+    }
+
+    await throttle(url);
+    fetched++;
+
+    let page: FetchedPage;
+    try {
+      page = await fetchPage(url);
+    } catch (error) {
+      pages.set(url, { url, state: 'error', httpStatus: null, title: null, error: error instanceof Error ? error.message : 'Unknown error' });
+      continue;
+    }
+
+    // A redirect to a page already crawled adds nothing new
+    const finalUrl = normalizeUrl(page.finalUrl, url, homepage) || url;
+    if (finalUrl !== url) {
+      if (!isInternal(finalUrl, homepage)) {
+        pages.set(url, { url, state: 'error', httpStatus: page.status, title: null, error: `Redirects off the site to ${finalUrl}` });
+        continue;
+      }
+      aliases.set(url, finalUrl);
+      if (pages.has(finalUrl)) continue;
+      queued.add(finalUrl);
+    }
+
+    if (page.status >= 400) {
+      pages.set(finalUrl, { url: finalUrl, state: 'error', httpStatus: page.status, title: null, error: `HTTP ${page.status}` });
+    } else if (page.html === null) {
+      pages.set(finalUrl, { url: finalUrl, state: 'not-html', httpStatus: page.status, title: null });
+    } else {
+      const extracted = extractPageLinks(page.html);
+      const pageNofollow = extracted.nofollow || /\b(nofollow|none)\b/i.test(page.robotsHeader);
+      const base = extracted.baseHref ? normalizeUrl(extracted.baseHref, finalUrl) || finalUrl : finalUrl;
+      pages.set(finalUrl, { url: finalUrl, state: 'ok', httpStatus: page.status, title: extracted.title || null });
+
+      extracted.links.forEach(link => {
+        const target = normalizeUrl(link.href, base, homepage);
+        if (!target || !isInternal(target, homepage) || ASSET_EXTENSIONS.test(new URL(target).pathname)) return;
+
+        const nofollow = pageNofollow || link.nofollow;
+        const key = `${finalUrl}\n${target}\n${link.anchorText}\n${nofollow}`;
+        const existing = linkCounts.get(key);
+        if (existing) {
+          existing.count++;
+        } else {
+          linkCounts.set(key, { source: finalUrl, target, anchorText: link.anchorText, nofollow, count: 1 });
+        }
+        if (!nofollow) enqueue(target);
+      });
+    }
+
+    await options.onProgress?.(fetched);
+  }
+
+  // Point links at the pages their targets redirected to
+  const resolve = (url: string) => {
+    let current = url;
+    for (let hops = 0; aliases.has(current) && hops < 10; hops++) current = aliases.get(current)!;
+    return current;
+  };
+  const links = new Map<string, CrawledLink>();
+  linkCounts.forEach(link => {
+    const target = resolve(link.target);
+    const key = `${link.source}\n${target}\n${link.anchorText}\n${link.nofollow}`;
+    const existing = links.get(key);
+    if (existing) {
+      existing.count += link.count;
+    } else {
+      links.set(key, { ...link, target });
+    }
+  });
+
+  return {
+    pages: Array.from(pages.values()),
+    links: Array.from(links.values()),
+    truncated: Array.from(pages.values()).some(page => page.state === 'not-crawled'),
+  };
+}
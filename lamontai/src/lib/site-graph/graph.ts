@@ -0,0 +1,140 @@
+/**
+ * Link graph metrics for a crawled site: inbound and outbound link counts,
+ * orphan pages, click depth from the homepage and a PageRank-style
+ * authority score. Pure functions; the crawl supplies the pages and edges.
+ */
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  nofollow: boolean;
+}
+
+export interface PageMetrics {
+  url: string;
+  // Distinct pages linking here
+  inbound: number;
+  // Distinct internal pages this page links to
+  outbound: number;
+  // Clicks from the homepage over followed links; null when unreachable
+  depth: number | null;
+  pageRank: number;
+  // pageRank scaled so the strongest page scores 100
+  authority: number;
+  // In the sitemap but not linked from any other page
+  orphan: boolean;
+}
+
+export interface GraphInput {
+  homepage: string;
+  // Every URL known to the crawl, whether or not it was fetched
+  urls: string[];
+  sitemapUrls: Set<string>;
+  edges: GraphEdge[];
+}
+
+const DAMPING = 0.85;
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-8;
+
+/**
+ * Distinct followed targets of each page, self-links dropped
+ */
+function adjacency(edges: GraphEdge[], followedOnly: boolean): Map<string, Set<string>> {
+  const out = new Map<string, Set<string>>();
+  edges.forEach(edge => {
+    if (edge.source === edge.target || (followedOnly && edge.nofollow)) return;
+    if (!out.has(edge.source)) out.set(edge.source, new Set());
+    out.get(edge.source)!.add(edge.target);
+  });
+  return out;
+}
+
+/**
+ * Clicks needed to reach each page from the homepage
+ */
+export function clickDepths(homepage: string, links: Map<string, Set<string>>): Map<string, number> {
+  const depths = new Map<string, number>([[homepage, 0]]);
+  const queue = [homepage];
+  for (let head = 0; head < queue.length; head++) {
+    const url = queue[head];
+    const depth = depths.get(url)!;
+    links.get(url)?.forEach(target => {
+      if (!depths.has(target)) {
+        depths.set(target, depth + 1);
+        queue.push(target);
+      }
+    });
+  }
+  return depths;
+}
+
+/**
+ * PageRank by power iteration. Rank held by pages without followed links is
+ * spread evenly over the site so the scores keep summing to 1.
+ */
+export function pageRank(urls: string[], links: Map<string, Set<string>>): Map<string, number> {
+  const n = urls.length;
+  if (n === 0) return new Map();
+
+  const index = new Map(urls.map((url, i) => [url, i]));
+  const targets = urls.map(url => Array.from(links.get(url) || []).map(target => index.get(target)).filter((i): i is number => i !== undefined));
+
+  let ranks = new Array<number>(n).fill(1 / n);
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    const next = new Array<number>(n).fill(0);
+    let dangling = 0;
+
+    ranks.forEach((rank, i) => {
+      if (targets[i].length === 0) {
+        dangling += rank;
+        return;
+      }
+      const share = rank / targets[i].length;
+      targets[i].forEach(j => { next[j] += share; });
+    });
+
+    const base = (1 - DAMPING) / n + (DAMPING * dangling) / n;
+    let delta = 0;
+    for (let i = 0; i < n; i++) {
+      next[i] = base + DAMPING * next[i];
+      delta += Math.abs(next[i] - ranks[i]);
+    }
+    ranks = next;
+    if (delta < TOLERANCE) break;
+  }
+
+  return new Map(urls.map((url, i) => [url, ranks[i]]));
+}
+
+/**
+ * Metrics for every URL in the graph
+ */
+export function computeLinkGraph({ homepage, urls, sitemapUrls, edges }: GraphInput): PageMetrics[] {
+  const all = Array.from(new Set([homepage, ...urls, ...edges.flatMap(edge => [edge.source, edge.target])]));
+  const allLinks = adjacency(edges, false);
+  const followed = adjacency(edges, true);
+
+  const inbound = new Map<string, number>();
+  allLinks.forEach(targets => targets.forEach(target => {
+    inbound.set(target, (inbound.get(target) || 0) + 1);
+  }));
+
+  const depths = clickDepths(homepage, followed);
+  const ranks = pageRank(all, followed);
+  const maxRank = Math.max(...Array.from(ranks.values()));
+
+  return all.map(url => {
+    const rank = ranks.get(url) || 0;
+    const linkedFrom = inbound.get(url) || 0;
+    return {
+      url,
+      inbound: linkedFrom,
+      outbound: allLinks.get(url)?.size || 0,
+      depth: depths.get(url) ?? null,
+      pageRank: rank,
+      authority: maxRank > 0 ? Math.round((rank / maxRank) * 1000) / 10 : 0,
+      orphan: url !== homepage && linkedFrom === 0 && sitemapUrls.has(url),
+    };
+  });
+}
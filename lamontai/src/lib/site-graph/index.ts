@@ -0,0 +1,373 @@
+/**
+ * Site-wide internal link graph. Crawls the user's site from the homepage
+ * and through the sitemap inventory, records every internal link with its
+ * anchor text, and scores each page: inbound and outbound links, orphan
+ * status, click depth and PageRank-style authority. A few crawls are kept
+ * so reports stay available while a new one runs.
+ */
+
+import { z } from 'zod';
+import { Prisma, SiteCrawl, SiteCrawlPage, SiteLink } from '@prisma/client';
+import { db } from '../db';
+import redisClient from '../redis-client';
+import { ApiError, Errors } from '../error-handler';
+import { assertPublicUrl } from '../public-url';
+import { getPlanLimits } from '../usage';
+import { siteGraphPageQuerySchema } from '../validation';
+import { siteOrigin } from '../sitemap-utils/discovery';
+import { crawlSite, normalizeUrl, resolveHomepage } from './crawler';
+import { fetchRobotsRules } from './robots';
+import { computeLinkGraph } from './graph';
+
+export * from './robots';
+export * from './crawler';
+export * from './graph';
+
+export type SiteGraphPageQuery = z.infer<typeof siteGraphPageQuerySchema>;
+
+export interface SiteGraphSummary {
+  // Pages fetched successfully
+  pages: number;
+  orphans: number;
+  // Pages no followed link path from the homepage reaches
+  unreachable: number;
+  // Pages more than DEEP_PAGE_DEPTH clicks from the homepage
+  deep: number;
+  averageDepth: number | null;
+  maxDepth: number | null;
+}
+
+export interface SiteGraphReport {
+  // The newest crawl, which may still be running
+  latest: SiteCrawl | null;
+  // The newest completed crawl the report is built from
+  crawl: SiteCrawl | null;
+  summary: SiteGraphSummary | null;
+  orphans: SiteCrawlPage[];
+  // Pages linking out to the most internal pages
+  hubs: SiteCrawlPage[];
+  authorities: SiteCrawlPage[];
+  deepPages: SiteCrawlPage[];
+}
+
+export interface SiteGraphPageList {
+  crawl: SiteCrawl | null;
+  pages: SiteCrawlPage[];
+  count: number;
+  pagination: {
+    page: number;
+    limit: number;
+    totalPages: number;
+    hasMore: boolean;
+  };
+}
+
+export interface SiteGraphPageLinks {
+  page: SiteCrawlPage;
+  inbound: SiteLink[];
+  outbound: SiteLink[];
+}
+
+// Minimum wait between requests to the user's site
+const CRAWL_DELAY_MS = parseInt(process.env.CRAWL_DELAY_MS || '1000', 10);
+// A crawl stops fetching after this long and reports on what it found
+const CRAWL_MAX_MINUTES = parseInt(process.env.CRAWL_MAX_MINUTES || '60', 10);
+// A crawl that holds the lock longer than this is assumed to have died
+const CRAWL_LOCK_TTL = (CRAWL_MAX_MINUTES + 15) * 60;
+// Completed or failed crawls kept per user
+const KEPT_CRAWLS = 3;
+// Pages deeper than this many clicks are reported as deep
+const DEEP_PAGE_DEPTH = 3;
+const REPORT_LIST_SIZE = 10;
+// Rows per write
+const WRITE_BATCH_SIZE = 1000;
+
+const lockKey = (userId: string) => `site_crawl:${userId}`;
+
+/**
+ * The homepage to crawl from: the website URL in settings, or the origin of
+ * the sitemap inventory's pages
+ */
+async function resolveStartUrl(userId: string): Promise<string> {
+  const settings = await db.settings.findUnique({ where: { userId }, select: { websiteUrl: true } });
+  if (settings?.websiteUrl) {
+    return `${siteOrigin(settings.websiteUrl)}/`;
+  }
+
+  const page = await db.sitePage.findFirst({ where: { userId, removedAt: null }, select: { url: true } });
+  if (page) {
+    return `${new URL(page.url).origin}/`;
+  }
+  throw Errors.validation('Add your website URL in settings before crawling your site');
+}
+
+/**
+ * Start crawling the user's site in the background
+ * @returns The crawl record, with status `running`
+ * @throws ApiError (400) when the website URL is not a public address
+ * @throws ApiError (409) when a crawl for the user is already running
+ */
+export async function startSiteCrawl(userId: string): Promise<SiteCrawl> {
+  if (!(await redisClient.setIfAbsent(lockKey(userId), true, CRAWL_LOCK_TTL))) {
+    throw new ApiError('A site crawl is already running', 409);
+  }
+
+  try {
+    const homepage = await resolveStartUrl(userId);
+    // Refuse a literal private address up front; hostnames are checked as
+    // each page is fetched
+    assertPublicUrl(homepage);
+    // Without the lock, a crawl still marked running was cut off by a restart
+    await db.siteCrawl.updateMany({
+      where: { userId, status: 'running' },
+      data: { status: 'failed', error: 'The crawl was interrupted', finishedAt: new Date() },
+    });
+    const crawl = await db.siteCrawl.create({ data: { userId, homepage } });
+
+    runCrawl(crawl)
+      .catch(error => console.error(`Error crawling site for user ${userId}:`, error))
+      .finally(() => redisClient.delete(lockKey(userId)));
+
+    return crawl;
+  } catch (error) {
+    await redisClient.delete(lockKey(userId));
+    throw error;
+  }
+}
+
+async function runCrawl(crawl: SiteCrawl): Promise<void> {
+  const { userId } = crawl;
+  try {
+    const homepage = await resolveHomepage(crawl.homepage);
+    const [rules, limits, sitePages] = await Promise.all([
+      fetchRobotsRules(new URL(homepage).origin),
+      getPlanLimits(userId),
+      db.sitePage.findMany({ where: { userId, removedAt: null }, select: { url: true }, orderBy: { url: 'asc' } }),
+    ]);
+    const seeds = sitePages.map(page => page.url);
+
+    const result = await crawlSite({
+      homepage,
+      seeds,
+      rules,
+      maxPages: limits.crawlPages,
+      delayMs: CRAWL_DELAY_MS,
+      maxDurationMs: CRAWL_MAX_MINUTES * 60 * 1000,
+      onProgress: async fetched => {
+        if (fetched % 25 === 0) {
+          await db.siteCrawl.update({ where: { id: crawl.id }, data: { pagesCrawled: fetched } });
+        }
+      },
+    });
+
+    const sitemapUrls = new Set(
+      seeds.map(url => normalizeUrl(url, homepage, homepage)).filter((url): url is string => url !== null)
+    );
+    const metrics = computeLinkGraph({
+      homepage,
+      urls: result.pages.map(page => page.url),
+      sitemapUrls,
+      edges: result.links,
+    });
+    const crawled = new Map(result.pages.map(page => [page.url, page]));
+
+    const pageRows: Prisma.SiteCrawlPageCreateManyInput[] = metrics.map(metric => {
+      const page = crawled.get(metric.url);
+      return {
+        crawlId: crawl.id,
+        url: metric.url,
+        state: page?.state || 'not-crawled',
+        httpStatus: page?.httpStatus ?? null,
+        title: page?.title ?? null,
+        inSitemap: sitemapUrls.has(metric.url),
+        inbound: metric.inbound,
+        outbound: metric.outbound,
+        depth: metric.depth,
+        pageRank: metric.pageRank,
+        authority: metric.authority,
+        orphan: metric.orphan,
+      };
+    });
+    const linkRows: Prisma.SiteLinkCreateManyInput[] = result.links.map(link => ({
+      crawlId: crawl.id,
+      sourceUrl: link.source,
+      targetUrl: link.target,
+      anchorText: link.anchorText,
+      nofollow: link.nofollow,
+      count: link.count,
+    }));
+
+    for (let i = 0; i < pageRows.length; i += WRITE_BATCH_SIZE) {
+      await db.siteCrawlPage.createMany({ data: pageRows.slice(i, i + WRITE_BATCH_SIZE), skipDuplicates: true });
+    }
+    for (let i = 0; i < linkRows.length; i += WRITE_BATCH_SIZE) {
+      await db.siteLink.createMany({ data: linkRows.slice(i, i + WRITE_BATCH_SIZE) });
+    }
+
+    const count = (state: string) => result.pages.filter(page => page.state === state).length;
+    await db.siteCrawl.update({
+      where: { id: crawl.id },
+      data: {
+        homepage,
+        status: 'completed',
+        pagesCrawled: count('ok') + count('not-html'),
+        pagesFailed: count('error'),
+        pagesBlocked: count('blocked'),
+        linkCount: linkRows.length,
+        error: result.truncated ? `Stopped at the plan limit of ${limits.crawlPages} pages or after ${CRAWL_MAX_MINUTES} minutes` : null,
+        finishedAt: new Date(),
+      },
+    });
+    console.log(`Crawled ${count('ok')} pages and ${linkRows.length} links for user ${userId}`);
+  } catch (error) {
+    await db.siteCrawl.update({
+      where: { id: crawl.id },
+      data: { status: 'failed', error: error instanceof Error ? error.message : 'Unknown error', finishedAt: new Date() },
+    });
+    throw error;
+  } finally {
+    await pruneCrawls(userId);
+  }
+}
+
+/**
+ * Delete all but the newest finished crawls
+ */
+async function pruneCrawls(userId: string): Promise<void> {
+  const old = await db.siteCrawl.findMany({
+    where: { userId, status: { not: 'running' } },
+    orderBy: { startedAt: 'desc' },
+    skip: KEPT_CRAWLS,
+    select: { id: true },
+  });
+  if (old.length > 0) {
+    await db.siteCrawl.deleteMany({ where: { id: { in: old.map(crawl => crawl.id) } } });
+  }
+}
+
+function latestCompletedCrawl(userId: string): Promise<SiteCrawl | null> {
+  return db.siteCrawl.findFirst({ where: { userId, status: 'completed' }, orderBy: { startedAt: 'desc' } });
+}
+
+/**
+ * The link graph report of the latest completed crawl: orphan pages, hubs,
+ * the strongest pages and the deepest ones
+ */
+export async function getSiteGraphReport(userId: string): Promise<SiteGraphReport> {
+  const [latest, crawl] = await Promise.all([
+    db.siteCrawl.findFirst({ where: { userId }, orderBy: { startedAt: 'desc' } }),
+    latestCompletedCrawl(userId),
+  ]);
+  if (!crawl) {
+    return { latest, crawl: null, summary: null, orphans: [], hubs: [], authorities: [], deepPages: [] };
+  }
+
+  const ok: Prisma.SiteCrawlPageWhereInput = { crawlId: crawl.id, state: 'ok' };
+  const [pages, orphans, unreachable, deep, depth, orphanPages, hubs, authorities, deepPages] = await Promise.all([
+    db.siteCrawlPage.count({ where: ok }),
+    db.siteCrawlPage.count({ where: { crawlId: crawl.id, orphan: true } }),
+    db.siteCrawlPage.count({ where: { ...ok, depth: null } }),
+    db.siteCrawlPage.count({ where: { ...ok, depth: { gt: DEEP_PAGE_DEPTH } } }),
+    db.siteCrawlPage.aggregate({ where: { ...ok, depth: { not: null } }, _avg: { depth: true }, _max: { depth: true } }),
+    db.siteCrawlPage.findMany({ where: { crawlId: crawl.id, orphan: true }, orderBy: { url: 'asc' }, take: REPORT_LIST_SIZE * 5 }),
+    db.siteCrawlPage.findMany({ where: ok, orderBy: [{ outbound: 'desc' }, { url: 'asc' }], take: REPORT_LIST_SIZE }),
+    db.siteCrawlPage.findMany({ where: ok, orderBy: [{ authority: 'desc' }, { url: 'asc' }], take: REPORT_LIST_SIZE }),
+    db.siteCrawlPage.findMany({
+      where: { ...ok, depth: { gt: DEEP_PAGE_DEPTH } },
+      orderBy: [{ depth: 'desc' }, { url: 'asc' }],
+      take: REPORT_LIST_SIZE,
+    }),
+  ]);
+
+  return {
+    latest,
+    crawl,
+    summary: {
+      pages,
+      orphans,
+      unreachable,
+      deep,
+      averageDepth: depth._avg.depth === null ? null : Math.round(depth._avg.depth * 10) / 10,
+      maxDepth: depth._max.depth,
+    },
+    orphans: orphanPages,
+    hubs,
+    authorities,
+    deepPages,
+  };
+}
+
+/**
+ * Fetch a page of the latest completed crawl's pages
+ */
+export async function querySiteGraphPages(userId: string, query: Partial<SiteGraphPageQuery> = {}): Promise<SiteGraphPageList> {
+  const page = Math.max(1, query.page || 1);
+  const limit = Math.min(500, Math.max(1, query.limit || 100));
+  const crawl = await latestCompletedCrawl(userId);
+  if (!crawl) {
+    return { crawl: null, pages: [], count: 0, pagination: { page, limit, totalPages: 0, hasMore: false } };
+  }
+
+  const where: Prisma.SiteCrawlPageWhereInput = { crawlId: crawl.id };
+  if (query.search) where.url = { contains: query.search, mode: 'insensitive' };
+  switch (query.filter) {
+    case 'orphan':
+      where.orphan = true;
+      break;
+    case 'unreachable':
+      Object.assign(where, { state: 'ok', depth: null });
+      break;
+    case 'deep':
+      Object.assign(where, { state: 'ok', depth: { gt: DEEP_PAGE_DEPTH } });
+      break;
+    case 'error':
+      where.state = 'error';
+      break;
+  }
+
+  const sort = query.sort || 'authority';
+  const order = query.order || 'desc';
+
+  const [count, pages] = await Promise.all([
+    db.siteCrawlPage.count({ where }),
+    db.siteCrawlPage.findMany({
+      where,
+      orderBy: [{ [sort]: sort === 'depth' ? { sort: order, nulls: 'last' } : order }, { url: 'asc' }],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+  ]);
+
+  const totalPages = Math.ceil(count / limit);
+
+  return {
+    crawl,
+    pages,
+    count,
+    pagination: { page, limit, totalPages, hasMore: page < totalPages },
+  };
+}
+
+/**
+ * Links into and out of one page of the latest completed crawl
+ * @throws ApiError (404) when the crawl did not find the page
+ */
+export async function getSiteGraphPageLinks(userId: string, url: string): Promise<SiteGraphPageLinks> {
+  const crawl = await latestCompletedCrawl(userId);
+  if (!crawl) {
+    throw Errors.notFound('Site crawl');
+  }
+
+  const pageUrl = normalizeUrl(url, crawl.homepage, crawl.homepage) || url;
+  const page = await db.siteCrawlPage.findUnique({ where: { crawlId_url: { crawlId: crawl.id, url: pageUrl } } });
+  if (!page) {
+    throw Errors.notFound('Page');
+  }
+
+  const [inbound, outbound] = await Promise.all([
+    db.siteLink.findMany({ where: { crawlId: crawl.id, targetUrl: pageUrl }, orderBy: [{ sourceUrl: 'asc' }] }),
+    db.siteLink.findMany({ where: { crawlId: crawl.id, sourceUrl: pageUrl }, orderBy: [{ targetUrl: 'asc' }] }),
+  ]);
+
+  return { page, inbound, outbound };
+}
@@ -0,0 +1,134 @@
+/**
+ * robots.txt rules for the link graph crawler. Follows RFC 9309: the most
+ * specific user-agent group applies, the longest matching rule wins, and
+ * Allow wins a tie. `*` and `$` are supported in paths.
+ */
+
+import { getPublicUrl } from '../public-url';
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  // Seconds between requests asked for by the site, if any
+  crawlDelay: number | null;
+}
+
+// Product token matched against robots.txt user-agent lines
+export const CRAWLER_TOKEN = 'lamontai';
+export const CRAWLER_USER_AGENT = 'LamontAI-LinkGraph/1.0 (+https://lamontai.ai)';
+
+const ALLOW_ALL: RobotsRules = { allow: [], disallow: [], crawlDelay: null };
+const DISALLOW_ALL: RobotsRules = { allow: [], disallow: ['/'], crawlDelay: null };
+
+/**
+ * The rules of a robots.txt file that apply to this crawler
+ */
+export function parseRobotsTxt(text: string, token = CRAWLER_TOKEN): RobotsRules {
+  const groups: Array<{ agents: string[]; rules: RobotsRules }> = [];
+  let current: { agents: string[]; rules: RobotsRules } | null = null;
+  let readingAgents = false;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.replace(/#.*$/, '').trim();
+    const match = /^([a-z-]+)\s*:\s*(.*)$/i.exec(line);
+    if (!match) return;
+    const [, field, value] = match;
+
+    switch (field.toLowerCase()) {
+      case 'user-agent':
+        // Consecutive user-agent lines share one group
+        if (!current || !readingAgents) {
+          current = { agents: [], rules: { allow: [], disallow: [], crawlDelay: null } };
+          groups.push(current);
+        }
+        current.agents.push(value.toLowerCase());
+        readingAgents = true;
+        break;
+      case 'allow':
+      case 'disallow':
+        readingAgents = false;
+        // An empty Disallow allows everything
+        if (current && value) {
+          current.rules[field.toLowerCase() as 'allow' | 'disallow'].push(value);
+        }
+        break;
+      case 'crawl-delay': {
+        readingAgents = false;
+        const delay = parseFloat(value);
+        if (current && Number.isFinite(delay) && delay >= 0) {
+          current.rules.crawlDelay = delay;
+        }
+        break;
+      }
+      default:
+        readingAgents = false;
+    }
+  });
+
+  const named = groups.filter(group => group.agents.some(agent => agent !== '*' && token.includes(agent.split('/')[0])));
+  const selected = named.length > 0 ? named : groups.filter(group => group.agents.includes('*'));
+  if (selected.length === 0) {
+    return ALLOW_ALL;
+  }
+
+  // Groups for the same agent are merged
+  return selected.reduce<RobotsRules>((rules, group) => ({
+    allow: [...rules.allow, ...group.rules.allow],
+    disallow: [...rules.disallow, ...group.rules.disallow],
+    crawlDelay: group.rules.crawlDelay ?? rules.crawlDelay,
+  }), { allow: [], disallow: [], crawlDelay: null });
+}
+
+const patternCache = new Map<string, RegExp>();
+
+function rulePattern(rule: string): RegExp {
+  let pattern = patternCache.get(rule);
+  if (!pattern) {
+    const anchored = rule.endsWith('$');
+    const body = (anchored ? rule.slice(0, -1) : rule)
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*');
+    pattern = new RegExp(`^${body}${anchored ? '$' : ''}`);
+    patternCache.set(rule, pattern);
+  }
+  return pattern;
+}
+
+/**
+ * Whether the rules let the crawler fetch a URL
+ */
+export function isAllowed(rules: RobotsRules, url: string): boolean {
+  const { pathname, search } = new URL(url);
+  const path = `${pathname}${search}`;
+
+  const longest = (list: string[]) =>
+    list.filter(rule => rulePattern(rule).test(path)).reduce((max, rule) => Math.max(max, rule.length), -1);
+
+  const allow = longest(rules.allow);
+  const disallow = longest(rules.disallow);
+  return disallow < 0 || allow >= disallow;
+}
+
+/**
+ * Fetch and parse a site's robots.txt. A missing file allows everything;
+ * a server error blocks the site until the next crawl.
+ */
+export async function fetchRobotsRules(origin: string): Promise<RobotsRules> {
+  try {
+    const { response } = await getPublicUrl<string>(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': CRAWLER_USER_AGENT },
+      responseType: 'text',
+      timeout: 10000,
+      validateStatus: () => true,
+    });
+    if (response.status >= 500) {
+      console.log(`robots.txt for ${origin} returned ${response.status}; not crawling`);
+      return DISALLOW_ALL;
+    }
+    return response.status >= 400 ? ALLOW_ALL : parseRobotsTxt(String(response.data));
+  } catch (error) {
+    console.log(`robots.txt for ${origin} unreachable: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    return DISALLOW_ALL;
+  }
+}
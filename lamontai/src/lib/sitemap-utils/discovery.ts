@@ -0,0 +1,93 @@
+/**
+ * Sitemap discovery from a website URL: the `Sitemap:` lines of robots.txt
+ * first, then the paths sitemaps and feeds are usually published at.
+ */
+
+import { getPublicUrl } from '../public-url';
+import { fetchSitemapFile, SITEMAP_HEADERS } from './index';
+
+export interface SitemapDiscovery {
+  websiteUrl: string;
+  sitemaps: string[];
+  // Where the sitemaps were found
+  source: 'robots' | 'common-path' | 'none';
+}
+
+// Tried in order when robots.txt lists no sitemaps; feeds come last since
+// they only list recent posts
+const COMMON_SITEMAP_PATHS = [
+  '/sitemap.xml',
+  '/sitemap_index.xml',
+  '/sitemap-index.xml',
+  '/wp-sitemap.xml',
+  '/sitemap.xml.gz',
+  '/sitemap.txt',
+  '/feed',
+  '/rss.xml',
+  '/atom.xml',
+];
+
+/**
+ * Origin of a website URL entered with or without its scheme
+ */
+export function siteOrigin(websiteUrl: string): string {
+  return new URL(/^https?:\/\//i.test(websiteUrl) ? websiteUrl : `https://${websiteUrl}`).origin;
+}
+
+/**
+ * Sitemap URLs declared in a robots.txt file. `Sitemap:` lines apply to the
+ * whole file regardless of user-agent group.
+ */
+export function parseRobotsSitemaps(robotsTxt: string, baseUrl: string): string[] {
+  const sitemaps = robotsTxt
+    .split(/\r?\n/)
+    .map(line => /^\s*sitemap\s*:\s*(\S+)/i.exec(line.replace(/#.*$/, ''))?.[1])
+    .filter((url): url is string => Boolean(url))
+    .map(url => {
+      try {
+        return new URL(url, baseUrl).toString();
+      } catch {
+        return undefined;
+      }
+    })
+    .filter((url): url is string => Boolean(url));
+
+  return Array.from(new Set(sitemaps));
+}
+
+/**
+ * Find the sitemaps of a website
+ * @param websiteUrl - Home page URL, with or without its scheme
+ */
+export async function discoverSitemaps(websiteUrl: string): Promise<SitemapDiscovery> {
+  const origin = siteOrigin(websiteUrl);
+
+  try {
+    const { response } = await getPublicUrl<string>(`${origin}/robots.txt`, {
+      headers: { 'User-Agent': SITEMAP_HEADERS['User-Agent'] },
+      responseType: 'text',
+      timeout: 10000,
+    });
+    const sitemaps = parseRobotsSitemaps(String(response.data), origin);
+    if (sitemaps.length > 0) {
+      return { websiteUrl: origin, sitemaps, source: 'robots' };
+    }
+  } catch (error) {
+    console.log(`No robots.txt found for ${origin}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+
+  for (const path of COMMON_SITEMAP_PATHS) {
+    const url = `${origin}${path}`;
+    try {
+      const result = await fetchSitemapFile(url);
+      if (!result.notModified && (result.data.isIndex || result.data.urls.length > 0)) {
+        console.log(`Discovered sitemap for ${origin} at ${url}`);
+        return { websiteUrl: origin, sitemaps: [url], source: 'common-path' };
+      }
+    } catch {
+      // Not there; try the next path
+    }
+  }
+
+  return { websiteUrl: origin, sitemaps: [], source: 'none' };
+}
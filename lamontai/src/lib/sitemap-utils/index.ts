@@ -1,7 +1,37 @@
-import { parseStringPromise } from 'xml2js';
-import axios from 'axios';
+import { gunzipSync } from 'zlib';
+import { parseStringPromise, processors } from 'xml2js';
 import redisClient from '../redis-client';
 import { ApiError } from '../error-handler';
+import { analyzeReadability } from '../readability';
+import { getPublicUrl } from '../public-url';
+import { fetchPageHtml } from '../seo-analyzer';
+
+/**
+ * An image listed for a URL (image sitemap extension)
+ */
+export interface SitemapImage {
+  loc: string;
+  title?: string;
+  caption?: string;
+}
+
+/**
+ * Google News sitemap extension
+ */
+export interface SitemapNews {
+  title?: string;
+  publicationName?: string;
+  language?: string;
+  publicationDate?: string;
+}
+
+/**
+ * A language version of a URL (xhtml:link hreflang)
+ */
+export interface SitemapAlternate {
+  hreflang: string;
+  href: string;
+}
 
 /**
  * URL data extracted from a sitemap
@@ -11,8 +41,13 @@ export interface SitemapUrl {
   lastmod?: string;
   changefreq?: string;
   priority?: string;
+  images?: SitemapImage[];
+  news?: SitemapNews;
+  alternates?: SitemapAlternate[];
 }
 
+export type SitemapFormat = 'xml' | 'text' | 'rss' | 'atom';
+
 /**
  * Sitemap data with URLs and metadata
  */
@@ -20,6 +55,21 @@ export interface SitemapData {
   urls: SitemapUrl[];
   isIndex: boolean;
   childSitemaps?: string[];
+  format?: SitemapFormat;
+  // Set when the URL cap stopped the crawl before every sitemap was read
+  truncated?: boolean;
+}
+
+/**
+ * Limits for following sitemap indexes
+ */
+export interface SitemapCrawlOptions {
+  // Levels of nested indexes to follow below the first sitemap
+  maxDepth?: number;
+  // Stop once this many URLs have been collected
+  maxUrls?: number;
+  // Stop after fetching this many sitemap files
+  maxFiles?: number;
 }
 
 /**
@@ -32,127 +82,245 @@ export interface ContentAnalysis {
   headings: string[];
   wordCount?: number;
   readabilityScore?: number;
+  // Body paragraph text, used for writing style analysis
+  paragraphs?: string[];
+  listItemCount?: number;
 }
 
+export const SITEMAP_HEADERS = {
+  'Accept': 'application/xml, text/xml, application/rss+xml, application/atom+xml, text/plain, */*',
+  'User-Agent': 'LamontAI-Sitemap-Parser/1.0 (+https://lamontai.ai)'
+};
+
+// The sitemap protocol caps a file at 50,000 URLs and 50MB uncompressed
+const MAX_SITEMAP_BYTES = 50 * 1024 * 1024;
+const MAX_SITEMAP_URLS = 50000;
+
+// Levels of nested indexes followed below the first sitemap
+export const MAX_SITEMAP_DEPTH = parseInt(process.env.SITEMAP_MAX_DEPTH || '3', 10);
+
+const DEFAULT_CRAWL_OPTIONS: Required<SitemapCrawlOptions> = {
+  maxDepth: MAX_SITEMAP_DEPTH,
+  maxUrls: 50000,
+  maxFiles: 500
+};
+
+/**
+ * Result of fetching one sitemap file
+ */
+export type SitemapFetchResult =
+  | { notModified: true }
+  | { notModified: false; data: SitemapData; etag?: string; lastModified?: string };
+
 /**
- * Fetch and parse a sitemap XML file
+ * Fetch a single sitemap file, gunzipping `.xml.gz` files, and parse it in
+ * whatever format it is in. Pass the validators from a previous fetch to get
+ * `notModified` instead of a download when the file has not changed.
  * @param sitemapUrl - URL of the sitemap
- * @param recursive - Whether to fetch child sitemaps (true by default)
- * @returns Parsed sitemap data
+ * @param validators - ETag and Last-Modified from the previous fetch
+ * @throws ApiError (400) when the URL or a redirect is not a public address
+ */
+export async function fetchSitemapFile(
+  sitemapUrl: string,
+  validators: { etag?: string | null; lastModified?: string | null } = {}
+): Promise<SitemapFetchResult> {
+  // Sitemap URLs are user-supplied, so fetch only public addresses
+  const { response } = await getPublicUrl<ArrayBuffer>(sitemapUrl, {
+    headers: {
+      ...SITEMAP_HEADERS,
+      ...(validators.etag ? { 'If-None-Match': validators.etag } : {}),
+      ...(validators.lastModified ? { 'If-Modified-Since': validators.lastModified } : {})
+    },
+    responseType: 'arraybuffer',
+    maxContentLength: MAX_SITEMAP_BYTES,
+    timeout: 10000, // 10 second timeout
+    validateStatus: status => (status >= 200 && status < 300) || status === 304
+  });
+
+  if (response.status === 304) {
+    return { notModified: true };
+  }
+
+  let body = Buffer.from(response.data);
+  // Gzipped sitemaps are usually served as application/gzip, which the HTTP
+  // client does not decompress, so check for the gzip magic number
+  if (body[0] === 0x1f && body[1] === 0x8b) {
+    body = gunzipSync(body, { maxOutputLength: MAX_SITEMAP_BYTES });
+  }
+
+  const header = (name: string) => {
+    const value = response.headers[name];
+    return typeof value === 'string' && value ? value : undefined;
+  };
+
+  return {
+    notModified: false,
+    data: await parseSitemapContent(body.toString('utf8'), sitemapUrl),
+    etag: header('etag'),
+    lastModified: header('last-modified')
+  };
+}
+
+/**
+ * Fetch and parse a sitemap, following nested sitemap indexes
+ * breadth-first. Each sitemap is fetched once, so indexes that list each
+ * other do not loop.
+ * @param sitemapUrl - URL of the sitemap
+ * @param options - Depth, URL and file limits
+ * @returns Parsed sitemap data with the URLs of every sitemap read
+ */
+export async function fetchAndParseSitemap(sitemapUrl: string, options: SitemapCrawlOptions = {}): Promise<SitemapData> {
+  const { maxDepth, maxUrls, maxFiles } = { ...DEFAULT_CRAWL_OPTIONS, ...options };
+  const visited = new Set<string>();
+  const queue: Array<{ url: string; depth: number }> = [{ url: sitemapUrl, depth: 0 }];
+  const childSitemaps: string[] = [];
+  const urls: SitemapUrl[] = [];
+  let root: SitemapData | undefined;
+  let truncated = false;
+
+  while (queue.length > 0) {
+    const { url, depth } = queue.shift()!;
+    if (visited.has(url)) {
+      continue;
+    }
+    if (urls.length >= maxUrls || visited.size >= maxFiles) {
+      truncated = true;
+      break;
+    }
+    visited.add(url);
+
+    let data: SitemapData;
+    try {
+      console.log(`Fetching sitemap from: ${url}`);
+      const result = await fetchSitemapFile(url);
+      data = result.notModified ? { urls: [], isIndex: false } : result.data;
+    } catch (error) {
+      console.error(`Error fetching sitemap ${url}:`, error);
+      // Only the sitemap we were asked for has to load; a broken child is skipped
+      if (!root) {
+        // A refused address stays a 400
+        if (error instanceof ApiError && error.statusCode === 400) {
+          throw error;
+        }
+        throw new ApiError(
+          `Failed to fetch sitemap: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          502,
+          { url }
+        );
+      }
+      continue;
+    }
+
+    root = root || data;
+    const room = maxUrls - urls.length;
+    truncated = truncated || data.urls.length > room;
+    urls.push(...data.urls.slice(0, room));
+
+    const children = (data.childSitemaps || []).filter(child => !visited.has(child));
+    childSitemaps.push(...children);
+    if (depth < maxDepth) {
+      queue.push(...children.map(child => ({ url: child, depth: depth + 1 })));
+    }
+  }
+
+  return {
+    urls,
+    isIndex: root?.isIndex || false,
+    childSitemaps: root?.isIndex ? Array.from(new Set(childSitemaps)) : undefined,
+    format: root?.format,
+    truncated
+  };
+}
+
+// Child of a parsed XML element, following a path of tag names
+const field = (node: unknown, ...path: string[]): unknown =>
+  path.reduce<unknown>(
+    (value, key) => (value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    node
+  );
+
+// Text of an element parsed with mergeAttrs, which may be a string or {_: text, ...attributes}
+const textOf = (value: unknown): string | undefined => {
+  if (Array.isArray(value)) {
+    return textOf(value[0]);
+  }
+  if (typeof value === 'string') {
+    return value.trim() || undefined;
+  }
+  const text = field(value, '_');
+  return typeof text === 'string' ? text.trim() || undefined : undefined;
+};
+
+// Elements that occur once parse to a value, repeated ones to an array
+const asArray = (value: unknown): unknown[] =>
+  value === undefined || value === null ? [] : Array.isArray(value) ? value : [value];
+
+/**
+ * Resolve a URL found in a sitemap against the sitemap's own URL
  */
-export async function fetchAndParseSitemap(sitemapUrl: string, recursive = true): Promise<SitemapData> {
+const resolveUrl = (value: unknown, baseUrl: string): string | undefined => {
+  const text = textOf(value);
+  if (!text) {
+    return undefined;
+  }
   try {
-    console.log(`Fetching sitemap from: ${sitemapUrl}`);
-    const response = await axios.get(sitemapUrl, {
-      headers: {
-        'Accept': 'application/xml, text/xml, */*',
-        'User-Agent': 'LamontAI-Sitemap-Parser/1.0 (+https://lamontai.ai)'
-      },
-      timeout: 10000 // 10 second timeout
-    });
+    const url = new URL(text, baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+};
 
-    return parseSitemapXml(response.data, sitemapUrl, recursive);
-  } catch (error) {
-    console.error(`Error fetching sitemap ${sitemapUrl}:`, error);
-    throw new ApiError(
-      `Failed to fetch sitemap: ${error instanceof Error ? error.message : 'Unknown error'}`,
-      502,
-      { url: sitemapUrl }
-    );
+// Feed dates are RFC 822; store them as ISO 8601 like sitemap lastmod values
+const toIsoDate = (value: unknown): string | undefined => {
+  const text = textOf(value);
+  const date = text ? new Date(text) : undefined;
+  return date && !isNaN(date.getTime()) ? date.toISOString() : text;
+};
+
+const isPresent = <T>(value: T | undefined): value is T => value !== undefined;
+
+/**
+ * Parse a sitemap in any supported format: XML sitemaps and indexes, RSS
+ * and Atom feeds, or a plain-text list of URLs
+ * @param content - Decompressed file content
+ * @param baseUrl - URL of the sitemap (for resolving relative URLs)
+ */
+export async function parseSitemapContent(content: string, baseUrl: string): Promise<SitemapData> {
+  const text = content.replace(/^\uFEFF/, '').trim();
+  if (text.startsWith('<')) {
+    return parseSitemapXml(text, baseUrl);
   }
+
+  // A text sitemap is one URL per line
+  const urls = text
+    .split(/\r?\n/)
+    .filter(line => /^https?:\/\//i.test(line.trim()))
+    .map(line => resolveUrl(line, baseUrl))
+    .filter(isPresent)
+    .slice(0, MAX_SITEMAP_URLS)
+    .map(loc => ({ loc }));
+
+  return { urls, isIndex: false, format: 'text' };
 }
 
 /**
- * Parse sitemap XML content
+ * Parse XML sitemap content: a urlset, a sitemap index, an RSS 2.0 feed or
+ * an Atom feed. Namespace prefixes are stripped, so image:image, news:news
+ * and xhtml:link read as image, news and link.
  * @param xmlContent - XML content to parse
  * @param baseUrl - Base URL of the sitemap (for resolving relative URLs)
- * @param recursive - Whether to fetch child sitemaps
  * @returns Parsed sitemap data
  */
-export async function parseSitemapXml(xmlContent: string, baseUrl: string, recursive = true): Promise<SitemapData> {
+export async function parseSitemapXml(xmlContent: string, baseUrl: string): Promise<SitemapData> {
+  let result: unknown;
   try {
-    const result = await parseStringPromise(xmlContent, { 
+    result = await parseStringPromise(xmlContent, {
       explicitArray: false,
       normalizeTags: true,
-      mergeAttrs: true
+      mergeAttrs: true,
+      tagNameProcessors: [processors.stripPrefix]
     });
-    
-    // Check if this is a sitemap index
-    if (result.sitemapindex) {
-      const sitemapIndex = result.sitemapindex;
-      const childSitemaps: string[] = [];
-      
-      // Extract child sitemap URLs
-      if (Array.isArray(sitemapIndex.sitemap)) {
-        sitemapIndex.sitemap.forEach((sitemap: any) => {
-          if (sitemap.loc) {
-            childSitemaps.push(sitemap.loc);
-          }
-        });
-      } else if (sitemapIndex.sitemap && sitemapIndex.sitemap.loc) {
-        childSitemaps.push(sitemapIndex.sitemap.loc);
-      }
-      
-      // If recursive, fetch all child sitemaps
-      if (recursive && childSitemaps.length > 0) {
-        const allUrls: SitemapUrl[] = [];
-        
-        // Fetch child sitemaps (limit to 5 concurrent requests)
-        const chunkSize = 5;
-        for (let i = 0; i < childSitemaps.length; i += chunkSize) {
-          const chunk = childSitemaps.slice(i, i + chunkSize);
-          const childResults = await Promise.all(
-            chunk.map(childUrl => fetchAndParseSitemap(childUrl, false))
-          );
-          
-          childResults.forEach(child => {
-            allUrls.push(...child.urls);
-          });
-        }
-        
-        return {
-          urls: allUrls,
-          isIndex: true,
-          childSitemaps
-        };
-      }
-      
-      return {
-        urls: [],
-        isIndex: true,
-        childSitemaps
-      };
-    }
-    
-    // Regular sitemap
-    const urls: SitemapUrl[] = [];
-    
-    if (result.urlset && result.urlset.url) {
-      if (Array.isArray(result.urlset.url)) {
-        result.urlset.url.forEach((url: any) => {
-          if (url.loc) {
-            urls.push({
-              loc: url.loc,
-              lastmod: url.lastmod,
-              changefreq: url.changefreq,
-              priority: url.priority
-            });
-          }
-        });
-      } else if (result.urlset.url.loc) {
-        urls.push({
-          loc: result.urlset.url.loc,
-          lastmod: result.urlset.url.lastmod,
-          changefreq: result.urlset.url.changefreq,
-          priority: result.urlset.url.priority
-        });
-      }
-    }
-    
-    return {
-      urls,
-      isIndex: false
-    };
   } catch (error) {
     console.error('Error parsing sitemap XML:', error);
     throw new ApiError(
@@ -160,6 +328,105 @@ export async function parseSitemapXml(xmlContent: string, baseUrl: string, recur
       500
     );
   }
+
+  // Sitemap index
+  if (field(result, 'sitemapindex')) {
+    const childSitemaps = asArray(field(result, 'sitemapindex', 'sitemap'))
+      .map(sitemap => resolveUrl(field(sitemap, 'loc'), baseUrl))
+      .filter(isPresent);
+
+    return {
+      urls: [],
+      isIndex: true,
+      childSitemaps: Array.from(new Set(childSitemaps)),
+      format: 'xml'
+    };
+  }
+
+  // RSS 2.0 feed
+  if (field(result, 'rss')) {
+    const urls = asArray(field(result, 'rss', 'channel', 'item'))
+      .map(item => {
+        const loc = resolveUrl(field(item, 'link'), baseUrl);
+        return loc ? { loc, lastmod: toIsoDate(field(item, 'pubdate') ?? field(item, 'date')) } : undefined;
+      })
+      .filter(isPresent);
+
+    return { urls: urls.slice(0, MAX_SITEMAP_URLS), isIndex: false, format: 'rss' };
+  }
+
+  // Atom feed: an entry's URL is its alternate (or only) link
+  if (field(result, 'feed')) {
+    const urls = asArray(field(result, 'feed', 'entry'))
+      .map(entry => {
+        const link = asArray(field(entry, 'link')).find(candidate => {
+          const rel = field(candidate, 'rel');
+          return typeof candidate === 'string' || !rel || rel === 'alternate';
+        });
+        const loc = resolveUrl(typeof link === 'string' ? link : field(link, 'href'), baseUrl);
+        return loc ? { loc, lastmod: toIsoDate(field(entry, 'updated') ?? field(entry, 'published')) } : undefined;
+      })
+      .filter(isPresent);
+
+    return { urls: urls.slice(0, MAX_SITEMAP_URLS), isIndex: false, format: 'atom' };
+  }
+
+  // Anything else (an HTML error page, say) is not a sitemap
+  if (!field(result, 'urlset')) {
+    throw new ApiError('Unrecognized sitemap format: expected a urlset, sitemap index, RSS or Atom feed', 422);
+  }
+
+  // Regular sitemap
+  const urls: SitemapUrl[] = [];
+  asArray(field(result, 'urlset', 'url')).slice(0, MAX_SITEMAP_URLS).forEach(url => {
+    const loc = resolveUrl(field(url, 'loc'), baseUrl);
+    if (!loc) {
+      return;
+    }
+
+    const images = asArray(field(url, 'image'))
+      .map(image => {
+        const imageLoc = resolveUrl(field(image, 'loc'), baseUrl);
+        return imageLoc
+          ? { loc: imageLoc, title: textOf(field(image, 'title')), caption: textOf(field(image, 'caption')) }
+          : undefined;
+      })
+      .filter(isPresent);
+
+    const news = field(url, 'news')
+      ? {
+        title: textOf(field(url, 'news', 'title')),
+        publicationName: textOf(field(url, 'news', 'publication', 'name')),
+        language: textOf(field(url, 'news', 'publication', 'language')),
+        publicationDate: textOf(field(url, 'news', 'publication_date'))
+      }
+      : undefined;
+
+    // hreflang annotations: <xhtml:link rel="alternate" hreflang="de" href="..."/>
+    const alternates = asArray(field(url, 'link'))
+      .map(link => {
+        const hreflang = textOf(field(link, 'hreflang'));
+        const href = resolveUrl(field(link, 'href'), baseUrl);
+        return field(link, 'rel') === 'alternate' && hreflang && href ? { hreflang, href } : undefined;
+      })
+      .filter(isPresent);
+
+    urls.push({
+      loc,
+      lastmod: textOf(field(url, 'lastmod')),
+      changefreq: textOf(field(url, 'changefreq')),
+      priority: textOf(field(url, 'priority')),
+      ...(images.length > 0 ? { images } : {}),
+      ...(news ? { news } : {}),
+      ...(alternates.length > 0 ? { alternates } : {})
+    });
+  });
+
+  return {
+    urls,
+    isIndex: false,
+    format: 'xml'
+  };
 }
 
 /**
@@ -179,20 +446,14 @@ export async function analyzeUrlContent(url: string): Promise<ContentAnalysis> {
     }
     
     console.log(`Analyzing content from URL: ${url}`);
-    const response = await axios.get(url, {
-      headers: {
-        'Accept': 'text/html,application/xhtml+xml',
-        'User-Agent': 'LamontAI-Content-Analyzer/1.0 (+https://lamontai.ai)'
-      },
-      timeout: 15000 // 15 second timeout
-    });
+    // Sitemap URLs are user-supplied, so fetch only public addresses
+    const content = await fetchPageHtml(url);
     
     // This is a simplified analysis - in a real implementation, you would:
     // 1. Parse the HTML properly (using cheerio or similar)
     // 2. Extract title, headings, meta tags, etc.
-    // 3. Do proper keyword extraction and readability analysis
+    // 3. Do proper keyword extraction
     
-    const content = response.data;
     
     // Extract title (simple regex approach)
     const titleMatch = /<title>(.*?)<\/title>/i.exec(content);
@@ -204,6 +465,13 @@ export async function analyzeUrlContent(url: string): Promise<ContentAnalysis> {
       return h.replace(/<\/?[^>]+(>|$)/g, '').trim();
     });
     
+    // Extract paragraph text and list usage for style analysis
+    const paragraphs = (content.match(/<p[^>]*>([\s\S]*?)<\/p>/gi) || [])
+      .map((p: string) => p.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim())
+      .filter((p: string) => p.split(' ').length >= 5);
+    const listItemCount = (content.match(/<li[\s>]/gi) || []).length;
+    const htmlLang = /<html[^>]*\slang=["']?([\w-]+)/i.exec(content)?.[1];
+    
     // Simple keyword extraction (just common words, not a real implementation)
     const bodyText = content.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
     const words = bodyText.toLowerCase().split(/\W+/).filter((w: string) => w.length > 3);
@@ -228,8 +496,9 @@ export async function analyzeUrlContent(url: string): Promise<ContentAnalysis> {
       keywords,
       headings,
       wordCount: words.length,
-      // Placeholder for readability score
-      readabilityScore: 0
+      readabilityScore: analyzeReadability(paragraphs, htmlLang).score,
+      paragraphs,
+      listItemCount
     };
     
     // Cache the analysis result (24 hour TTL)
@@ -246,63 +515,6 @@ export async function analyzeUrlContent(url: string): Promise<ContentAnalysis> {
   }
 }
 
-/**
- * Find relevant internal links for a given topic
- * @param sitemapData - Parsed sitemap data
- * @param topic - Topic to find relevant links for
- * @param maxResults - Maximum number of results to return
- * @returns Array of relevant URLs
- */
-export async function findRelevantInternalLinks(
-  sitemapData: SitemapData, 
-  topic: string, 
-  maxResults = 5
-): Promise<string[]> {
-  // Cache key for this specific query
-  const cacheKey = `relevant_links:${topic}:${maxResults}:${sitemapData.urls.length}`;
-  
-  // Check cache first
-  const cachedLinks = await redisClient.get<string[]>(cacheKey);
-  if (cachedLinks) {
-    return cachedLinks;
-  }
-  
-  // Convert topic to lowercase for case-insensitive matching
-  const lowerTopic = topic.toLowerCase();
-  
-  // Filter URLs by relevance to topic (very simple approach)
-  const relevantUrls = sitemapData.urls.filter(url => {
-    const urlPath = new URL(url.loc).pathname.toLowerCase();
-    
-    // Check if URL path contains the topic
-    return urlPath.includes(lowerTopic) || 
-           // Or a hyphenated version of the topic
-           urlPath.includes(lowerTopic.replace(/\s+/g, '-')) ||
-           // Or an underscore version of the topic
-           urlPath.includes(lowerTopic.replace(/\s+/g, '_'));
-  });
-  
-  // Sort by priority (if available) and return top results
-  const sortedUrls = relevantUrls.sort((a, b) => {
-    // Sort by priority if available
-    if (a.priority && b.priority) {
-      return parseFloat(b.priority) - parseFloat(a.priority);
-    }
-    
-    // Default to URL path length (shorter = more relevant)
-    const aPath = new URL(a.loc).pathname;
-    const bPath = new URL(b.loc).pathname;
-    return aPath.length - bPath.length;
-  });
-  
-  const result = sortedUrls.slice(0, maxResults).map(url => url.loc);
-  
-  // Cache the results (1 hour TTL)
-  await redisClient.set(cacheKey, result, 60 * 60);
-  
-  return result;
-}
-
 /**
  * Get sitemap data from cache or fetch if not cached
  * @param sitemapUrl - URL of the sitemap
@@ -319,30 +531,3 @@ export async function getCachedSitemapData(sitemapUrl: string): Promise<SitemapD
     12 * 60 * 60 // 12-hour TTL
   );
 }
-
-/**
- * Initialize sitemap data for a user
- * @param userId - User ID
- * @param sitemapUrl - URL of the sitemap
- * @returns If initialization was successful
- */
-export async function initializeUserSitemap(userId: string, sitemapUrl: string): Promise<boolean> {
-  try {
-    // Fetch and parse the sitemap
-    const sitemapData = await fetchAndParseSitemap(sitemapUrl);
-    
-    // Log basic info about the sitemap
-    console.log(`Initialized sitemap for user ${userId} with ${sitemapData.urls.length} URLs`);
-    
-    // Cache the user's sitemap association
-    await redisClient.set(`user_sitemap:${userId}`, { url: sitemapUrl, urlCount: sitemapData.urls.length });
-    
-    // In a real implementation, you might store parsed data in a database
-    // e.g., db.sitemapData.create({ userId, urlCount: sitemapData.urls.length, ... })
-    
-    return true;
-  } catch (error) {
-    console.error(`Error initializing sitemap for user ${userId}:`, error);
-    return false;
-  }
-} 
\ No newline at end of file
@@ -0,0 +1,644 @@
+/**
+ * The user's sitemap inventory: every URL their sitemaps list, kept in the
+ * database and refreshed incrementally. Sitemaps come from the sitemap URL
+ * in settings or are discovered from the website URL. Files are refetched
+ * with their ETag/Last-Modified validators, and URLs that appear, disappear
+ * or change between refreshes are written to a change log.
+ */
+
+import { z } from 'zod';
+import { Prisma, SitePage, SitePageChange, Sitemap } from '@prisma/client';
+import { db } from '../db';
+import redisClient from '../redis-client';
+import { ApiError, Errors } from '../error-handler';
+import { getPlanLimits } from '../usage';
+import { sitePageChangeQuerySchema, sitePageQuerySchema } from '../validation';
+import { fetchSitemapFile, MAX_SITEMAP_DEPTH, SitemapFormat, SitemapUrl } from './index';
+import { discoverSitemaps } from './discovery';
+
+export type SitePageQuery = z.infer<typeof sitePageQuerySchema>;
+export type SitePageChangeQuery = z.infer<typeof sitePageChangeQuerySchema>;
+
+export interface SitemapRefreshResult {
+  // Sitemaps the walk started from
+  sitemapUrls: string[];
+  // How they were found: the sitemap URL in settings, robots.txt or a common path
+  source: 'settings' | 'robots' | 'common-path';
+  // Sitemaps downloaded with new content
+  fetched: number;
+  // Sitemaps the server reported unchanged (304)
+  notModified: number;
+  failed: Array<{ url: string; error: string }>;
+  // URLs listed after the refresh
+  pageCount: number;
+  added: number;
+  removed: number;
+  changed: number;
+  // True for the first import, which is not written to the change log
+  baseline: boolean;
+  // Most URLs the user's plan keeps
+  urlLimit: number;
+  // Set when the plan's URL limit stopped the refresh before every sitemap was read
+  truncated: boolean;
+}
+
+export interface SitemapInventory {
+  sitemapUrl: string | null;
+  // Sitemaps are discovered from this when no sitemap URL is set
+  websiteUrl: string | null;
+  sitemaps: Sitemap[];
+  pageCount: number;
+  removedCount: number;
+  urlLimit: number;
+  lastRefreshedAt: Date | null;
+}
+
+interface Pagination {
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasMore: boolean;
+}
+
+export interface SitePageList {
+  pages: SitePage[];
+  count: number;
+  pagination: Pagination;
+}
+
+export interface SitePageChangeList {
+  changes: SitePageChange[];
+  count: number;
+  pagination: Pagination;
+}
+
+// Most sitemap files one refresh will fetch
+const MAX_SITEMAP_FILES = 500;
+// A refresh that takes longer than this is assumed to have died
+const REFRESH_LOCK_TTL = 15 * 60;
+// Rows per write transaction
+const WRITE_BATCH_SIZE = 500;
+
+interface SitemapVisit {
+  url: string;
+  parentUrl: string | null;
+  depth: number;
+  isIndex: boolean;
+  format?: SitemapFormat;
+  status: 'ok' | 'not-modified' | 'error';
+  entries?: SitemapUrl[];
+  // Entries were cut off by the URL limit
+  partial?: boolean;
+  etag?: string;
+  lastModified?: string;
+  error?: string;
+}
+
+interface PageFields {
+  lastmod: Date | null;
+  changefreq: string | null;
+  priority: number | null;
+}
+
+const toPageFields = (entry: SitemapUrl): PageFields => {
+  const lastmod = entry.lastmod ? new Date(String(entry.lastmod).trim()) : null;
+  const priority = entry.priority !== undefined ? parseFloat(String(entry.priority)) : NaN;
+  return {
+    lastmod: lastmod && !isNaN(lastmod.getTime()) ? lastmod : null,
+    changefreq: entry.changefreq ? String(entry.changefreq).trim().toLowerCase() : null,
+    priority: Number.isFinite(priority) ? priority : null,
+  };
+};
+
+const serializeField = (value: Date | string | number | null) =>
+  value instanceof Date ? value.toISOString() : value;
+
+/**
+ * Image, news and hreflang entries of a URL, or null when it has none
+ */
+const toExtensions = (entry: SitemapUrl): Prisma.InputJsonObject | null => {
+  const extensions = {
+    ...(entry.images ? { images: entry.images } : {}),
+    ...(entry.news ? { news: entry.news } : {}),
+    ...(entry.alternates ? { alternates: entry.alternates } : {}),
+  };
+  // Round-trip through JSON to drop the fields a sitemap left out
+  return Object.keys(extensions).length > 0 ? (JSON.parse(JSON.stringify(extensions)) as Prisma.InputJsonObject) : null;
+};
+
+// JSON with object keys sorted, since Postgres does not keep the key order of jsonb
+const canonicalJson = (value: unknown) =>
+  JSON.stringify(value ?? null, (_key, inner) =>
+    inner && typeof inner === 'object' && !Array.isArray(inner)
+      ? Object.fromEntries(Object.entries(inner).sort(([a], [b]) => a.localeCompare(b)))
+      : inner
+  );
+
+/**
+ * Fields whose values differ, as {field: {from, to}}
+ */
+function diffPageFields(previous: PageFields, next: PageFields): Record<string, { from: unknown; to: unknown }> {
+  const changes: Record<string, { from: unknown; to: unknown }> = {};
+  (Object.keys(next) as Array<keyof PageFields>).forEach(field => {
+    const from = serializeField(previous[field]);
+    const to = serializeField(next[field]);
+    if (from !== to) {
+      changes[field] = { from, to };
+    }
+  });
+  return changes;
+}
+
+/**
+ * Walk the sitemap trees from their roots, conditionally refetching each
+ * file. Unchanged and unreachable indexes fall back to the children stored
+ * last time. Each file is visited once, so indexes that list each other do
+ * not loop, and the walk stops once it holds `maxUrls` URLs.
+ */
+async function walkSitemaps(
+  roots: string[],
+  known: Map<string, Sitemap>,
+  maxUrls: number
+): Promise<{ visits: SitemapVisit[]; complete: boolean; truncated: boolean }> {
+  const storedChildren = (parentUrl: string) =>
+    Array.from(known.values()).filter(sitemap => sitemap.parentUrl === parentUrl).map(sitemap => sitemap.url);
+
+  const visits = new Map<string, SitemapVisit>();
+  const queue: Array<{ url: string; parentUrl: string | null; depth: number }> =
+    roots.map(url => ({ url, parentUrl: null, depth: 0 }));
+  let urlCount = 0;
+  let truncated = false;
+
+  while (queue.length > 0) {
+    if (visits.has(queue[0].url)) {
+      queue.shift();
+      continue;
+    }
+    if (visits.size >= MAX_SITEMAP_FILES || urlCount >= maxUrls) {
+      truncated = urlCount >= maxUrls;
+      break;
+    }
+
+    const { url, parentUrl, depth } = queue.shift()!;
+    const previous = known.get(url);
+    let children: string[] = [];
+
+    try {
+      const result = await fetchSitemapFile(url, previous || {});
+      if (result.notModified) {
+        visits.set(url, { url, parentUrl, depth, isIndex: previous?.isIndex || false, status: 'not-modified' });
+        urlCount += previous?.urlCount || 0;
+        children = previous?.isIndex ? storedChildren(url) : [];
+      } else {
+        const entries = result.data.urls.slice(0, maxUrls - urlCount);
+        visits.set(url, {
+          url,
+          parentUrl,
+          depth,
+          isIndex: result.data.isIndex,
+          format: result.data.format,
+          status: 'ok',
+          entries,
+          partial: entries.length < result.data.urls.length,
+          etag: result.etag,
+          lastModified: result.lastModified,
+        });
+        urlCount += entries.length;
+        truncated = truncated || entries.length < result.data.urls.length;
+        children = result.data.childSitemaps || [];
+      }
+    } catch (error) {
+      console.error(`Error refreshing sitemap ${url}:`, error);
+      visits.set(url, {
+        url,
+        parentUrl,
+        depth,
+        isIndex: previous?.isIndex || false,
+        status: 'error',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      // The URLs of an unreadable sitemap are kept, so they count towards the limit
+      urlCount += previous?.urlCount || 0;
+      // Keep refreshing the children of an index that could not be read
+      children = previous?.isIndex ? storedChildren(url) : [];
+    }
+
+    if (depth < MAX_SITEMAP_DEPTH) {
+      queue.push(...children.map(child => ({ url: child, parentUrl: url, depth: depth + 1 })));
+    } else if (children.length > 0) {
+      console.log(`Not following ${children.length} sitemaps below ${url}: nested deeper than ${MAX_SITEMAP_DEPTH} levels`);
+    }
+  }
+
+  return {
+    visits: Array.from(visits.values()),
+    complete: queue.every(item => visits.has(item.url)),
+    truncated,
+  };
+}
+
+/**
+ * Save the fetched state of each sitemap and drop the ones no longer listed
+ * @returns Sitemap ids by URL
+ */
+async function saveSitemaps(
+  userId: string,
+  visits: SitemapVisit[],
+  known: Map<string, Sitemap>,
+  complete: boolean
+): Promise<Map<string, string>> {
+  const now = new Date();
+
+  const saved = await db.$transaction(visits.map(visit => {
+    const fetched = visit.status === 'ok'
+      ? {
+        isIndex: visit.isIndex,
+        format: visit.format || 'xml',
+        // A file cut off by the URL limit is downloaded again next time
+        etag: visit.partial ? null : visit.etag ?? null,
+        lastModified: visit.partial ? null : visit.lastModified ?? null,
+        urlCount: visit.isIndex ? 0 : (visit.entries || []).length,
+        lastChangedAt: now,
+      }
+      : {};
+    const data = {
+      parentUrl: visit.parentUrl,
+      depth: visit.depth,
+      status: visit.status,
+      error: visit.error ?? null,
+      lastFetchedAt: now,
+      ...fetched,
+    };
+    return db.sitemap.upsert({
+      where: { userId_url: { userId, url: visit.url } },
+      create: { userId, url: visit.url, ...data },
+      update: data,
+    });
+  }));
+
+  // Only prune after a full walk; a capped walk did not see every sitemap
+  if (complete) {
+    const visited = new Set(visits.map(visit => visit.url));
+    const stale = Array.from(known.values()).filter(sitemap => !visited.has(sitemap.url));
+    if (stale.length > 0) {
+      await db.sitemap.deleteMany({ where: { id: { in: stale.map(sitemap => sitemap.id) } } });
+    }
+  }
+
+  return new Map(saved.map(sitemap => [sitemap.url, sitemap.id]));
+}
+
+async function inBatches<T>(items: T[], write: (batch: T[]) => Promise<unknown>): Promise<void> {
+  for (let i = 0; i < items.length; i += WRITE_BATCH_SIZE) {
+    await write(items.slice(i, i + WRITE_BATCH_SIZE));
+  }
+}
+
+/**
+ * The sitemaps to start a refresh from: the sitemap URL in settings, or
+ * those discovered from the website URL
+ */
+async function resolveSitemapRoots(
+  userId: string,
+  sitemapUrl?: string | null
+): Promise<{ roots: string[]; source: SitemapRefreshResult['source'] }> {
+  const settings = await db.settings.findUnique({ where: { userId }, select: { sitemapUrl: true, websiteUrl: true } });
+  const url = sitemapUrl || settings?.sitemapUrl;
+  if (url) {
+    return { roots: [url], source: 'settings' };
+  }
+
+  if (!settings?.websiteUrl) {
+    throw Errors.validation('Add a website or sitemap URL before refreshing the inventory');
+  }
+
+  const discovery = await discoverSitemaps(settings.websiteUrl);
+  if (discovery.source === 'none') {
+    throw new ApiError(
+      `No sitemap found for ${discovery.websiteUrl}. Add a Sitemap line to robots.txt or enter the sitemap URL.`,
+      404,
+      { url: discovery.websiteUrl }
+    );
+  }
+  return { roots: discovery.sitemaps, source: discovery.source };
+}
+
+/**
+ * Refresh the inventory from the user's sitemaps
+ * @param sitemapUrl - Sitemap to start from; defaults to the one in settings,
+ * or to discovery from the website URL when none is set
+ * @throws ApiError (409) when a refresh for the user is already running
+ */
+export async function refreshSitemapInventory(userId: string, sitemapUrl?: string | null): Promise<SitemapRefreshResult> {
+  const lockKey = `sitemap_refresh:${userId}`;
+  if (!(await redisClient.setIfAbsent(lockKey, true, REFRESH_LOCK_TTL))) {
+    throw new ApiError('A sitemap refresh is already running', 409);
+  }
+
+  try {
+    return await runRefresh(userId, sitemapUrl);
+  } finally {
+    await redisClient.delete(lockKey);
+  }
+}
+
+async function runRefresh(userId: string, sitemapUrl?: string | null): Promise<SitemapRefreshResult> {
+  const [{ roots, source }, limits] = await Promise.all([
+    resolveSitemapRoots(userId, sitemapUrl),
+    getPlanLimits(userId),
+  ]);
+  const known = new Map(
+    (await db.sitemap.findMany({ where: { userId } })).map(sitemap => [sitemap.url, sitemap])
+  );
+  const { visits, complete, truncated } = await walkSitemaps(roots, known, limits.sitemapUrls);
+
+  if (!visits.some(visit => visit.status !== 'error')) {
+    throw new ApiError(`Failed to fetch sitemap: ${visits[0]?.error || 'Unknown error'}`, 502, { url: roots[0] });
+  }
+
+  const sitemapIds = await saveSitemaps(userId, visits, known, complete);
+  const now = new Date();
+
+  // URLs listed by freshly downloaded sitemaps; the first listing wins
+  const listed = new Map<string, { fields: PageFields; extensions: Prisma.InputJsonObject | null; sitemapId: string }>();
+  visits
+    .filter(visit => visit.status === 'ok')
+    .forEach(visit => {
+      (visit.entries || []).forEach(entry => {
+        const url = String(entry.loc || '').trim();
+        if (url && !listed.has(url)) {
+          listed.set(url, { fields: toPageFields(entry), extensions: toExtensions(entry), sitemapId: sitemapIds.get(visit.url)! });
+        }
+      });
+    });
+
+  // Pages of sitemaps that were unchanged are still listed as before
+  const unchangedIds = visits.filter(visit => visit.status === 'not-modified').map(visit => sitemapIds.get(visit.url)!);
+  // Only sitemaps read in full can show a URL was removed; pages of
+  // unreadable sitemaps, or of ones the URL limit cut off, are kept
+  const fullyReadIds = new Set(
+    visits.filter(visit => visit.status === 'ok' && !visit.partial).map(visit => sitemapIds.get(visit.url)!)
+  );
+
+  const existing = await db.sitePage.findMany({
+    where: { userId },
+    select: { id: true, url: true, sitemapId: true, lastmod: true, changefreq: true, priority: true, extensions: true, removedAt: true },
+  });
+  const byUrl = new Map(existing.map(page => [page.url, page]));
+  const baseline = existing.length === 0;
+
+  type PageUpdate = { id: string; sitemapId: string; extensions: Prisma.InputJsonObject | null; fields?: PageFields };
+  const created: Prisma.SitePageCreateManyInput[] = [];
+  const restored: Array<PageUpdate & { url: string; fields: PageFields }> = [];
+  const changed: Array<PageUpdate & { url: string; fields: PageFields; details: Record<string, unknown> }> = [];
+  // Pages that moved to another sitemap or whose image/news/hreflang entries
+  // changed; neither is logged as a change
+  const touched: PageUpdate[] = [];
+  const seenIds: string[] = [];
+
+  listed.forEach(({ fields, extensions, sitemapId }, url) => {
+    const page = byUrl.get(url);
+    if (!page) {
+      created.push({ userId, url, sitemapId, ...fields, extensions: extensions ?? undefined, firstSeenAt: now, lastSeenAt: now });
+    } else if (page.removedAt) {
+      restored.push({ id: page.id, url, fields, extensions, sitemapId });
+    } else {
+      const details = diffPageFields(page, fields);
+      if (Object.keys(details).length > 0) {
+        changed.push({ id: page.id, url, fields, extensions, sitemapId, details });
+      } else if (page.sitemapId !== sitemapId || canonicalJson(page.extensions) !== canonicalJson(extensions)) {
+        touched.push({ id: page.id, sitemapId, extensions });
+      } else {
+        seenIds.push(page.id);
+      }
+    }
+  });
+
+  // Pages of pruned sitemaps have no sitemap left, and are gone once a full walk missed them
+  const removed = existing.filter(page =>
+    !page.removedAt && !listed.has(page.url) && (page.sitemapId ? fullyReadIds.has(page.sitemapId) : complete)
+  );
+
+  await inBatches(created, batch => db.sitePage.createMany({ data: batch, skipDuplicates: true }));
+  const updates: PageUpdate[] = [...restored, ...changed, ...touched];
+  await inBatches(updates, batch => db.$transaction(batch.map(update =>
+    db.sitePage.update({
+      where: { id: update.id },
+      data: {
+        sitemapId: update.sitemapId,
+        ...update.fields,
+        extensions: update.extensions ?? Prisma.JsonNull,
+        lastSeenAt: now,
+        removedAt: null,
+      },
+    })
+  )));
+  await inBatches(seenIds, batch => db.sitePage.updateMany({ where: { id: { in: batch } }, data: { lastSeenAt: now } }));
+  if (unchangedIds.length > 0) {
+    await db.sitePage.updateMany({
+      where: { userId, sitemapId: { in: unchangedIds }, removedAt: null },
+      data: { lastSeenAt: now },
+    });
+  }
+  await inBatches(removed, batch => db.sitePage.updateMany({
+    where: { id: { in: batch.map(page => page.id) } },
+    data: { removedAt: now },
+  }));
+
+  // The first import is the baseline, not a change
+  if (!baseline) {
+    const createdPages = created.length > 0
+      ? await db.sitePage.findMany({
+        where: { userId, url: { in: created.map(page => page.url) } },
+        select: { id: true, url: true },
+      })
+      : [];
+
+    const changes: Prisma.SitePageChangeCreateManyInput[] = [
+      ...[...createdPages, ...restored].map(page => ({ userId, pageId: page.id, url: page.url, type: 'added', detectedAt: now })),
+      ...removed.map(page => ({ userId, pageId: page.id, url: page.url, type: 'removed', detectedAt: now })),
+      ...changed.map(page => ({
+        userId,
+        pageId: page.id,
+        url: page.url,
+        type: 'changed',
+        details: page.details as Prisma.InputJsonValue,
+        detectedAt: now,
+      })),
+    ];
+    await inBatches(changes, batch => db.sitePageChange.createMany({ data: batch }));
+  }
+
+  const pageCount = await db.sitePage.count({ where: { userId, removedAt: null } });
+  const failed = visits
+    .filter(visit => visit.status === 'error')
+    .map(visit => ({ url: visit.url, error: visit.error || 'Unknown error' }));
+
+  console.log(
+    `Refreshed sitemap inventory for user ${userId}: ${pageCount} URLs, ` +
+    `${created.length + restored.length} added, ${removed.length} removed, ${changed.length} changed`
+  );
+
+  if (truncated) {
+    console.log(`Sitemap inventory for user ${userId} stopped at the plan limit of ${limits.sitemapUrls} URLs`);
+  }
+
+  return {
+    sitemapUrls: roots,
+    source,
+    fetched: visits.filter(visit => visit.status === 'ok').length,
+    notModified: unchangedIds.length,
+    failed,
+    pageCount,
+    added: created.length + restored.length,
+    removed: removed.length,
+    changed: changed.length,
+    baseline,
+    urlLimit: limits.sitemapUrls,
+    truncated,
+  };
+}
+
+/**
+ * Initialize sitemap data for a user
+ * @param userId - User ID
+ * @param sitemapUrl - URL of the sitemap; discovered from the website URL when omitted
+ * @returns If initialization was successful
+ */
+export async function initializeUserSitemap(userId: string, sitemapUrl?: string): Promise<boolean> {
+  try {
+    const result = await refreshSitemapInventory(userId, sitemapUrl);
+
+    // Cache the user's sitemap association
+    await redisClient.set(`user_sitemap:${userId}`, { url: result.sitemapUrls[0], urlCount: result.pageCount });
+
+    return true;
+  } catch (error) {
+    console.error(`Error initializing sitemap for user ${userId}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Refresh the inventory of every user with a sitemap or website URL, one user at a time
+ * @returns Users refreshed and users whose refresh failed
+ */
+export async function refreshAllSitemapInventories(): Promise<{ refreshed: number; failed: number }> {
+  const settings = await db.settings.findMany({
+    where: { OR: [{ sitemapUrl: { not: null } }, { websiteUrl: { not: null } }] },
+    select: { userId: true },
+  });
+
+  let refreshed = 0;
+  let failed = 0;
+  for (const { userId } of settings) {
+    try {
+      await refreshSitemapInventory(userId);
+      refreshed++;
+    } catch (error) {
+      console.error(`Error refreshing sitemap inventory for user ${userId}:`, error);
+      failed++;
+    }
+  }
+
+  return { refreshed, failed };
+}
+
+/**
+ * Summary of the user's sitemaps and how many URLs they list
+ */
+export async function getSitemapInventory(userId: string): Promise<SitemapInventory> {
+  const [settings, sitemaps, pageCount, removedCount, limits] = await Promise.all([
+    db.settings.findUnique({ where: { userId }, select: { sitemapUrl: true, websiteUrl: true } }),
+    db.sitemap.findMany({ where: { userId }, orderBy: [{ parentUrl: { sort: 'asc', nulls: 'first' } }, { url: 'asc' }] }),
+    db.sitePage.count({ where: { userId, removedAt: null } }),
+    db.sitePage.count({ where: { userId, removedAt: { not: null } } }),
+    getPlanLimits(userId),
+  ]);
+
+  const fetchedAt = sitemaps
+    .map(sitemap => sitemap.lastFetchedAt)
+    .filter((date): date is Date => date !== null)
+    .sort((a, b) => b.getTime() - a.getTime());
+
+  return {
+    sitemapUrl: settings?.sitemapUrl || null,
+    websiteUrl: settings?.websiteUrl || null,
+    sitemaps,
+    pageCount,
+    removedCount,
+    urlLimit: limits.sitemapUrls,
+    lastRefreshedAt: fetchedAt[0] || null,
+  };
+}
+
+const pageParams = (query: { page?: number; limit?: number }) => {
+  const page = Math.max(1, query.page || 1);
+  const limit = Math.min(500, Math.max(1, query.limit || 100));
+  return { page, limit };
+};
+
+/**
+ * Fetch a page of the inventory
+ */
+export async function querySitePages(userId: string, query: Partial<SitePageQuery> = {}): Promise<SitePageList> {
+  const { page, limit } = pageParams(query);
+  const where: Prisma.SitePageWhereInput = { userId };
+
+  if (query.search) where.url = { contains: query.search, mode: 'insensitive' };
+  if (query.status !== 'all') where.removedAt = query.status === 'removed' ? { not: null } : null;
+
+  const sort = query.sort || 'url';
+  const order = query.order || 'asc';
+  const nullable = sort === 'lastmod' || sort === 'priority';
+
+  const [count, pages] = await Promise.all([
+    db.sitePage.count({ where }),
+    db.sitePage.findMany({
+      where,
+      orderBy: [{ [sort]: nullable ? { sort: order, nulls: 'last' } : order }, { url: 'asc' }],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+  ]);
+
+  const totalPages = Math.ceil(count / limit);
+
+  return {
+    pages,
+    count,
+    pagination: { page, limit, totalPages, hasMore: page < totalPages },
+  };
+}
+
+/**
+ * Fetch a page of the change log, newest first
+ */
+export async function querySitePageChanges(
+  userId: string,
+  query: Partial<SitePageChangeQuery> = {}
+): Promise<SitePageChangeList> {
+  const { page, limit } = pageParams(query);
+  const where: Prisma.SitePageChangeWhereInput = { userId };
+
+  if (query.type) where.type = query.type;
+  if (query.since) where.detectedAt = { gte: query.since };
+
+  const [count, changes] = await Promise.all([
+    db.sitePageChange.count({ where }),
+    db.sitePageChange.findMany({
+      where,
+      orderBy: [{ detectedAt: 'desc' }, { url: 'asc' }],
+      skip: (page - 1) * limit,
+      take: limit,
+    }),
+  ]);
+
+  const totalPages = Math.ceil(count / limit);
+
+  return {
+    changes,
+    count,
+    pagination: { page, limit, totalPages, hasMore: page < totalPages },
+  };
+}
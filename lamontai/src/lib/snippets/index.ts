@@ -0,0 +1,486 @@
+/**
+ * Title and meta description CTR optimizer: scored variants for an article,
+ * a published page or the topic of a new article, the page's click-through
+ * rate against the rate expected at its position where Search Console data
+ * has been synced, and a history of rewrites so each one's CTR impact can be
+ * measured once Google shows the new snippet.
+ */
+
+import { z } from 'zod';
+import { Prisma, SnippetChange } from '@prisma/client';
+import { db } from '../db';
+import { Errors } from '../error-handler';
+import { getLLMProvider } from '../llm';
+import { getOwnedArticle, updateArticle } from '../article-service';
+import { pageLabel } from '../internal-links';
+import { expectedCtr, isoDate } from '../search-console';
+import { snippetChangeSchema, snippetHistoryQuerySchema, snippetVariantsSchema } from '../validation';
+import { SnippetScore, SnippetText, scoreSnippet } from './scoring';
+
+export * from './pixel-width';
+export * from './scoring';
+
+export type SnippetVariantsInput = z.infer<typeof snippetVariantsSchema>;
+export type SnippetChangeInput = z.infer<typeof snippetChangeSchema>;
+export type SnippetHistoryQuery = z.infer<typeof snippetHistoryQuerySchema>;
+
+/**
+ * Search Console totals for a page, or one query on it, over a window
+ */
+export interface CtrMetrics {
+  clicks: number;
+  impressions: number;
+  ctr: number;
+  // Average position weighted by impressions; null without impressions
+  position: number | null;
+  // CTR the click curve expects at the position, and the actual CTR as a share of it
+  expectedCtr: number | null;
+  ctrRatio: number | null;
+  // Days in the window with impressions
+  days: number;
+}
+
+export type CtrVerdict = 'below' | 'expected' | 'above';
+
+export interface SnippetPerformance {
+  url: string;
+  property: string;
+  window: { start: string; end: string; windowDays: number };
+  page: CtrMetrics;
+  keyword: CtrMetrics | null;
+  // How the page's CTR compares with the curve; null without impressions
+  verdict: CtrVerdict | null;
+}
+
+export interface ScoredSnippet extends SnippetText, SnippetScore {
+  // The title and description in use now
+  current: boolean;
+}
+
+export interface SnippetVariants {
+  keyword: string | null;
+  current: ScoredSnippet | null;
+  // Generated variants, best score first
+  variants: ScoredSnippet[];
+  performance: SnippetPerformance | null;
+}
+
+export type ImpactStatus = 'unavailable' | 'pending' | 'measuring' | 'measured';
+
+export interface SnippetImpact {
+  // unavailable without a URL or synced data; pending until Google has
+  // data for the days after the change; measuring until a full window has
+  status: ImpactStatus;
+  before: CtrMetrics | null;
+  after: CtrMetrics | null;
+  window: { start: string; end: string } | null;
+  // Difference in CTR, as a fraction
+  ctrChange: number | null;
+  // Relative change in CTR against the curve, so a move in position is not
+  // credited to the snippet
+  adjustedCtrChange: number | null;
+}
+
+export type SnippetChangeWithImpact = SnippetChange & { impact: SnippetImpact };
+
+const WINDOW_DAYS = 28;
+// Days after a change before Google usually shows the new snippet
+const RECRAWL_DAYS = 3;
+// CTR this far below or above the curve is worth acting on
+const LOW_CTR_RATIO = 0.7;
+const HIGH_CTR_RATIO = 1.3;
+const DEFAULT_HISTORY_LIMIT = 50;
+// Earlier rewrites of the same page shown to the model
+const PROMPT_HISTORY = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = (value: number, places: number) => Math.round(value * 10 ** places) / 10 ** places;
+
+const startOfDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+// Search Console reports a page with or without its trailing slash as given
+const pageVariants = (url: string) => [url, url.endsWith('/') ? url.slice(0, -1) : `${url}/`];
+
+const percent = (value: number) => `${round(value * 100, 1)}%`;
+
+function toCtrMetrics(clicks: number, impressions: number, position: number | null, days: number): CtrMetrics {
+  if (impressions === 0 || position === null) {
+    return { clicks, impressions, ctr: 0, position: null, expectedCtr: null, ctrRatio: null, days };
+  }
+  const ctr = clicks / impressions;
+  const expected = expectedCtr(position);
+  return {
+    clicks,
+    impressions,
+    ctr: round(ctr, 4),
+    position: round(position, 1),
+    expectedCtr: round(expected, 4),
+    ctrRatio: round(ctr / expected, 2),
+    days,
+  };
+}
+
+/**
+ * How a CTR compares with the click curve at its position
+ */
+export function ctrVerdict(metrics: CtrMetrics): CtrVerdict | null {
+  if (metrics.ctrRatio === null) return null;
+  if (metrics.ctrRatio < LOW_CTR_RATIO) return 'below';
+  return metrics.ctrRatio > HIGH_CTR_RATIO ? 'above' : 'expected';
+}
+
+async function loadSync(userId: string) {
+  const sync = await db.searchConsoleSync.findUnique({ where: { userId } });
+  return sync?.syncedThrough ? { property: sync.property, syncedThrough: sync.syncedThrough } : null;
+}
+
+/**
+ * Clicks, impressions and impression-weighted position for a page, or one
+ * query on it, over a window of synced days
+ */
+async function loadCtrMetrics(
+  userId: string,
+  property: string,
+  url: string,
+  start: Date,
+  end: Date,
+  query?: string
+): Promise<CtrMetrics> {
+  const [row] = await db.$queryRaw<Array<{ clicks: number | null; impressions: number | null; position: number | null; days: number }>>`
+    SELECT SUM("clicks")::int AS "clicks",
+      SUM("impressions")::int AS "impressions",
+      SUM("position" * "impressions") / NULLIF(SUM("impressions"), 0) AS "position",
+      COUNT(DISTINCT "date")::int AS "days"
+    FROM "SearchConsoleRow"
+    WHERE "userId" = ${userId} AND "property" = ${property}
+      AND "page" IN (${Prisma.join(pageVariants(url))})
+      AND "date" BETWEEN ${start}::date AND ${end}::date
+      ${query ? Prisma.sql`AND "query" = ${query}` : Prisma.empty}`;
+
+  return toCtrMetrics(row?.clicks ?? 0, row?.impressions ?? 0, row?.position ?? null, row?.days ?? 0);
+}
+
+/**
+ * The query that brought a page the most clicks over a window
+ */
+async function topQuery(userId: string, property: string, url: string, start: Date, end: Date): Promise<string | null> {
+  const [row] = await db.$queryRaw<Array<{ query: string }>>`
+    SELECT "query"
+    FROM "SearchConsoleRow"
+    WHERE "userId" = ${userId} AND "property" = ${property}
+      AND "page" IN (${Prisma.join(pageVariants(url))})
+      AND "date" BETWEEN ${start}::date AND ${end}::date
+    GROUP BY "query"
+    ORDER BY SUM("clicks") DESC, SUM("impressions") DESC
+    LIMIT 1`;
+  return row?.query ?? null;
+}
+
+/**
+ * A page's CTR over the last synced window against the CTR expected at its
+ * position, overall and for the keyword
+ * @returns null until the user's Search Console data has been synced
+ */
+export async function getSnippetPerformance(
+  userId: string,
+  url: string,
+  keyword?: string | null
+): Promise<SnippetPerformance | null> {
+  const sync = await loadSync(userId);
+  if (!sync) {
+    return null;
+  }
+
+  const end = sync.syncedThrough;
+  const start = addDays(end, -(WINDOW_DAYS - 1));
+  const [page, query] = await Promise.all([
+    loadCtrMetrics(userId, sync.property, url, start, end),
+    keyword ? loadCtrMetrics(userId, sync.property, url, start, end, keyword) : null,
+  ]);
+
+  return {
+    url,
+    property: sync.property,
+    window: { start: isoDate(start), end: isoDate(end), windowDays: WINDOW_DAYS },
+    page,
+    keyword: query,
+    verdict: ctrVerdict(page),
+  };
+}
+
+/**
+ * What the variants are written for: the current snippet, if any, and the
+ * subject and keyword to write about
+ * @throws ApiError (404) when the article is missing, (403) when it is not the user's
+ */
+async function resolveTarget(userId: string, input: SnippetVariantsInput) {
+  if (input.articleId) {
+    const article = await getOwnedArticle(userId, input.articleId);
+    const keywords = (article.keywords || '').split(',').map(keyword => keyword.trim()).filter(Boolean);
+    const latest = input.url
+      ? null
+      : await db.snippetChange.findFirst({
+        where: { userId, articleId: article.id, url: { not: null } },
+        orderBy: { appliedAt: 'desc' },
+        select: { url: true },
+      });
+    return {
+      subject: article.title,
+      url: input.url ?? latest?.url ?? null,
+      keyword: input.keyword || article.targetKeyword || keywords[0] || null,
+      current: { title: article.title, description: article.metaDescription || '' },
+    };
+  }
+
+  if (input.url) {
+    const page = await db.sitePage.findUnique({
+      where: { userId_url: { userId, url: input.url } },
+      select: { content: { select: { title: true, description: true } } },
+    });
+    const latest = await db.snippetChange.findFirst({
+      where: { userId, url: input.url },
+      orderBy: { appliedAt: 'desc' },
+    });
+    const current = latest
+      ? { title: latest.title, description: latest.description }
+      : page?.content?.title ? { title: page.content.title, description: page.content.description } : null;
+    return {
+      subject: pageLabel({ url: input.url, title: current?.title || '' }),
+      url: input.url,
+      keyword: input.keyword || null,
+      current,
+    };
+  }
+
+  return { subject: input.topic as string, url: null, keyword: input.keyword || input.topic || null, current: null };
+}
+
+function describePerformance(performance: SnippetPerformance | null): string {
+  const metrics = performance?.keyword?.impressions ? performance.keyword : performance?.page;
+  if (!metrics?.impressions || metrics.position === null || metrics.expectedCtr === null) {
+    return '';
+  }
+  const verdict = ctrVerdict(metrics);
+  const comparison = verdict === 'below'
+    ? 'well below'
+    : verdict === 'above' ? 'above' : 'close to';
+  return `In the last ${WINDOW_DAYS} days it had a ${percent(metrics.ctr)} click-through rate at average position ${metrics.position}, ${comparison} the ${percent(metrics.expectedCtr)} expected there.\n`;
+}
+
+function describeHistory(changes: SnippetChangeWithImpact[]): string {
+  const measured = changes.filter(change => change.impact.adjustedCtrChange !== null);
+  if (measured.length === 0) {
+    return '';
+  }
+  const lines = measured.map(change =>
+    `- "${change.title}" changed CTR by ${change.impact.adjustedCtrChange! >= 0 ? '+' : ''}${Math.round(change.impact.adjustedCtrChange! * 100)}% for its position`
+  );
+  return `Earlier rewrites and their effect:\n${lines.join('\n')}\n`;
+}
+
+function parseVariants(response: { variants?: unknown }, count: number): SnippetText[] {
+  const seen = new Set<string>();
+  const clean = (value: unknown) => (typeof value === 'string' ? value.replace(/"/g, '').replace(/\s+/g, ' ').trim() : '');
+
+  return (Array.isArray(response.variants) ? response.variants : [])
+    .map(entry => {
+      const { title, description } = (entry || {}) as { title?: unknown; description?: unknown };
+      return { title: clean(title), description: clean(description) };
+    })
+    .filter(variant => {
+      const key = `${variant.title}\u0000${variant.description}`.toLowerCase();
+      if (!variant.title || !variant.description || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, count);
+}
+
+/**
+ * Generate title and meta description variants for an article, a published
+ * page or a new topic, each scored on pixel width, keyword placement and
+ * click appeal. When the page's Search Console data has been synced, its CTR
+ * against the expected CTR and the impact of earlier rewrites go into the
+ * prompt.
+ * @throws ApiError (404) when the article is missing, (403) when it is not the user's
+ */
+export async function generateSnippetVariants(
+  userId: string,
+  input: SnippetVariantsInput,
+  signal?: AbortSignal
+): Promise<SnippetVariants> {
+  const target = await resolveTarget(userId, input);
+  const sync = target.url && !target.keyword ? await loadSync(userId) : null;
+  const keyword = target.keyword
+    ?? (sync && target.url
+      ? await topQuery(userId, sync.property, target.url, addDays(sync.syncedThrough, -(WINDOW_DAYS - 1)), sync.syncedThrough)
+      : null);
+
+  const [performance, history] = await Promise.all([
+    target.url ? getSnippetPerformance(userId, target.url, keyword) : null,
+    target.url || input.articleId
+      ? getSnippetHistory(userId, { url: target.url ?? undefined, articleId: input.articleId, limit: PROMPT_HISTORY })
+      : [],
+  ]);
+
+  const current = target.current
+    ? `The current title is "${target.current.title}" and the current meta description is "${target.current.description}".\n`
+    : '';
+
+  const response = await getLLMProvider().completeJson<{ variants?: unknown }>(
+    [
+      {
+        role: 'system',
+        content: 'You are an expert at writing titles and meta descriptions that earn clicks from search results. Your responses are always in valid JSON format.',
+      },
+      {
+        role: 'user',
+        content: `Write ${input.count} different title and meta description pairs for a page about "${target.subject}".
+    ${keyword ? `Target keyword: "${keyword}". Put it near the start of each title and use it in each description.` : ''}
+    ${current}${describePerformance(performance)}${describeHistory(history)}
+    Keep each title under 60 characters (about 580 pixels) and each description between 120 and 155 characters. Give each pair a different angle, such as a number, a question, a benefit or a checklist, and end each description with a reason to click.
+    Respond with JSON of the form {"variants": [{"title": "...", "description": "..."}]}.`,
+      },
+    ],
+    { task: 'snippet-variants', model: process.env.OPENAI_FAST_MODEL, temperature: 0.8, maxTokens: 120 * input.count + 100, signal }
+  );
+
+  const score = (snippet: SnippetText, isCurrent: boolean): ScoredSnippet => ({
+    ...snippet,
+    ...scoreSnippet(snippet, keyword ?? undefined),
+    current: isCurrent,
+  });
+
+  return {
+    keyword,
+    current: target.current ? score(target.current, true) : null,
+    variants: parseVariants(response, input.count)
+      .map(variant => score(variant, false))
+      .sort((a, b) => b.score - a.score),
+    performance,
+  };
+}
+
+/**
+ * A change's CTR in the window before it against the window starting once
+ * Google has had time to show the new snippet
+ */
+async function measureImpact(
+  change: SnippetChange,
+  sync: { property: string; syncedThrough: Date } | null
+): Promise<SnippetImpact> {
+  const baseline = change.baseline as unknown as SnippetPerformance | null;
+  const unavailable: SnippetImpact = {
+    status: 'unavailable',
+    before: baseline?.page ?? null,
+    after: null,
+    window: null,
+    ctrChange: null,
+    adjustedCtrChange: null,
+  };
+  if (!change.url || !sync) {
+    return unavailable;
+  }
+
+  const appliedOn = startOfDay(change.appliedAt);
+  const before = baseline?.property === sync.property
+    ? baseline.page
+    : await loadCtrMetrics(change.userId, sync.property, change.url, addDays(appliedOn, -WINDOW_DAYS), addDays(appliedOn, -1));
+
+  const start = addDays(appliedOn, RECRAWL_DAYS);
+  const fullEnd = addDays(start, WINDOW_DAYS - 1);
+  const end = fullEnd < sync.syncedThrough ? fullEnd : sync.syncedThrough;
+  if (end < start) {
+    return { ...unavailable, status: 'pending', before };
+  }
+
+  const after = await loadCtrMetrics(change.userId, sync.property, change.url, start, end);
+  if (after.impressions === 0) {
+    return { ...unavailable, status: 'pending', before, window: { start: isoDate(start), end: isoDate(end) } };
+  }
+
+  const comparable = before.impressions > 0;
+  return {
+    status: end < fullEnd ? 'measuring' : 'measured',
+    before,
+    after,
+    window: { start: isoDate(start), end: isoDate(end) },
+    ctrChange: comparable ? round(after.ctr - before.ctr, 4) : null,
+    adjustedCtrChange: comparable && before.ctr > 0 && before.expectedCtr && after.expectedCtr
+      ? round((after.ctr / after.expectedCtr) / (before.ctr / before.expectedCtr) - 1, 3)
+      : null,
+  };
+}
+
+/**
+ * The user's title and meta description changes, newest first, each with
+ * its measured CTR impact
+ */
+export async function getSnippetHistory(
+  userId: string,
+  query: Partial<SnippetHistoryQuery> = {}
+): Promise<SnippetChangeWithImpact[]> {
+  const filters: Prisma.SnippetChangeWhereInput[] = [];
+  if (query.articleId) filters.push({ articleId: query.articleId });
+  if (query.url) filters.push({ url: query.url });
+
+  const [changes, sync] = await Promise.all([
+    db.snippetChange.findMany({
+      where: { userId, ...(filters.length > 0 ? { OR: filters } : {}) },
+      orderBy: { appliedAt: 'desc' },
+      take: query.limit ?? DEFAULT_HISTORY_LIMIT,
+    }),
+    loadSync(userId),
+  ]);
+
+  return Promise.all(changes.map(async change => ({ ...change, impact: await measureImpact(change, sync) })));
+}
+
+/**
+ * Record a new title and meta description. An article is updated, with a
+ * revision; a page on the user's site is only recorded, as it is changed
+ * where it is published. The page's Search Console numbers up to now are
+ * kept as the baseline to measure the change against.
+ * @throws ApiError (400) when neither the title nor the description changes,
+ * (404) when the article is missing, (403) when it is not the user's
+ */
+export async function recordSnippetChange(userId: string, input: SnippetChangeInput): Promise<SnippetChangeWithImpact> {
+  const article = input.articleId ? await getOwnedArticle(userId, input.articleId) : null;
+  const previous = article
+    ? { title: article.title, description: article.metaDescription }
+    : (await resolveTarget(userId, { url: input.url, count: 1 })).current;
+
+  if (previous && previous.title === input.title && (previous.description || '') === input.description) {
+    throw Errors.validation('The title and meta description are unchanged');
+  }
+
+  const url = input.url ?? (article
+    ? (await resolveTarget(userId, { articleId: article.id, count: 1 })).url
+    : null);
+  const keyword = input.keyword ?? (article?.targetKeyword || null);
+  const baseline = url ? await getSnippetPerformance(userId, url, keyword) : null;
+
+  if (article) {
+    await updateArticle(article, { title: input.title, snippet: input.description, source: 'human' }, userId);
+  }
+
+  const change = await db.snippetChange.create({
+    data: {
+      userId,
+      articleId: article?.id,
+      url,
+      keyword,
+      title: input.title,
+      description: input.description,
+      previousTitle: previous?.title ?? null,
+      previousDescription: previous?.description ?? null,
+      score: scoreSnippet({ title: input.title, description: input.description }, keyword ?? undefined).score,
+      baseline: baseline ? (baseline as unknown as Prisma.InputJsonValue) : Prisma.JsonNull,
+    },
+  });
+
+  return { ...change, impact: await measureImpact(change, await loadSync(userId)) };
+}
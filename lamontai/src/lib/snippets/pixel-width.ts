@@ -0,0 +1,76 @@
+/**
+ * Pixel widths of text as Google renders it in search results. Titles are
+ * set in Arial at 20px and cut off past about 580px on desktop; descriptions
+ * in Arial at 14px over two lines of about 460px each. Widths are estimated
+ * from Arial's advance widths, which is close enough to predict truncation.
+ */
+
+export const TITLE_FONT_SIZE = 20;
+export const TITLE_MAX_WIDTH = 580;
+export const DESCRIPTION_FONT_SIZE = 14;
+export const DESCRIPTION_MAX_WIDTH = 920;
+
+// Arial advance widths in 1/1000 em for printable ASCII, from space (32) to tilde (126)
+const ASCII_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// Accented Latin letters are about as wide as an average lowercase letter
+const DEFAULT_WIDTH = 556;
+// CJK ideographs, kana and hangul are square
+const WIDE_WIDTH = 1000;
+const WIDE_CHARACTERS = /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\uff00-\uff60\uffe0-\uffe6]/;
+
+// Google appends an ellipsis to truncated text
+const ELLIPSIS = ' ...';
+
+function charWidth(char: string): number {
+  const code = char.charCodeAt(0);
+  if (code >= 32 && code <= 126) return ASCII_WIDTHS[code - 32];
+  return WIDE_CHARACTERS.test(char) ? WIDE_WIDTH : DEFAULT_WIDTH;
+}
+
+/**
+ * Rendered width of text in pixels at a font size
+ */
+export function textWidth(text: string, fontSize: number): number {
+  let units = 0;
+  for (const char of Array.from(text)) {
+    units += charWidth(char);
+  }
+  return Math.round((units * fontSize) / 1000);
+}
+
+/**
+ * The text as shown in search results: whole if it fits, otherwise cut at
+ * the last word that fits with an ellipsis after it
+ */
+export function truncateToWidth(text: string, maxWidth: number, fontSize: number): { displayed: string; truncated: boolean } {
+  const clean = text.replace(/\s+/g, ' ').trim();
+  if (textWidth(clean, fontSize) <= maxWidth) {
+    return { displayed: clean, truncated: false };
+  }
+
+  const room = maxWidth - textWidth(ELLIPSIS, fontSize);
+  const words = clean.split(' ');
+  let displayed = '';
+  for (const word of words) {
+    const next = displayed ? `${displayed} ${word}` : word;
+    if (textWidth(next, fontSize) > room) break;
+    displayed = next;
+  }
+
+  // A single word too wide for the line is cut mid-word
+  if (!displayed) {
+    for (const char of Array.from(clean)) {
+      if (textWidth(displayed + char, fontSize) > room) break;
+      displayed += char;
+    }
+  }
+
+  return { displayed: `${displayed.replace(/[\s,;:.\-–—|]+$/, '')}${ELLIPSIS}`, truncated: true };
+}
@@ -0,0 +1,181 @@
+import { lemmaTokens, lemmaWords } from '../keywords/lemmatize';
+import {
+  DESCRIPTION_FONT_SIZE,
+  DESCRIPTION_MAX_WIDTH,
+  TITLE_FONT_SIZE,
+  TITLE_MAX_WIDTH,
+  textWidth,
+  truncateToWidth,
+} from './pixel-width';
+
+/**
+ * A title and meta description as they would appear in search results
+ */
+export interface SnippetText {
+  title: string;
+  description: string;
+}
+
+/**
+ * Where a keyword appears in a title or description
+ */
+export interface KeywordPlacement {
+  // Every term of the keyword appears, in any order or form
+  allTerms: boolean;
+  // The keyword appears as written
+  exact: boolean;
+  // Pixels from the start of the text to the first keyword term; null
+  // unless every term appears
+  offset: number | null;
+  // Every term appears before the text is cut off
+  visible: boolean;
+}
+
+export interface SnippetFieldCheck {
+  width: number;
+  maxWidth: number;
+  truncated: boolean;
+  // The text as shown in search results
+  displayed: string;
+  keyword: KeywordPlacement | null;
+}
+
+export interface SnippetScore {
+  // 0-100
+  score: number;
+  checks: {
+    title: SnippetFieldCheck;
+    description: SnippetFieldCheck;
+  };
+  issues: string[];
+}
+
+// Verbs that give a reason to click when they start a sentence
+const CALL_TO_ACTION = /(?:^|[.!?]\s+)(?:learn|discover|find|get|see|compare|try|start|read|explore|download|check|build|use|save|avoid|boost|grow|improve|master|understand|follow)\b/i;
+// Numbers, years and bracketed qualifiers lift title CTR
+const TITLE_HOOK = /\d|[([][^)\]]+[)\]]|\?$/;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Where a keyword's terms appear in a text, measured in pixels at a font size
+ * @param displayed - The text as shown in search results, after any truncation
+ */
+export function keywordPlacement(text: string, displayed: string, keyword: string, fontSize: number): KeywordPlacement {
+  const terms = new Set(lemmaTokens(keyword));
+  const words = lemmaWords(text);
+  const allTerms = terms.size > 0 && Array.from(terms).every(term => words.some(word => word.lemma === term));
+  const shownLemmas = new Set(lemmaTokens(displayed));
+  const normalized = (value: string) => value.toLowerCase().replace(/\s+/g, ' ');
+
+  let offset: number | null = null;
+  const first = words.find(word => terms.has(word.lemma));
+  if (allTerms && first) {
+    const match = new RegExp(`(^|[^\\p{L}\\p{N}])${escapeRegExp(first.word)}`, 'iu').exec(text);
+    if (match) {
+      offset = textWidth(text.slice(0, match.index + match[1].length), fontSize);
+    }
+  }
+
+  return {
+    allTerms,
+    exact: normalized(text).includes(normalized(keyword.trim())),
+    offset,
+    visible: allTerms && Array.from(terms).every(term => shownLemmas.has(term)),
+  };
+}
+
+function checkField(text: string, keyword: string | undefined, maxWidth: number, fontSize: number): SnippetFieldCheck {
+  const { displayed, truncated } = truncateToWidth(text, maxWidth, fontSize);
+  return {
+    width: textWidth(text, fontSize),
+    maxWidth,
+    truncated,
+    displayed,
+    keyword: keyword ? keywordPlacement(text, displayed, keyword, fontSize) : null,
+  };
+}
+
+/**
+ * Score a title and meta description for how well they would draw clicks in
+ * search results. The title is worth 60 points: 20 for fitting before Google
+ * cuts it off, 10 for using the space, 25 for the keyword (more the nearer the
+ * start) and 5 for a number, bracket or question. The description is worth
+ * 40: 15 for fitting, 5 for length, 10 for the keyword, 5 for a call to
+ * action and 5 for adding to the title rather than repeating it.
+ * @param keyword - The query the snippet targets; without one the keyword
+ * points are given when there is nothing to check
+ */
+export function scoreSnippet(snippet: SnippetText, keyword?: string): SnippetScore {
+  const target = keyword?.trim() || undefined;
+  const title = checkField(snippet.title, target, TITLE_MAX_WIDTH, TITLE_FONT_SIZE);
+  const description = checkField(snippet.description, target, DESCRIPTION_MAX_WIDTH, DESCRIPTION_FONT_SIZE);
+  const issues: string[] = [];
+  let score = 0;
+
+  if (title.truncated) {
+    issues.push(`The title is ${title.width}px wide and is cut off after ${title.maxWidth}px`);
+  } else {
+    score += 20;
+  }
+  if (title.width >= title.maxWidth * 0.7) {
+    score += 10;
+  } else if (title.width >= title.maxWidth * 0.5) {
+    score += 5;
+  } else {
+    issues.push('The title is short; it leaves search result space unused');
+  }
+
+  if (!title.keyword) {
+    score += 25;
+  } else if (!title.keyword.allTerms) {
+    issues.push(`The title does not use "${target}"`);
+  } else if (!title.keyword.visible) {
+    issues.push(`"${target}" is in the part of the title that is cut off`);
+  } else {
+    score += title.keyword.exact ? 15 : 10;
+    // Full credit within the first quarter of the line, none at its end
+    const offset = title.keyword.offset ?? title.maxWidth;
+    score += Math.round(10 * Math.min(1, Math.max(0, (title.maxWidth - offset) / (title.maxWidth * 0.75))));
+    if (offset > title.maxWidth * 0.5) {
+      issues.push(`"${target}" comes late in the title; move it nearer the start`);
+    }
+  }
+
+  if (TITLE_HOOK.test(snippet.title.trim())) {
+    score += 5;
+  }
+
+  if (!snippet.description.trim()) {
+    issues.push('There is no meta description; Google will pick text from the page');
+  } else {
+    if (description.truncated) {
+      issues.push(`The meta description is ${description.width}px wide and is cut off after ${description.maxWidth}px`);
+    } else {
+      score += 15;
+    }
+    if (description.width >= description.maxWidth * 0.5) {
+      score += 5;
+    } else {
+      issues.push('The meta description is short; it leaves search result space unused');
+    }
+    if (!description.keyword || description.keyword.visible) {
+      score += 10;
+    } else {
+      issues.push(`The meta description does not show "${target}", which Google would highlight`);
+    }
+    if (CALL_TO_ACTION.test(snippet.description.trim())) {
+      score += 5;
+    } else {
+      issues.push('The meta description has no call to action');
+    }
+    const normalize = (value: string) => value.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+    if (!normalize(snippet.description).startsWith(normalize(snippet.title))) {
+      score += 5;
+    } else {
+      issues.push('The meta description repeats the title');
+    }
+  }
+
+  return { score, checks: { title, description }, issues };
+}
@@ -0,0 +1,181 @@
+/**
+ * Envelope encryption for secrets kept in the database, such as OAuth tokens.
+ *
+ * Each value is encrypted with its own random data key (AES-256-GCM), and the
+ * data key is encrypted ("wrapped") with a key-encryption key derived from a
+ * secret in TOKEN_ENCRYPTION_KEYS. That variable lists `id:secret` pairs
+ * separated by commas; the first encrypts new values and every listed key can
+ * still decrypt. To rotate, put a new key first, rewrap the stored values and
+ * then drop the old key.
+ *
+ * Stored form: enc:v1:<key id>:<wrapped data key>:<iv>:<auth tag>:<ciphertext>
+ */
+
+import { createCipheriv, createDecipheriv, hkdfSync, randomBytes } from 'crypto';
+
+const PREFIX = 'enc:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+interface EncryptionKey {
+  id: string;
+  key: Buffer;
+}
+
+/**
+ * TOKEN_ENCRYPTION_KEYS is missing, malformed or lacks the key a value was
+ * wrapped with. This is a deployment problem, not a fault in the stored value.
+ */
+export class TokenKeyConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TokenKeyConfigError';
+  }
+}
+
+let cachedKeys: { source: string; keys: EncryptionKey[] } | null = null;
+
+const encode = (buffer: Buffer) => buffer.toString('base64url');
+const decode = (value: string) => Buffer.from(value, 'base64url');
+
+/**
+ * Key-encryption keys from TOKEN_ENCRYPTION_KEYS, current key first
+ */
+function loadKeys(): EncryptionKey[] {
+  const source = process.env.TOKEN_ENCRYPTION_KEYS || '';
+  if (cachedKeys?.source === source) {
+    return cachedKeys.keys;
+  }
+
+  const keys = source
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map((entry): EncryptionKey => {
+      const separator = entry.indexOf(':');
+      const id = separator > 0 ? entry.slice(0, separator) : '';
+      const secret = entry.slice(separator + 1);
+      if (!KEY_ID_PATTERN.test(id) || secret.length < 16) {
+        throw new TokenKeyConfigError('TOKEN_ENCRYPTION_KEYS entries must be "id:secret" with a secret of at least 16 characters');
+      }
+      // Secrets may be passphrases, so stretch them into uniform keys
+      const key = Buffer.from(hkdfSync('sha256', secret, 'lamontai-token-encryption', id, KEY_BYTES));
+      return { id, key };
+    });
+
+  if (keys.length === 0) {
+    throw new TokenKeyConfigError('TOKEN_ENCRYPTION_KEYS is not set; it is needed to store OAuth tokens');
+  }
+  cachedKeys = { source, keys };
+  return keys;
+}
+
+function findKey(id: string): EncryptionKey {
+  const key = loadKeys().find(candidate => candidate.id === id);
+  if (!key) {
+    throw new TokenKeyConfigError(`Encryption key "${id}" is not in TOKEN_ENCRYPTION_KEYS`);
+  }
+  return key;
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv, { authTagLength: TAG_BYTES });
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer, aad: string): Buffer {
+  const decipher = createDecipheriv(ALGORITHM, key, iv, { authTagLength: TAG_BYTES });
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+// The data key is bound to the id of the key that wraps it
+function wrapDataKey(kek: EncryptionKey, dataKey: Buffer): string {
+  const { iv, tag, ciphertext } = seal(kek.key, dataKey, kek.id);
+  return encode(Buffer.concat([iv, tag, ciphertext]));
+}
+
+function unwrapDataKey(kek: EncryptionKey, wrapped: string): Buffer {
+  const bytes = decode(wrapped);
+  return open(
+    kek.key,
+    bytes.subarray(0, IV_BYTES),
+    bytes.subarray(IV_BYTES, IV_BYTES + TAG_BYTES),
+    bytes.subarray(IV_BYTES + TAG_BYTES),
+    kek.id
+  );
+}
+
+function parse(stored: string) {
+  const parts = stored.slice(PREFIX.length).split(':');
+  if (!stored.startsWith(PREFIX) || parts.length !== 5) {
+    throw new Error('Value is not envelope encrypted');
+  }
+  const [keyId, wrappedKey, iv, tag, ciphertext] = parts;
+  return { keyId, wrappedKey, iv, tag, ciphertext };
+}
+
+export function isEncrypted(stored: string): boolean {
+  return stored.startsWith(PREFIX);
+}
+
+/**
+ * The id of the key a stored value is wrapped with
+ */
+export function encryptionKeyId(stored: string): string | null {
+  return isEncrypted(stored) ? parse(stored).keyId : null;
+}
+
+/**
+ * The id of the key new values are wrapped with
+ */
+export function currentKeyId(): string {
+  return loadKeys()[0].id;
+}
+
+/**
+ * Encrypt a value with a new data key wrapped by the current key
+ * @param context - What the value belongs to, e.g. a user id; decrypting
+ * needs the same context, so a value copied to another record fails
+ */
+export function encryptToken(plaintext: string, context: string): string {
+  const kek = loadKeys()[0];
+  const dataKey = randomBytes(KEY_BYTES);
+  const { iv, tag, ciphertext } = seal(dataKey, Buffer.from(plaintext, 'utf8'), context);
+
+  return PREFIX + [kek.id, wrapDataKey(kek, dataKey), encode(iv), encode(tag), encode(ciphertext)].join(':');
+}
+
+/**
+ * Decrypt a value written by encryptToken
+ * @throws TokenKeyConfigError when the keys are not configured or lack the
+ * value's key
+ * @throws Error when the value or context was tampered with
+ */
+export function decryptToken(stored: string, context: string): string {
+  const { keyId, wrappedKey, iv, tag, ciphertext } = parse(stored);
+  const dataKey = unwrapDataKey(findKey(keyId), wrappedKey);
+  return open(dataKey, decode(iv), decode(tag), decode(ciphertext), context).toString('utf8');
+}
+
+/**
+ * Wrap a stored value's data key with the current key. The encrypted data
+ * itself is unchanged.
+ */
+export function rewrapToken(stored: string): string {
+  const { keyId, wrappedKey, iv, tag, ciphertext } = parse(stored);
+  const current = loadKeys()[0];
+  if (keyId === current.id) {
+    return stored;
+  }
+
+  const dataKey = unwrapDataKey(findKey(keyId), wrappedKey);
+  return PREFIX + [current.id, wrapDataKey(current, dataKey), iv, tag, ciphertext].join(':');
+}
@@ -0,0 +1,58 @@
+/**
+ * Article generation usage tracking (credits) and plan lookup
+ */
+
+import { db } from './db';
+import { PLAN_LIMITS, USER_PLANS } from './api-config';
+
+/**
+ * Count articles generated by a user since the start of the current month
+ */
+export async function getMonthlyArticleCount(userId: string): Promise<number> {
+  const now = new Date();
+  const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+
+  return db.generationUsage.count({
+    where: {
+      userId,
+      createdAt: { gte: monthStart },
+    },
+  });
+}
+
+/**
+ * Charge one article credit. Only call this once generation has completed.
+ */
+export async function recordArticleGeneration(
+  userId: string,
+  data: { topic: string; wordCount: number }
+): Promise<void> {
+  await db.generationUsage.create({
+    data: {
+      userId,
+      topic: data.topic,
+      wordCount: data.wordCount,
+    },
+  });
+}
+
+/**
+ * The plan of the user's active subscription, matched by name; users
+ * without one are on the free plan
+ */
+export async function getUserPlan(userId: string): Promise<string> {
+  const subscription = await db.subscription.findUnique({
+    where: { userId },
+    select: { status: true, plan: { select: { name: true } } },
+  });
+
+  const name = subscription?.status === 'active' ? subscription.plan.name.trim().toLowerCase() : '';
+  return Object.values(USER_PLANS).includes(name) ? name : USER_PLANS.FREE;
+}
+
+/**
+ * Limits of the user's plan
+ */
+export async function getPlanLimits(userId: string): Promise<typeof PLAN_LIMITS[string]> {
+  return PLAN_LIMITS[await getUserPlan(userId)];
+}
@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { KEYWORD_INTENTS, KEYWORD_SOURCES } from './keywords/types';
+import { ARTICLE_FORMATS } from './generation/formats';
+import { CONTENT_TASK_STATUSES, CONTENT_TASK_TYPES } from './content-tasks/types';
 
 /**
  * Validation schemas for API request data
@@ -31,9 +34,41 @@ export const articleUpdateSchema = z.object({
   content: z.string().min(50).optional(),
   snippet: z.string().max(300).optional(),
   keywords: z.array(z.string()).optional(),
-  status: z.enum(['draft', 'published', 'archived']).optional(),
+  status: z.enum(['planned', 'draft', 'published', 'archived']).optional(),
   seoScore: z.number().min(0).max(100).optional(),
   readabilityScore: z.number().min(0).max(100).optional(),
+  // Who produced this change, recorded on the revision it creates
+  source: z.enum(['human', 'ai']).optional(),
+});
+
+// Article revision diff query schema
+export const revisionDiffSchema = z.object({
+  from: z.string().min(1),
+  to: z.string().min(1).optional(),
+});
+
+// Article and content plan export query schema
+export const exportQuerySchema = z.object({
+  format: z.enum(['markdown', 'html', 'docx', 'pdf']).default('html'),
+});
+
+// On-page SEO analysis schema
+export const analyzeContentSchema = z.object({
+  url: z.string().url().optional(),
+  content: z.string().min(1).optional(),
+  title: z.string().max(300).optional(),
+  metaDescription: z.string().max(500).optional(),
+  // Accepts a list or a comma-separated string; the first keyword is the primary one
+  keywords: z.union([
+    z.array(z.string().min(1)),
+    z.string().transform(value => value.split(',').map(keyword => keyword.trim()).filter(Boolean)),
+  ]).pipe(z.array(z.string()).min(1).max(10)),
+  // Language for readability, e.g. "es", "pt-BR" or "Spanish"; detected when omitted
+  language: z.string().max(20).optional(),
+  aiSuggestions: z.boolean().optional(),
+}).refine(data => data.url || data.content, {
+  message: 'Provide either a URL or content to analyze',
+  path: ['content'],
 });
 
 // Generate content schema
@@ -44,17 +79,333 @@ export const generateContentSchema = z.object({
     tone: z.string().optional(),
     length: z.enum(['short', 'medium', 'long']).optional(),
     style: z.string().optional(),
+    voiceProfileId: z.string().optional(),
+    // Classified from the topic and keywords when omitted
+    intent: z.enum(KEYWORD_INTENTS).optional(),
+    format: z.enum(ARTICLE_FORMATS).optional(),
+    // Link up to this many of the user's own pages from the finished article
+    internalLinks: z.number().int().min(0).max(10).optional(),
+    // Language for readability, e.g. "es", "pt-BR" or "Spanish"; detected when omitted
+    language: z.string().max(20).optional(),
   }).optional(),
+  // Stream progress as Server-Sent Events instead of a single JSON response
+  stream: z.boolean().optional(),
+  // Write from an approved outline draft instead of generating a new outline
+  outlineId: z.string().optional(),
+});
+
+// Internal links returned by generation, recorded when the article is saved
+export const insertedLinksSchema = z.array(z.object({
+  id: z.string().uuid(),
+  url: z.string().url(),
+  anchorText: z.string().min(1).max(300),
+  paragraphIndex: z.number().int().min(0),
+  score: z.number().min(0).max(1),
+  reasons: z.array(z.string().max(500)).max(20),
+})).max(10);
+
+export const articleLinksCreateSchema = z.object({
+  maxLinks: z.number().int().min(1).max(10).default(3),
+  embeddings: z.boolean().default(false),
+});
+
+export const articleLinkReviewSchema = z.object({
+  status: z.enum(['accepted', 'rejected']),
+});
+
+// Outline draft schemas
+export const outlineSectionSchema = z.object({
+  heading: z.string().min(1).max(200),
+  level: z.union([z.literal(2), z.literal(3)]),
+});
+
+export const outlineCreateSchema = generateContentSchema.pick({
+  topic: true,
+  keywords: true,
+  options: true,
+});
+
+export const outlineUpdateSchema = z.object({
+  sections: z.array(outlineSectionSchema).min(1).max(30).optional(),
+  approved: z.boolean().optional(),
+});
+
+// Content plan schemas
+export const contentPlanCreateSchema = z.object({
+  title: z.string().min(3).max(100),
+  description: z.string().optional(),
+});
+
+export const contentPlanUpdateSchema = z.object({
+  title: z.string().min(3).max(100).optional(),
+  description: z.string().nullable().optional(),
+  status: z.enum(['draft', 'in-progress', 'completed']).optional(),
+});
+
+export const contentPlanListSchema = z.object({
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  status: z.enum(['draft', 'in-progress', 'completed']).optional(),
 });
 
-// Keyword research schema
+export const contentPlanGenerateSchema = z.object({
+  title: z.string().min(3).max(100).optional(),
+  startDate: z.coerce.date().optional(),
+  articleCount: z.number().int().min(4).max(31).optional(),
+});
+
+export const contentPlanArticlesSchema = z.object({
+  articleIds: z.array(z.string()).min(1).max(100),
+});
+
+// Keyword research schemas
 export const keywordResearchSchema = z.object({
-  query: z.string().min(2).max(100),
+  query: z.string().trim().min(2).max(100).optional(),
+  source: z.enum(KEYWORD_SOURCES).default('llm'),
+  // CSV text for the csv source
+  csv: z.string().max(5 * 1024 * 1024).optional(),
+  // Save the results into this keyword list
+  listId: z.string().optional(),
   options: z.object({
-    limit: z.number().min(5).max(100).optional(),
-    country: z.string().length(2).optional(),
+    limit: z.number().min(5).max(1000).optional(),
+    country: z.string().min(2).max(3).optional(),
     language: z.string().length(2).optional(),
   }).optional(),
+}).refine(data => data.source !== 'llm' || data.query, {
+  message: 'A keyword query is required',
+  path: ['query'],
+}).refine(data => data.source !== 'csv' || data.csv, {
+  message: 'CSV content is required',
+  path: ['csv'],
+});
+
+export const keywordListCreateSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().max(500).optional(),
+});
+
+export const keywordListUpdateSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  description: z.string().max(500).nullable().optional(),
+});
+
+const keywordFilterSchema = z.object({
+  search: z.string().max(100).optional(),
+  intent: z.enum(KEYWORD_INTENTS).optional(),
+  source: z.enum(KEYWORD_SOURCES).optional(),
+  minVolume: z.coerce.number().int().min(0).optional(),
+  maxVolume: z.coerce.number().int().min(0).optional(),
+  minDifficulty: z.coerce.number().int().min(0).max(100).optional(),
+  maxDifficulty: z.coerce.number().int().min(0).max(100).optional(),
+  // Only keywords whose metrics are older (true) or newer (false) than the freshness window
+  stale: z.enum(['true', 'false']).transform(value => value === 'true').optional(),
+  sort: z.enum(['keyword', 'volume', 'difficulty', 'cpc', 'intent', 'source', 'position', 'fetchedAt']).default('volume'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export const keywordListQuerySchema = keywordFilterSchema.extend({
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+export const keywordExportSchema = keywordFilterSchema.extend({
+  format: z.enum(['csv', 'json']).default('csv'),
+});
+
+export const keywordDeleteSchema = z.object({
+  ids: z.array(z.string()).min(1).max(500),
+});
+
+// Keyword clustering schemas
+export const keywordClusterSchema = z.object({
+  // Cluster a saved keyword list, or the keywords given
+  listId: z.string().optional(),
+  keywords: z.array(z.union([
+    z.string().min(1).max(200),
+    z.object({
+      keyword: z.string().min(1).max(200),
+      volume: z.number().min(0).nullable().optional(),
+      difficulty: z.number().min(0).max(100).nullable().optional(),
+      cpc: z.number().min(0).nullable().optional(),
+      intent: z.enum(KEYWORD_INTENTS).nullable().optional(),
+    }),
+  ])).max(2000).optional(),
+  threshold: z.number().min(0.1).max(0.9).optional(),
+  embeddings: z.boolean().optional(),
+  embeddingModel: z.string().max(100).optional(),
+}).refine(data => data.listId || data.keywords?.length, {
+  message: 'Provide a keyword list or keywords to cluster',
+  path: ['keywords'],
+});
+
+export const clusterPlanSchema = z.object({
+  clusters: z.array(z.object({
+    headTerm: z.string().min(1).max(200),
+    primaryKeyword: z.string().min(1).max(200),
+    secondaryKeywords: z.array(z.string().max(200)).max(50).default([]),
+    intent: z.enum(KEYWORD_INTENTS).optional(),
+    role: z.enum(['pillar', 'supporting', 'standalone']).optional(),
+  })).min(1).max(100),
+  planId: z.string().optional(),
+  title: z.string().min(3).max(100).optional(),
+  startDate: z.coerce.date().optional(),
+});
+
+export const keywordIntentSchema = z.object({
+  keywords: z.array(z.string().min(1).max(200)).min(1).max(500),
+  // Let the LLM settle labels the rules are unsure about
+  adjudicate: z.boolean().default(false),
+  minConfidence: z.number().min(0).max(1).optional(),
+});
+
+// Sitemap inventory schemas
+export const sitePageQuerySchema = z.object({
+  search: z.string().max(200).optional(),
+  // Pages currently listed, pages dropped from the sitemaps, or both
+  status: z.enum(['active', 'removed', 'all']).default('active'),
+  sort: z.enum(['url', 'lastmod', 'priority', 'firstSeenAt', 'lastSeenAt']).default('url'),
+  order: z.enum(['asc', 'desc']).default('asc'),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+export const sitePageChangeQuerySchema = z.object({
+  type: z.enum(['added', 'removed', 'changed']).optional(),
+  since: z.coerce.date().optional(),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+// Site link graph schemas
+export const siteGraphPageQuerySchema = z.object({
+  search: z.string().max(200).optional(),
+  // Sitemap pages nothing links to, pages no link path from the homepage
+  // reaches, pages more than three clicks deep, or pages that failed to load
+  filter: z.enum(['all', 'orphan', 'unreachable', 'deep', 'error']).default('all'),
+  sort: z.enum(['authority', 'inbound', 'outbound', 'depth', 'url']).default('authority'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  page: z.coerce.number().int().min(1).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+});
+
+export const siteGraphLinksQuerySchema = z.object({
+  url: z.string().url(),
+});
+
+// Keyword cannibalization schemas
+export const cannibalizationQuerySchema = z.object({
+  threshold: z.coerce.number().min(0.3).max(0.9).optional(),
+  // Include planned and draft articles as well as published ones
+  includeDrafts: z.enum(['true', 'false']).transform(value => value === 'true').default('true'),
+});
+
+export const cannibalizationCheckSchema = z.object({
+  topic: z.string().min(3).max(200),
+  keywords: z.array(z.string().min(1).max(200)).max(10).default([]),
+  // The article being written, so it is not reported against itself
+  excludeArticleId: z.string().optional(),
+  threshold: z.number().min(0.3).max(0.9).optional(),
+});
+
+// Search Console property schema
+export const searchConsolePropertySchema = z.object({
+  // A URL-prefix property such as https://example.com/, or sc-domain:example.com
+  property: z.string().min(1).max(2048),
+});
+
+// Content decay schemas
+export const contentDecayQuerySchema = z.object({
+  windowDays: z.coerce.number().int().min(7).max(90).optional(),
+  // Clicks a window a page needed before the decline to be tested
+  minClicks: z.coerce.number().int().min(1).max(100000).optional(),
+  minDecline: z.coerce.number().min(0.05).max(0.9).optional(),
+  // Skip the cached report and query Search Console again
+  refresh: z.enum(['true', 'false']).transform(value => value === 'true').default('false'),
+});
+
+export const refreshBriefSchema = z.object({
+  url: z.string().url(),
+  windowDays: z.number().int().min(7).max(90).optional(),
+});
+
+// Striking-distance opportunity schemas
+export const opportunityQuerySchema = z.object({
+  windowDays: z.coerce.number().int().min(7).max(90).optional(),
+  // Impressions a query needs on a page in the window
+  minImpressions: z.coerce.number().int().min(1).max(1000000).optional(),
+  minPosition: z.coerce.number().min(1).max(100).optional(),
+  maxPosition: z.coerce.number().min(1).max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(500).optional(),
+}).refine(
+  query => query.minPosition === undefined || query.maxPosition === undefined || query.minPosition <= query.maxPosition,
+  { message: 'minPosition must not be greater than maxPosition', path: ['minPosition'] }
+);
+
+export const opportunityActionSchema = z.object({
+  query: z.string().min(1).max(500),
+  page: z.string().url(),
+  windowDays: z.number().int().min(7).max(90).optional(),
+});
+
+export const opportunityPlanSchema = opportunityActionSchema.extend({
+  // Add the article to this plan instead of a new one
+  planId: z.string().optional(),
+});
+
+// Content task schemas
+export const contentTaskQuerySchema = z.object({
+  type: z.enum(CONTENT_TASK_TYPES).optional(),
+  status: z.enum(CONTENT_TASK_STATUSES).optional(),
+});
+
+export const contentTaskUpdateSchema = z.object({
+  status: z.enum(CONTENT_TASK_STATUSES),
+});
+
+// Title and meta description optimizer schemas
+export const snippetVariantsSchema = z.object({
+  // An article, a published page or the topic of an article not written yet
+  articleId: z.string().optional(),
+  url: z.string().url().optional(),
+  topic: z.string().min(2).max(200).optional(),
+  keyword: z.string().min(1).max(200).optional(),
+  count: z.number().int().min(1).max(10).default(5),
+}).refine(data => data.articleId || data.url || data.topic, {
+  message: 'Provide an article, a page URL or a topic',
+  path: ['articleId'],
+});
+
+export const snippetChangeSchema = z.object({
+  articleId: z.string().optional(),
+  // Where the page is published, to measure the change's CTR impact
+  url: z.string().url().optional(),
+  title: z.string().min(5).max(200),
+  description: z.string().min(1).max(300),
+  keyword: z.string().min(1).max(200).optional(),
+}).refine(data => data.articleId || data.url, {
+  message: 'Provide an article or a page URL',
+  path: ['articleId'],
+});
+
+export const snippetHistoryQuerySchema = z.object({
+  articleId: z.string().optional(),
+  url: z.string().url().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+// Internal link recommendation schema
+export const relevantLinksSchema = z.object({
+  topic: z.string().min(2).max(200).optional(),
+  keywords: z.array(z.string().min(1).max(200)).max(20).optional(),
+  // Draft to place the links in, as HTML or plain text
+  content: z.string().min(1).max(200000).optional(),
+  maxResults: z.number().int().min(1).max(20).default(5),
+  embeddings: z.boolean().default(false),
+  embeddingModel: z.string().max(100).optional(),
+  excludeUrls: z.array(z.string().url()).max(100).optional(),
+}).refine(data => data.topic || data.content, {
+  message: 'Provide a topic or draft content to find links for',
+  path: ['topic'],
 });
 
 // Content analysis schema
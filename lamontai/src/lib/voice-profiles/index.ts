@@ -0,0 +1,174 @@
+/**
+ * Brand voice profiles built from the pages on a user's own site
+ */
+
+import { Prisma, VoiceProfile } from '@prisma/client';
+import { db } from '../db';
+import { Errors } from '../error-handler';
+import { analyzeUrlContent, ContentAnalysis, getCachedSitemapData } from '../sitemap-utils';
+import type { GenerateArticleOptions } from '../ai-service';
+import { computeStyleMetrics, StyleMetrics } from './metrics';
+
+export * from './metrics';
+
+export interface WritingStyle {
+  topKeywords: string[];
+  averageWordCount: number;
+  headingCount: number;
+  analyzedArticles: number;
+  sampleHeadings: string[];
+  analyzedUrls: string[];
+  metrics: StyleMetrics;
+}
+
+/**
+ * The parts of a voice profile that generation prompts use
+ */
+export interface ArticleVoice {
+  name: string;
+  metrics: StyleMetrics;
+  sampleHeadings: string[];
+}
+
+/**
+ * Analyze the most recent pages in a sitemap to derive a writing style
+ * @param sitemapUrl - The user's sitemap
+ * @param maxArticles - Number of pages to analyze (capped at 10)
+ */
+export async function analyzeWritingStyle(
+  sitemapUrl: string,
+  maxArticles = 5
+): Promise<{ writingStyle: WritingStyle; analysisDetails: ContentAnalysis[] }> {
+  // Get cached sitemap data or fetch if not in cache
+  const sitemapData = await getCachedSitemapData(sitemapUrl);
+
+  // Analyze a few most recent articles to understand writing style
+  // Limit the number of articles to analyze to avoid overloading
+  const urlsToAnalyze = sitemapData.urls
+    .sort((a, b) => {
+      // Sort by lastmod date if available (most recent first)
+      if (a.lastmod && b.lastmod) {
+        return new Date(b.lastmod).getTime() - new Date(a.lastmod).getTime();
+      }
+      return 0;
+    })
+    .slice(0, Math.min(maxArticles, 10));
+
+  console.log(`Analyzing ${urlsToAnalyze.length} articles for writing style`);
+
+  // Analyze each URL in parallel
+  const analysisResults = await Promise.all(urlsToAnalyze.map(url => analyzeUrlContent(url.loc)));
+
+  // Count keyword frequency across pages
+  const keywordFrequency: Record<string, number> = {};
+  analysisResults.flatMap(result => result.keywords).forEach(keyword => {
+    keywordFrequency[keyword] = (keywordFrequency[keyword] || 0) + 1;
+  });
+
+  const topKeywords = Object.entries(keywordFrequency)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 20)
+    .map(([keyword]) => keyword);
+
+  const totalWordCount = analysisResults.reduce((sum, result) => sum + (result.wordCount || 0), 0);
+  const allHeadings = analysisResults.flatMap(result => result.headings);
+
+  return {
+    writingStyle: {
+      topKeywords,
+      averageWordCount: analysisResults.length > 0 ? Math.round(totalWordCount / analysisResults.length) : 0,
+      headingCount: allHeadings.length,
+      analyzedArticles: analysisResults.length,
+      sampleHeadings: allHeadings.slice(0, 10),
+      analyzedUrls: analysisResults.map(result => result.url),
+      metrics: computeStyleMetrics(analysisResults.map(result => ({
+        paragraphs: result.paragraphs || [],
+        headings: result.headings,
+        listItemCount: result.listItemCount || 0,
+        wordCount: result.wordCount || 0,
+      }))),
+    },
+    analysisDetails: analysisResults,
+  };
+}
+
+/**
+ * Save a writing style as a named voice profile.
+ * Re-analyzing under an existing name replaces that profile.
+ */
+export async function saveVoiceProfile(
+  userId: string,
+  name: string,
+  style: WritingStyle
+): Promise<VoiceProfile> {
+  const data = {
+    topKeywords: style.topKeywords,
+    averageWordCount: style.averageWordCount,
+    sampleHeadings: style.sampleHeadings,
+    analyzedUrls: style.analyzedUrls,
+    metrics: style.metrics as unknown as Prisma.InputJsonValue,
+  };
+
+  return db.voiceProfile.upsert({
+    where: { userId_name: { userId, name } },
+    create: { userId, name, ...data },
+    update: data,
+  });
+}
+
+/**
+ * List a user's voice profiles, newest first
+ */
+export async function listVoiceProfiles(userId: string): Promise<VoiceProfile[]> {
+  return db.voiceProfile.findMany({
+    where: { userId },
+    orderBy: { updatedAt: 'desc' },
+  });
+}
+
+/**
+ * Fetch a voice profile owned by the user
+ */
+export async function getVoiceProfile(userId: string, id: string): Promise<VoiceProfile | null> {
+  return db.voiceProfile.findFirst({ where: { id, userId } });
+}
+
+/**
+ * Delete a voice profile owned by the user
+ * @returns Whether a profile was deleted
+ */
+export async function deleteVoiceProfile(userId: string, id: string): Promise<boolean> {
+  const { count } = await db.voiceProfile.deleteMany({ where: { id, userId } });
+  return count > 0;
+}
+
+/**
+ * Convert a stored profile into the voice used by generation prompts
+ */
+export function toArticleVoice(profile: VoiceProfile): ArticleVoice {
+  return {
+    name: profile.name,
+    metrics: profile.metrics as unknown as StyleMetrics,
+    sampleHeadings: Array.isArray(profile.sampleHeadings) ? (profile.sampleHeadings as string[]) : [],
+  };
+}
+
+/**
+ * Resolve `options.voiceProfileId` into the voice the pipeline writes in
+ * @throws ApiError (404) when the profile does not exist or belongs to another user
+ */
+export async function resolveVoiceOptions(
+  userId: string,
+  options?: GenerateArticleOptions
+): Promise<GenerateArticleOptions | undefined> {
+  if (!options?.voiceProfileId) {
+    return options;
+  }
+
+  const profile = await getVoiceProfile(userId, options.voiceProfileId);
+  if (!profile) {
+    throw Errors.notFound('Voice profile');
+  }
+
+  return { ...options, voice: toArticleVoice(profile) };
+}
@@ -0,0 +1,232 @@
+/**
+ * Deterministic writing style metrics computed from published pages
+ */
+
+export interface StyleSample {
+  paragraphs: string[];
+  headings: string[];
+  listItemCount: number;
+  wordCount: number;
+}
+
+export interface SentenceLengthMetrics {
+  mean: number;
+  median: number;
+  p10: number;
+  p90: number;
+  // Share of sentences by length: <10, 10-19, 20-29 and 30+ words
+  distribution: { short: number; medium: number; long: number; veryLong: number };
+}
+
+export type Person = 'first' | 'second' | 'third';
+export type Tense = 'past' | 'present' | 'future';
+export type Formality = 'formal' | 'neutral' | 'casual';
+export type HeadingCasing = 'title' | 'sentence' | 'lower' | 'upper' | 'mixed';
+
+export interface StyleMetrics {
+  sentenceLength: SentenceLengthMetrics;
+  person: { dominant: Person; shares: Record<Person, number> };
+  tense: { dominant: Tense; shares: Record<Tense, number> };
+  formality: { label: Formality; score: number };
+  headingCasing: HeadingCasing;
+  listUsage: { itemsPer1000Words: number; frequency: 'rare' | 'moderate' | 'frequent' };
+}
+
+const PERSON_WORDS: Record<Person, RegExp> = {
+  first: /\b(i|me|my|mine|we|us|our|ours)\b/g,
+  second: /\b(you|your|yours)\b/g,
+  third: /\b(he|she|it|they|them|their|his|her|its)\b/g,
+};
+
+const TENSE_WORDS: Record<Tense, RegExp> = {
+  past: /\b(was|were|had|did|\w{3,}ed)\b/g,
+  present: /\b(is|are|am|has|have|does|do)\b/g,
+  future: /\b(will|shall|going to|won't)\b/g,
+};
+
+// Words that rarely start a title-cased word
+const MINOR_WORDS = new Set(['a', 'an', 'and', 'as', 'at', 'but', 'by', 'for', 'in', 'of', 'on', 'or', 'the', 'to', 'vs', 'with']);
+
+const round = (value: number, digits = 2): number => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const percentile = (sorted: number[], p: number): number =>
+  sorted.length === 0 ? 0 : sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+const countMatches = (text: string, pattern: RegExp): number =>
+  (text.match(pattern) || []).length;
+
+/**
+ * Turn raw counts into shares that sum to 1 and pick the largest
+ */
+function shares<K extends string>(counts: Record<K, number>, fallback: K): { dominant: K; shares: Record<K, number> } {
+  const keys = Object.keys(counts) as K[];
+  const total = keys.reduce((sum, key) => sum + counts[key], 0);
+  const result = {} as Record<K, number>;
+  keys.forEach(key => {
+    result[key] = total > 0 ? round(counts[key] / total) : 0;
+  });
+
+  const dominant = total > 0
+    ? keys.reduce((best, key) => (counts[key] > counts[best] ? key : best), keys[0])
+    : fallback;
+
+  return { dominant, shares: result };
+}
+
+/**
+ * Split text into sentences
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+(?=[A-Z0-9"“])/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => /\w/.test(sentence));
+}
+
+function sentenceLengthMetrics(sentences: string[]): SentenceLengthMetrics {
+  const lengths = sentences
+    .map(sentence => sentence.split(/\s+/).filter(Boolean).length)
+    .sort((a, b) => a - b);
+  const total = lengths.length || 1;
+
+  return {
+    mean: round(lengths.reduce((sum, length) => sum + length, 0) / total, 1),
+    median: percentile(lengths, 0.5),
+    p10: percentile(lengths, 0.1),
+    p90: percentile(lengths, 0.9),
+    distribution: {
+      short: round(lengths.filter(length => length < 10).length / total),
+      medium: round(lengths.filter(length => length >= 10 && length < 20).length / total),
+      long: round(lengths.filter(length => length >= 20 && length < 30).length / total),
+      veryLong: round(lengths.filter(length => length >= 30).length / total),
+    },
+  };
+}
+
+/**
+ * Score formality from 0 (casual) to 100 (formal)
+ */
+function formalityMetrics(text: string, sentences: string[]): { label: Formality; score: number } {
+  const words = text.split(/\s+/).filter(Boolean);
+  if (words.length === 0) {
+    return { label: 'neutral', score: 50 };
+  }
+
+  const per100 = (count: number) => (count / words.length) * 100;
+  const contractions = per100(countMatches(text, /\b\w+'(s|re|ve|ll|d|t|m)\b/gi));
+  const exclamations = (countMatches(text, /!/g) / Math.max(sentences.length, 1)) * 100;
+  const secondPerson = per100(countMatches(text.toLowerCase(), PERSON_WORDS.second));
+  const averageWordLength = words.reduce((sum, word) => sum + word.replace(/\W/g, '').length, 0) / words.length;
+
+  const score = Math.max(0, Math.min(100, Math.round(
+    50
+    + (averageWordLength - 4.7) * 15
+    - contractions * 8
+    - exclamations * 0.5
+    - secondPerson * 2
+  )));
+
+  return { label: score >= 65 ? 'formal' : score <= 40 ? 'casual' : 'neutral', score };
+}
+
+/**
+ * Classify how a single heading is capitalised
+ */
+function headingCase(heading: string): HeadingCasing {
+  const words = heading.split(/\s+/).filter(word => /[a-z]/i.test(word));
+  if (words.length === 0) {
+    return 'mixed';
+  }
+  if (heading === heading.toUpperCase()) {
+    return 'upper';
+  }
+  if (heading === heading.toLowerCase()) {
+    return 'lower';
+  }
+
+  const capitalised = words.filter(word => /^[^a-z]*[A-Z]/.test(word));
+  const significant = words.filter((word, index) => index === 0 || !MINOR_WORDS.has(word.toLowerCase()));
+  if (words.length > 1 && significant.every(word => /^[^a-z]*[A-Z]/.test(word))) {
+    return 'title';
+  }
+  return capitalised.length <= Math.max(1, Math.ceil(words.length / 4)) ? 'sentence' : 'mixed';
+}
+
+function headingCasingMetrics(headings: string[]): HeadingCasing {
+  const counts: Record<HeadingCasing, number> = { title: 0, sentence: 0, lower: 0, upper: 0, mixed: 0 };
+  headings.forEach(heading => counts[headingCase(heading)]++);
+
+  const [casing, count] = (Object.entries(counts) as Array<[HeadingCasing, number]>)
+    .sort((a, b) => b[1] - a[1])[0];
+  // Without a clear majority the site has no consistent convention
+  return count > headings.length / 2 ? casing : 'mixed';
+}
+
+/**
+ * Compute style metrics across a set of analyzed pages
+ */
+export function computeStyleMetrics(samples: StyleSample[]): StyleMetrics {
+  const text = samples.flatMap(sample => sample.paragraphs).join(' ');
+  const lowerText = text.toLowerCase();
+  const sentences = splitSentences(text);
+
+  const wordCount = samples.reduce((sum, sample) => sum + sample.wordCount, 0);
+  const listItems = samples.reduce((sum, sample) => sum + sample.listItemCount, 0);
+  const itemsPer1000Words = wordCount > 0 ? round((listItems / wordCount) * 1000, 1) : 0;
+
+  return {
+    sentenceLength: sentenceLengthMetrics(sentences),
+    person: shares<Person>({
+      first: countMatches(lowerText, PERSON_WORDS.first),
+      second: countMatches(lowerText, PERSON_WORDS.second),
+      third: countMatches(lowerText, PERSON_WORDS.third),
+    }, 'third'),
+    tense: shares<Tense>({
+      past: countMatches(lowerText, TENSE_WORDS.past),
+      present: countMatches(lowerText, TENSE_WORDS.present),
+      future: countMatches(lowerText, TENSE_WORDS.future),
+    }, 'present'),
+    formality: formalityMetrics(text, sentences),
+    headingCasing: headingCasingMetrics(samples.flatMap(sample => sample.headings)),
+    listUsage: {
+      itemsPer1000Words,
+      frequency: itemsPer1000Words >= 15 ? 'frequent' : itemsPer1000Words >= 5 ? 'moderate' : 'rare',
+    },
+  };
+}
+
+const PERSON_LABELS: Record<Person, string> = {
+  first: 'the first person (we/I)',
+  second: 'the second person, addressing the reader as "you"',
+  third: 'the third person',
+};
+
+const CASING_LABELS: Record<HeadingCasing, string> = {
+  title: 'Title Case',
+  sentence: 'sentence case',
+  lower: 'lower case',
+  upper: 'UPPER CASE',
+  mixed: 'a consistent case',
+};
+
+/**
+ * Render style metrics as writing instructions for generation prompts
+ */
+export function describeStyle(metrics: StyleMetrics): string {
+  const { sentenceLength, listUsage } = metrics;
+  const lists = listUsage.frequency === 'frequent'
+    ? 'Use bulleted or numbered lists often.'
+    : listUsage.frequency === 'moderate'
+    ? 'Use lists where they help scanning.'
+    : 'Prefer prose over lists.';
+
+  return [
+    `Write in ${PERSON_LABELS[metrics.person.dominant]}, mostly in the ${metrics.tense.dominant} tense, with a ${metrics.formality.label} register.`,
+    `Aim for an average sentence length of about ${Math.round(sentenceLength.mean)} words, mostly between ${sentenceLength.p10} and ${sentenceLength.p90}.`,
+    `Write headings in ${CASING_LABELS[metrics.headingCasing]}.`,
+    lists,
+  ].join(' ');
+}
@@ -147,9 +147,11 @@ export async function middleware(request: NextRequest) {
                         pathname.startsWith('/favicon.ico');
   
   // Public API routes that don't require auth
+  // Scheduled job routes check CRON_SECRET themselves
   const isPublicApiRoute = pathname === '/api/auth/register' || 
                            pathname === '/api/auth/login' || 
-                           pathname === '/api/health';
+                           pathname === '/api/health' ||
+                           pathname.startsWith('/api/cron/');
 
   if (isStaticAsset) {
     return NextResponse.next();